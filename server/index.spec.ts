@@ -0,0 +1,121 @@
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createServer, parseTrustProxy } from "./index";
+
+// Stands in for Django: answers every request with what it received
+let backend: http.Server;
+let backendUrl: string;
+let spaDir: string;
+
+const listen = (handler: http.RequestListener | ReturnType<typeof createServer>) =>
+  new Promise<http.Server>(resolve => {
+    const server = http.createServer(handler);
+    server.listen(0, "127.0.0.1", () => resolve(server));
+  });
+
+const urlOf = (server: http.Server) => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+const close = (server: http.Server) => new Promise(resolve => server.close(resolve));
+
+beforeAll(async () => {
+  spaDir = fs.mkdtempSync(path.join(os.tmpdir(), "dfs-spa-"));
+  fs.mkdirSync(path.join(spaDir, "assets"));
+  fs.writeFileSync(path.join(spaDir, "index.html"), "<!doctype html><div id=\"root\"></div>");
+  fs.writeFileSync(path.join(spaDir, "assets", "index-3f2a1b.js"), "console.log('app');");
+  fs.writeFileSync(path.join(spaDir, "robots.txt"), "User-agent: *");
+
+  backend = await listen((req, res) => {
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ method: req.method, url: req.url, headers: req.headers }));
+  });
+  backendUrl = urlOf(backend);
+});
+
+afterAll(async () => {
+  await close(backend);
+  fs.rmSync(spaDir, { recursive: true, force: true });
+});
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  server = await listen(createServer({ apiTarget: backendUrl, spaDir, sandbox: false, trustProxy: false }));
+  baseUrl = urlOf(server);
+});
+
+afterEach(async () => {
+  await close(server);
+});
+
+describe("production server", () => {
+  it("should answer health checks without caching", async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(await response.json()).toMatchObject({ status: "ok" });
+  });
+
+  it("should cache hashed assets for a year and 404 the missing ones", async () => {
+    const asset = await fetch(`${baseUrl}/assets/index-3f2a1b.js`);
+    expect(asset.status).toBe(200);
+    expect(asset.headers.get("Cache-Control")).toBe("public, max-age=31536000, immutable");
+
+    const missing = await fetch(`${baseUrl}/assets/index-old.js`, { headers: { Accept: "text/html" } });
+    expect(missing.status).toBe(404);
+    expect(await missing.text()).not.toContain("<div id=\"root\">");
+  });
+
+  it("should revalidate other files and serve the SPA shell for client-side routes", async () => {
+    const robots = await fetch(`${baseUrl}/robots.txt`);
+    expect(robots.headers.get("Cache-Control")).toBe("no-cache");
+
+    const route = await fetch(`${baseUrl}/teacher/upload`, { headers: { Accept: "text/html" } });
+    expect(route.status).toBe(200);
+    expect(route.headers.get("Cache-Control")).toBe("no-cache");
+    expect(await route.text()).toContain("<div id=\"root\">");
+
+    const json = await fetch(`${baseUrl}/teacher/upload`, { headers: { Accept: "application/json" } });
+    expect(json.status).toBe(404);
+  });
+
+  it("should forward /api with its path and append the client to X-Forwarded-For", async () => {
+    const response = await fetch(`${baseUrl}/api/documents/?page=2`, {
+      headers: { "X-Forwarded-For": "203.0.113.9", "X-Forwarded-Proto": "https", Connection: "keep-alive" },
+    });
+    const received = await response.json();
+
+    expect(received.method).toBe("GET");
+    expect(received.url).toBe("/api/documents/?page=2");
+    expect(received.headers.host).toBe(new URL(backendUrl).host);
+    // The client's claim is kept for the backend to judge, never taken as the address
+    expect(received.headers["x-forwarded-for"]).toBe("203.0.113.9, 127.0.0.1");
+    // Without a trusted proxy the client cannot claim HTTPS either
+    expect(received.headers["x-forwarded-proto"]).toBe("http");
+  });
+
+  it("should answer 502 when the backend is down", async () => {
+    const down = await listen(createServer({ apiTarget: "http://127.0.0.1:1", sandbox: false }));
+    try {
+      const response = await fetch(`${urlOf(down)}/api/documents/`);
+      expect(response.status).toBe(502);
+    } finally {
+      await close(down);
+    }
+  });
+});
+
+describe("parseTrustProxy", () => {
+  it("should trust no proxy unless one is configured", () => {
+    expect(parseTrustProxy(undefined)).toBe(false);
+    expect(parseTrustProxy("")).toBe(false);
+    expect(parseTrustProxy("false")).toBe(false);
+    expect(parseTrustProxy("1")).toBe(1);
+    expect(parseTrustProxy("loopback, 10.0.0.0/8")).toBe("loopback, 10.0.0.0/8");
+  });
+});
@@ -0,0 +1,90 @@
+import express from "express";
+import path from "path";
+import { createApiProxy } from "./proxy";
+import { createSandboxApi } from "./sandbox";
+
+export interface ServerOptions {
+  // Django backend that /api is forwarded to, without the /api suffix
+  apiTarget?: string;
+  // Built SPA to serve; leave unset when a CDN serves the static files
+  spaDir?: string;
+  // Answer /api from the in-memory sandbox instead of the Django backend
+  sandbox?: boolean;
+  // Express "trust proxy": the proxies in front of us whose X-Forwarded-* headers count
+  trustProxy?: boolean | number | string;
+}
+
+/**
+ * TRUST_PROXY is off by default, so clients cannot pick their own address
+ * with X-Forwarded-For. Set it to the number of proxy hops or to their
+ * subnets, e.g. "1" or "loopback, 10.0.0.0/8".
+ */
+export const parseTrustProxy = (value: string | undefined): boolean | number | string => {
+  const setting = value?.trim() ?? "";
+  if (setting === "" || setting === "false") return false;
+  return /^\d+$/.test(setting) ? Number(setting) : setting;
+};
+
+// Vite puts content-hashed files here, so they can be cached forever
+const HASHED_ASSETS_PATH = "/assets";
+
+export function createServer({
+  apiTarget = process.env.API_PROXY_TARGET || "http://localhost:8000",
+  spaDir,
+  sandbox = process.env.SANDBOX_API === "true",
+  trustProxy = parseTrustProxy(process.env.TRUST_PROXY),
+}: ServerOptions = {}) {
+  const app = express();
+
+  app.disable("x-powered-by");
+  // Only the configured load balancers may set the client address and protocol
+  app.set("trust proxy", trustProxy);
+
+  app.get("/health", (_req, res) => {
+    res.set("Cache-Control", "no-store");
+    res.json({
+      status: "ok",
+      uptime: Math.round(process.uptime()),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // No body parsing before the proxy: uploads and downloads stream straight through
+  app.use("/api", sandbox ? createSandboxApi() : createApiProxy(apiTarget));
+
+  if (spaDir) {
+    app.use(
+      HASHED_ASSETS_PATH,
+      express.static(path.join(spaDir, HASHED_ASSETS_PATH), {
+        immutable: true,
+        maxAge: "1y",
+      }),
+    );
+    // A missing script must not get the HTML shell back
+    app.use(HASHED_ASSETS_PATH, (_req, res) => {
+      res.sendStatus(404);
+    });
+
+    app.use(
+      express.static(spaDir, {
+        index: false,
+        setHeaders: (res) => {
+          // Files outside /assets keep their names between releases
+          res.setHeader("Cache-Control", "no-cache");
+        },
+      }),
+    );
+
+    // History API fallback: client-side routes all load the SPA shell
+    app.use((req, res, next) => {
+      if ((req.method !== "GET" && req.method !== "HEAD") || !req.accepts("html")) {
+        return next();
+      }
+
+      res.setHeader("Cache-Control", "no-cache");
+      res.sendFile(path.join(spaDir, "index.html"));
+    });
+  }
+
+  return app;
+}
@@ -0,0 +1,28 @@
+import "dotenv/config";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createServer } from "./index";
+
+// The build puts this file in dist/server and the SPA in dist/spa
+const distDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+const app = createServer({ spaDir: path.join(distDir, "spa") });
+const port = Number(process.env.PORT) || 3000;
+
+const server = app.listen(port, () => {
+  console.log(`Digital Filing System listening on http://localhost:${port}`);
+  if (process.env.SANDBOX_API === "true") {
+    console.log("Serving /api from the in-memory sandbox backend");
+  } else {
+    console.log(`Proxying /api to ${process.env.API_PROXY_TARGET || "http://localhost:8000"}`);
+  }
+});
+
+// Finish in-flight requests before exiting so deploys do not cut off uploads
+const shutdown = (signal: string) => {
+  console.log(`${signal} received, shutting down`);
+  server.close(() => process.exit(0));
+};
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
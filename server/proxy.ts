@@ -0,0 +1,76 @@
+import http from "http";
+import https from "https";
+import type { RequestHandler } from "express";
+
+// Connection-level headers that must not be forwarded by a proxy (RFC 9110 §7.6.1)
+const HOP_BY_HOP_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+]);
+
+const forwardableHeaders = (headers: http.IncomingHttpHeaders | http.OutgoingHttpHeaders) =>
+  Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name, value]) => value !== undefined && !HOP_BY_HOP_HEADERS.has(name.toLowerCase()),
+    ),
+  );
+
+const forwardedFor = (chain: string | undefined, clientAddress: string | undefined) =>
+  [chain, clientAddress].filter(Boolean).join(", ");
+
+/**
+ * Stream requests through to the backend, keeping the original path, so
+ * /api/documents/ on this server becomes <target>/api/documents/
+ */
+export function createApiProxy(target: string): RequestHandler {
+  const base = new URL(target);
+  const transport = base.protocol === "https:" ? https : http;
+  const basePath = base.pathname.replace(/\/$/, "");
+
+  return (req, res) => {
+    const upstream = transport.request(
+      {
+        protocol: base.protocol,
+        hostname: base.hostname,
+        port: base.port,
+        method: req.method,
+        path: `${basePath}${req.originalUrl}`,
+        headers: {
+          ...forwardableHeaders(req.headers),
+          host: base.host,
+          // The backend decides how many of these hops to trust; ours is the last one
+          "x-forwarded-for": forwardedFor(req.get("x-forwarded-for"), req.socket.remoteAddress),
+          "x-forwarded-host": req.get("host"),
+          "x-forwarded-proto": req.protocol,
+        },
+      },
+      (upstreamRes) => {
+        res.status(upstreamRes.statusCode ?? 502);
+        res.set(forwardableHeaders(upstreamRes.headers));
+        upstreamRes.pipe(res);
+      },
+    );
+
+    upstream.on("error", (error) => {
+      console.error(`Proxy error for ${req.method} ${req.originalUrl}:`, error.message);
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      res.status(502).json({ error: "The document service is unavailable. Please try again shortly." });
+    });
+
+    // Stop the backend request if the browser goes away, e.g. a cancelled upload
+    res.on("close", () => {
+      if (!res.writableFinished) upstream.destroy();
+    });
+
+    req.pipe(upstream);
+  };
+}
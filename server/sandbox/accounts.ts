@@ -0,0 +1,1209 @@
+import express, { Router } from "express";
+import {
+  type TeacherStatus,
+  changePasswordRequestSchema,
+  invitationAcceptRequestSchema,
+  invitationCreateRequestSchema,
+  loginRequestSchema,
+  otpSendRequestSchema,
+  otpVerificationRequestSchema,
+  passkeyLoginRequestSchema,
+  passkeyRegistrationRequestSchema,
+  passkeyRenameRequestSchema,
+  passwordResetConfirmRequestSchema,
+  passwordResetRequestSchema,
+  totpConfirmRequestSchema,
+} from "../../shared/api";
+import { PasswordContext, passwordErrors } from "../../shared/passwordPolicy";
+import { SANDBOX_OTP } from "./seed";
+import { generateTotpSecret, otpauthUrl, verifyTotp } from "./totp";
+import {
+  SUPPORTED_ALGORITHMS,
+  WebAuthnError,
+  clientChallenge,
+  expectedOrigin,
+  relyingPartyId,
+  verifyAssertion,
+  verifyRegistration,
+} from "./webauthn";
+import { InvitationRecord, SandboxStore, UserRecord, extensionOf, fullName, now } from "./store";
+import {
+  accountUserJson,
+  activityJson,
+  documentJson,
+  invitationJson,
+  passkeyJson,
+  preferencesJson,
+  sessionJson,
+  teacherJson,
+  userJson,
+} from "./serializers";
+import {
+  apiBase,
+  currentSession,
+  currentUser,
+  forbidden,
+  idParam,
+  invalid,
+  isMultipart,
+  listResponse,
+  notFound,
+  parseBody,
+  readForm,
+  requestMeta,
+  requireAdmin,
+  requireUser,
+} from "./http";
+
+const PASSKEY_TIMEOUT_MS = 5 * 60 * 1000;
+const TEACHER_STORAGE_LIMIT_MB = 1024;
+
+// What the admin's password policy says about a new password
+const policyErrors = (store: SandboxStore, password: unknown, context: PasswordContext): string[] =>
+  typeof password === "string"
+    ? passwordErrors(password, store.securitySettings.passwordPolicy, context)
+    : ["This field is required."];
+
+const bodyContext = (body: Record<string, unknown>): PasswordContext => ({
+  firstName: typeof body.first_name === "string" ? body.first_name : undefined,
+  lastName: typeof body.last_name === "string" ? body.last_name : undefined,
+  email: typeof body.email === "string" ? body.email : undefined,
+});
+
+// 429 with Retry-After, the way DRF answers a throttled request
+const accountLocked = (res: express.Response, lockedUntil: number) => {
+  const seconds = Math.ceil((lockedUntil - Date.now()) / 1000);
+  res.set("Retry-After", String(seconds)).status(429).json({
+    detail: `Too many failed sign-in attempts. Try again in ${Math.ceil(seconds / 60)} minutes.`,
+    code: "account_locked",
+    locked_until: new Date(lockedUntil).toISOString(),
+  });
+};
+
+const REUSED_PASSWORD = "You cannot reuse one of your recent passwords.";
+
+const requiredErrors = (body: Record<string, unknown>, fields: string[]) =>
+  Object.fromEntries(fields
+    .filter(field => typeof body[field] !== "string" || !(body[field] as string).trim())
+    .map(field => [field, ["This field is required."]]));
+
+/**
+ * Authentication, profiles, teacher management and the dashboards
+ */
+export function accountsRoutes(store: SandboxStore): Router {
+  const router = Router();
+
+  const accountJson = (req: express.Request, user: UserRecord) => ({
+    user: accountUserJson(store, user, apiBase(req)),
+    preferences: preferencesJson(store, user),
+  });
+
+  const startSession = (req: express.Request, user: UserRecord, message: string) => {
+    store.pendingLogins.delete(user.id);
+    store.pendingOtps.delete(user.id);
+    user.lastLogin = now();
+    store.log(user, "LOGIN", "Signed in", requestMeta(req));
+    return {
+      ...store.issueTokens(user.id, requestMeta(req)),
+      user: accountUserJson(store, user, apiBase(req)),
+      message,
+    };
+  };
+
+  const sendLoginCode = (user: UserRecord) => {
+    store.pendingOtps.set(user.id, SANDBOX_OTP);
+    console.info(`[sandbox] Verification code for ${user.email}: ${SANDBOX_OTP}`);
+  };
+
+  // Stands in for the invitation email; the link opens the client's accept page
+  const sendInvitation = (req: express.Request, invitation: InvitationRecord) => {
+    console.info(`[sandbox] Invitation for ${invitation.email}: ${expectedOrigin(req)}/accept-invite/${invitation.token}`);
+  };
+
+  // Only approved, active accounts may sign in
+  const loginError = (user: UserRecord): string | undefined => {
+    const teacher = store.teacherForUser(user.id);
+    if (teacher?.status === "pending") return "Your account is pending admin approval.";
+    if (teacher?.status === "rejected") return "Your registration was not approved.";
+    if (teacher?.status === "suspended" || !user.isActive) return "Your account has been suspended. Contact the administrator.";
+    return undefined;
+  };
+
+  // Authentication
+
+  router.post("/accounts/auth/login/", (req, res) => {
+    const credentials = parseBody(req, res, loginRequestSchema);
+    if (!credentials) return;
+    const user = store.findUserByEmail(credentials.email);
+
+    const lockedUntil = store.lockedUntil(credentials.email);
+    if (lockedUntil) {
+      accountLocked(res, lockedUntil);
+      return;
+    }
+    if (!user || user.password !== credentials.password) {
+      const failure = store.recordLoginFailure(credentials.email);
+      if (failure.lockedUntil) {
+        if (user) {
+          store.log(user, "ACCOUNT_LOCKED", `Locked after ${store.securitySettings.lockoutThreshold} failed sign-ins`, {
+            ...requestMeta(req),
+            targetType: "user",
+            targetId: user.id,
+            targetName: fullName(user),
+            severity: "CRITICAL",
+          });
+        }
+        accountLocked(res, failure.lockedUntil);
+        return;
+      }
+      const remaining = store.securitySettings.lockoutThreshold - failure.attempts;
+      res.status(400).json({
+        error: store.securitySettings.lockoutThreshold > 0 && remaining <= 2
+          ? `Invalid email or password. ${remaining} ${remaining === 1 ? "attempt" : "attempts"} left before the account is locked.`
+          : "Invalid email or password",
+      });
+      return;
+    }
+    store.clearLoginFailures(user.email);
+
+    const error = loginError(user);
+    if (error) {
+      forbidden(res, error);
+      return;
+    }
+    if (store.passwordLoginBlocked(user)) {
+      forbidden(res, "Admin accounts must sign in with a passkey.");
+      return;
+    }
+
+    // An email code is only sent up front when there is no authenticator app to offer first
+    const methods = store.twoFactorMethods(user);
+    if (methods.length > 0) {
+      store.pendingLogins.add(user.id);
+      if (methods[0] === "email") sendLoginCode(user);
+
+      const { id, profile_picture, ...details } = userJson(store, user, apiBase(req));
+      res.json({
+        requires_otp: true,
+        methods,
+        user_id: id,
+        ...details,
+        profile_picture,
+        message: methods[0] === "email"
+          ? "Verification code sent to your email"
+          : "Enter the code from your authenticator app",
+      });
+      return;
+    }
+
+    res.json(startSession(req, user, "Login successful"));
+  });
+
+  router.post("/accounts/auth/verify-otp/", (req, res) => {
+    const body = parseBody(req, res, otpVerificationRequestSchema);
+    if (!body) return;
+    const user = store.findUser(Number(body.user_id));
+    const method = body.method ?? "email";
+
+    // A recovery code stands in for whichever method the user cannot reach
+    const methods = user ? store.twoFactorMethods(user) : [];
+    const verified = user
+      && store.pendingLogins.has(user.id)
+      && (method === "recovery"
+        ? methods.length > 0 && store.redeemRecoveryCode(user, body.otp)
+        : methods.includes(method) && (method === "totp"
+          ? verifyTotp(user.totpSecret ?? "", body.otp)
+          : store.pendingOtps.get(user.id) === body.otp));
+    if (!verified) {
+      res.status(400).json({ error: "Invalid or expired verification code" });
+      return;
+    }
+
+    if (method === "recovery") {
+      // ERROR is the backend severity the activity log shows as HIGH
+      store.log(user, "RECOVERY_CODE_USED", `Signed in with a recovery code (${user.recoveryCodes.hashes.length} left)`, {
+        ...requestMeta(req),
+        severity: "ERROR",
+      });
+    }
+    res.json(startSession(req, user, "OTP verified successfully"));
+  });
+
+  router.post("/accounts/auth/send-otp/", (req, res) => {
+    const body = parseBody(req, res, otpSendRequestSchema);
+    if (!body) return;
+    const user = store.findUser(Number(body.user_id));
+
+    if (!user || !store.pendingLogins.has(user.id)) {
+      res.status(400).json({ error: "Sign in again to get a new code" });
+      return;
+    }
+    if (!store.twoFactorMethods(user).includes("email")) {
+      forbidden(res, "Your account must sign in with an authenticator app.");
+      return;
+    }
+
+    sendLoginCode(user);
+    res.json({ message: "Verification code sent to your email" });
+  });
+
+  // Passkeys are discoverable, so the browser offers every passkey it holds for this site
+  router.post("/accounts/auth/passkey/options/", (req, res) => {
+    res.json({
+      challenge: store.issuePasskeyChallenge(),
+      rpId: relyingPartyId(expectedOrigin(req)),
+      timeout: PASSKEY_TIMEOUT_MS,
+      userVerification: "preferred",
+      allowCredentials: [],
+    });
+  });
+
+  // A passkey is something the user has and is (or knows), so it skips the OTP step
+  router.post("/accounts/auth/passkey/", (req, res) => {
+    const body = parseBody(req, res, passkeyLoginRequestSchema);
+    if (!body) return;
+    const { credential } = body;
+
+    const challenge = clientChallenge(credential.response.clientDataJSON);
+    if (!challenge || !store.redeemPasskeyChallenge(challenge)) {
+      res.status(400).json({ error: "The passkey challenge has expired. Try again." });
+      return;
+    }
+    const passkey = store.passkeys.find(item => item.credentialId === credential.rawId);
+    const user = passkey && store.findUser(passkey.userId);
+    if (!user) {
+      res.status(400).json({ error: "This passkey is not registered with any account." });
+      return;
+    }
+
+    const error = loginError(user);
+    if (error) {
+      forbidden(res, error);
+      return;
+    }
+
+    try {
+      passkey.signCount = verifyAssertion(credential, { challenge, origin: expectedOrigin(req) }, passkey);
+    } catch (verifyError) {
+      if (!(verifyError instanceof WebAuthnError)) throw verifyError;
+      res.status(400).json({ error: verifyError.message });
+      return;
+    }
+
+    passkey.lastUsedAt = now();
+    res.json(startSession(req, user, "Login successful"));
+  });
+
+  router.post("/accounts/auth/refresh/", (req, res) => {
+    const tokens = store.rotateRefreshToken(String(req.body?.refresh ?? ""));
+    if (!tokens) {
+      res.status(401).json({ detail: "Token is invalid or expired", code: "token_not_valid" });
+      return;
+    }
+    res.json(tokens);
+  });
+
+  // Ends the session server-side, so its refresh token stops working too
+  router.post("/accounts/auth/logout/", requireUser, (req, res) => {
+    store.revokeSession(currentSession(res).id);
+    store.log(currentUser(res), "LOGOUT", "Signed out", requestMeta(req));
+    res.json({ message: "Logout successful" });
+  });
+
+  router.post("/accounts/auth/forgot-password/", (req, res) => {
+    const body = parseBody(req, res, passwordResetRequestSchema);
+    if (!body) return;
+    const user = store.findUserByEmail(body.email);
+    if (!user) {
+      invalid(res, { email: ["No account found with this email address."] });
+      return;
+    }
+
+    store.pendingOtps.set(user.id, SANDBOX_OTP);
+    console.info(`[sandbox] Password reset code for ${user.email}: ${SANDBOX_OTP}`);
+    res.json({ user_id: user.id, message: "A reset code has been sent to your email" });
+  });
+
+  router.post("/accounts/auth/reset-password/", (req, res) => {
+    const body = parseBody(req, res, passwordResetConfirmRequestSchema);
+    if (!body) return;
+    const { user_id, otp, password } = body;
+    const user = store.findUser(Number(user_id));
+
+    if (!user || store.pendingOtps.get(user.id) !== otp) {
+      res.status(400).json({ error: "Invalid or expired reset code" });
+      return;
+    }
+    const errors = policyErrors(store, password, user);
+    if (store.reusesPassword(user, password)) errors.push(REUSED_PASSWORD);
+    if (errors.length > 0) {
+      invalid(res, { password: errors });
+      return;
+    }
+
+    store.pendingOtps.delete(user.id);
+    store.setPassword(user, password);
+    res.json({ message: "Password reset successfully" });
+  });
+
+  router.post("/accounts/auth/change-password/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    const body = parseBody(req, res, changePasswordRequestSchema);
+    if (!body) return;
+    const { current_password, new_password } = body;
+
+    if (current_password !== user.password) {
+      invalid(res, { current_password: ["Current password is incorrect."] });
+      return;
+    }
+    const errors = policyErrors(store, new_password, user);
+    if (store.reusesPassword(user, new_password)) errors.push(REUSED_PASSWORD);
+    if (errors.length > 0) {
+      invalid(res, { new_password: errors });
+      return;
+    }
+
+    store.setPassword(user, new_password);
+    res.json({ message: "Password changed successfully" });
+  });
+
+  router.post("/accounts/teacher-registration/", (req, res) => {
+    if (!store.systemSettings.registrationEnabled) {
+      forbidden(res, "Registration is currently disabled.");
+      return;
+    }
+
+    const body = req.body ?? {};
+    const errors: Record<string, string[]> = requiredErrors(body, ["email", "first_name", "last_name"]);
+    if (typeof body.email === "string" && store.findUserByEmail(body.email)) {
+      errors.email = ["A user with this email already exists."];
+    }
+    const passwordProblems = policyErrors(store, body.password, bodyContext(body));
+    if (passwordProblems.length > 0) {
+      errors.password = passwordProblems;
+    }
+    if (Object.keys(errors).length > 0) {
+      invalid(res, errors);
+      return;
+    }
+
+    const approved = !store.systemSettings.requireAdminApproval;
+    const user = store.addUser({
+      email: body.email.trim(),
+      password: body.password,
+      firstName: body.first_name.trim(),
+      lastName: body.last_name.trim(),
+      role: "teacher",
+      isActive: true,
+      phoneNumber: body.phone_number || undefined,
+    });
+    store.addTeacher(user, approved ? "active" : "pending");
+
+    res.status(201).json({
+      message: approved
+        ? "Registration successful. You can now sign in."
+        : "Registration successful. Your account is pending admin approval.",
+    });
+  });
+
+  // Profile
+
+  router.get("/accounts/profile/", requireUser, (req, res) => {
+    res.json(accountJson(req, currentUser(res)));
+  });
+
+  router.put("/accounts/profile/", requireUser, async (req, res) => {
+    const user = currentUser(res);
+    let userFields: Record<string, unknown> = req.body?.user ?? {};
+    let preferenceFields: Record<string, unknown> = req.body?.preferences ?? {};
+
+    // Picture changes arrive as multipart with dotted field names
+    if (isMultipart(req)) {
+      const form = await readForm(req);
+      const prefixed = (prefix: string) => Object.fromEntries(Object.entries(form.fields)
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, value]) => [key.slice(prefix.length), value]));
+
+      userFields = prefixed("user.");
+      preferenceFields = Object.fromEntries(Object.entries(prefixed("preferences."))
+        .map(([key, value]) => [key, value === "true" ? true : value === "false" ? false : Number(value)]));
+
+      const picture = form.files["user.profile_picture"];
+      if (picture) {
+        if (!["jpg", "jpeg", "png", "gif"].includes(extensionOf(picture.name))) {
+          invalid(res, { profile_picture: ["Upload a valid image."] });
+          return;
+        }
+        user.profilePicture = { data: picture.data, contentType: picture.type || "image/jpeg" };
+      } else if (userFields.remove_profile_picture === "true") {
+        user.profilePicture = undefined;
+      }
+    }
+
+    if (typeof userFields.email === "string" && userFields.email !== user.email) {
+      const existing = store.findUserByEmail(userFields.email);
+      if (existing && existing.id !== user.id) {
+        invalid(res, { email: ["A user with this email already exists."] });
+        return;
+      }
+      user.email = userFields.email;
+    }
+    if (typeof userFields.first_name === "string") user.firstName = userFields.first_name;
+    if (typeof userFields.last_name === "string") user.lastName = userFields.last_name;
+    if (typeof userFields.phone_number === "string") user.phoneNumber = userFields.phone_number;
+    if (typeof userFields.bio === "string") user.bio = userFields.bio;
+
+    const preferences = user.preferences;
+    if (typeof preferenceFields.two_factor_enabled === "boolean") {
+      if (store.securitySettings.twoFactorRequired && !preferenceFields.two_factor_enabled) {
+        invalid(res, { two_factor_enabled: ["Two-factor authentication is required by the administrator."] });
+        return;
+      }
+      preferences.twoFactorEnabled = preferenceFields.two_factor_enabled;
+    }
+    if (typeof preferenceFields.session_timeout_override === "number") {
+      if (preferenceFields.session_timeout_override > store.systemSettings.sessionTimeout) {
+        invalid(res, {
+          session_timeout_override: [`Cannot exceed the system limit of ${store.systemSettings.sessionTimeout} minutes.`],
+        });
+        return;
+      }
+      preferences.sessionTimeoutOverride = preferenceFields.session_timeout_override;
+    }
+    const toggles = {
+      email_notifications: "emailNotifications",
+      document_shared_notifications: "documentSharedNotifications",
+      system_notifications: "systemNotifications",
+      security_notifications: "securityNotifications",
+    } as const;
+    Object.entries(toggles).forEach(([field, key]) => {
+      if (typeof preferenceFields[field] === "boolean") preferences[key] = preferenceFields[field] as boolean;
+    });
+    preferences.updatedAt = now();
+
+    res.json(accountJson(req, user));
+  });
+
+  router.get("/media/profile-pictures/:id", (req, res) => {
+    const picture = store.findUser(idParam(req))?.profilePicture;
+    if (!picture) {
+      notFound(res);
+      return;
+    }
+    res.type(picture.contentType).send(picture.data);
+  });
+
+  // Authenticator app
+
+  // The sandbox cannot draw QR codes, so qr_code stays empty and the client offers the otpauth link instead
+  router.post("/accounts/2fa/totp/setup/", requireUser, (_req, res) => {
+    const user = currentUser(res);
+    user.pendingTotpSecret = generateTotpSecret();
+    res.json({
+      secret: user.pendingTotpSecret,
+      otpauth_url: otpauthUrl(user.pendingTotpSecret, user.email, store.systemSettings.siteName),
+      qr_code: null,
+    });
+  });
+
+  router.post("/accounts/2fa/totp/confirm/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    const body = parseBody(req, res, totpConfirmRequestSchema);
+    if (!body) return;
+
+    if (!user.pendingTotpSecret) {
+      invalid(res, { code: ["Start the authenticator setup again."] });
+      return;
+    }
+    if (!verifyTotp(user.pendingTotpSecret, body.code)) {
+      invalid(res, { code: ["The code is incorrect or has expired."] });
+      return;
+    }
+
+    user.totpSecret = user.pendingTotpSecret;
+    user.pendingTotpSecret = undefined;
+    store.log(user, "UPDATE_USER", "Enrolled an authenticator app", { ...requestMeta(req), severity: "WARNING" });
+    res.json({ message: "Authenticator app enabled" });
+  });
+
+  router.delete("/accounts/2fa/totp/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    if (user.role === "admin" && store.securitySettings.adminTotpRequired) {
+      forbidden(res, "Admin accounts must keep an authenticator app.");
+      return;
+    }
+
+    user.totpSecret = undefined;
+    store.log(user, "UPDATE_USER", "Removed their authenticator app", { ...requestMeta(req), severity: "WARNING" });
+    res.json({ message: "Authenticator app removed" });
+  });
+
+  // Recovery codes
+
+  const recoveryStatusJson = (user: UserRecord) => ({
+    remaining: user.recoveryCodes?.hashes.length ?? 0,
+    generated_at: user.recoveryCodes?.generatedAt ?? null,
+  });
+
+  router.get("/accounts/2fa/recovery-codes/", requireUser, (_req, res) => {
+    res.json(recoveryStatusJson(currentUser(res)));
+  });
+
+  router.post("/accounts/2fa/recovery-codes/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    const codes = store.issueRecoveryCodes(user);
+    store.log(user, "GENERATE_RECOVERY_CODES", "Generated new recovery codes", { ...requestMeta(req), severity: "WARNING" });
+    res.json({ codes, generated_at: user.recoveryCodes.generatedAt });
+  });
+
+  // Passkeys
+
+  const ownPasskey = (req: express.Request, res: express.Response) =>
+    store.passkeys.find(passkey => passkey.id === idParam(req) && passkey.userId === currentUser(res).id);
+
+  router.get("/accounts/passkeys/", requireUser, (_req, res) => {
+    const user = currentUser(res);
+    res.json(store.passkeys.filter(passkey => passkey.userId === user.id).map(passkeyJson));
+  });
+
+  router.post("/accounts/passkeys/register/options/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    res.json({
+      challenge: store.issuePasskeyChallenge(user.id),
+      rp: { id: relyingPartyId(expectedOrigin(req)), name: store.systemSettings.siteName },
+      user: {
+        id: Buffer.from(String(user.id)).toString("base64url"),
+        name: user.email,
+        displayName: fullName(user),
+      },
+      pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: "public-key", alg })),
+      timeout: PASSKEY_TIMEOUT_MS,
+      attestation: "none",
+      authenticatorSelection: { residentKey: "required", userVerification: "preferred" },
+      excludeCredentials: store.passkeys
+        .filter(passkey => passkey.userId === user.id)
+        .map(passkey => ({ type: "public-key", id: passkey.credentialId, transports: passkey.transports })),
+    });
+  });
+
+  router.post("/accounts/passkeys/register/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    const body = parseBody(req, res, passkeyRegistrationRequestSchema);
+    if (!body) return;
+
+    const challenge = clientChallenge(body.credential.response.clientDataJSON);
+    if (!challenge || !store.redeemPasskeyChallenge(challenge, user.id)) {
+      invalid(res, { credential: ["The passkey challenge has expired. Try again."] });
+      return;
+    }
+
+    let verified: ReturnType<typeof verifyRegistration>;
+    try {
+      verified = verifyRegistration(body.credential, { challenge, origin: expectedOrigin(req) });
+    } catch (error) {
+      if (!(error instanceof WebAuthnError)) throw error;
+      invalid(res, { credential: [error.message] });
+      return;
+    }
+    if (store.passkeys.some(passkey => passkey.credentialId === verified.credentialId)) {
+      invalid(res, { credential: ["This passkey is already registered."] });
+      return;
+    }
+
+    const count = store.passkeys.filter(passkey => passkey.userId === user.id).length;
+    const passkey = {
+      id: store.nextId("passkeys"),
+      userId: user.id,
+      ...verified,
+      transports: body.credential.response.transports ?? [],
+      name: body.name ?? `Passkey ${count + 1}`,
+      createdAt: now(),
+    };
+    store.passkeys.push(passkey);
+    store.log(user, "UPDATE_USER", `Added the passkey "${passkey.name}"`, { ...requestMeta(req), severity: "WARNING" });
+    res.status(201).json(passkeyJson(passkey));
+  });
+
+  router.patch("/accounts/passkeys/:id/", requireUser, (req, res) => {
+    const passkey = ownPasskey(req, res);
+    if (!passkey) {
+      notFound(res);
+      return;
+    }
+    const body = parseBody(req, res, passkeyRenameRequestSchema);
+    if (!body) return;
+
+    passkey.name = body.name;
+    res.json(passkeyJson(passkey));
+  });
+
+  router.delete("/accounts/passkeys/:id/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    const passkey = ownPasskey(req, res);
+    if (!passkey) {
+      notFound(res);
+      return;
+    }
+    const remaining = store.passkeys.filter(item => item.userId === user.id && item !== passkey);
+    if (remaining.length === 0 && store.passwordLoginBlocked(user)) {
+      forbidden(res, "Admin accounts must keep at least one passkey.");
+      return;
+    }
+
+    store.passkeys = store.passkeys.filter(item => item !== passkey);
+    store.log(user, "UPDATE_USER", `Removed the passkey "${passkey.name}"`, { ...requestMeta(req), severity: "WARNING" });
+    res.status(204).end();
+  });
+
+  // Sessions
+
+  const userSessions = (userId: number) =>
+    store.sessions
+      .filter(session => session.userId === userId)
+      .sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt));
+
+  router.get("/accounts/sessions/", requireUser, (_req, res) => {
+    res.json(userSessions(currentUser(res).id).map(session => sessionJson(session, currentSession(res))));
+  });
+
+  // Admins may end anyone's session, e.g. one a teacher reports as stolen
+  router.delete("/accounts/sessions/:id/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    const session = store.findSession(idParam(req));
+    if (!session || (session.userId !== user.id && user.role !== "admin")) {
+      notFound(res);
+      return;
+    }
+
+    store.revokeSession(session.id);
+    const owner = store.findUser(session.userId);
+    store.log(user, "REVOKE_SESSION", owner === user ? "Signed out a session" : `Signed out a session of ${fullName(owner)}`, {
+      ...requestMeta(req),
+      targetType: "user",
+      targetId: owner.id,
+      targetName: fullName(owner),
+      severity: "WARNING",
+    });
+    res.status(204).end();
+  });
+
+  router.post("/accounts/sessions/revoke-others/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    const revoked = store.revokeUserSessions(user.id, currentSession(res).id);
+    store.log(user, "REVOKE_SESSION", "Signed out all other sessions", { ...requestMeta(req), severity: "WARNING" });
+    res.json({ revoked });
+  });
+
+  // Teachers
+
+  router.get("/accounts/teachers/", requireAdmin, (req, res) => {
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    const search = typeof req.query.search === "string" ? req.query.search.toLowerCase() : "";
+
+    const teachers = store.teachers
+      .filter(teacher => !status || status === "all" || teacher.status === status)
+      .filter(teacher => {
+        const user = store.findUser(teacher.userId)!;
+        return !search || `${fullName(user)} ${user.email}`.toLowerCase().includes(search);
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(teacher => teacherJson(store, teacher, apiBase(req)));
+
+    res.json(listResponse(req, teachers));
+  });
+
+  router.post("/accounts/teachers/", requireAdmin, (req, res) => {
+    const body = req.body ?? {};
+    const errors: Record<string, string[]> = requiredErrors(body, ["email", "first_name", "last_name"]);
+    if (typeof body.email === "string" && store.findUserByEmail(body.email)) {
+      errors.email = ["A user with this email already exists."];
+    }
+    const passwordProblems = policyErrors(store, body.password, bodyContext(body));
+    if (passwordProblems.length > 0) {
+      errors.password = passwordProblems;
+    }
+    if (Object.keys(errors).length > 0) {
+      invalid(res, errors);
+      return;
+    }
+
+    const admin = currentUser(res);
+    const user = store.addUser({
+      email: body.email.trim(),
+      password: body.password,
+      firstName: body.first_name.trim(),
+      lastName: body.last_name.trim(),
+      role: "teacher",
+      isActive: true,
+      phoneNumber: body.phone_number || undefined,
+      bio: body.bio || undefined,
+    });
+    // Accounts an administrator creates need no approval
+    const teacher = store.addTeacher(user, "active", { approvedBy: admin.id, approvedAt: now() });
+    store.log(admin, "CREATE_USER", `Created teacher ${fullName(user)}`, {
+      ...requestMeta(req),
+      targetType: "teacher",
+      targetId: teacher.id,
+      targetName: fullName(user),
+    });
+
+    res.status(201).json(teacherJson(store, teacher, apiBase(req)));
+  });
+
+  router.get("/accounts/teachers/:id/", requireAdmin, (req, res) => {
+    const teacher = store.findTeacher(idParam(req));
+    if (!teacher) {
+      notFound(res);
+      return;
+    }
+    res.json(teacherJson(store, teacher, apiBase(req)));
+  });
+
+  router.patch("/accounts/teachers/:id/", requireAdmin, (req, res) => {
+    const teacher = store.findTeacher(idParam(req));
+    if (!teacher) {
+      notFound(res);
+      return;
+    }
+
+    const user = store.findUser(teacher.userId)!;
+    if (typeof req.body?.phone_number === "string") user.phoneNumber = req.body.phone_number;
+    if (typeof req.body?.bio === "string") user.bio = req.body.bio;
+    teacher.updatedAt = now();
+
+    res.json(teacherJson(store, teacher, apiBase(req)));
+  });
+
+  router.delete("/accounts/teachers/:id/", requireAdmin, (req, res) => {
+    const teacher = store.findTeacher(idParam(req));
+    if (!teacher) {
+      notFound(res);
+      return;
+    }
+
+    const user = store.findUser(teacher.userId)!;
+    const documentIds = new Set(store.documents.filter(document => document.teacherId === teacher.id).map(document => document.id));
+    store.documents = store.documents.filter(document => !documentIds.has(document.id));
+    store.shares = store.shares.filter(share =>
+      !documentIds.has(share.documentId) && share.sharedBy !== teacher.id && share.sharedWith !== teacher.id);
+    store.teachers = store.teachers.filter(candidate => candidate.id !== teacher.id);
+    store.users = store.users.filter(candidate => candidate.id !== user.id);
+    store.revokeUserSessions(user.id);
+    store.log(currentUser(res), "DELETE_USER", `Deleted teacher ${fullName(user)}`, {
+      ...requestMeta(req),
+      targetType: "teacher",
+      targetId: teacher.id,
+      targetName: fullName(user),
+      severity: "WARNING",
+    });
+
+    res.status(204).end();
+  });
+
+  router.get("/accounts/teachers/:id/sessions/", requireAdmin, (req, res) => {
+    const teacher = store.findTeacher(idParam(req));
+    if (!teacher) {
+      notFound(res);
+      return;
+    }
+    res.json(userSessions(teacher.userId).map(session => sessionJson(session)));
+  });
+
+  router.post("/accounts/teachers/:id/sessions/revoke/", requireAdmin, (req, res) => {
+    const teacher = store.findTeacher(idParam(req));
+    if (!teacher) {
+      notFound(res);
+      return;
+    }
+
+    const user = store.findUser(teacher.userId)!;
+    const revoked = store.revokeUserSessions(user.id);
+    store.log(currentUser(res), "REVOKE_SESSION", `Signed ${fullName(user)} out everywhere`, {
+      ...requestMeta(req),
+      targetType: "teacher",
+      targetId: teacher.id,
+      targetName: fullName(user),
+      severity: "WARNING",
+    });
+    res.json({ revoked });
+  });
+
+  router.post("/accounts/teachers/:id/unlock/", requireAdmin, (req, res) => {
+    const teacher = store.findTeacher(idParam(req));
+    if (!teacher) {
+      notFound(res);
+      return;
+    }
+
+    const user = store.findUser(teacher.userId)!;
+    store.clearLoginFailures(user.email);
+    const message = `${fullName(user)} can sign in again`;
+    store.log(currentUser(res), "UNLOCK_ACCOUNT", `Cleared the lockout on ${fullName(user)}`, {
+      ...requestMeta(req),
+      targetType: "teacher",
+      targetId: teacher.id,
+      targetName: fullName(user),
+      severity: "WARNING",
+    });
+    res.json({ teacher: teacherJson(store, teacher, apiBase(req)), message });
+  });
+
+  const changeStatus = (
+    action: "approve" | "reject" | "suspend",
+    update: (status: TeacherStatus) => TeacherStatus | undefined,
+  ) => (req: express.Request, res: express.Response) => {
+    const teacher = store.findTeacher(idParam(req));
+    if (!teacher) {
+      notFound(res);
+      return;
+    }
+
+    const status = update(teacher.status);
+    if (!status) {
+      res.status(400).json({ error: `Cannot ${action} a teacher who is ${teacher.status}.` });
+      return;
+    }
+
+    const admin = currentUser(res);
+    const user = store.findUser(teacher.userId)!;
+    const timestamp = now();
+    teacher.status = status;
+    teacher.updatedAt = timestamp;
+    user.isActive = status === "active";
+    if (status === "suspended") store.revokeUserSessions(user.id);
+    if (action === "approve") {
+      teacher.approvedBy = admin.id;
+      teacher.approvedAt = timestamp;
+    }
+    if (action === "reject") {
+      teacher.rejectedBy = admin.id;
+      teacher.rejectedAt = timestamp;
+      teacher.rejectionReason = req.body?.rejection_reason || undefined;
+    }
+
+    const messages = {
+      approve: `${fullName(user)} has been approved`,
+      reject: `${fullName(user)} has been rejected`,
+      suspend: status === "suspended" ? `${fullName(user)} has been suspended` : `${fullName(user)} has been reactivated`,
+    };
+    store.log(admin, action === "suspend" ? "UPDATE_USER" : `${action.toUpperCase()}_USER`, messages[action], {
+      ...requestMeta(req),
+      targetType: "teacher",
+      targetId: teacher.id,
+      targetName: fullName(user),
+    });
+
+    res.json({ teacher: teacherJson(store, teacher, apiBase(req)), message: messages[action] });
+  };
+
+  router.post("/accounts/teachers/:id/approve/", requireAdmin,
+    changeStatus("approve", status => status === "pending" || status === "rejected" ? "active" : undefined));
+  router.post("/accounts/teachers/:id/reject/", requireAdmin,
+    changeStatus("reject", status => status === "pending" ? "rejected" : undefined));
+  // Suspending a suspended teacher reactivates them
+  router.post("/accounts/teachers/:id/suspend/", requireAdmin,
+    changeStatus("suspend", status => status === "active" ? "suspended" : status === "suspended" ? "active" : undefined));
+
+  // Invitations
+
+  router.get("/accounts/invitations/", requireAdmin, (_req, res) => {
+    const invitations = [...store.invitations]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(invitation => invitationJson(store, invitation));
+    res.json(invitations);
+  });
+
+  // Addresses that already have an account or an invitation waiting are skipped, not refused
+  router.post("/accounts/invitations/", requireAdmin, (req, res) => {
+    const body = parseBody(req, res, invitationCreateRequestSchema);
+    if (!body) return;
+
+    const admin = currentUser(res);
+    const invitations: InvitationRecord[] = [];
+    const skipped: { email: string; reason: string }[] = [];
+    new Set(body.emails.map(email => email.trim().toLowerCase())).forEach(email => {
+      if (store.findUserByEmail(email)) {
+        skipped.push({ email, reason: "Already has an account" });
+      } else if (store.pendingInvitation(email)) {
+        skipped.push({ email, reason: "Already invited" });
+      } else {
+        invitations.push(store.addInvitation(email, admin.id));
+      }
+    });
+
+    invitations.forEach(invitation => {
+      sendInvitation(req, invitation);
+      store.log(admin, "INVITE_USER", `Invited ${invitation.email}`, {
+        ...requestMeta(req),
+        targetType: "invitation",
+        targetId: invitation.id,
+        targetName: invitation.email,
+      });
+    });
+    res.status(201).json({ invitations: invitations.map(invitation => invitationJson(store, invitation)), skipped });
+  });
+
+  // Works on expired invitations too; that is how they are given a new lease
+  router.post("/accounts/invitations/:id/resend/", requireAdmin, (req, res) => {
+    const invitation = store.findInvitation(idParam(req));
+    if (!invitation) {
+      notFound(res);
+      return;
+    }
+    if (invitation.acceptedAt) {
+      res.status(400).json({ error: "This invitation has already been accepted." });
+      return;
+    }
+
+    store.renewInvitation(invitation);
+    sendInvitation(req, invitation);
+    store.log(currentUser(res), "INVITE_USER", `Resent the invitation to ${invitation.email}`, {
+      ...requestMeta(req),
+      targetType: "invitation",
+      targetId: invitation.id,
+      targetName: invitation.email,
+    });
+    res.json(invitationJson(store, invitation));
+  });
+
+  router.delete("/accounts/invitations/:id/", requireAdmin, (req, res) => {
+    const invitation = store.findInvitation(idParam(req));
+    if (!invitation) {
+      notFound(res);
+      return;
+    }
+    if (invitation.acceptedAt) {
+      res.status(400).json({ error: "This invitation has already been accepted." });
+      return;
+    }
+
+    store.invitations = store.invitations.filter(candidate => candidate.id !== invitation.id);
+    store.log(currentUser(res), "REVOKE_INVITATION", `Revoked the invitation to ${invitation.email}`, {
+      ...requestMeta(req),
+      targetType: "invitation",
+      targetId: invitation.id,
+      targetName: invitation.email,
+      severity: "WARNING",
+    });
+    res.status(204).end();
+  });
+
+  router.get("/accounts/invitations/accept/:token/", (req, res) => {
+    const invitation = store.invitationForToken(req.params.token);
+    if (!invitation) {
+      notFound(res, "This invitation link is invalid or has expired.");
+      return;
+    }
+    res.json({ email: invitation.email, expires_at: invitation.expiresAt });
+  });
+
+  // The invitation stands in for approval, so the account is active straight away
+  router.post("/accounts/invitations/accept/:token/", (req, res) => {
+    const invitation = store.invitationForToken(req.params.token);
+    if (!invitation) {
+      notFound(res, "This invitation link is invalid or has expired.");
+      return;
+    }
+
+    const body = parseBody(req, res, invitationAcceptRequestSchema, { camelCase: true });
+    if (!body) return;
+    if (store.findUserByEmail(invitation.email)) {
+      invalid(res, { email: ["A user with this email already exists."] });
+      return;
+    }
+    const passwordProblems = policyErrors(store, body.password, { ...body, email: invitation.email });
+    if (passwordProblems.length > 0) {
+      invalid(res, { password: passwordProblems });
+      return;
+    }
+
+    const timestamp = now();
+    const user = store.addUser({
+      email: invitation.email,
+      password: body.password,
+      firstName: body.firstName.trim(),
+      lastName: body.lastName.trim(),
+      role: "teacher",
+      isActive: true,
+      phoneNumber: body.phoneNumber || undefined,
+    });
+    const teacher = store.addTeacher(user, "active", { approvedBy: invitation.invitedBy, approvedAt: timestamp });
+    invitation.acceptedAt = timestamp;
+    store.log(user, "ACCEPT_INVITATION", `${fullName(user)} accepted their invitation`, {
+      ...requestMeta(req),
+      targetType: "teacher",
+      targetId: teacher.id,
+      targetName: fullName(user),
+    });
+
+    res.status(201).json({ message: "Your account is ready. You can now sign in." });
+  });
+
+  // Dashboards
+
+  router.get("/accounts/admin/dashboard/stats/", requireAdmin, (_req, res) => {
+    const since = (days: number) => Date.now() - days * 24 * 60 * 60 * 1000;
+    const uploadedSince = (days: number) =>
+      store.documents.filter(document => Date.parse(document.createdAt) >= since(days)).length;
+    const countStatus = (status: TeacherStatus) => store.teachers.filter(teacher => teacher.status === status).length;
+
+    res.json({
+      totalTeachers: store.teachers.length,
+      activeTeachers: countStatus("active"),
+      pendingTeachers: countStatus("pending"),
+      suspendedTeachers: countStatus("suspended"),
+      totalDocuments: store.documents.length,
+      sharedDocuments: store.documents.filter(document => store.activeShares(document.id).length > 0).length,
+      totalCategories: store.categories.length,
+      activeCategories: store.categories.filter(category => category.isActive).length,
+      totalDownloads: store.documents.reduce((sum, document) => sum + document.downloadCount, 0),
+      recentActivity: store.auditLogs.slice(0, 10).map(log => activityJson(store, log)),
+      documentsUploadedToday: uploadedSince(1),
+      documentsUploadedThisWeek: uploadedSince(7),
+      documentsUploadedThisMonth: uploadedSince(30),
+    });
+  });
+
+  router.get("/accounts/teacher/dashboard/stats/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    const teacher = store.teacherForUser(user.id);
+    if (!teacher) {
+      forbidden(res, "Only teachers have a teacher dashboard.");
+      return;
+    }
+
+    const documents = store.documents
+      .filter(document => document.teacherId === teacher.id)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const storageUsed = documents.reduce((sum, document) => sum + document.file.data.length, 0) / (1024 * 1024);
+    const breakdown = new Map<string, number>();
+    documents.forEach(document => {
+      const name = store.findCategory(document.categoryId)?.name ?? "Uncategorized";
+      breakdown.set(name, (breakdown.get(name) ?? 0) + 1);
+    });
+
+    res.json({
+      documentsUploaded: documents.length,
+      documentsShared: documents.filter(document => store.activeShares(document.id).length > 0).length,
+      totalDownloads: documents.reduce((sum, document) => sum + document.downloadCount, 0),
+      storageUsed: Math.round(storageUsed * 100) / 100,
+      maxStorage: TEACHER_STORAGE_LIMIT_MB,
+      storagePercentage: Math.round((storageUsed / TEACHER_STORAGE_LIMIT_MB) * 10000) / 100,
+      recentDocuments: documents.slice(0, 5).map(document => documentJson(store, document, apiBase(req))),
+      recentActivity: store.auditLogs
+        .filter(log => log.userId === user.id)
+        .slice(0, 10)
+        .map(log => activityJson(store, log)),
+      categoryBreakdown: Array.from(breakdown, ([category, count]) => ({ category, count })),
+    });
+  });
+
+  router.get("/accounts/admin/reports/", requireAdmin, (req, res) => {
+    const days = Number(req.query.time_range) || 30;
+    const start = Date.now() - days * 24 * 60 * 60 * 1000;
+    const previousStart = start - days * 24 * 60 * 60 * 1000;
+    const inRange = (date: string, from: number, to = Date.now()) => Date.parse(date) >= from && Date.parse(date) < to;
+    const change = (current: number, previous: number) =>
+      previous === 0 ? (current > 0 ? 100 : 0) : Math.round(((current - previous) / previous) * 100);
+
+    const { documents, teachers, auditLogs } = store;
+    const totalBytes = documents.reduce((sum, document) => sum + document.file.data.length, 0);
+    const totalDownloads = documents.reduce((sum, document) => sum + document.downloadCount, 0);
+    const percentage = (part: number, whole: number) => whole === 0 ? 0 : Math.round((part / whole) * 100);
+    const teacherName = (teacherId: number) => {
+      const teacher = store.findTeacher(teacherId);
+      return teacher ? fullName(store.findUser(teacher.userId)!) : "Unknown";
+    };
+    const categoryName = (categoryId: number) => store.findCategory(categoryId)?.name ?? "Uncategorized";
+
+    const byCategory = new Map<string, number>();
+    const byFileType = new Map<string, number>();
+    documents.forEach(document => {
+      byCategory.set(categoryName(document.categoryId), (byCategory.get(categoryName(document.categoryId)) ?? 0) + 1);
+      const type = extensionOf(document.fileName).toUpperCase() || "OTHER";
+      byFileType.set(type, (byFileType.get(type) ?? 0) + document.file.data.length);
+    });
+
+    const monthlyUploads = Array.from({ length: 6 }, (_, index) => {
+      const month = new Date();
+      month.setDate(1);
+      month.setMonth(month.getMonth() - (5 - index));
+      return {
+        month: month.toLocaleString("en-US", { month: "short", year: "numeric" }),
+        uploads: documents.filter(document => {
+          const created = new Date(document.createdAt);
+          return created.getFullYear() === month.getFullYear() && created.getMonth() === month.getMonth();
+        }).length,
+      };
+    });
+
+    const logins = auditLogs.filter(log => log.action === "LOGIN" && inRange(log.createdAt, start));
+    const dayCounts = new Map<string, number>();
+    const hourCounts = new Map<number, number>();
+    auditLogs.filter(log => inRange(log.createdAt, start)).forEach(log => {
+      const created = new Date(log.createdAt);
+      const day = created.toLocaleString("en-US", { weekday: "long" });
+      dayCounts.set(day, (dayCounts.get(day) ?? 0) + 1);
+      hourCounts.set(created.getHours(), (hourCounts.get(created.getHours()) ?? 0) + 1);
+    });
+    const busiest = <K>(counts: Map<K, number>, fallback: K) =>
+      Array.from(counts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? fallback;
+    const mostActiveHour = busiest(hourCounts, 9);
+
+    const activeUserIds = new Set(auditLogs.filter(log => inRange(log.createdAt, start)).map(log => log.userId));
+    const previousActiveUserIds = new Set(auditLogs.filter(log => inRange(log.createdAt, previousStart, start)).map(log => log.userId));
+    const uploadsNow = documents.filter(document => inRange(document.createdAt, start));
+    const uploadsBefore = documents.filter(document => inRange(document.createdAt, previousStart, start));
+    const bytesOf = (list: typeof documents) => list.reduce((sum, document) => sum + document.file.data.length, 0);
+    const downloadsOf = (list: typeof documents) => list.reduce((sum, document) => sum + document.downloadCount, 0);
+    const approvedTeachers = teachers.filter(teacher => teacher.status === "active");
+
+    res.json({
+      totalUsers: store.users.length,
+      activeUsers: activeUserIds.size,
+      totalDocuments: documents.length,
+      totalDownloads,
+      storageUsed: Math.round((totalBytes / 1024 ** 3) * 1000) / 1000,
+      popularCategories: Array.from(byCategory, ([name, count]) => ({ name, count, percentage: percentage(count, documents.length) }))
+        .sort((a, b) => b.count - a.count),
+      monthlyUploads,
+      topUploaders: approvedTeachers
+        .map(teacher => {
+          const own = documents.filter(document => document.teacherId === teacher.id);
+          return { name: teacherName(teacher.id), uploads: own.length, downloads: downloadsOf(own) };
+        })
+        .sort((a, b) => b.uploads - a.uploads)
+        .slice(0, 5),
+      usersChange: change(activeUserIds.size, previousActiveUserIds.size),
+      documentsChange: change(uploadsNow.length, uploadsBefore.length),
+      downloadsChange: change(downloadsOf(uploadsNow), downloadsOf(uploadsBefore)),
+      storageChange: change(bytesOf(uploadsNow), bytesOf(uploadsBefore)),
+      storageByFileType: Array.from(byFileType, ([fileType, usage]) => ({
+        fileType,
+        usage: Math.round((usage / (1024 * 1024)) * 100) / 100,
+        percentage: percentage(usage, totalBytes),
+      })),
+      topDocuments: [...documents]
+        .sort((a, b) => b.downloadCount - a.downloadCount)
+        .slice(0, 5)
+        .map(document => ({
+          title: document.title,
+          downloadCount: document.downloadCount,
+          category: categoryName(document.categoryId),
+          teacher: teacherName(document.teacherId),
+        })),
+      activityMetrics: {
+        avgLoginsPerUser: store.users.length ? Math.round((logins.length / store.users.length) * 10) / 10 : 0,
+        avgUploadsPerTeacher: approvedTeachers.length ? Math.round((documents.length / approvedTeachers.length) * 10) / 10 : 0,
+        avgDownloadsPerTeacher: approvedTeachers.length ? Math.round((totalDownloads / approvedTeachers.length) * 10) / 10 : 0,
+      },
+      activityPatterns: {
+        mostActiveDay: busiest(dayCounts, "Monday"),
+        mostActiveHour,
+        hourFormat: `${String(mostActiveHour).padStart(2, "0")}:00`,
+      },
+    });
+  });
+
+  return router;
+}
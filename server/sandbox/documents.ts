@@ -0,0 +1,656 @@
+import crypto from "crypto";
+import express, { Router } from "express";
+import {
+  categoryCreateRequestSchema,
+  categoryUpdateRequestSchema,
+  documentShareRequestSchema,
+} from "../../shared/api";
+import {
+  CategoryRecord,
+  DocumentRecord,
+  SandboxStore,
+  StoredFile,
+  UserRecord,
+  extensionOf,
+  now,
+} from "./store";
+import {
+  categoryJson,
+  documentJson,
+  publicDocumentJson,
+  shareJson,
+  uploadJson,
+} from "./serializers";
+import {
+  apiBase,
+  currentUser,
+  forbidden,
+  idParam,
+  invalid,
+  listResponse,
+  notFound,
+  parseBody,
+  readForm,
+  requestMeta,
+  requireAdmin,
+  requireUser,
+} from "./http";
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  txt: "text/plain",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  bmp: "image/bmp",
+};
+
+// Chunks are bounded by the client's chunk size; leave room above it
+const MAX_CHUNK_BYTES = 16 * 1024 * 1024;
+
+const contentTypeFor = (fileName: string, fallback?: string) =>
+  CONTENT_TYPES[extensionOf(fileName)] ?? (fallback || "application/octet-stream");
+
+/**
+ * Documents with their uploads, previews, downloads and shares, plus the
+ * categories they are filed under
+ */
+export function documentsRoutes(store: SandboxStore): Router {
+  const router = Router();
+
+  const ownTeacherId = (user: UserRecord) => store.teacherForUser(user.id)?.id;
+
+  // Teachers see their own documents; anything else answers 404 as in Django
+  const findOwnDocument = (req: express.Request, res: express.Response): DocumentRecord | undefined => {
+    const user = currentUser(res);
+    const document = store.findDocument(idParam(req));
+    if (!document || (user.role !== "admin" && document.teacherId !== ownTeacherId(user))) {
+      notFound(res);
+      return undefined;
+    }
+    return document;
+  };
+
+  // Owners, admins, private recipients and public link holders may open a file
+  const canOpen = (req: express.Request, res: express.Response, document: DocumentRecord) => {
+    const token = typeof req.query.token === "string" ? req.query.token : undefined;
+    if (token) return Boolean(store.shareForToken(document.id, token));
+
+    const user: UserRecord | undefined = res.locals.user;
+    if (!user) return false;
+    if (user.role === "admin") return true;
+
+    const teacherId = ownTeacherId(user);
+    return document.teacherId === teacherId ||
+      store.activeShares(document.id).some(share => share.shareType === "private" && share.sharedWith === teacherId);
+  };
+
+  /**
+   * Check the fields shared by direct and chunked uploads, returning DRF
+   * errors or the document's category
+   */
+  const validateDocument = (fields: Record<string, string | undefined>, file?: { name: string; size: number }) => {
+    const errors: Record<string, string[]> = {};
+    if (!fields.title?.trim()) errors.title = ["This field is required."];
+
+    const category = fields.category ? store.findCategory(Number(fields.category)) : undefined;
+    if (!category || !category.isActive) {
+      errors.category = [category ? "This category is no longer accepting documents." : "Select a valid category."];
+    } else if (category.requiresClassSubject) {
+      if (!fields.class_level) errors.class_level = [`Class is required for ${category.name}.`];
+      if (!fields.subject) errors.subject = [`Subject is required for ${category.name}.`];
+    }
+
+    if (!file) {
+      errors.file = ["No file was submitted."];
+    } else {
+      const { allowedFileTypes, maxFileSize } = store.systemSettings;
+      if (!allowedFileTypes.includes(extensionOf(file.name))) {
+        errors.file = [`File type not allowed. Allowed types: ${allowedFileTypes.join(", ")}.`];
+      } else if (file.size > maxFileSize * 1024 * 1024) {
+        errors.file = [`File size cannot exceed ${maxFileSize}MB.`];
+      }
+    }
+
+    return { errors, category };
+  };
+
+  const createDocument = (
+    req: express.Request,
+    res: express.Response,
+    fields: Record<string, string | undefined>,
+    fileName: string,
+    file: StoredFile,
+    category: CategoryRecord,
+  ) => {
+    const user = currentUser(res);
+    const timestamp = now();
+    const document: DocumentRecord = {
+      id: store.nextId("document"),
+      title: fields.title!.trim(),
+      description: fields.description || undefined,
+      fileName,
+      file,
+      teacherId: ownTeacherId(user)!,
+      categoryId: category.id,
+      classLevel: fields.class_level || undefined,
+      subject: fields.subject || undefined,
+      status: "active",
+      downloadCount: 0,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    store.documents.push(document);
+    store.log(user, "CREATE_DOCUMENT", `Uploaded ${document.title}`, {
+      ...requestMeta(req),
+      targetType: "document",
+      targetId: document.id,
+      targetName: document.title,
+    });
+
+    res.status(201).json(documentJson(store, document, apiBase(req)));
+  };
+
+  const requireTeacher: express.RequestHandler = (req, res, next) => {
+    requireUser(req, res, () => {
+      if (!ownTeacherId(currentUser(res))) {
+        forbidden(res, "Only teachers can upload documents.");
+        return;
+      }
+      next();
+    });
+  };
+
+  // Documents
+
+  router.get("/documents/documents/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    const query = (name: string) => typeof req.query[name] === "string" && req.query[name] !== "all"
+      ? req.query[name] as string
+      : undefined;
+    const search = query("search")?.toLowerCase();
+
+    const documents = store.documents
+      .filter(document => user.role === "admin" || document.teacherId === ownTeacherId(user))
+      .filter(document => !query("category") || document.categoryId === Number(query("category")))
+      .filter(document => !query("status") || document.status === query("status"))
+      .filter(document => !query("teacher") || document.teacherId === Number(query("teacher")))
+      .filter(document => !query("file_type") || extensionOf(document.fileName) === query("file_type"))
+      .filter(document => !search || `${document.title} ${document.description ?? ""}`.toLowerCase().includes(search))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(document => documentJson(store, document, apiBase(req)));
+
+    res.json(listResponse(req, documents));
+  });
+
+  router.post("/documents/documents/", requireTeacher, async (req, res) => {
+    if (!req.is("multipart/form-data")) {
+      res.status(415).json({ detail: "Documents must be uploaded as multipart/form-data." });
+      return;
+    }
+
+    const { fields, files } = await readForm(req);
+    const upload = files.file;
+    const { errors, category } = validateDocument(fields, upload && { name: upload.name, size: upload.data.length });
+    if (Object.keys(errors).length > 0) {
+      invalid(res, errors);
+      return;
+    }
+
+    createDocument(req, res, fields, upload.name, {
+      data: upload.data,
+      contentType: contentTypeFor(upload.name, upload.type),
+    }, category!);
+  });
+
+  router.get("/documents/documents/:id/", requireUser, (req, res) => {
+    const document = findOwnDocument(req, res);
+    if (document) res.json(documentJson(store, document, apiBase(req)));
+  });
+
+  router.patch("/documents/documents/:id/", requireUser, (req, res) => {
+    const document = findOwnDocument(req, res);
+    if (!document) return;
+
+    const body = req.body ?? {};
+    if (body.category !== undefined) {
+      const category = store.findCategory(Number(body.category));
+      if (!category || !category.isActive) {
+        invalid(res, { category: ["Select a valid category."] });
+        return;
+      }
+      document.categoryId = category.id;
+    }
+    if (typeof body.title === "string") {
+      if (!body.title.trim()) {
+        invalid(res, { title: ["This field may not be blank."] });
+        return;
+      }
+      document.title = body.title.trim();
+    }
+    if (typeof body.description === "string") document.description = body.description;
+    if (typeof body.class_level === "string") document.classLevel = body.class_level || undefined;
+    if (typeof body.subject === "string") document.subject = body.subject || undefined;
+    if (typeof body.status === "string") document.status = body.status;
+    document.updatedAt = now();
+
+    store.log(currentUser(res), "UPDATE_DOCUMENT", `Updated ${document.title}`, {
+      ...requestMeta(req),
+      targetType: "document",
+      targetId: document.id,
+      targetName: document.title,
+    });
+    res.json(documentJson(store, document, apiBase(req)));
+  });
+
+  const removeDocument = (req: express.Request, res: express.Response, document: DocumentRecord) => {
+    store.documents = store.documents.filter(candidate => candidate.id !== document.id);
+    store.shares = store.shares.filter(share => share.documentId !== document.id);
+    store.log(currentUser(res), "DELETE_DOCUMENT", `Deleted ${document.title}`, {
+      ...requestMeta(req),
+      targetType: "document",
+      targetId: document.id,
+      targetName: document.title,
+      severity: "WARNING",
+    });
+    res.status(204).end();
+  };
+
+  router.delete("/documents/documents/:id/", requireUser, (req, res) => {
+    const user = currentUser(res);
+    const document = store.findDocument(idParam(req));
+    // Admins go through admin-delete so the removal is recorded as theirs
+    if (!document || document.teacherId !== ownTeacherId(user)) {
+      notFound(res);
+      return;
+    }
+    removeDocument(req, res, document);
+  });
+
+  router.delete("/documents/documents/:id/admin-delete/", requireAdmin, (req, res) => {
+    const document = store.findDocument(idParam(req));
+    if (!document) {
+      notFound(res);
+      return;
+    }
+    removeDocument(req, res, document);
+  });
+
+  const sendFile = (disposition: "inline" | "attachment") => (req: express.Request, res: express.Response) => {
+    const document = store.findDocument(idParam(req));
+    if (!document) {
+      notFound(res);
+      return;
+    }
+    if (!canOpen(req, res, document)) {
+      if (req.query.token || res.locals.user) {
+        forbidden(res, "This share link is invalid or has expired.");
+      } else {
+        res.status(401).json({ detail: "Authentication credentials were not provided." });
+      }
+      return;
+    }
+
+    if (disposition === "attachment") {
+      document.downloadCount++;
+    }
+    if (res.locals.user) {
+      const action = disposition === "attachment" ? "DOWNLOAD_DOCUMENT" : "PREVIEW_DOCUMENT";
+      store.log(currentUser(res), action, `${disposition === "attachment" ? "Downloaded" : "Previewed"} ${document.title}`, {
+        ...requestMeta(req),
+        targetType: "document",
+        targetId: document.id,
+        targetName: document.title,
+      });
+    }
+
+    res.set({
+      "Content-Type": document.file.contentType,
+      "Content-Length": String(document.file.data.length),
+      "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(document.fileName)}`,
+    });
+    res.send(document.file.data);
+  };
+
+  router.get("/documents/documents/:id/preview/", sendFile("inline"));
+  router.get("/documents/documents/:id/download/", sendFile("attachment"));
+
+  router.get("/documents/documents/:id/public_view/", (req, res) => {
+    const document = store.findDocument(idParam(req));
+    if (!document) {
+      notFound(res);
+      return;
+    }
+    if (typeof req.query.token !== "string" || !store.shareForToken(document.id, req.query.token)) {
+      forbidden(res, "This share link is invalid or has expired.");
+      return;
+    }
+    res.json(publicDocumentJson(store, document, apiBase(req)));
+  });
+
+  const setStatus = (status: "flagged" | "archived") => (req: express.Request, res: express.Response) => {
+    const document = store.findDocument(idParam(req));
+    if (!document) {
+      notFound(res);
+      return;
+    }
+
+    // Flagging a flagged document clears the flag
+    document.status = status === "flagged" && document.status === "flagged" ? "active" : status;
+    document.updatedAt = now();
+    const message = document.status === "active" ? "Document unflagged" : `Document ${document.status}`;
+    store.log(currentUser(res), status === "flagged" ? "FLAG_DOCUMENT" : "ARCHIVE_DOCUMENT", `${message}: ${document.title}`, {
+      ...requestMeta(req),
+      targetType: "document",
+      targetId: document.id,
+      targetName: document.title,
+      severity: "WARNING",
+    });
+
+    res.json({ message, document_status: document.status });
+  };
+
+  router.post("/documents/documents/:id/flag/", requireAdmin, setStatus("flagged"));
+  router.post("/documents/documents/:id/archive/", requireAdmin, setStatus("archived"));
+
+  // Shares
+
+  router.post("/documents/documents/:id/share/", requireTeacher, (req, res) => {
+    const document = findOwnDocument(req, res);
+    if (!document) return;
+
+    const body = parseBody(req, res, documentShareRequestSchema);
+    if (!body) return;
+
+    const user = currentUser(res);
+    const teacherId = ownTeacherId(user)!;
+    const base = {
+      documentId: document.id,
+      sharedBy: teacherId,
+      canDownload: body.can_download ?? true,
+      canView: body.can_view ?? true,
+      isActive: true,
+      expiresAt: body.expires_at || undefined,
+      sharedAt: now(),
+    };
+
+    let created;
+    if (body.share_type === "public") {
+      // One public link per document; sharing again hands back the same link
+      created = store.activeShares(document.id).find(share => share.shareType === "public") ?? {
+        ...base,
+        id: store.nextId("share"),
+        shareType: "public" as const,
+        shareToken: store.createShareToken(),
+      };
+      if (!store.shares.includes(created)) store.shares.push(created);
+    } else {
+      const emails = body.shared_with_emails ?? [];
+      const recipients = body.shared_with
+        ? [store.findTeacher(Number(body.shared_with))]
+        : emails.map(email => {
+          const recipient = store.findUserByEmail(email);
+          return recipient && store.teacherForUser(recipient.id);
+        });
+
+      const unknown = emails.filter((_, index) => !recipients[index]);
+      if (recipients.length === 0 || (body.shared_with && !recipients[0])) {
+        invalid(res, { shared_with: ["Choose a teacher to share with."] });
+        return;
+      }
+      if (unknown.length > 0) {
+        invalid(res, { shared_with_emails: unknown.map(email => `No teacher account uses ${email}.`) });
+        return;
+      }
+      if (recipients.some(recipient => recipient!.id === teacherId)) {
+        invalid(res, { shared_with_emails: ["You cannot share a document with yourself."] });
+        return;
+      }
+
+      const shares = recipients.map(recipient => ({
+        ...base,
+        id: store.nextId("share"),
+        shareType: "private" as const,
+        sharedWith: recipient!.id,
+      }));
+      store.shares.push(...shares);
+      created = shares[0];
+    }
+
+    store.log(user, "SHARE_DOCUMENT", `Shared ${document.title}`, {
+      ...requestMeta(req),
+      targetType: "document",
+      targetId: document.id,
+      targetName: document.title,
+    });
+    res.status(201).json(shareJson(store, created));
+  });
+
+  router.post("/documents/documents/:id/unshare/", requireUser, (req, res) => {
+    const document = findOwnDocument(req, res);
+    if (!document) return;
+
+    const active = store.activeShares(document.id);
+    active.forEach(share => {
+      share.isActive = false;
+    });
+    res.json({ message: "Document unshared successfully", shares_revoked: active.length });
+  });
+
+  router.get("/documents/shares/", requireUser, (_req, res) => {
+    const user = currentUser(res);
+    const teacherId = ownTeacherId(user);
+
+    const shares = store.shares
+      .filter(share => share.isActive)
+      .filter(share => user.role === "admin" || share.sharedBy === teacherId || share.sharedWith === teacherId)
+      .sort((a, b) => b.sharedAt.localeCompare(a.sharedAt))
+      .map(share => shareJson(store, share));
+
+    res.json(shares);
+  });
+
+  // Chunked uploads
+
+  const findUpload = (req: express.Request, res: express.Response) => {
+    const upload = store.uploads.get(req.params.id);
+    if (!upload || upload.userId !== currentUser(res).id) {
+      notFound(res);
+      return undefined;
+    }
+    if (Date.parse(upload.expiresAt) < Date.now()) {
+      store.uploads.delete(upload.id);
+      res.status(410).json({ detail: "This upload has expired. Start it again." });
+      return undefined;
+    }
+    return upload;
+  };
+
+  router.post("/documents/uploads/", requireTeacher, (req, res) => {
+    const { file_name, file_size, content_type, chunk_size, total_chunks } = req.body ?? {};
+    const { maxFileSize, allowedFileTypes } = store.systemSettings;
+
+    if (typeof file_name !== "string" || !allowedFileTypes.includes(extensionOf(file_name))) {
+      invalid(res, { file_name: [`File type not allowed. Allowed types: ${allowedFileTypes.join(", ")}.`] });
+      return;
+    }
+    if (!(file_size > 0) || file_size > maxFileSize * 1024 * 1024) {
+      invalid(res, { file_size: [`File size cannot exceed ${maxFileSize}MB.`] });
+      return;
+    }
+    if (!(chunk_size > 0) || chunk_size > MAX_CHUNK_BYTES || total_chunks !== Math.ceil(file_size / chunk_size)) {
+      invalid(res, { chunk_size: ["Chunk size and count do not match the file size."] });
+      return;
+    }
+
+    const upload = store.startUpload(currentUser(res).id, {
+      fileName: file_name,
+      fileSize: file_size,
+      contentType: contentTypeFor(file_name, content_type),
+      chunkSize: chunk_size,
+      totalChunks: total_chunks,
+    });
+    res.status(201).json(uploadJson(upload));
+  });
+
+  router.get("/documents/uploads/:id/", requireUser, (req, res) => {
+    const upload = findUpload(req, res);
+    if (upload) res.json(uploadJson(upload));
+  });
+
+  router.put(
+    "/documents/uploads/:id/chunks/:index/",
+    requireUser,
+    express.raw({ type: "application/octet-stream", limit: MAX_CHUNK_BYTES }),
+    (req, res) => {
+      const upload = findUpload(req, res);
+      if (!upload) return;
+
+      const index = idParam(req, "index");
+      const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const start = index * upload.chunkSize;
+      const end = Math.min(start + upload.chunkSize, upload.fileSize);
+
+      if (!Number.isInteger(index) || index < 0 || index >= upload.totalChunks) {
+        invalid(res, { index: [`Chunk index must be between 0 and ${upload.totalChunks - 1}.`] });
+        return;
+      }
+      if (req.get("Content-Range") !== `bytes ${start}-${end - 1}/${upload.fileSize}` || data.length !== end - start) {
+        res.status(416).json({ detail: `Expected bytes ${start}-${end - 1}/${upload.fileSize}.` });
+        return;
+      }
+
+      const checksum = crypto.createHash("sha256").update(data).digest("hex");
+      if (req.get("X-Chunk-Checksum") !== `sha256=${checksum}`) {
+        res.status(409).json({ detail: "Chunk checksum does not match. Send the chunk again." });
+        return;
+      }
+
+      upload.chunks.set(index, data);
+      res.json(uploadJson(upload));
+    },
+  );
+
+  router.post("/documents/uploads/:id/complete/", requireTeacher, (req, res) => {
+    const upload = findUpload(req, res);
+    if (!upload) return;
+
+    const missing = Array.from({ length: upload.totalChunks }, (_, index) => index)
+      .filter(index => !upload.chunks.has(index));
+    if (missing.length > 0) {
+      res.status(400).json({ error: `The upload is missing ${missing.length} of ${upload.totalChunks} parts.` });
+      return;
+    }
+
+    const fields = req.body ?? {};
+    const { errors, category } = validateDocument(fields, { name: upload.fileName, size: upload.fileSize });
+    if (Object.keys(errors).length > 0) {
+      invalid(res, errors);
+      return;
+    }
+
+    const data = Buffer.concat(Array.from({ length: upload.totalChunks }, (_, index) => upload.chunks.get(index)!));
+    store.uploads.delete(upload.id);
+    createDocument(req, res, fields, upload.fileName, { data, contentType: upload.contentType }, category!);
+  });
+
+  // Categories
+
+  router.get("/documents/categories/", requireUser, (_req, res) => {
+    res.json(store.categories
+      .slice()
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(category => categoryJson(store, category)));
+  });
+
+  const nameTaken = (name: string, exceptId?: number) => store.categories.some(category =>
+    category.id !== exceptId && category.name.toLowerCase() === name.trim().toLowerCase());
+
+  router.post("/documents/categories/", requireAdmin, (req, res) => {
+    const body = parseBody(req, res, categoryCreateRequestSchema, { camelCase: true });
+    if (!body) return;
+    if (nameTaken(body.name)) {
+      invalid(res, { name: ["document category with this name already exists."] });
+      return;
+    }
+
+    const timestamp = now();
+    const category: CategoryRecord = {
+      id: store.nextId("category"),
+      name: body.name,
+      description: body.description ?? "",
+      requiresClassSubject: body.requiresClassSubject,
+      isActive: true,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    store.categories.push(category);
+    res.status(201).json(categoryJson(store, category));
+  });
+
+  const findCategory = (req: express.Request, res: express.Response) => {
+    const category = store.findCategory(idParam(req));
+    if (!category) notFound(res);
+    return category;
+  };
+
+  router.get("/documents/categories/:id/", requireUser, (req, res) => {
+    const category = findCategory(req, res);
+    if (category) res.json(categoryJson(store, category));
+  });
+
+  router.patch("/documents/categories/:id/", requireAdmin, (req, res) => {
+    const category = findCategory(req, res);
+    if (!category) return;
+
+    const body = parseBody(req, res, categoryUpdateRequestSchema, { camelCase: true });
+    if (!body) return;
+    const { name, description, requiresClassSubject, isActive } = body;
+    if (name !== undefined) {
+      if (nameTaken(name, category.id)) {
+        invalid(res, { name: ["document category with this name already exists."] });
+        return;
+      }
+      category.name = name;
+    }
+    if (description !== undefined) category.description = description;
+    if (requiresClassSubject !== undefined) category.requiresClassSubject = requiresClassSubject;
+    if (isActive !== undefined) category.isActive = isActive;
+    category.updatedAt = now();
+
+    res.json(categoryJson(store, category));
+  });
+
+  router.delete("/documents/categories/:id/", requireAdmin, (req, res) => {
+    const category = findCategory(req, res);
+    if (!category) return;
+
+    if (store.documents.some(document => document.categoryId === category.id)) {
+      res.status(400).json({ error: "Cannot delete category with existing documents" });
+      return;
+    }
+    store.categories = store.categories.filter(candidate => candidate.id !== category.id);
+    res.status(204).end();
+  });
+
+  router.post("/documents/categories/:id/toggle_active/", requireAdmin, (req, res) => {
+    const category = findCategory(req, res);
+    if (!category) return;
+
+    category.isActive = !category.isActive;
+    category.updatedAt = now();
+    res.json({
+      is_active: category.isActive,
+      message: `Category ${category.isActive ? "activated" : "deactivated"} successfully`,
+    });
+  });
+
+  return router;
+}
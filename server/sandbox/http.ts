@@ -0,0 +1,164 @@
+import { Readable } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import type { Infer } from "../../shared/api";
+import { camelizeKeys, toSnakeCaseKey } from "../../src/lib/caseConversion";
+import { SandboxStore, SessionRecord, UserRecord } from "./store";
+
+/**
+ * Request helpers shared by the sandbox routes, mirroring how Django REST
+ * Framework authenticates, paginates and reports errors
+ */
+
+// The path the sandbox is mounted on, e.g. /api
+export const apiBase = (req: Request) => req.baseUrl;
+
+export const idParam = (req: Request, name = "id") => Number(req.params[name]);
+
+export const currentUser = (res: Response) => res.locals.user as UserRecord;
+
+export const currentSession = (res: Response) => res.locals.session as SessionRecord;
+
+export const notFound = (res: Response, detail = "Not found.") => res.status(404).json({ detail });
+
+export const forbidden = (res: Response, detail = "You do not have permission to perform this action.") =>
+  res.status(403).json({ detail });
+
+// DRF's validation errors: { field: ["message"] }
+export const invalid = (res: Response, errors: Record<string, string[]>) => res.status(400).json(errors);
+
+// Zod's messages reworded the way DRF phrases them
+const drfErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  if (issue.code === z.ZodIssueCode.invalid_type && issue.received === z.ZodParsedType.undefined) {
+    return { message: "This field is required." };
+  }
+  if (issue.code === z.ZodIssueCode.too_small && issue.type === "string" && issue.minimum === 1) {
+    return { message: "This field may not be blank." };
+  }
+  if (issue.code === z.ZodIssueCode.invalid_string && issue.validation === "email") {
+    return { message: "Enter a valid email address." };
+  }
+  if (issue.code === z.ZodIssueCode.invalid_enum_value) {
+    return { message: `"${issue.received}" is not a valid choice.` };
+  }
+  return { message: ctx.defaultError };
+};
+
+/**
+ * Validate a request body against its shared contract. Bodies the client
+ * sends in snake_case are checked against camelCase contracts with
+ * `camelCase`. Answers 400 with DRF field errors and returns undefined
+ * when the body does not match.
+ */
+export function parseBody<S extends z.ZodTypeAny>(
+  req: Request,
+  res: Response,
+  schema: S,
+  { camelCase = false }: { camelCase?: boolean } = {}
+): Infer<S> | undefined {
+  const body = req.body ?? {};
+  const result = schema.safeParse(camelCase ? camelizeKeys(body) : body, { errorMap: drfErrorMap });
+  if (result.success) return result.data;
+
+  const errors: Record<string, string[]> = {};
+  result.error.issues.forEach(issue => {
+    const field = issue.path
+      .map(segment => camelCase && typeof segment === "string" ? toSnakeCaseKey(segment) : String(segment))
+      .join(".") || "non_field_errors";
+    (errors[field] ??= []).push(issue.message);
+  });
+  invalid(res, errors);
+  return undefined;
+}
+
+export function authenticate(store: SandboxStore): RequestHandler {
+  return (req, res, next) => {
+    const [scheme, token] = (req.get("Authorization") ?? "").split(" ");
+    if (scheme === "Bearer" && token) {
+      const authenticated = store.sessionForAccessToken(token);
+      if (!authenticated) {
+        res.status(401).json({ detail: "Given token not valid for any token type", code: "token_not_valid" });
+        return;
+      }
+      res.locals.user = authenticated.user;
+      res.locals.session = authenticated.session;
+    }
+    next();
+  };
+}
+
+export const requireUser: RequestHandler = (_req, res, next) => {
+  if (!res.locals.user) {
+    res.status(401).json({ detail: "Authentication credentials were not provided." });
+    return;
+  }
+  next();
+};
+
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  requireUser(req, res, () => {
+    if (currentUser(res).role !== "admin") {
+      forbidden(res);
+      return;
+    }
+    next();
+  });
+};
+
+/**
+ * DRF list views paginate only when the client asks for a page; without
+ * one the endpoint returns the bare list
+ */
+export function listResponse<T>(req: Request, items: T[]) {
+  if (req.query.page === undefined) return items;
+
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const pageSize = Math.max(1, Number(req.query.page_size) || 20);
+  const link = (target: number) => {
+    const url = new URL(`${req.protocol}://${req.get("host")}${req.originalUrl}`);
+    url.searchParams.set("page", String(target));
+    return url.toString();
+  };
+
+  return {
+    count: items.length,
+    next: page * pageSize < items.length ? link(page + 1) : null,
+    previous: page > 1 ? link(page - 1) : null,
+    results: items.slice((page - 1) * pageSize, page * pageSize),
+  };
+}
+
+export interface FormFields {
+  fields: Record<string, string>;
+  files: Record<string, { name: string; type: string; data: Buffer }>;
+}
+
+/**
+ * Parse a multipart body with the platform's own form parser, so the
+ * sandbox needs no upload middleware
+ */
+export async function readForm(req: Request): Promise<FormFields> {
+  const form = await new globalThis.Request(`http://sandbox${req.originalUrl}`, {
+    method: req.method,
+    headers: { "content-type": req.get("Content-Type") ?? "" },
+    body: Readable.toWeb(req) as unknown as BodyInit,
+    duplex: "half",
+  } as RequestInit).formData();
+
+  const result: FormFields = { fields: {}, files: {} };
+  for (const [key, value] of form.entries()) {
+    if (typeof value === "string") {
+      result.fields[key] = value;
+    } else {
+      result.files[key] = { name: value.name, type: value.type, data: Buffer.from(await value.arrayBuffer()) };
+    }
+  }
+  return result;
+}
+
+export const isMultipart = (req: Request) => Boolean(req.is("multipart/form-data"));
+
+export const requestMeta = (req: Request) => ({
+  ipAddress: req.ip,
+  userAgent: req.get("User-Agent"),
+});
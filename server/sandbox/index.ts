@@ -0,0 +1,35 @@
+import express, { Router } from "express";
+import { accountsRoutes } from "./accounts";
+import { documentsRoutes } from "./documents";
+import { settingsRoutes } from "./settings";
+import { authenticate, notFound } from "./http";
+import { seedStore } from "./seed";
+import { SandboxStore } from "./store";
+
+export { SANDBOX_OTP, SANDBOX_PASSWORD } from "./seed";
+
+/**
+ * In-memory stand-in for the Django API, for demos and offline work. Mount
+ * it where the backend's /api would be; everything resets on restart.
+ */
+export function createSandboxApi(store: SandboxStore = seedStore(new SandboxStore())): Router {
+  const router = Router();
+
+  router.use(express.json());
+  router.use(authenticate(store));
+
+  router.use(accountsRoutes(store));
+  router.use(documentsRoutes(store));
+  router.use(settingsRoutes(store));
+
+  router.use((_req, res) => {
+    notFound(res);
+  });
+
+  router.use(((error, _req, res, _next) => {
+    console.error("[sandbox]", error);
+    res.status(error.status ?? 500).json({ detail: error.expose ? error.message : "Sandbox server error." });
+  }) as express.ErrorRequestHandler);
+
+  return router;
+}
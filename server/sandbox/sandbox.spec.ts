@@ -0,0 +1,561 @@
+import crypto from "crypto";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createSandboxApi, SANDBOX_OTP, SANDBOX_PASSWORD } from "./index";
+import { seedStore } from "./seed";
+import { SandboxStore } from "./store";
+import { totpCode } from "./totp";
+import {
+  activityLogListSchema,
+  basicPublicSettingsSchema,
+  dashboardStatsSchema,
+  decode,
+  documentSchema,
+  invitationBatchSchema,
+  invitationPreviewSchema,
+  invitationSchema,
+  otpChallengeSchema,
+  activeSessionSchema,
+  paginatedSchema,
+  passkeyCreationOptionsSchema,
+  passkeyRequestOptionsSchema,
+  passkeySchema,
+  publicDocumentSchema,
+  publicSettingsSchema,
+  recoveryCodesSchema,
+  reportsDataSchema,
+  sessionSchema,
+  settingsEnvelope,
+  teacherDashboardStatsSchema,
+  teacherSchema,
+  totpSetupSchema,
+  uploadSessionSchema,
+} from "../../src/services/decoders";
+
+// Responses are checked with the client's own decoders, so the sandbox cannot drift from the contract
+let server: Server;
+let baseUrl: string;
+
+const start = async (store?: SandboxStore) => {
+  const app = express();
+  app.use("/api", createSandboxApi(store));
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+};
+
+const stop = () => new Promise(resolve => server.close(resolve));
+
+beforeEach(() => start());
+
+afterEach(stop);
+
+const call = async (method: string, path: string, { token, json, body, headers = {} }: {
+  token?: string;
+  json?: unknown;
+  body?: BodyInit;
+  headers?: Record<string, string>;
+} = {}) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(json === undefined ? {} : { "Content-Type": "application/json" }),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...headers,
+    },
+    body: json === undefined ? body : JSON.stringify(json),
+  });
+  const type = response.headers.get("Content-Type") ?? "";
+  return {
+    status: response.status,
+    data: type.includes("json") ? await response.json() : Buffer.from(await response.arrayBuffer()),
+  };
+};
+
+const signIn = async (email: string) => {
+  const { data } = await call("POST", "/accounts/auth/login/", { json: { email, password: SANDBOX_PASSWORD } });
+  return decode(sessionSchema, data, "login").access;
+};
+
+// Stands in for the browser's virtual authenticator: one P-256 passkey answering ceremonies for `origin`
+const virtualAuthenticator = (origin: string) => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const credentialId = crypto.randomBytes(16);
+  const rawId = credentialId.toString("base64url");
+  const rpIdHash = crypto.createHash("sha256").update(new URL(origin).hostname).digest();
+  let counter = 0;
+
+  const authenticatorData = (flags: number, attested = Buffer.alloc(0)) => {
+    const signCount = Buffer.alloc(4);
+    signCount.writeUInt32BE(++counter);
+    return Buffer.concat([rpIdHash, Buffer.from([flags]), signCount, attested]);
+  };
+  const clientData = (type: string, challenge: string) => Buffer.from(JSON.stringify({ type, challenge, origin }));
+
+  return {
+    create: (challenge: string) => {
+      const idLength = Buffer.alloc(2);
+      idLength.writeUInt16BE(credentialId.length);
+      return {
+        id: rawId,
+        rawId,
+        type: "public-key",
+        response: {
+          clientDataJSON: clientData("webauthn.create", challenge).toString("base64url"),
+          attestationObject: "",
+          authenticatorData: authenticatorData(0x45, Buffer.concat([Buffer.alloc(16), idLength, credentialId])).toString("base64url"),
+          publicKey: publicKey.export({ type: "spki", format: "der" }).toString("base64url"),
+          publicKeyAlgorithm: -7,
+          transports: ["internal"],
+        },
+      };
+    },
+    get: (challenge: string) => {
+      const clientDataJSON = clientData("webauthn.get", challenge);
+      const authData = authenticatorData(0x05);
+      const clientDataHash = crypto.createHash("sha256").update(clientDataJSON).digest();
+      return {
+        id: rawId,
+        rawId,
+        type: "public-key",
+        response: {
+          clientDataJSON: clientDataJSON.toString("base64url"),
+          authenticatorData: authData.toString("base64url"),
+          signature: crypto.sign("sha256", Buffer.concat([authData, clientDataHash]), privateKey).toString("base64url"),
+        },
+      };
+    },
+  };
+};
+
+describe("sandbox authentication", () => {
+  it("should sign a teacher straight in and list only their documents", async () => {
+    const token = await signIn("wanjiru.kamau@school.ac.ke");
+
+    const { data } = await call("GET", "/documents/documents/?page=1&page_size=2", { token });
+    const page = decode(paginatedSchema(z.array(documentSchema)), data, "documents");
+
+    expect(page.count).toBe(3);
+    expect(page.results).toHaveLength(2);
+    expect(page.next).toContain("page=2");
+    expect(new Set(page.results.map(document => document.teacher.name))).toEqual(new Set(["Wanjiru Kamau"]));
+  });
+
+  it("should ask the admin for a one-time code before starting a session", async () => {
+    const login = await call("POST", "/accounts/auth/login/", {
+      json: { email: "admin@dfs.co.ke", password: SANDBOX_PASSWORD },
+    });
+    const challenge = decode(otpChallengeSchema, login.data, "login");
+    expect(challenge.user.role).toBe("admin");
+
+    const wrong = await call("POST", "/accounts/auth/verify-otp/", { json: { user_id: challenge.user.id, otp: "000000" } });
+    expect(wrong.status).toBe(400);
+
+    const verified = await call("POST", "/accounts/auth/verify-otp/", { json: { user_id: challenge.user.id, otp: SANDBOX_OTP } });
+    expect(decode(sessionSchema, verified.data, "OTP verification").user.email).toBe("admin@dfs.co.ke");
+  });
+
+  it("should offer an enrolled authenticator app first and keep admins on it when required", async () => {
+    const adminLogin = { email: "admin@dfs.co.ke", password: SANDBOX_PASSWORD };
+    const first = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", { json: adminLogin })).data, "login");
+    expect(first.methods).toEqual(["email"]);
+    const verified = await call("POST", "/accounts/auth/verify-otp/", { json: { user_id: first.user.id, otp: SANDBOX_OTP } });
+    const token = decode(sessionSchema, verified.data, "OTP verification").access;
+
+    const setup = decode(totpSetupSchema, (await call("POST", "/accounts/2fa/totp/setup/", { token })).data, "authenticator setup");
+    expect(setup.otpauthUrl).toContain(`secret=${setup.secret}`);
+    expect((await call("POST", "/accounts/2fa/totp/confirm/", { token, json: { code: "12345" } })).status).toBe(400);
+    expect((await call("POST", "/accounts/2fa/totp/confirm/", { token, json: { code: totpCode(setup.secret) } })).status).toBe(200);
+
+    const second = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", { json: adminLogin })).data, "login");
+    expect(second.methods).toEqual(["totp", "email"]);
+    const withApp = await call("POST", "/accounts/auth/verify-otp/", {
+      json: { user_id: second.user.id, otp: totpCode(setup.secret), method: "totp" },
+    });
+    expect(withApp.status).toBe(200);
+
+    await call("PUT", "/settings/security/", { token, json: { require_totp_for_admins: true } });
+    const third = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", { json: adminLogin })).data, "login");
+    expect(third.methods).toEqual(["totp"]);
+    expect((await call("POST", "/accounts/auth/send-otp/", { json: { user_id: third.user.id } })).status).toBe(403);
+  });
+
+  it("should accept each recovery code once and log its use as high severity", async () => {
+    const adminLogin = { email: "admin@dfs.co.ke", password: SANDBOX_PASSWORD };
+    const signInWith = async (otp: string, method?: string) => {
+      const challenge = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", { json: adminLogin })).data, "login");
+      return call("POST", "/accounts/auth/verify-otp/", { json: { user_id: challenge.user.id, otp, method } });
+    };
+    const token = decode(sessionSchema, (await signInWith(SANDBOX_OTP)).data, "OTP verification").access;
+
+    const { codes } = decode(recoveryCodesSchema, (await call("POST", "/accounts/2fa/recovery-codes/", { token })).data, "recovery codes");
+    expect(codes).toHaveLength(10);
+
+    expect((await signInWith(codes[0].toUpperCase(), "recovery")).status).toBe(200);
+    expect((await signInWith(codes[0], "recovery")).status).toBe(400);
+    expect((await call("GET", "/accounts/2fa/recovery-codes/", { token })).data.remaining).toBe(9);
+
+    const logs = decode(activityLogListSchema, (await call("GET", "/audit/logs/", { token })).data, "activity log");
+    expect(logs.find(log => log.description.startsWith("Signed in with a recovery code"))?.severity).toBe("HIGH");
+  });
+
+  it("should register a passkey, sign in with it once per challenge and hold admins to it", async () => {
+    const adminLogin = { email: "admin@dfs.co.ke", password: SANDBOX_PASSWORD };
+    const challenge = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", { json: adminLogin })).data, "login");
+    const verified = await call("POST", "/accounts/auth/verify-otp/", { json: { user_id: challenge.user.id, otp: SANDBOX_OTP } });
+    const token = decode(sessionSchema, verified.data, "OTP verification").access;
+
+    const origin = "http://localhost:8080";
+    const headers = { Origin: origin };
+    const authenticator = virtualAuthenticator(origin);
+
+    const creation = decode(passkeyCreationOptionsSchema,
+      (await call("POST", "/accounts/passkeys/register/options/", { token, headers })).data, "registration options");
+    expect(creation.rp.id).toBe("localhost");
+    const registered = await call("POST", "/accounts/passkeys/register/", {
+      token,
+      headers,
+      json: { name: "Office laptop", credential: authenticator.create(creation.challenge) },
+    });
+    expect(registered.status).toBe(201);
+    const passkey = decode(passkeySchema, registered.data, "passkey");
+
+    const request = decode(passkeyRequestOptionsSchema,
+      (await call("POST", "/accounts/auth/passkey/options/", { headers })).data, "sign-in options");
+    const assertion = authenticator.get(request.challenge);
+    const session = decode(sessionSchema,
+      (await call("POST", "/accounts/auth/passkey/", { headers, json: { credential: assertion } })).data, "passkey sign-in");
+    expect(session.user.email).toBe("admin@dfs.co.ke");
+    expect((await call("POST", "/accounts/auth/passkey/", { headers, json: { credential: assertion } })).status).toBe(400);
+
+    const renamed = await call("PATCH", `/accounts/passkeys/${passkey.id}/`, { token, json: { name: "Home laptop" } });
+    expect(decode(passkeySchema, renamed.data, "passkey").name).toBe("Home laptop");
+    const [listed] = decode(z.array(passkeySchema), (await call("GET", "/accounts/passkeys/", { token })).data, "passkeys");
+    expect(listed.lastUsedAt).toBeDefined();
+
+    await call("PUT", "/settings/security/", { token, json: { require_passkeys_for_admins: true } });
+    expect((await call("POST", "/accounts/auth/login/", { json: adminLogin })).status).toBe(403);
+    expect((await call("DELETE", `/accounts/passkeys/${passkey.id}/`, { token })).status).toBe(403);
+
+    await call("PUT", "/settings/security/", { token, json: { require_passkeys_for_admins: false } });
+    expect((await call("DELETE", `/accounts/passkeys/${passkey.id}/`, { token })).status).toBe(204);
+    expect((await call("GET", "/accounts/passkeys/", { token })).data).toEqual([]);
+  });
+
+  it("should list sessions per device and end them for the user, an admin and on logout", async () => {
+    const signInFrom = async (email: string, userAgent: string) => {
+      const { data } = await call("POST", "/accounts/auth/login/", {
+        json: { email, password: SANDBOX_PASSWORD },
+        headers: { "User-Agent": userAgent },
+      });
+      return decode(sessionSchema, data, "login");
+    };
+    const laptop = await signInFrom("wanjiru.kamau@school.ac.ke", "Mozilla/5.0 (Windows NT 10.0) Chrome/124.0.0.0 Safari/537.36");
+    const phone = await signInFrom("wanjiru.kamau@school.ac.ke", "Mozilla/5.0 (iPhone) Version/17.4 Mobile Safari/604.1");
+    const tablet = await signInFrom("wanjiru.kamau@school.ac.ke", "Mozilla/5.0 (iPad) Version/17.4 Safari/604.1");
+
+    const sessions = decode(z.array(activeSessionSchema),
+      (await call("GET", "/accounts/sessions/", { token: laptop.access })).data, "sessions");
+    expect(sessions).toHaveLength(3);
+    expect(sessions.find(session => session.isCurrent)?.userAgent).toContain("Windows");
+    expect(sessions[0].location).toBe("Local network");
+
+    const phoneSession = sessions.find(session => session.userAgent.includes("iPhone"));
+    expect((await call("DELETE", `/accounts/sessions/${phoneSession.id}/`, { token: laptop.access })).status).toBe(204);
+    expect((await call("GET", "/accounts/profile/", { token: phone.access })).status).toBe(401);
+    expect((await call("POST", "/accounts/auth/refresh/", { json: { refresh: phone.refresh } })).status).toBe(401);
+
+    expect((await call("POST", "/accounts/sessions/revoke-others/", { token: laptop.access })).data).toEqual({ revoked: 1 });
+    expect((await call("GET", "/accounts/profile/", { token: tablet.access })).status).toBe(401);
+
+    const challenge = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", {
+      json: { email: "admin@dfs.co.ke", password: SANDBOX_PASSWORD },
+    })).data, "login");
+    const admin = decode(sessionSchema, (await call("POST", "/accounts/auth/verify-otp/", {
+      json: { user_id: challenge.user.id, otp: SANDBOX_OTP },
+    })).data, "OTP verification");
+    const teachers = (await call("GET", "/accounts/teachers/", { token: admin.access })).data;
+    const teacherId = teachers.find(teacher => teacher.user.email === "wanjiru.kamau@school.ac.ke").id;
+    expect((await call("GET", `/accounts/teachers/${teacherId}/sessions/`, { token: admin.access })).data).toHaveLength(1);
+    expect((await call("POST", `/accounts/teachers/${teacherId}/sessions/revoke/`, { token: admin.access })).data).toEqual({ revoked: 1 });
+    expect((await call("GET", "/accounts/profile/", { token: laptop.access })).status).toBe(401);
+
+    await call("POST", "/accounts/auth/logout/", { token: admin.access, json: { refresh_token: admin.refresh } });
+    expect((await call("POST", "/accounts/auth/refresh/", { json: { refresh: admin.refresh } })).status).toBe(401);
+  });
+
+  it("should lock an account after repeated failed sign-ins until it times out or an admin clears it", async () => {
+    const challenge = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", {
+      json: { email: "admin@dfs.co.ke", password: SANDBOX_PASSWORD },
+    })).data, "login");
+    const admin = decode(sessionSchema, (await call("POST", "/accounts/auth/verify-otp/", {
+      json: { user_id: challenge.user.id, otp: SANDBOX_OTP },
+    })).data, "OTP verification");
+    await call("PUT", "/settings/security/", { token: admin.access, json: { lockout_threshold: 3, lockout_minutes: 10 } });
+
+    const attempt = (password: string) =>
+      call("POST", "/accounts/auth/login/", { json: { email: "Wanjiru.Kamau@school.ac.ke", password } });
+    await attempt("wrong-password");
+    expect((await attempt("wrong-password")).data).toEqual({
+      error: "Invalid email or password. 1 attempt left before the account is locked.",
+    });
+    const locked = await attempt("wrong-password");
+    expect(locked.status).toBe(429);
+    expect(locked.data.code).toBe("account_locked");
+    expect((await attempt(SANDBOX_PASSWORD)).status).toBe(429);
+
+    const logs = decode(activityLogListSchema, (await call("GET", "/audit/logs/", { token: admin.access })).data, "activity log");
+    expect(logs[0]).toMatchObject({ description: "Locked after 3 failed sign-ins", severity: "CRITICAL" });
+
+    const teachers = (await call("GET", "/accounts/teachers/", { token: admin.access })).data;
+    const teacher = decode(teacherSchema, teachers.find(teacher => teacher.user.email === "wanjiru.kamau@school.ac.ke"), "teacher");
+    expect(Date.parse(teacher.lockedUntil) - Date.now()).toBeGreaterThan(9 * 60 * 1000);
+
+    const unlocked = await call("POST", `/accounts/teachers/${teacher.id}/unlock/`, { token: admin.access });
+    expect(decode(teacherSchema, unlocked.data.teacher, "teacher").lockedUntil).toBeUndefined();
+    expect((await attempt(SANDBOX_PASSWORD)).status).toBe(200);
+  });
+
+  it("should invite teachers by email and let each link be used once before it is resent or revoked", async () => {
+    const challenge = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", {
+      json: { email: "admin@dfs.co.ke", password: SANDBOX_PASSWORD },
+    })).data, "login");
+    const admin = decode(sessionSchema, (await call("POST", "/accounts/auth/verify-otp/", {
+      json: { user_id: challenge.user.id, otp: SANDBOX_OTP },
+    })).data, "OTP verification");
+
+    // The sandbox logs each invitation link in place of emailing it
+    const emailed = vi.spyOn(console, "info").mockImplementation(() => {});
+    const emailedToken = (index: number) => String(emailed.mock.calls[index][0]).split("/accept-invite/")[1];
+
+    const sent = await call("POST", "/accounts/invitations/", {
+      token: admin.access,
+      json: { emails: ["Otieno.Brian@school.ac.ke", "wanjiru.kamau@school.ac.ke", "otieno.brian@school.ac.ke", "grace.mutua@school.ac.ke"] },
+    });
+    expect(sent.status).toBe(201);
+    const batch = decode(invitationBatchSchema, sent.data, "invitations");
+    expect(batch.invitations.map(invitation => invitation.email)).toEqual(["otieno.brian@school.ac.ke", "grace.mutua@school.ac.ke"]);
+    expect(batch.skipped).toEqual([{ email: "wanjiru.kamau@school.ac.ke", reason: "Already has an account" }]);
+    const [brian, grace] = batch.invitations;
+    expect(brian).toMatchObject({ status: "pending", invitedBy: "Grace Njeri" });
+
+    const firstToken = emailedToken(0);
+    const resent = decode(invitationSchema, (await call("POST", `/accounts/invitations/${brian.id}/resend/`, { token: admin.access })).data, "invitation");
+    expect(Date.parse(resent.expiresAt) - Date.now()).toBeGreaterThan(6 * 24 * 60 * 60 * 1000);
+    expect((await call("GET", `/accounts/invitations/accept/${firstToken}/`)).status).toBe(404);
+
+    const token = emailedToken(2);
+    emailed.mockRestore();
+    expect(decode(invitationPreviewSchema, (await call("GET", `/accounts/invitations/accept/${token}/`)).data, "invitation").email)
+      .toBe("otieno.brian@school.ac.ke");
+
+    const accept = (password: string) => call("POST", `/accounts/invitations/accept/${token}/`, {
+      json: { first_name: "Brian", last_name: "Otieno", password, phone_number: "+254 712 345 678" },
+    });
+    expect((await accept("brian2024")).data).toEqual({ password: ["The password is too similar to your name or email address."] });
+    expect((await accept("Mango#Tree42")).status).toBe(201);
+    expect((await accept("Mango#Tree42")).status).toBe(404);
+
+    const { data } = await call("POST", "/accounts/auth/login/", {
+      json: { email: "otieno.brian@school.ac.ke", password: "Mango#Tree42" },
+    });
+    expect(decode(sessionSchema, data, "login").user.role).toBe("teacher");
+
+    expect((await call("DELETE", `/accounts/invitations/${grace.id}/`, { token: admin.access })).status).toBe(204);
+    const invitations = decode(z.array(invitationSchema), (await call("GET", "/accounts/invitations/", { token: admin.access })).data, "invitations");
+    expect(invitations.map(({ email, status }) => ({ email, status }))).toEqual([
+      { email: "otieno.brian@school.ac.ke", status: "accepted" },
+    ]);
+  });
+
+  it("should refuse pending teachers and missing tokens", async () => {
+    const pending = await call("POST", "/accounts/auth/login/", {
+      json: { email: "amina.hassan@school.ac.ke", password: SANDBOX_PASSWORD },
+    });
+    expect(pending.status).toBe(403);
+
+    expect((await call("GET", "/documents/documents/")).status).toBe(401);
+  });
+});
+
+describe("sandbox documents", () => {
+  it("should assemble a chunked upload and reject a corrupted chunk", async () => {
+    const token = await signIn("otieno.ochieng@school.ac.ke");
+    const file = crypto.randomBytes(2500);
+    const chunkSize = 1000;
+
+    const started = await call("POST", "/documents/uploads/", {
+      token,
+      json: { file_name: "notes.pdf", file_size: file.length, content_type: "application/pdf", chunk_size: chunkSize, total_chunks: 3 },
+    });
+    const { uploadId } = decode(uploadSessionSchema, started.data, "upload session");
+
+    const sendChunk = (index: number, checksumOf = file.subarray(index * chunkSize, (index + 1) * chunkSize)) => {
+      const chunk = file.subarray(index * chunkSize, (index + 1) * chunkSize);
+      return call("PUT", `/documents/uploads/${uploadId}/chunks/${index}/`, {
+        token,
+        body: Uint8Array.from(chunk),
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Range": `bytes ${index * chunkSize}-${index * chunkSize + chunk.length - 1}/${file.length}`,
+          "X-Chunk-Checksum": `sha256=${crypto.createHash("sha256").update(checksumOf).digest("hex")}`,
+        },
+      });
+    };
+
+    expect((await sendChunk(0, Buffer.from("tampered"))).status).toBe(409);
+    for (const index of [0, 1, 2]) {
+      expect((await sendChunk(index)).status).toBe(200);
+    }
+
+    const completed = await call("POST", `/documents/uploads/${uploadId}/complete/`, {
+      token,
+      json: { title: "Revision Notes", category: "4" },
+    });
+    const document = decode(documentSchema, completed.data, "document");
+    expect(document.fileSize).toBe(file.length);
+
+    const download = await call("GET", `/documents/documents/${document.id}/download/`, { token });
+    expect(Buffer.compare(download.data, file)).toBe(0);
+  });
+
+  it("should open a public share only with its token", async () => {
+    const token = await signIn("wanjiru.kamau@school.ac.ke");
+
+    const shared = await call("POST", "/documents/documents/1/share/", { token, json: { share_type: "public" } });
+    expect(shared.status).toBe(201);
+    const [, , documentId, shareToken] = shared.data.public_url.split("/");
+
+    const view = await call("GET", `/documents/documents/${documentId}/public_view/?token=${shareToken}`);
+    expect(decode(publicDocumentSchema, view.data, "shared document").category?.name).toBe("Lesson Plans");
+
+    expect((await call("GET", `/documents/documents/${documentId}/public_view/?token=wrong`)).status).toBe(403);
+  });
+
+  it("should answer bodies that break the shared contracts with field errors", async () => {
+    const token = await signIn("wanjiru.kamau@school.ac.ke");
+
+    const share = await call("POST", "/documents/documents/1/share/", {
+      token,
+      json: { share_type: "private", shared_with_emails: ["not-an-email"] },
+    });
+    expect(share.status).toBe(400);
+    expect(share.data).toEqual({ "shared_with_emails.0": ["Enter a valid email address."] });
+
+    const login = await call("POST", "/accounts/auth/login/", { json: { email: "admin@dfs.co.ke" } });
+    expect(login.data).toEqual({ password: ["This field is required."] });
+  });
+});
+
+describe("sandbox settings", () => {
+  it("should deliver feature flag rules with the public settings", async () => {
+    const { data } = await call("GET", "/settings/public/");
+    const flags = decode(settingsEnvelope(publicSettingsSchema), data, "public settings").data.featureFlags;
+
+    expect(flags.offlineOutbox).toEqual({ enabled: false, schools: { "school.ac.ke": true } });
+    expect(flags.publicLinks?.enabled).toBe(true);
+  });
+
+  it("should keep a user's own flag overrides out of the public settings", async () => {
+    const store = seedStore(new SandboxStore());
+    const pilot = store.findUserByEmail("otieno.ochieng@school.ac.ke")!;
+    store.featureFlags.reports = { enabled: false, users: { [pilot.id]: true } };
+    await stop();
+    await start(store);
+
+    const { data } = await call("GET", "/settings/public/");
+    expect(JSON.stringify(data)).not.toContain("users");
+    expect(data.data.feature_flags.reports).toEqual({ enabled: false });
+
+    const { data: login } = await call("POST", "/accounts/auth/login/", {
+      json: { email: pilot.email, password: SANDBOX_PASSWORD },
+    });
+    expect(decode(sessionSchema, login, "login").user.featureFlags).toEqual({ reports: true });
+
+    const token = await signIn("wanjiru.kamau@school.ac.ke");
+    const { data: profile } = await call("GET", "/accounts/profile/", { token });
+    expect(profile.user.feature_flags).toEqual({});
+  });
+
+  it("should filter the audit log by action, severity, user, search and date before paging", async () => {
+    const challenge = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", {
+      json: { email: "admin@dfs.co.ke", password: SANDBOX_PASSWORD },
+    })).data, "login");
+    const admin = decode(sessionSchema, (await call("POST", "/accounts/auth/verify-otp/", {
+      json: { user_id: challenge.user.id, otp: SANDBOX_OTP },
+    })).data, "OTP verification");
+    await signIn("wanjiru.kamau@school.ac.ke");
+    const logs = (query: string) => call("GET", `/audit/logs/?page=1&page_size=1&${query}`, { token: admin.access });
+
+    const logins = (await logs("action__in=LOGIN,LOGOUT&severity__in=INFO&search=wanjiru")).data;
+    expect(logins.count).toBe(1);
+    expect(logins.next).toBeNull();
+    expect(logins.results[0]).toMatchObject({ action: "LOGIN", user_name: "Wanjiru Kamau" });
+
+    const byUser = (await logs(`user=${logins.results[0].user_id}`)).data;
+    expect(byUser.results[0].user_id).toBe(logins.results[0].user_id);
+    expect((await logs(`created_after=${new Date(Date.now() + 60_000).toISOString()}`)).data.count).toBe(0);
+  });
+
+  it("should serve dashboards, reports and basic settings in the client's contracts", async () => {
+    const challenge = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", {
+      json: { email: "admin@dfs.co.ke", password: SANDBOX_PASSWORD },
+    })).data, "login");
+    const admin = decode(sessionSchema, (await call("POST", "/accounts/auth/verify-otp/", {
+      json: { user_id: challenge.user.id, otp: SANDBOX_OTP },
+    })).data, "OTP verification");
+    const teacher = await signIn("wanjiru.kamau@school.ac.ke");
+    await call("POST", "/accounts/invitations/", { token: admin.access, json: { emails: ["otieno@school.ac.ke"] } });
+
+    const stats = decode(dashboardStatsSchema, (await call("GET", "/accounts/admin/dashboard/stats/", { token: admin.access })).data, "dashboard stats");
+    expect(stats.recentActivity[0]).toMatchObject({ action: "create", targetName: "otieno@school.ac.ke" });
+    const teacherStats = decode(teacherDashboardStatsSchema,
+      (await call("GET", "/accounts/teacher/dashboard/stats/", { token: teacher })).data, "teacher dashboard stats");
+    expect(teacherStats.recentDocuments[0].teacher.name).toBe("Wanjiru Kamau");
+    decode(reportsDataSchema, (await call("GET", "/accounts/admin/reports/?time_range=30", { token: admin.access })).data, "reports");
+
+    const basic = decode(settingsEnvelope(basicPublicSettingsSchema), (await call("GET", "/settings/public/basic/")).data, "basic public settings");
+    expect(basic.data.registrationEnabled).toBe(true);
+  });
+
+  it("should hold new passwords to the admin's policy and expire old ones", async () => {
+    const challenge = decode(otpChallengeSchema, (await call("POST", "/accounts/auth/login/", {
+      json: { email: "admin@dfs.co.ke", password: SANDBOX_PASSWORD },
+    })).data, "login");
+    const admin = decode(sessionSchema, (await call("POST", "/accounts/auth/verify-otp/", {
+      json: { user_id: challenge.user.id, otp: SANDBOX_OTP },
+    })).data, "OTP verification");
+    const policy = {
+      min_length: 10, require_uppercase: false, require_lowercase: false, require_digit: true, require_symbol: false,
+      disallow_personal_info: true, disallow_common_passwords: true, history_count: 2, max_age_days: 30,
+    };
+    const rejected = await call("PUT", "/settings/security/", { token: admin.access, json: { password_policy: { ...policy, min_length: 4 } } });
+    expect(rejected.data).toEqual({ "password_policy.min_length": ["Number must be greater than or equal to 6"] });
+    await call("PUT", "/settings/security/", { token: admin.access, json: { password_policy: policy } });
+
+    const { data } = await call("POST", "/accounts/auth/login/", {
+      json: { email: "wanjiru.kamau@school.ac.ke", password: SANDBOX_PASSWORD },
+    });
+    const teacher = decode(sessionSchema, data, "login");
+    expect(teacher.user.passwordExpired).toBe(true);
+
+    const changePassword = (current_password: string, new_password: string) =>
+      call("POST", "/accounts/auth/change-password/", { token: teacher.access, json: { current_password, new_password } });
+    expect((await changePassword(SANDBOX_PASSWORD, "Wanjiru-Nyeri")).data).toEqual({ new_password: [
+      "The password must contain at least one digit.",
+      "The password is too similar to your name or email address.",
+    ] });
+    expect((await changePassword(SANDBOX_PASSWORD, SANDBOX_PASSWORD)).data).toEqual({ new_password: [
+      "You cannot reuse one of your recent passwords.",
+    ] });
+    expect((await changePassword(SANDBOX_PASSWORD, "Mango#Tree42")).status).toBe(200);
+    expect((await changePassword("Mango#Tree42", SANDBOX_PASSWORD)).status).toBe(400);
+
+    const profile = (await call("GET", "/accounts/profile/", { token: teacher.access })).data;
+    expect(profile.user.password_expired).toBe(false);
+  });
+});
@@ -0,0 +1,204 @@
+import type { TeacherStatus } from "../../shared/api";
+import { SandboxStore } from "./store";
+
+// Every seeded account signs in with this password
+export const SANDBOX_PASSWORD = "Sandbox123!";
+// The sandbox sends no email, so every one-time code is this one
+export const SANDBOX_OTP = "123456";
+
+// Values match the options on the upload form
+export const GRADES = [
+  { value: "grade-1", label: "Grade 1" },
+  { value: "grade-2", label: "Grade 2" },
+  { value: "grade-3", label: "Grade 3" },
+  { value: "grade-4", label: "Grade 4" },
+  { value: "grade-5", label: "Grade 5" },
+  { value: "grade-6", label: "Grade 6" },
+  { value: "grade-7", label: "Grade 7" },
+  { value: "grade-8", label: "Grade 8" },
+];
+
+export const SUBJECTS = [
+  { value: "mathematics", label: "Mathematics" },
+  { value: "english", label: "English" },
+  { value: "kiswahili", label: "Kiswahili" },
+  { value: "science", label: "Science" },
+  { value: "social-studies", label: "Social Studies" },
+  { value: "religious-education", label: "Religious Education" },
+  { value: "physical-education", label: "Physical Education" },
+  { value: "creative-arts", label: "Creative Arts" },
+];
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const label = (options: { value: string; label: string }[], value: string) =>
+  options.find(option => option.value === value)!.label;
+
+/**
+ * A one-page PDF with a heading and a few lines of text, so seeded
+ * documents preview and download like real ones
+ */
+export function samplePdf(title: string, lines: string[]): Buffer {
+  const escape = (text: string) => text.replace(/[\\()]/g, "\\$&");
+  const content = [title, "", ...lines]
+    .map((line, index) => `BT /F1 ${index === 0 ? 18 : 12} Tf 72 ${720 - index * 22} Td (${escape(line)}) Tj ET`)
+    .join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
+
+const TEACHERS: { firstName: string; lastName: string; email: string; status: TeacherStatus; phoneNumber: string; bio: string; joined: number }[] = [
+  { firstName: "Wanjiru", lastName: "Kamau", email: "wanjiru.kamau@school.ac.ke", status: "active", phoneNumber: "+254712345678", bio: "Upper primary Mathematics and Science teacher, Nyeri.", joined: 120 },
+  { firstName: "Otieno", lastName: "Ochieng", email: "otieno.ochieng@school.ac.ke", status: "active", phoneNumber: "+254722456789", bio: "English and Kiswahili teacher, Kisumu.", joined: 95 },
+  { firstName: "Chebet", lastName: "Rotich", email: "chebet.rotich@school.ac.ke", status: "active", phoneNumber: "+254733567890", bio: "Junior school Social Studies, Eldoret.", joined: 60 },
+  { firstName: "Amina", lastName: "Hassan", email: "amina.hassan@school.ac.ke", status: "pending", phoneNumber: "+254744678901", bio: "Religious Education and Creative Arts, Mombasa.", joined: 2 },
+  { firstName: "Mutua", lastName: "Musyoka", email: "mutua.musyoka@school.ac.ke", status: "suspended", phoneNumber: "+254755789012", bio: "Physical Education, Machakos.", joined: 200 },
+];
+
+const CATEGORIES = [
+  { name: "Lesson Plans", description: "Daily lesson plans for a class and subject", requiresClassSubject: true, isActive: true },
+  { name: "Schemes of Work", description: "Termly schemes of work", requiresClassSubject: true, isActive: true },
+  { name: "Assessment Records", description: "CATs, end-term exams and marking schemes", requiresClassSubject: true, isActive: true },
+  { name: "Administrative Forms", description: "Leave forms, requisitions and returns", requiresClassSubject: false, isActive: true },
+  { name: "CPD Certificates", description: "Professional development certificates", requiresClassSubject: false, isActive: true },
+  { name: "Circulars", description: "Ministry and county circulars (retired)", requiresClassSubject: false, isActive: false },
+];
+
+const DOCUMENTS: { title: string; teacher: number; category: number; grade?: string; subject?: string; downloads: number; age: number }[] = [
+  { title: "Fractions and Decimals Lesson Plan", teacher: 0, category: 0, grade: "grade-5", subject: "mathematics", downloads: 14, age: 40 },
+  { title: "Term 2 Scheme of Work", teacher: 0, category: 1, grade: "grade-6", subject: "science", downloads: 9, age: 30 },
+  { title: "Grade 7 End Term Exam", teacher: 0, category: 2, grade: "grade-7", subject: "mathematics", downloads: 22, age: 12 },
+  { title: "Insha Writing Lesson Plan", teacher: 1, category: 0, grade: "grade-4", subject: "kiswahili", downloads: 6, age: 25 },
+  { title: "Comprehension CAT", teacher: 1, category: 2, grade: "grade-8", subject: "english", downloads: 11, age: 8 },
+  { title: "Leave Application Form", teacher: 1, category: 3, downloads: 3, age: 5 },
+  { title: "Counties of Kenya Scheme of Work", teacher: 2, category: 1, grade: "grade-7", subject: "social-studies", downloads: 4, age: 18 },
+  { title: "CBC Training Certificate", teacher: 2, category: 4, downloads: 1, age: 3 },
+];
+
+/**
+ * Fill a store with a school's worth of accounts and documents
+ */
+export function seedStore(store: SandboxStore): SandboxStore {
+  const admin = store.addUser({
+    email: "admin@dfs.co.ke",
+    password: SANDBOX_PASSWORD,
+    firstName: "Grace",
+    lastName: "Njeri",
+    role: "admin",
+    isActive: true,
+    phoneNumber: "+254700000001",
+    dateJoined: daysAgo(365),
+  });
+  // The admin signs in with a one-time code, so both login flows can be tried
+  admin.preferences.twoFactorEnabled = true;
+
+  const teachers = TEACHERS.map(({ status, joined, ...fields }) => {
+    const user = store.addUser({
+      ...fields,
+      password: SANDBOX_PASSWORD,
+      role: "teacher",
+      isActive: status !== "suspended",
+      dateJoined: daysAgo(joined),
+    });
+    return store.addTeacher(user, status, status === "pending" ? {} : {
+      approvedBy: admin.id,
+      approvedAt: daysAgo(joined - 1),
+    });
+  });
+
+  const categories = CATEGORIES.map(fields => {
+    const category = { id: store.nextId("category"), ...fields, createdAt: daysAgo(300), updatedAt: daysAgo(300) };
+    store.categories.push(category);
+    return category;
+  });
+
+  DOCUMENTS.forEach(({ title, teacher, category, grade, subject, downloads, age }) => {
+    const owner = teachers[teacher];
+    const user = store.findUser(owner.userId)!;
+    const details = [
+      `Prepared by ${user.firstName} ${user.lastName}`,
+      `Category: ${categories[category].name}`,
+      ...(grade ? [`Class: ${label(GRADES, grade)}`, `Subject: ${label(SUBJECTS, subject!)}`] : []),
+      "Sample document from the sandbox backend.",
+    ];
+    const document = {
+      id: store.nextId("document"),
+      title,
+      description: `${title} for the sandbox school`,
+      fileName: `${title.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.pdf`,
+      file: { data: samplePdf(title, details), contentType: "application/pdf" },
+      teacherId: owner.id,
+      categoryId: categories[category].id,
+      classLevel: grade,
+      subject,
+      status: "active" as const,
+      downloadCount: downloads,
+      createdAt: daysAgo(age),
+      updatedAt: daysAgo(age),
+    };
+    store.documents.push(document);
+    store.log(user, "CREATE_DOCUMENT", `Uploaded ${title}`, {
+      targetType: "document",
+      targetId: document.id,
+      targetName: title,
+      createdAt: document.createdAt,
+    });
+  });
+
+  // One document shared privately and one through a public link
+  const [wanjiru, otieno] = teachers;
+  store.shares.push(
+    {
+      id: store.nextId("share"),
+      documentId: 1,
+      sharedBy: wanjiru.id,
+      sharedWith: otieno.id,
+      shareType: "private",
+      canDownload: true,
+      canView: true,
+      isActive: true,
+      sharedAt: daysAgo(10),
+    },
+    {
+      id: store.nextId("share"),
+      documentId: 5,
+      sharedBy: otieno.id,
+      shareType: "public",
+      shareToken: "sandbox-public-share",
+      canDownload: true,
+      canView: true,
+      isActive: true,
+      sharedAt: daysAgo(4),
+    },
+  );
+
+  store.log(admin, "APPROVE_USER", "Approved Chebet Rotich", {
+    targetType: "teacher",
+    targetId: teachers[2].id,
+    targetName: "Chebet Rotich",
+    createdAt: daysAgo(59),
+  });
+  store.log(admin, "LOGIN", "Signed in", { createdAt: daysAgo(1) });
+  store.auditLogs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return store;
+}
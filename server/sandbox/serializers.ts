@@ -0,0 +1,331 @@
+import {
+  AuditRecord,
+  CategoryRecord,
+  DocumentRecord,
+  InvitationRecord,
+  PasskeyRecord,
+  SandboxStore,
+  SessionRecord,
+  ShareRecord,
+  TeacherRecord,
+  UploadRecord,
+  UserRecord,
+  extensionOf,
+  fullName,
+} from "./store";
+
+/**
+ * Django REST Framework representations of the sandbox records. They follow
+ * the serializers the client's decoders were written against, snake_case
+ * keys and all.
+ */
+
+// The SPA route that opens a public share
+export const publicShareUrl = (share: ShareRecord) => `/shared/${share.documentId}/${share.shareToken}`;
+
+export const profilePictureUrl = (user: UserRecord, apiBase: string) =>
+  user.profilePicture ? `${apiBase}/media/profile-pictures/${user.id}` : null;
+
+export function userJson(store: SandboxStore, user: UserRecord, apiBase: string) {
+  return {
+    id: user.id,
+    email: user.email,
+    username: user.email,
+    first_name: user.firstName,
+    last_name: user.lastName,
+    role: user.role,
+    is_active: user.isActive,
+    date_joined: user.dateJoined,
+    last_login: user.lastLogin ?? null,
+    profile_picture: profilePictureUrl(user, apiBase),
+    phone_number: user.phoneNumber ?? "",
+    bio: user.bio ?? "",
+    teacher_profile_id: store.teacherForUser(user.id)?.id ?? null,
+    password_expired: store.passwordExpired(user),
+  };
+}
+
+// The signed-in user's own record, with the flag overrides no one else may read
+export function accountUserJson(store: SandboxStore, user: UserRecord, apiBase: string) {
+  return { ...userJson(store, user, apiBase), feature_flags: store.featureFlagOverrides(user.id) };
+}
+
+export function preferencesJson(store: SandboxStore, user: UserRecord) {
+  const { preferences } = user;
+  const maxTimeout = store.systemSettings.sessionTimeout;
+  const twoFactorRequired = store.securitySettings.twoFactorRequired;
+
+  return {
+    id: user.id,
+    two_factor_enabled: preferences.twoFactorEnabled,
+    session_timeout_override: preferences.sessionTimeoutOverride ?? null,
+    email_notifications: preferences.emailNotifications,
+    document_shared_notifications: preferences.documentSharedNotifications,
+    system_notifications: preferences.systemNotifications,
+    security_notifications: preferences.securityNotifications,
+    created_at: preferences.createdAt,
+    updated_at: preferences.updatedAt,
+    is_2fa_user_controllable: !twoFactorRequired,
+    effective_2fa_setting: store.twoFactorMethods(user).length > 0,
+    effective_session_timeout: Math.min(preferences.sessionTimeoutOverride ?? maxTimeout, maxTimeout),
+    max_allowed_session_timeout: maxTimeout,
+    totp_enabled: Boolean(user.totpSecret),
+    totp_required: user.role === "admin" && store.securitySettings.adminTotpRequired,
+    passkey_required: user.role === "admin" && store.securitySettings.adminPasskeyRequired,
+  };
+}
+
+// The backend looks the IP up in a GeoIP database; the sandbox only ever sees local addresses
+const locationHint = (ipAddress?: string) =>
+  ipAddress && /^(::1|127\.|::ffff:127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/.test(ipAddress)
+    ? "Local network"
+    : null;
+
+export function sessionJson(session: SessionRecord, current?: SessionRecord) {
+  return {
+    id: session.id,
+    ip_address: session.ipAddress ?? null,
+    user_agent: session.userAgent ?? null,
+    location: locationHint(session.ipAddress),
+    created_at: session.createdAt,
+    last_activity_at: session.lastActivityAt,
+    is_current: session.id === current?.id,
+  };
+}
+
+export function passkeyJson(passkey: PasskeyRecord) {
+  return {
+    id: passkey.id,
+    name: passkey.name,
+    created_at: passkey.createdAt,
+    last_used_at: passkey.lastUsedAt ?? null,
+  };
+}
+
+export function teacherJson(store: SandboxStore, teacher: TeacherRecord, apiBase: string) {
+  const documents = store.documents.filter(document => document.teacherId === teacher.id);
+  const user = store.findUser(teacher.userId)!;
+  const lockedUntil = store.lockedUntil(user.email);
+
+  return {
+    id: teacher.id,
+    user: userJson(store, user, apiBase),
+    status: teacher.status,
+    approved_by: teacher.approvedBy ?? null,
+    approved_at: teacher.approvedAt ?? null,
+    rejected_by: teacher.rejectedBy ?? null,
+    rejected_at: teacher.rejectedAt ?? null,
+    rejection_reason: teacher.rejectionReason ?? null,
+    documents_count: documents.length,
+    shared_documents_count: documents.filter(document => store.activeShares(document.id).length > 0).length,
+    total_downloads: documents.reduce((sum, document) => sum + document.downloadCount, 0),
+    locked_until: lockedUntil ? new Date(lockedUntil).toISOString() : null,
+    created_at: teacher.createdAt,
+    updated_at: teacher.updatedAt,
+  };
+}
+
+export function invitationJson(store: SandboxStore, invitation: InvitationRecord) {
+  const inviter = store.findUser(invitation.invitedBy);
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    status: store.invitationStatus(invitation),
+    invited_by: inviter ? fullName(inviter) : null,
+    created_at: invitation.createdAt,
+    expires_at: invitation.expiresAt,
+    accepted_at: invitation.acceptedAt ?? null,
+  };
+}
+
+export function categoryJson(store: SandboxStore, category: CategoryRecord) {
+  return {
+    id: category.id,
+    name: category.name,
+    description: category.description,
+    requires_class_subject: category.requiresClassSubject,
+    is_active: category.isActive,
+    documents_count: store.documents.filter(document => document.categoryId === category.id).length,
+    created_at: category.createdAt,
+    updated_at: category.updatedAt,
+  };
+}
+
+function documentFields(store: SandboxStore, document: DocumentRecord, apiBase: string) {
+  const shares = store.activeShares(document.id);
+  const privateShares = shares.filter(share => share.shareType === "private" && share.sharedWith);
+  const publicShare = shares.find(share => share.shareType === "public");
+  const teacher = store.findTeacher(document.teacherId);
+  const owner = teacher && store.findUser(teacher.userId);
+
+  return {
+    id: document.id,
+    title: document.title,
+    description: document.description ?? "",
+    file: `${apiBase}/documents/documents/${document.id}/download/`,
+    file_name: document.fileName,
+    file_size: document.file.data.length,
+    file_type: extensionOf(document.fileName),
+    teacher: document.teacherId,
+    teacher_name: owner ? fullName(owner) : "",
+    class_level: document.classLevel ?? null,
+    subject: document.subject ?? null,
+    is_shared: shares.length > 0,
+    shared_at: shares.length > 0 ? shares[shares.length - 1].sharedAt : null,
+    download_count: document.downloadCount,
+    status: document.status,
+    shared_with_users: privateShares.map(share => store.findTeacher(share.sharedWith!)!.userId),
+    public_share_url: publicShare ? publicShareUrl(publicShare) : null,
+    shared_with_emails: privateShares.map(share => {
+      const recipient = store.findUser(store.findTeacher(share.sharedWith!)!.userId)!;
+      return { email: recipient.email, name: fullName(recipient), shared_at: share.sharedAt };
+    }),
+    created_at: document.createdAt,
+    updated_at: document.updatedAt,
+  };
+}
+
+export function documentJson(store: SandboxStore, document: DocumentRecord, apiBase: string) {
+  const category = store.findCategory(document.categoryId);
+  return {
+    ...documentFields(store, document, apiBase),
+    category: document.categoryId,
+    category_name: category?.name ?? "",
+  };
+}
+
+// The public view nests the category instead of sending its id and name
+export function publicDocumentJson(store: SandboxStore, document: DocumentRecord, apiBase: string) {
+  const category = store.findCategory(document.categoryId);
+  return {
+    ...documentFields(store, document, apiBase),
+    category: category ? { id: category.id, name: category.name } : null,
+  };
+}
+
+export function shareJson(store: SandboxStore, share: ShareRecord) {
+  const document = store.findDocument(share.documentId)!;
+  const category = store.findCategory(document.categoryId);
+  const nameOf = (teacherId?: number) => {
+    const teacher = teacherId ? store.findTeacher(teacherId) : undefined;
+    const user = teacher && store.findUser(teacher.userId);
+    return user ? fullName(user) : null;
+  };
+  const size = document.file.data.length;
+
+  return {
+    id: share.id,
+    document: share.documentId,
+    shared_by: share.sharedBy,
+    shared_with: share.sharedWith ?? null,
+    share_type: share.shareType,
+    share_token: share.shareToken ?? null,
+    can_download: share.canDownload,
+    can_view: share.canView,
+    is_active: share.isActive,
+    expires_at: share.expiresAt ?? null,
+    shared_at: share.sharedAt,
+    public_url: share.shareType === "public" ? publicShareUrl(share) : null,
+    shared_by_name: nameOf(share.sharedBy),
+    shared_with_name: nameOf(share.sharedWith),
+    document_title: document.title,
+    document_file_name: document.fileName,
+    document_file_type: extensionOf(document.fileName),
+    document_file_size: size,
+    document_file_size_mb: Math.round((size / (1024 * 1024)) * 100) / 100,
+    document_download_count: document.downloadCount,
+    document_category_id: document.categoryId,
+    document_category_name: category?.name ?? null,
+    document_description: document.description ?? "",
+    document_class_level: document.classLevel ?? null,
+    document_subject: document.subject ?? null,
+    document_status: document.status,
+    document_created_at: document.createdAt,
+    is_expired: Boolean(share.expiresAt && Date.parse(share.expiresAt) <= Date.now()),
+  };
+}
+
+export function uploadJson(upload: UploadRecord) {
+  return {
+    upload_id: upload.id,
+    chunk_size: upload.chunkSize,
+    total_chunks: upload.totalChunks,
+    received_chunks: Array.from(upload.chunks.keys()).sort((a, b) => a - b),
+    expires_at: upload.expiresAt,
+  };
+}
+
+export function auditLogJson(store: SandboxStore, log: AuditRecord) {
+  const user = store.findUser(log.userId);
+  return {
+    id: log.id,
+    user_id: log.userId,
+    user_email: user?.email ?? null,
+    user_name: user ? fullName(user) : null,
+    user_role: user?.role ?? null,
+    action: log.action,
+    target_type: log.targetType ?? null,
+    target_id: log.targetId ?? null,
+    target_name: log.targetName ?? null,
+    description: log.description,
+    ip_address: log.ipAddress ?? null,
+    user_agent: log.userAgent ?? null,
+    severity: log.severity,
+    metadata: null,
+    created_at: log.createdAt,
+  };
+}
+
+// Audit actions whose verb is not one of the client's action names
+const ACTIVITY_ACTIONS: Record<string, string> = {
+  ACCEPT_INVITATION: "create",
+  ACCOUNT_LOCKED: "login",
+  GENERATE_RECOVERY_CODES: "update",
+  INVITE_USER: "create",
+  RECOVERY_CODE_USED: "login",
+  REVOKE_INVITATION: "delete",
+  REVOKE_SESSION: "logout",
+  UNLOCK_ACCOUNT: "update",
+};
+
+/**
+ * The dashboard endpoints return the camelCase activity entries the client
+ * renders directly, rather than the audit log serializer's shape
+ */
+export function activityJson(store: SandboxStore, log: AuditRecord) {
+  const user = store.findUser(log.userId);
+  return {
+    id: String(log.id),
+    user: user && {
+      id: String(user.id),
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      isActive: user.isActive,
+      dateJoined: user.dateJoined,
+    },
+    // Audit actions are VERB_OBJECT, and the verb is mostly the client's action name
+    action: ACTIVITY_ACTIONS[log.action] ?? log.action.split("_")[0].toLowerCase(),
+    targetType: log.targetType,
+    targetId: log.targetId === undefined ? undefined : String(log.targetId),
+    targetName: log.targetName,
+    description: log.description,
+    severity: log.severity === "INFO" ? "LOW" : log.severity === "WARNING" ? "MEDIUM" : "HIGH",
+    createdAt: log.createdAt,
+  };
+}
+
+export function systemSettingsJson(store: SandboxStore) {
+  const settings = store.systemSettings;
+  return {
+    site_name: settings.siteName,
+    site_description: settings.siteDescription,
+    max_file_size: settings.maxFileSize,
+    allowed_file_types: settings.allowedFileTypes,
+    session_timeout: settings.sessionTimeout,
+    maintenance_mode: settings.maintenanceMode,
+    registration_enabled: settings.registrationEnabled,
+    require_admin_approval: settings.requireAdminApproval,
+  };
+}
@@ -0,0 +1,156 @@
+import { Router } from "express";
+import { securitySettingsSchema } from "../../shared/api";
+import { snakeizeKeys } from "../../src/lib/caseConversion";
+import { SandboxStore, fullName } from "./store";
+import { auditLogJson, systemSettingsJson } from "./serializers";
+import { currentUser, invalid, listResponse, parseBody, requestMeta, requireAdmin } from "./http";
+
+const securitySettingsUpdateSchema = securitySettingsSchema
+  .pick({ passwordPolicy: true, lockoutThreshold: true, lockoutMinutes: true })
+  .partial();
+
+/**
+ * System and security settings, the public settings the login pages read
+ * (feature flags included), and the audit log
+ */
+export function settingsRoutes(store: SandboxStore): Router {
+  const router = Router();
+
+  const securityJson = () => ({
+    two_factor_required: store.securitySettings.twoFactorRequired,
+    require_totp_for_admins: store.securitySettings.adminTotpRequired,
+    require_passkeys_for_admins: store.securitySettings.adminPasskeyRequired,
+    password_policy: snakeizeKeys(store.securitySettings.passwordPolicy),
+    lockout_threshold: store.securitySettings.lockoutThreshold,
+    lockout_minutes: store.securitySettings.lockoutMinutes,
+  });
+
+  router.get("/settings/system/", requireAdmin, (_req, res) => {
+    res.json({ data: systemSettingsJson(store), message: "System settings retrieved successfully" });
+  });
+
+  router.put("/settings/system/", requireAdmin, (req, res) => {
+    const body = req.body ?? {};
+    const settings = store.systemSettings;
+
+    const errors: Record<string, string[]> = {};
+    if (body.max_file_size !== undefined && !(body.max_file_size > 0)) {
+      errors.max_file_size = ["Ensure this value is greater than 0."];
+    }
+    if (body.session_timeout !== undefined && !(body.session_timeout >= 5)) {
+      errors.session_timeout = ["Ensure this value is greater than or equal to 5."];
+    }
+    if (body.allowed_file_types !== undefined && !Array.isArray(body.allowed_file_types)) {
+      errors.allowed_file_types = ["Expected a list of items."];
+    }
+    if (Object.keys(errors).length > 0) {
+      invalid(res, errors);
+      return;
+    }
+
+    if (typeof body.site_name === "string") settings.siteName = body.site_name;
+    if (typeof body.site_description === "string") settings.siteDescription = body.site_description;
+    if (body.max_file_size !== undefined) settings.maxFileSize = body.max_file_size;
+    if (body.allowed_file_types !== undefined) {
+      settings.allowedFileTypes = body.allowed_file_types.map((type: string) => type.replace(/^\./, "").toLowerCase());
+    }
+    if (body.session_timeout !== undefined) settings.sessionTimeout = body.session_timeout;
+    if (typeof body.maintenance_mode === "boolean") settings.maintenanceMode = body.maintenance_mode;
+    if (typeof body.registration_enabled === "boolean") settings.registrationEnabled = body.registration_enabled;
+    if (typeof body.require_admin_approval === "boolean") settings.requireAdminApproval = body.require_admin_approval;
+
+    store.log(currentUser(res), "UPDATE_SETTINGS", "Updated system settings", {
+      ...requestMeta(req),
+      targetType: "settings",
+      targetName: "System settings",
+    });
+    res.json({ data: systemSettingsJson(store), message: "System settings updated successfully" });
+  });
+
+  router.get("/settings/security/", requireAdmin, (_req, res) => {
+    res.json({ data: securityJson(), message: "Security settings retrieved successfully" });
+  });
+
+  router.put("/settings/security/", requireAdmin, (req, res) => {
+    const body = parseBody(req, res, securitySettingsUpdateSchema, { camelCase: true });
+    if (!body) return;
+
+    if (typeof req.body?.two_factor_required === "boolean") {
+      store.securitySettings.twoFactorRequired = req.body.two_factor_required;
+    }
+    if (typeof req.body?.require_totp_for_admins === "boolean") {
+      store.securitySettings.adminTotpRequired = req.body.require_totp_for_admins;
+    }
+    if (typeof req.body?.require_passkeys_for_admins === "boolean") {
+      store.securitySettings.adminPasskeyRequired = req.body.require_passkeys_for_admins;
+    }
+    if (body.passwordPolicy) {
+      store.securitySettings.passwordPolicy = body.passwordPolicy;
+    }
+    if (body.lockoutThreshold !== undefined) {
+      store.securitySettings.lockoutThreshold = body.lockoutThreshold;
+    }
+    if (body.lockoutMinutes !== undefined) {
+      store.securitySettings.lockoutMinutes = body.lockoutMinutes;
+    }
+
+    store.log(currentUser(res), "UPDATE_SETTINGS", "Updated security settings", {
+      ...requestMeta(req),
+      targetType: "settings",
+      targetName: "Security settings",
+      severity: "WARNING",
+    });
+    res.json({ data: securityJson(), message: "Security settings updated successfully" });
+  });
+
+  router.get("/settings/public/", (_req, res) => {
+    const settings = store.systemSettings;
+    res.json({
+      data: {
+        site_name: settings.siteName,
+        site_description: settings.siteDescription,
+        max_file_size: settings.maxFileSize,
+        allowed_file_types: settings.allowedFileTypes,
+        maintenance_mode: settings.maintenanceMode,
+        registration_enabled: settings.registrationEnabled,
+        feature_flags: store.publicFeatureFlags(),
+        password_policy: snakeizeKeys(store.securitySettings.passwordPolicy),
+      },
+    });
+  });
+
+  router.get("/settings/public/basic/", (_req, res) => {
+    const settings = store.systemSettings;
+    res.json({
+      data: {
+        site_name: settings.siteName,
+        maintenance_mode: settings.maintenanceMode,
+        registration_enabled: settings.registrationEnabled,
+      },
+    });
+  });
+
+  // Filters as django-filter names them; the `__in` ones take comma-separated values
+  router.get("/audit/logs/", requireAdmin, (req, res) => {
+    const param = (name: string) => typeof req.query[name] === "string" ? req.query[name] as string : undefined;
+    const list = (name: string) => param(name)?.split(",").map(value => value.toUpperCase());
+    const search = param("search")?.toLowerCase();
+    const actions = list("action__in");
+    const severities = list("severity__in");
+    const user = param("user");
+    const createdAfter = param("created_after");
+
+    const logs = store.auditLogs.filter(log => {
+      const logUser = store.findUser(log.userId);
+      return (!actions || actions.includes(log.action))
+        && (!severities || severities.includes(log.severity))
+        && (!user || String(log.userId) === user)
+        && (!createdAfter || log.createdAt >= createdAfter)
+        && (!search || [logUser ? fullName(logUser) : "", log.targetName ?? "", log.description]
+          .some(field => field.toLowerCase().includes(search)));
+    });
+    res.json(listResponse(req, logs.map(log => auditLogJson(store, log))));
+  });
+
+  return router;
+}
@@ -0,0 +1,631 @@
+import crypto from "crypto";
+import type {
+  DocumentStatus,
+  FeatureFlagRule,
+  InvitationStatus,
+  PasswordPolicy,
+  TeacherStatus,
+  TwoFactorMethod,
+  UserRole,
+} from "../../shared/api";
+import { DEFAULT_PASSWORD_POLICY } from "../../shared/passwordPolicy";
+
+export type Severity = "INFO" | "WARNING" | "ERROR" | "CRITICAL";
+
+export interface StoredFile {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface PreferencesRecord {
+  twoFactorEnabled: boolean;
+  sessionTimeoutOverride?: number;
+  emailNotifications: boolean;
+  documentSharedNotifications: boolean;
+  systemNotifications: boolean;
+  securityNotifications: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserRecord {
+  id: number;
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  isActive: boolean;
+  dateJoined: string;
+  lastLogin?: string;
+  phoneNumber?: string;
+  bio?: string;
+  profilePicture?: StoredFile;
+  preferences: PreferencesRecord;
+  totpSecret?: string; // Set once the authenticator app has confirmed a code
+  pendingTotpSecret?: string; // Handed out by setup, waiting for the first code
+  recoveryCodes?: RecoveryCodesRecord;
+  passwordChangedAt?: string; // Seeded and new users count from dateJoined
+  passwordHistory?: string[]; // Hashes of earlier passwords, newest first
+}
+
+// Only hashes are kept, as the backend does; a used code's hash is removed
+export interface RecoveryCodesRecord {
+  hashes: string[];
+  generatedAt: string;
+}
+
+// A WebAuthn credential; publicKey is the DER SubjectPublicKeyInfo as base64url
+export interface PasskeyRecord {
+  id: number;
+  userId: number;
+  credentialId: string;
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  transports: string[];
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// A ceremony challenge; registrations belong to a user, sign-ins to nobody yet
+export interface PasskeyChallengeRecord {
+  userId?: number;
+  expiresAt: number;
+}
+
+export interface TeacherRecord {
+  id: number;
+  userId: number;
+  status: TeacherStatus;
+  approvedBy?: number;
+  approvedAt?: string;
+  rejectedBy?: number;
+  rejectedAt?: string;
+  rejectionReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryRecord {
+  id: number;
+  name: string;
+  description: string;
+  requiresClassSubject: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DocumentRecord {
+  id: number;
+  title: string;
+  description?: string;
+  fileName: string;
+  file: StoredFile;
+  teacherId: number;
+  categoryId: number;
+  classLevel?: string;
+  subject?: string;
+  status: DocumentStatus;
+  downloadCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ShareRecord {
+  id: number;
+  documentId: number;
+  sharedBy: number; // Teacher profile ids, as in the Django model
+  sharedWith?: number;
+  shareType: "public" | "private";
+  shareToken?: string;
+  canDownload: boolean;
+  canView: boolean;
+  isActive: boolean;
+  expiresAt?: string;
+  sharedAt: string;
+}
+
+export interface UploadRecord {
+  id: string;
+  userId: number;
+  fileName: string;
+  fileSize: number;
+  contentType: string;
+  chunkSize: number;
+  totalChunks: number;
+  chunks: Map<number, Buffer>;
+  expiresAt: string;
+}
+
+export interface AuditRecord {
+  id: number;
+  userId: number;
+  action: string;
+  targetType?: string;
+  targetId?: number;
+  targetName?: string;
+  description: string;
+  ipAddress?: string;
+  userAgent?: string;
+  severity: Severity;
+  createdAt: string;
+}
+
+export interface SystemSettingsRecord {
+  siteName: string;
+  siteDescription: string;
+  maxFileSize: number; // MB
+  allowedFileTypes: string[];
+  sessionTimeout: number; // minutes
+  maintenanceMode: boolean;
+  registrationEnabled: boolean;
+  requireAdminApproval: boolean;
+}
+
+export interface SecuritySettingsRecord {
+  twoFactorRequired: boolean;
+  adminTotpRequired: boolean;
+  adminPasskeyRequired: boolean;
+  passwordPolicy: PasswordPolicy;
+  lockoutThreshold: number; // Failed sign-ins before the account locks; 0 never locks
+  lockoutMinutes: number;
+}
+
+// Failed password sign-ins for one email address, known account or not
+export interface LoginFailureRecord {
+  attempts: number; // Since the last lock or successful sign-in
+  lockouts: number; // Locks in a row; each one lasts twice as long as the last
+  lockedUntil?: number;
+}
+
+// An emailed invitation to join as a teacher; resending replaces the token
+export interface InvitationRecord {
+  id: number;
+  email: string;
+  token: string;
+  invitedBy: number;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt?: string;
+}
+
+// One login on one device; every token rotated from it belongs to it
+// The public rule plus the users piloting a flag, by user id; those never leave the account payload
+export type FeatureFlagRecord = FeatureFlagRule & { users?: Record<number, boolean> };
+
+export interface SessionRecord {
+  id: number;
+  userId: number;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastActivityAt: string;
+}
+
+interface TokenRecord {
+  userId: number;
+  sessionId: number;
+  expiresAt: number;
+}
+
+// Short enough that a demo session exercises the client's refresh flow
+const ACCESS_TOKEN_LIFETIME = 15 * 60 * 1000;
+const REFRESH_TOKEN_LIFETIME = 24 * 60 * 60 * 1000;
+const UPLOAD_LIFETIME = 24 * 60 * 60 * 1000;
+const PASSKEY_CHALLENGE_LIFETIME = 5 * 60 * 1000;
+const INVITATION_LIFETIME = 7 * 24 * 60 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+const MAX_LOCKOUT_DURATION = 24 * 60 * 60 * 1000;
+const MAX_PASSWORD_HISTORY = 24; // The most a policy can ask to remember
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789"; // No 0/o or 1/l/i to misread
+
+export const now = () => new Date().toISOString();
+
+export const extensionOf = (fileName: string) =>
+  fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : "";
+
+export const fullName = (user: UserRecord) => `${user.firstName} ${user.lastName}`;
+
+const randomToken = () => crypto.randomBytes(24).toString("base64url");
+
+// Codes are typed back by hand, so case, spaces and the dash do not matter
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash("sha256").update(code.toLowerCase().replace(/[^a-z0-9]/g, "")).digest("hex");
+
+const hashPassword = (password: string) => crypto.createHash("sha256").update(password).digest("hex");
+
+const randomRecoveryCode = () => {
+  const chars = Array.from({ length: 8 }, () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]);
+  return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+};
+
+/**
+ * In-memory stand-in for the Django database. Each sandbox gets its own
+ * store, so tests can start from the seed data every time.
+ */
+export class SandboxStore {
+  users: UserRecord[] = [];
+  teachers: TeacherRecord[] = [];
+  categories: CategoryRecord[] = [];
+  documents: DocumentRecord[] = [];
+  shares: ShareRecord[] = [];
+  uploads = new Map<string, UploadRecord>();
+  auditLogs: AuditRecord[] = [];
+  passkeys: PasskeyRecord[] = [];
+  sessions: SessionRecord[] = [];
+  invitations: InvitationRecord[] = [];
+  // OTP codes waiting to be verified, by user id
+  pendingOtps = new Map<number, string>();
+  // Users who gave the right password and still owe a second factor
+  pendingLogins = new Set<number>();
+  // Passkey challenges handed out and not yet answered, by challenge
+  passkeyChallenges = new Map<string, PasskeyChallengeRecord>();
+  // Failed sign-ins by lower-cased email
+  loginFailures = new Map<string, LoginFailureRecord>();
+
+  systemSettings: SystemSettingsRecord = {
+    siteName: "Digital Filing System",
+    siteDescription: "Kenya Teacher Document Management System",
+    maxFileSize: 10,
+    allowedFileTypes: ["pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx", "txt", "jpg", "jpeg", "png", "gif", "bmp"],
+    sessionTimeout: 30,
+    maintenanceMode: false,
+    registrationEnabled: true,
+    requireAdminApproval: true,
+  };
+
+  securitySettings: SecuritySettingsRecord = {
+    twoFactorRequired: false,
+    adminTotpRequired: false,
+    adminPasskeyRequired: false,
+    passwordPolicy: { ...DEFAULT_PASSWORD_POLICY },
+    lockoutThreshold: 5,
+    lockoutMinutes: 15,
+  };
+
+  // Flag rules by snake_case name, as the public settings send them; the outbox is piloted with one school
+  featureFlags: Record<string, FeatureFlagRecord> = {
+    document_sharing: { enabled: true },
+    public_links: { enabled: true },
+    offline_outbox: { enabled: false, schools: { "school.ac.ke": true } },
+    reports: { enabled: true },
+    activity_logs: { enabled: true },
+  };
+
+  private accessTokens = new Map<string, TokenRecord>();
+  private refreshTokens = new Map<string, TokenRecord>();
+  private lastIds: Record<string, number> = {};
+
+  nextId(table: string): number {
+    this.lastIds[table] = (this.lastIds[table] ?? 0) + 1;
+    return this.lastIds[table];
+  }
+
+  // Authentication
+
+  // Starts a session for a completed login
+  issueTokens(userId: number, meta: { ipAddress?: string; userAgent?: string } = {}) {
+    const timestamp = now();
+    const session: SessionRecord = {
+      id: this.nextId("sessions"),
+      userId,
+      ...meta,
+      createdAt: timestamp,
+      lastActivityAt: timestamp,
+    };
+    this.sessions.push(session);
+    return this.issueSessionTokens(session);
+  }
+
+  private issueSessionTokens(session: SessionRecord) {
+    const access = randomToken();
+    const refresh = randomToken();
+    const record = { userId: session.userId, sessionId: session.id };
+    this.accessTokens.set(access, { ...record, expiresAt: Date.now() + ACCESS_TOKEN_LIFETIME });
+    this.refreshTokens.set(refresh, { ...record, expiresAt: Date.now() + REFRESH_TOKEN_LIFETIME });
+    return { access, refresh };
+  }
+
+  // The user and session behind a token; using it counts as activity
+  sessionForAccessToken(token: string): { user: UserRecord; session: SessionRecord } | undefined {
+    const record = this.accessTokens.get(token);
+    if (!record || record.expiresAt < Date.now()) return undefined;
+    const session = this.findSession(record.sessionId);
+    const user = this.findUser(record.userId);
+    if (!session || !user) return undefined;
+    session.lastActivityAt = now();
+    return { user, session };
+  }
+
+  /**
+   * Trade a refresh token for a new pair; the old one stops working, as
+   * with simplejwt's rotation and blacklisting
+   */
+  rotateRefreshToken(token: string) {
+    const record = this.refreshTokens.get(token);
+    this.refreshTokens.delete(token);
+    if (!record || record.expiresAt < Date.now()) return undefined;
+    const session = this.findSession(record.sessionId);
+    if (!session) return undefined;
+    session.lastActivityAt = now();
+    return this.issueSessionTokens(session);
+  }
+
+  // Ends a session on every device that holds one of its tokens
+  revokeSession(sessionId: number) {
+    this.sessions = this.sessions.filter(session => session.id !== sessionId);
+    [this.accessTokens, this.refreshTokens].forEach(tokens => {
+      tokens.forEach((record, token) => {
+        if (record.sessionId === sessionId) tokens.delete(token);
+      });
+    });
+  }
+
+  // Ends all of a user's sessions but `keepId`; returns how many ended
+  revokeUserSessions(userId: number, keepId?: number): number {
+    const ended = this.sessions.filter(session => session.userId === userId && session.id !== keepId);
+    ended.forEach(session => this.revokeSession(session.id));
+    return ended.length;
+  }
+
+  // Replaces any earlier set; the plain codes are only returned here
+  issueRecoveryCodes(user: UserRecord): string[] {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomRecoveryCode);
+    user.recoveryCodes = { hashes: codes.map(hashRecoveryCode), generatedAt: now() };
+    return codes;
+  }
+
+  // Spends a recovery code; false when it is unknown or already used
+  redeemRecoveryCode(user: UserRecord, code: string): boolean {
+    const hashes = user.recoveryCodes?.hashes ?? [];
+    const index = hashes.indexOf(hashRecoveryCode(code));
+    if (index === -1) return false;
+    hashes.splice(index, 1);
+    return true;
+  }
+
+  issuePasskeyChallenge(userId?: number): string {
+    const challenge = crypto.randomBytes(32).toString("base64url");
+    this.passkeyChallenges.set(challenge, { userId, expiresAt: Date.now() + PASSKEY_CHALLENGE_LIFETIME });
+    return challenge;
+  }
+
+  // Each challenge answers one ceremony; false when it is unknown, expired or another user's
+  redeemPasskeyChallenge(challenge: string, userId?: number): boolean {
+    const record = this.passkeyChallenges.get(challenge);
+    this.passkeyChallenges.delete(challenge);
+    return Boolean(record) && record.expiresAt >= Date.now() && record.userId === userId;
+  }
+
+  // Keeps the old password's hash, so the history limit can refuse it later
+  setPassword(user: UserRecord, password: string) {
+    user.passwordHistory = [hashPassword(user.password), ...(user.passwordHistory ?? [])].slice(0, MAX_PASSWORD_HISTORY);
+    user.password = password;
+    user.passwordChangedAt = now();
+  }
+
+  // Whether the password is the current one or among the policy's recent ones
+  reusesPassword(user: UserRecord, password: string): boolean {
+    const { historyCount } = this.securitySettings.passwordPolicy;
+    if (historyCount === 0) return false;
+    return password === user.password
+      || (user.passwordHistory ?? []).slice(0, historyCount - 1).includes(hashPassword(password));
+  }
+
+  passwordExpired(user: UserRecord): boolean {
+    const { maxAgeDays } = this.securitySettings.passwordPolicy;
+    if (maxAgeDays === 0) return false;
+    const changedAt = Date.parse(user.passwordChangedAt ?? user.dateJoined);
+    return Date.now() - changedAt > maxAgeDays * 24 * 60 * 60 * 1000;
+  }
+
+  // Flag rules anyone may read, without the users they name
+  publicFeatureFlags(): Record<string, FeatureFlagRule> {
+    return Object.fromEntries(Object.entries(this.featureFlags)
+      .map(([name, { users, ...rule }]) => [name, rule]));
+  }
+
+  // The flags this user is switched on or off for by name, as only they may see them
+  featureFlagOverrides(userId: number): Record<string, boolean> {
+    return Object.fromEntries(Object.entries(this.featureFlags)
+      .filter(([, rule]) => rule.users?.[userId] !== undefined)
+      .map(([name, rule]) => [name, rule.users![userId]]));
+  }
+
+  // When the account may sign in again; undefined when it is not locked
+  lockedUntil(email: string): number | undefined {
+    const lockedUntil = this.loginFailures.get(email.toLowerCase())?.lockedUntil;
+    return lockedUntil && lockedUntil > Date.now() ? lockedUntil : undefined;
+  }
+
+  /**
+   * Count a wrong password. Reaching the threshold locks the account, for
+   * longer each time until a successful sign-in or an admin clears it.
+   */
+  recordLoginFailure(email: string): LoginFailureRecord {
+    const key = email.toLowerCase();
+    const failure = this.loginFailures.get(key) ?? { attempts: 0, lockouts: 0 };
+    const { lockoutThreshold, lockoutMinutes } = this.securitySettings;
+
+    failure.attempts++;
+    failure.lockedUntil = undefined;
+    if (lockoutThreshold > 0 && failure.attempts >= lockoutThreshold) {
+      failure.attempts = 0;
+      failure.lockedUntil = Date.now() + Math.min(MAX_LOCKOUT_DURATION, lockoutMinutes * 60 * 1000 * 2 ** failure.lockouts);
+      failure.lockouts++;
+    }
+    this.loginFailures.set(key, failure);
+    return failure;
+  }
+
+  clearLoginFailures(email: string) {
+    this.loginFailures.delete(email.toLowerCase());
+  }
+
+  // Admins who must use passkeys lose the password once they have one
+  passwordLoginBlocked(user: UserRecord): boolean {
+    return user.role === "admin"
+      && this.securitySettings.adminPasskeyRequired
+      && this.passkeys.some(passkey => passkey.userId === user.id);
+  }
+
+  /**
+   * How a user confirms sign-ins, the preferred method first; empty when the
+   * password is enough. Admins who must use an app keep email until they enroll.
+   */
+  twoFactorMethods(user: UserRecord): TwoFactorMethod[] {
+    const appOnly = user.role === "admin" && this.securitySettings.adminTotpRequired;
+    if (user.totpSecret) return appOnly ? ["totp"] : ["totp", "email"];
+    return this.securitySettings.twoFactorRequired || user.preferences.twoFactorEnabled || appOnly ? ["email"] : [];
+  }
+
+  // Lookups
+
+  findUser(id: number) {
+    return this.users.find(user => user.id === id);
+  }
+
+  findSession(id: number) {
+    return this.sessions.find(session => session.id === id);
+  }
+
+  findInvitation(id: number) {
+    return this.invitations.find(invitation => invitation.id === id);
+  }
+
+  // Only a pending invitation can be accepted, so that is all a token finds
+  invitationForToken(token: string) {
+    return this.invitations.find(invitation =>
+      invitation.token === token && this.invitationStatus(invitation) === "pending");
+  }
+
+  pendingInvitation(email: string) {
+    return this.invitations.find(invitation =>
+      invitation.email === email.trim().toLowerCase() && this.invitationStatus(invitation) === "pending");
+  }
+
+  invitationStatus(invitation: InvitationRecord): InvitationStatus {
+    if (invitation.acceptedAt) return "accepted";
+    return Date.parse(invitation.expiresAt) > Date.now() ? "pending" : "expired";
+  }
+
+  findUserByEmail(email: string) {
+    return this.users.find(user => user.email.toLowerCase() === email.trim().toLowerCase());
+  }
+
+  findTeacher(id: number) {
+    return this.teachers.find(teacher => teacher.id === id);
+  }
+
+  teacherForUser(userId: number) {
+    return this.teachers.find(teacher => teacher.userId === userId);
+  }
+
+  findCategory(id: number) {
+    return this.categories.find(category => category.id === id);
+  }
+
+  findDocument(id: number) {
+    return this.documents.find(document => document.id === id);
+  }
+
+  activeShares(documentId: number) {
+    const time = Date.now();
+    return this.shares.filter(share =>
+      share.documentId === documentId &&
+      share.isActive &&
+      (!share.expiresAt || Date.parse(share.expiresAt) > time));
+  }
+
+  shareForToken(documentId: number, token: string) {
+    return this.activeShares(documentId).find(share => share.shareType === "public" && share.shareToken === token);
+  }
+
+  // Writes
+
+  addUser(fields: Omit<UserRecord, "id" | "dateJoined" | "preferences"> & Partial<Pick<UserRecord, "dateJoined" | "preferences">>) {
+    const timestamp = fields.dateJoined ?? now();
+    const user: UserRecord = {
+      id: this.nextId("user"),
+      dateJoined: timestamp,
+      preferences: {
+        twoFactorEnabled: false,
+        emailNotifications: true,
+        documentSharedNotifications: true,
+        systemNotifications: true,
+        securityNotifications: true,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      },
+      ...fields,
+    };
+    this.users.push(user);
+    return user;
+  }
+
+  addTeacher(user: UserRecord, status: TeacherStatus, fields: Partial<TeacherRecord> = {}) {
+    const teacher: TeacherRecord = {
+      id: this.nextId("teacher"),
+      userId: user.id,
+      status,
+      createdAt: user.dateJoined,
+      updatedAt: user.dateJoined,
+      ...fields,
+    };
+    this.teachers.push(teacher);
+    return teacher;
+  }
+
+  addInvitation(email: string, invitedBy: number) {
+    const timestamp = now();
+    const invitation: InvitationRecord = {
+      id: this.nextId("invitation"),
+      email: email.trim().toLowerCase(),
+      invitedBy,
+      createdAt: timestamp,
+      ...this.invitationToken(),
+    };
+    this.invitations.push(invitation);
+    return invitation;
+  }
+
+  // A fresh token and a full lifetime; the link sent before stops working
+  renewInvitation(invitation: InvitationRecord) {
+    Object.assign(invitation, this.invitationToken());
+  }
+
+  private invitationToken() {
+    return { token: randomToken(), expiresAt: new Date(Date.now() + INVITATION_LIFETIME).toISOString() };
+  }
+
+  startUpload(userId: number, fields: Pick<UploadRecord, "fileName" | "fileSize" | "contentType" | "chunkSize" | "totalChunks">) {
+    const upload: UploadRecord = {
+      id: crypto.randomUUID(),
+      userId,
+      chunks: new Map(),
+      expiresAt: new Date(Date.now() + UPLOAD_LIFETIME).toISOString(),
+      ...fields,
+    };
+    this.uploads.set(upload.id, upload);
+    return upload;
+  }
+
+  createShareToken() {
+    return randomToken();
+  }
+
+  log(user: UserRecord, action: string, description: string, fields: Partial<AuditRecord> = {}) {
+    this.auditLogs.unshift({
+      id: this.nextId("audit"),
+      userId: user.id,
+      action,
+      description,
+      severity: "INFO",
+      createdAt: now(),
+      ...fields,
+    });
+  }
+}
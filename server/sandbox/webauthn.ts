@@ -0,0 +1,132 @@
+import crypto from "crypto";
+import type { Request } from "express";
+import type { PasskeyLoginRequest, PasskeyRegistrationRequest } from "../../shared/api";
+
+/**
+ * Just enough WebAuthn relying party to check what a browser (or a virtual
+ * authenticator) sends. The attestation object is not parsed: browsers
+ * export the credential's public key as SPKI, which node can read directly.
+ */
+
+// COSE algorithm ids the sandbox can verify, and the digest each signs with
+const ALGORITHMS: Record<number, string | null> = {
+  [-7]: "sha256", // ES256
+  [-8]: null, // EdDSA signs the message itself
+  [-257]: "sha256", // RS256
+};
+
+export const SUPPORTED_ALGORITHMS = Object.keys(ALGORITHMS).map(Number);
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+export class WebAuthnError extends Error {}
+
+interface Ceremony {
+  challenge: string;
+  origin: string;
+}
+
+// The page's origin, which is also where the relying party id comes from
+export function expectedOrigin(req: Request): string {
+  return req.get("Origin") ?? `${req.protocol}://${req.get("host")}`;
+}
+
+export const relyingPartyId = (origin: string) => new URL(origin).hostname;
+
+// The challenge the browser signed, so sign-ins can find the ceremony they answer
+export function clientChallenge(clientDataJSON: string): string | undefined {
+  try {
+    const challenge = JSON.parse(Buffer.from(clientDataJSON, "base64url").toString("utf8")).challenge;
+    return typeof challenge === "string" ? challenge : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function checkClientData(clientDataJSON: string, type: string, { challenge, origin }: Ceremony) {
+  let clientData: { type?: string; challenge?: string; origin?: string };
+  try {
+    clientData = JSON.parse(Buffer.from(clientDataJSON, "base64url").toString("utf8"));
+  } catch {
+    throw new WebAuthnError("The passkey response could not be read.");
+  }
+
+  if (clientData.type !== type) throw new WebAuthnError("The passkey response is for a different ceremony.");
+  if (clientData.challenge !== challenge) throw new WebAuthnError("The passkey challenge has expired. Try again.");
+  if (clientData.origin !== origin) throw new WebAuthnError("The passkey was used from a different site.");
+}
+
+// authenticatorData: rpIdHash (32) | flags (1) | signCount (4) | attested credential data...
+function checkAuthenticatorData(authData: Buffer, origin: string) {
+  if (authData.length < 37) throw new WebAuthnError("The passkey response could not be read.");
+
+  const rpIdHash = crypto.createHash("sha256").update(relyingPartyId(origin)).digest();
+  if (!authData.subarray(0, 32).equals(rpIdHash)) throw new WebAuthnError("The passkey belongs to a different site.");
+
+  const flags = authData[32];
+  if (!(flags & FLAG_USER_PRESENT)) throw new WebAuthnError("The passkey did not confirm you were present.");
+  return { flags, signCount: authData.readUInt32BE(33) };
+}
+
+export function verifyRegistration(credential: PasskeyRegistrationRequest["credential"], ceremony: Ceremony) {
+  const { response } = credential;
+  checkClientData(response.clientDataJSON, "webauthn.create", ceremony);
+
+  const authData = Buffer.from(response.authenticatorData, "base64url");
+  const { flags, signCount } = checkAuthenticatorData(authData, ceremony.origin);
+  if (!(flags & FLAG_ATTESTED_CREDENTIAL)) throw new WebAuthnError("The passkey response has no credential.");
+
+  // Attested credential data: aaguid (16) | id length (2) | id
+  const idLength = authData.readUInt16BE(53);
+  const credentialId = authData.subarray(55, 55 + idLength).toString("base64url");
+  if (credentialId !== credential.rawId) throw new WebAuthnError("The passkey response does not match the credential.");
+
+  if (!(response.publicKeyAlgorithm in ALGORITHMS)) {
+    throw new WebAuthnError("This kind of passkey is not supported.");
+  }
+  if (!response.publicKey) {
+    throw new WebAuthnError("This browser did not share the passkey's public key. Try a different browser.");
+  }
+  try {
+    crypto.createPublicKey({ key: Buffer.from(response.publicKey, "base64url"), format: "der", type: "spki" });
+  } catch {
+    throw new WebAuthnError("The passkey's public key could not be read.");
+  }
+
+  return {
+    credentialId,
+    publicKey: response.publicKey,
+    algorithm: response.publicKeyAlgorithm,
+    signCount,
+  };
+}
+
+// Returns the authenticator's new signature counter
+export function verifyAssertion(
+  credential: PasskeyLoginRequest["credential"],
+  ceremony: Ceremony,
+  passkey: { publicKey: string; algorithm: number; signCount: number }
+): number {
+  const { response } = credential;
+  checkClientData(response.clientDataJSON, "webauthn.get", ceremony);
+
+  const authData = Buffer.from(response.authenticatorData, "base64url");
+  const { signCount } = checkAuthenticatorData(authData, ceremony.origin);
+
+  const clientDataHash = crypto.createHash("sha256").update(Buffer.from(response.clientDataJSON, "base64url")).digest();
+  const key = crypto.createPublicKey({ key: Buffer.from(passkey.publicKey, "base64url"), format: "der", type: "spki" });
+  const verified = crypto.verify(
+    ALGORITHMS[passkey.algorithm],
+    Buffer.concat([authData, clientDataHash]),
+    key,
+    Buffer.from(response.signature, "base64url")
+  );
+  if (!verified) throw new WebAuthnError("The passkey signature is not valid.");
+
+  // A counter that does not move forward suggests a cloned authenticator; synced passkeys always send 0
+  if ((signCount > 0 || passkey.signCount > 0) && signCount <= passkey.signCount) {
+    throw new WebAuthnError("This passkey may have been copied. Remove it and add it again.");
+  }
+  return signCount;
+}
@@ -0,0 +1,5 @@
+import serverless from "serverless-http";
+import { createServer } from "./index";
+
+// Static files come from the platform's CDN, so only /api and /health are served here
+export const handler = serverless(createServer());
@@ -1,12 +1,614 @@
 /**
- * Shared code between client and server
- * Useful to share types between client and server
- * and/or small pure JS functions that can be used on both client and server
+ * API contracts shared by the SPA, the Express server and the sandbox backend.
+ * Each contract is a zod schema with its type inferred from it, so the
+ * client's decoders and the server's request handling check the same shapes.
  */
 
+import { z } from "zod";
+
+/**
+ * Output type of a contract. The project compiles without strictNullChecks,
+ * where z.infer marks every object key optional; this keeps the optional
+ * keys to the fields the schema actually declares as optional.
+ */
+export type Infer<T extends z.ZodTypeAny> =
+  T extends z.ZodObject<infer Shape> ? InferShape<Shape>
+  : T extends z.ZodArray<infer Item> ? Infer<Item>[]
+  : T extends z.ZodNullable<infer Inner> ? Infer<Inner> | null
+  : T extends z.ZodOptional<infer Inner> ? Infer<Inner>
+  : T extends z.ZodRecord<infer Key, infer Value> ? Partial<Record<z.infer<Key>, Infer<Value>>>
+  : z.infer<T>;
+
+type OptionalKeys<Shape extends z.ZodRawShape> = {
+  [K in keyof Shape]: Shape[K] extends z.ZodOptional<z.ZodTypeAny> ? K : never;
+}[keyof Shape];
+
+type InferShape<Shape extends z.ZodRawShape> =
+  { [K in Exclude<keyof Shape, OptionalKeys<Shape>>]: Infer<Shape[K]> }
+  & { [K in OptionalKeys<Shape>]?: Infer<Shape[K]> };
+
+// Enumerations
+
+export const userRoleSchema = z.enum(["admin", "teacher"]);
+export type UserRole = Infer<typeof userRoleSchema>;
+
+export const teacherStatusSchema = z.enum(["active", "pending", "suspended", "rejected"]);
+export type TeacherStatus = Infer<typeof teacherStatusSchema>;
+
+export const documentStatusSchema = z.enum(["active", "flagged", "archived", "published"]);
+export type DocumentStatus = Infer<typeof documentStatusSchema>;
+
+export const activityActionSchema = z.enum([
+  "create",
+  "update",
+  "delete",
+  "view",
+  "download",
+  "share",
+  "flag",
+  "archive",
+  "login",
+  "logout",
+  "approve",
+  "reject",
+  "preview",
+]);
+export type ActivityAction = Infer<typeof activityActionSchema>;
+
+export const shareTypeSchema = z.enum(["public", "private"]);
+
+// How a sign-in is confirmed: a code sent by email, one from an authenticator app,
+// or a single-use recovery code when neither is at hand
+export const twoFactorMethodSchema = z.enum(["email", "totp", "recovery"]);
+export type TwoFactorMethod = Infer<typeof twoFactorMethodSchema>;
+
+// Invitations expire on their own; a revoked one is deleted rather than kept
+export const invitationStatusSchema = z.enum(["pending", "accepted", "expired"]);
+export type InvitationStatus = Infer<typeof invitationStatusSchema>;
+
+// Capabilities that can be piloted with some users before everyone gets them
+export const featureFlagSchema = z.enum([
+  "documentSharing",
+  "publicLinks",
+  "offlineOutbox",
+  "reports",
+  "activityLogs",
+]);
+export type FeatureFlag = Infer<typeof featureFlagSchema>;
+
+// Browsers and Node 20+ have File; the check is deferred so older runtimes can still load this module
+const fileSchema = z.custom<File>(value => typeof File !== "undefined" && value instanceof File, "Expected a file");
+
+// Users
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  role: userRoleSchema,
+  isActive: z.boolean(),
+  dateJoined: z.string(),
+  lastLogin: z.string().optional(),
+  profilePicture: z.string().optional(),
+  username: z.string().optional(),
+  phoneNumber: z.string().optional(),
+  bio: z.string().optional(),
+  teacherProfileId: z.number().optional(), // Teacher profile ID for filtering shares
+  passwordExpired: z.boolean().optional(), // Past the policy's maximum age; must be changed before anything else
+  featureFlags: z.record(featureFlagSchema, z.boolean()).optional(), // The signed-in user's own overrides, resolved by the backend
+});
+export type User = Infer<typeof userSchema>;
+
+// Teachers
+
+export const teacherSchema = z.object({
+  id: z.string(),
+  user: userSchema,
+  phoneNumber: z.string().optional(),
+  bio: z.string().optional(),
+  status: teacherStatusSchema,
+  approvedBy: z.string().optional(),
+  approvedAt: z.string().optional(),
+  rejectedBy: z.string().optional(),
+  rejectedAt: z.string().optional(),
+  rejectionReason: z.string().optional(),
+  documentsCount: z.number(),
+  sharedDocumentsCount: z.number(),
+  totalDownloads: z.number(),
+  lockedUntil: z.string().optional(), // Set while failed sign-ins keep the account locked
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type Teacher = Infer<typeof teacherSchema>;
+
+// Categories
+
+export const documentCategorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  requiresClassSubject: z.boolean(),
+  documentsCount: z.number(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+export type DocumentCategory = Infer<typeof documentCategorySchema>;
+
+// Documents
+
+// Document payloads only carry the id and display name of related records
+export const documentCategoryRefSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+export type DocumentCategoryRef = Infer<typeof documentCategoryRefSchema>;
+
+export const documentTeacherRefSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+export type DocumentTeacherRef = Infer<typeof documentTeacherRefSchema>;
+
+export const documentSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  category: documentCategoryRefSchema.nullable(),
+  teacher: documentTeacherRefSchema,
+  fileName: z.string(),
+  fileSize: z.number(),
+  fileType: z.string(),
+  filePath: z.string(),
+  classLevel: z.string().optional(),
+  subject: z.string().optional(),
+  isShared: z.boolean(),
+  sharedWith: z.array(z.string()), // User IDs who have access
+  sharedAt: z.string().optional(),
+  downloadCount: z.number(),
+  status: documentStatusSchema,
+  tags: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  // Persistent sharing, as sent by the backend
+  public_share_url: z.string().optional(), // Absent when no public share exists
+  shared_with_emails: z.array(z.object({
+    email: z.string(),
+    name: z.string(),
+    shared_at: z.string(),
+  })),
+});
+export type Document = Infer<typeof documentSchema>;
+
+// Shares
+
+export const documentShareSchema = z.object({
+  id: z.string(),
+  document: z.string(), // Document ID
+  shared_by: z.number(), // Teacher ID
+  shared_with: z.number().optional(), // Teacher ID for private shares
+  share_type: shareTypeSchema,
+  share_token: z.string(),
+  can_download: z.boolean(),
+  can_view: z.boolean(),
+  is_active: z.boolean(),
+  expires_at: z.string().optional(),
+  shared_at: z.string(),
+  public_url: z.string().optional(),
+  // Document details the share serializer includes
+  shared_by_name: z.string().optional(),
+  shared_with_name: z.string().optional(),
+  document_title: z.string().optional(),
+  document_file_name: z.string().optional(),
+  document_file_type: z.string().optional(),
+  document_file_size: z.number().optional(),
+  document_file_size_mb: z.number().optional(),
+  document_download_count: z.number().optional(),
+  document_category_id: z.string().optional(),
+  document_category_name: z.string().optional(),
+  document_description: z.string().optional(),
+  document_class_level: z.string().optional(),
+  document_subject: z.string().optional(),
+  document_status: z.string().optional(),
+  document_created_at: z.string().optional(),
+  is_expired: z.boolean().optional(),
+});
+export type DocumentShare = Infer<typeof documentShareSchema>;
+
+// Activity logs
+
+export const activityLogSchema = z.object({
+  id: z.string(),
+  user: userSchema,
+  action: activityActionSchema,
+  targetType: z.string().optional(),
+  targetId: z.string().optional(),
+  targetName: z.string().optional(),
+  description: z.string(),
+  ipAddress: z.string().optional(),
+  userAgent: z.string().optional(),
+  severity: z.enum(["LOW", "MEDIUM", "HIGH", "CRITICAL"]),
+  metadata: z.record(z.any()).optional(),
+  createdAt: z.string(),
+});
+export type ActivityLog = Infer<typeof activityLogSchema>;
+
+// Passkeys
+
+// A WebAuthn credential the signed-in user registered
+export const passkeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(), // Unset until it signs someone in
+});
+export type Passkey = Infer<typeof passkeySchema>;
+
+// Sessions
+
+// A signed-in device: one login and the refresh tokens rotated from it
+export const activeSessionSchema = z.object({
+  id: z.string(),
+  ipAddress: z.string().optional(),
+  userAgent: z.string().optional(),
+  location: z.string().optional(), // Rough place looked up from the IP, e.g. "Nairobi, Kenya"
+  createdAt: z.string(),
+  lastActivityAt: z.string(),
+  isCurrent: z.boolean(), // The session making this request
+});
+export type ActiveSession = Infer<typeof activeSessionSchema>;
+
+// Invitations
+
+// An emailed invitation to join as a teacher; the token only ever travels in the email
+export const invitationSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  status: invitationStatusSchema,
+  invitedBy: z.string().optional(), // The inviting admin's name
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  acceptedAt: z.string().optional(),
+});
+export type Invitation = Infer<typeof invitationSchema>;
+
+// The addresses that were invited and those that were passed over, with why
+export const invitationBatchSchema = z.object({
+  invitations: z.array(invitationSchema),
+  skipped: z.array(z.object({ email: z.string(), reason: z.string() })),
+});
+export type InvitationBatch = Infer<typeof invitationBatchSchema>;
+
+// What the accept page can show before the teacher has an account
+export const invitationPreviewSchema = z.object({
+  email: z.string(),
+  expiresAt: z.string(),
+});
+export type InvitationPreview = Infer<typeof invitationPreviewSchema>;
+
+// Dashboards and reports
+
+export const dashboardStatsSchema = z.object({
+  totalTeachers: z.number(),
+  activeTeachers: z.number(),
+  pendingTeachers: z.number(),
+  suspendedTeachers: z.number(),
+  totalDocuments: z.number(),
+  sharedDocuments: z.number(),
+  totalCategories: z.number(),
+  activeCategories: z.number(),
+  totalDownloads: z.number(),
+  recentActivity: z.array(activityLogSchema),
+  documentsUploadedToday: z.number(),
+  documentsUploadedThisWeek: z.number(),
+  documentsUploadedThisMonth: z.number(),
+});
+export type DashboardStats = Infer<typeof dashboardStatsSchema>;
+
+export const teacherDashboardStatsSchema = z.object({
+  documentsUploaded: z.number(),
+  documentsShared: z.number(),
+  totalDownloads: z.number(),
+  storageUsed: z.number(), // MB
+  maxStorage: z.number(), // MB
+  storagePercentage: z.number(),
+  recentDocuments: z.array(documentSchema),
+  recentActivity: z.array(activityLogSchema),
+  categoryBreakdown: z.array(z.object({ category: z.string(), count: z.number() })),
+});
+export type TeacherDashboardStats = Infer<typeof teacherDashboardStatsSchema>;
+
+export const reportsDataSchema = z.object({
+  totalUsers: z.number(),
+  activeUsers: z.number(),
+  totalDocuments: z.number(),
+  totalDownloads: z.number(),
+  storageUsed: z.number(), // GB
+  popularCategories: z.array(z.object({ name: z.string(), count: z.number(), percentage: z.number() })),
+  monthlyUploads: z.array(z.object({ month: z.string(), uploads: z.number() })),
+  topUploaders: z.array(z.object({ name: z.string(), uploads: z.number(), downloads: z.number() })),
+  // Percentage changes from the previous period of the same length
+  usersChange: z.number().optional(),
+  documentsChange: z.number().optional(),
+  downloadsChange: z.number().optional(),
+  storageChange: z.number().optional(),
+  // Detailed analytics
+  storageByFileType: z.array(z.object({ fileType: z.string(), usage: z.number(), percentage: z.number() })).optional(),
+  topDocuments: z.array(z.object({
+    title: z.string(),
+    downloadCount: z.number(),
+    category: z.string(),
+    teacher: z.string(),
+  })).optional(),
+  activityMetrics: z.object({
+    avgLoginsPerUser: z.number(),
+    avgUploadsPerTeacher: z.number(),
+    avgDownloadsPerTeacher: z.number(),
+  }).optional(),
+  activityPatterns: z.object({
+    mostActiveDay: z.string(),
+    mostActiveHour: z.number(),
+    hourFormat: z.string(),
+  }).optional(),
+  loginFrequency: z.array(z.object({ period: z.string(), count: z.number(), percentage: z.number() })).optional(),
+});
+export type ReportsData = Infer<typeof reportsDataSchema>;
+
+// Settings
+
+export const systemSettingsSchema = z.object({
+  siteName: z.string(),
+  siteDescription: z.string(),
+  maxFileSize: z.number(), // MB
+  allowedFileTypes: z.array(z.string()),
+  sessionTimeout: z.number(), // minutes
+  maintenanceMode: z.boolean(),
+  registrationEnabled: z.boolean(),
+  requireAdminApproval: z.boolean(),
+});
+export type SystemSettings = Infer<typeof systemSettingsSchema>;
+
+// Rules every new password must meet; history and age are checked by the backend alone
+export const passwordPolicySchema = z.object({
+  minLength: z.number().int().min(6).max(128),
+  requireUppercase: z.boolean(),
+  requireLowercase: z.boolean(),
+  requireDigit: z.boolean(),
+  requireSymbol: z.boolean(),
+  disallowPersonalInfo: z.boolean(), // No name or email address inside the password
+  disallowCommonPasswords: z.boolean(),
+  historyCount: z.number().int().min(0).max(24), // Recent passwords that may not be reused; 0 allows any
+  maxAgeDays: z.number().int().min(0).max(365), // Days before a password must be changed; 0 never expires
+});
+export type PasswordPolicy = Infer<typeof passwordPolicySchema>;
+
+export const securitySettingsSchema = z.object({
+  twoFactorRequired: z.boolean(),
+  adminTotpRequired: z.boolean(), // Admins must confirm sign-ins with an authenticator app
+  adminPasskeyRequired: z.boolean(), // Admins who registered a passkey can no longer sign in with a password
+  enableAuditLogs: z.boolean(),
+  passwordPolicy: passwordPolicySchema,
+  lockoutThreshold: z.number().int().min(0).max(20), // Failed sign-ins before the account locks; 0 never locks
+  lockoutMinutes: z.number().int().min(1).max(1440), // The first lock; each further lock doubles it
+});
+export type SecuritySettings = Infer<typeof securitySettingsSchema>;
+
+// Feature flags
+
 /**
- * Example response type for /api/demo
+ * Who a flag is on for, as anyone may read it: the user's school (the email
+ * domain) wins over their role, and `enabled` covers everyone else. Overrides
+ * for single users are private and arrive with the user's own account.
  */
-export interface DemoResponse {
-  message: string;
-}
+export const featureFlagRuleSchema = z.object({
+  enabled: z.boolean(),
+  roles: z.record(z.boolean()).optional(), // Keyed by role
+  schools: z.record(z.boolean()).optional(), // Keyed by email domain, e.g. "school.ac.ke"
+});
+export type FeatureFlagRule = Infer<typeof featureFlagRuleSchema>;
+
+// What any visitor may read, before signing in
+export const publicSettingsSchema = z.object({
+  siteName: z.string(),
+  siteDescription: z.string().optional(),
+  maxFileSize: z.number(), // MB
+  allowedFileTypes: z.array(z.string()),
+  maintenanceMode: z.boolean(),
+  registrationEnabled: z.boolean(),
+  featureFlags: z.record(featureFlagSchema, featureFlagRuleSchema), // Flags left out keep their registry default
+  passwordPolicy: passwordPolicySchema,
+});
+export type PublicSettings = Infer<typeof publicSettingsSchema>;
+
+export const basicPublicSettingsSchema = publicSettingsSchema.pick({
+  siteName: true,
+  maintenanceMode: true,
+  registrationEnabled: true,
+});
+export type BasicPublicSettings = Infer<typeof basicPublicSettingsSchema>;
+
+// Requests
+
+export const loginRequestSchema = z.object({
+  email: z.string().min(1),
+  password: z.string().min(1),
+});
+export type LoginRequest = Infer<typeof loginRequestSchema>;
+
+export const registerRequestSchema = z.object({
+  email: z.string().email(),
+  firstName: z.string().min(1),
+  lastName: z.string().min(1),
+  password: z.string().min(1),
+  confirmPassword: z.string(),
+  phoneNumber: z.string().optional(),
+});
+export type RegisterRequest = Infer<typeof registerRequestSchema>;
+
+// Django hands user ids out as numbers, so either form is accepted back
+export const otpVerificationRequestSchema = z.object({
+  user_id: z.coerce.string(),
+  otp: z.string().min(1),
+  method: twoFactorMethodSchema.optional(), // Email when left out
+});
+export type OTPVerificationRequest = Infer<typeof otpVerificationRequestSchema>;
+
+// Sends an email code to a user who was offered their authenticator app first
+export const otpSendRequestSchema = z.object({
+  user_id: z.coerce.string(),
+});
+export type OTPSendRequest = Infer<typeof otpSendRequestSchema>;
+
+export const totpConfirmRequestSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code from your app"),
+});
+export type TotpConfirmRequest = Infer<typeof totpConfirmRequestSchema>;
+
+// Passkey ceremonies send the browser's credential as WebAuthn JSON: spec field names, binary as base64url
+const base64UrlSchema = z.string().regex(/^[A-Za-z0-9_-]*$/, "Expected a base64url string");
+
+export const passkeyRegistrationRequestSchema = z.object({
+  name: z.string().trim().min(1).max(64).optional(),
+  credential: z.object({
+    id: base64UrlSchema,
+    rawId: base64UrlSchema,
+    type: z.literal("public-key"),
+    response: z.object({
+      clientDataJSON: base64UrlSchema,
+      attestationObject: base64UrlSchema,
+      authenticatorData: base64UrlSchema,
+      publicKey: base64UrlSchema.optional(), // DER SubjectPublicKeyInfo, when the browser can export it
+      publicKeyAlgorithm: z.number(), // COSE identifier, e.g. -7 for ES256
+      transports: z.array(z.string()).optional(),
+    }),
+  }),
+});
+export type PasskeyRegistrationRequest = Infer<typeof passkeyRegistrationRequestSchema>;
+
+export const passkeyLoginRequestSchema = z.object({
+  credential: z.object({
+    id: base64UrlSchema,
+    rawId: base64UrlSchema,
+    type: z.literal("public-key"),
+    response: z.object({
+      clientDataJSON: base64UrlSchema,
+      authenticatorData: base64UrlSchema,
+      signature: base64UrlSchema,
+      userHandle: base64UrlSchema.optional(),
+    }),
+  }),
+});
+export type PasskeyLoginRequest = Infer<typeof passkeyLoginRequestSchema>;
+
+export const passkeyRenameRequestSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+});
+export type PasskeyRenameRequest = Infer<typeof passkeyRenameRequestSchema>;
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().min(1),
+});
+export type PasswordResetRequest = Infer<typeof passwordResetRequestSchema>;
+
+export const passwordResetConfirmRequestSchema = z.object({
+  user_id: z.coerce.string(),
+  otp: z.string().min(1),
+  password: z.string().min(1),
+});
+export type PasswordResetConfirmRequest = Infer<typeof passwordResetConfirmRequestSchema>;
+
+export const changePasswordRequestSchema = z.object({
+  current_password: z.string().min(1),
+  new_password: z.string().min(1),
+});
+export type ChangePasswordRequest = Infer<typeof changePasswordRequestSchema>;
+
+export const teacherCreateRequestSchema = z.object({
+  user: z.object({
+    email: z.string().email(),
+    firstName: z.string().min(1),
+    lastName: z.string().min(1),
+    password: z.string().min(1),
+  }),
+  phoneNumber: z.string().optional(),
+  bio: z.string().optional(),
+});
+export type TeacherCreateRequest = Infer<typeof teacherCreateRequestSchema>;
+
+export const teacherUpdateRequestSchema = z.object({
+  phoneNumber: z.string().optional(),
+  bio: z.string().optional(),
+  profilePicture: fileSchema.optional(),
+  status: teacherStatusSchema.optional(),
+});
+export type TeacherUpdateRequest = Infer<typeof teacherUpdateRequestSchema>;
+
+export const teacherApprovalRequestSchema = z.object({
+  approved: z.boolean(),
+  rejectionReason: z.string().optional(),
+});
+export type TeacherApprovalRequest = Infer<typeof teacherApprovalRequestSchema>;
+
+// One address or a whole staff list at once
+export const invitationCreateRequestSchema = z.object({
+  emails: z.array(z.string().email()).min(1).max(100),
+});
+export type InvitationCreateRequest = Infer<typeof invitationCreateRequestSchema>;
+
+// The invited teacher's own details; the email comes from the invitation
+export const invitationAcceptRequestSchema = z.object({
+  firstName: z.string().min(1),
+  lastName: z.string().min(1),
+  password: z.string().min(1),
+  phoneNumber: z.string().optional(),
+});
+export type InvitationAcceptRequest = Infer<typeof invitationAcceptRequestSchema>;
+
+export const documentCreateRequestSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().optional(),
+  categoryId: z.string().min(1),
+  file: fileSchema,
+  classLevel: z.string().optional(),
+  subject: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+});
+export type DocumentCreateRequest = Infer<typeof documentCreateRequestSchema>;
+
+export const documentUpdateRequestSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().optional(),
+  categoryId: z.string().optional(),
+  classLevel: z.string().optional(),
+  subject: z.string().optional(),
+  status: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+});
+export type DocumentUpdateRequest = Infer<typeof documentUpdateRequestSchema>;
+
+export const documentShareRequestSchema = z.object({
+  share_type: shareTypeSchema,
+  shared_with: z.string().optional(), // Teacher ID for private shares
+  shared_with_emails: z.array(z.string().email()).optional(), // Teacher emails for multiple private shares
+  can_download: z.boolean().optional(),
+  can_view: z.boolean().optional(),
+  expires_at: z.string().datetime({ offset: true }).optional(),
+  message: z.string().optional(), // Included with the share notification
+});
+export type DocumentShareRequest = Infer<typeof documentShareRequestSchema>;
+
+export const categoryCreateRequestSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().optional(),
+  requiresClassSubject: z.boolean(),
+});
+export type CategoryCreateRequest = Infer<typeof categoryCreateRequestSchema>;
+
+export const categoryUpdateRequestSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  description: z.string().optional(),
+  requiresClassSubject: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+export type CategoryUpdateRequest = Infer<typeof categoryUpdateRequestSchema>;
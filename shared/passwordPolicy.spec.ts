@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PASSWORD_POLICY, passwordErrors, passwordRequirements, passwordStrength } from "./passwordPolicy";
+
+const strictPolicy = {
+  ...DEFAULT_PASSWORD_POLICY,
+  minLength: 10,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireDigit: true,
+  requireSymbol: true,
+};
+
+describe("passwordPolicy", () => {
+  it("should list only the rules the policy turns on", () => {
+    expect(passwordRequirements("", DEFAULT_PASSWORD_POLICY).map(requirement => requirement.label)).toEqual([
+      "At least 8 characters",
+      "Not your name or email",
+      "Not a common password",
+    ]);
+    expect(passwordRequirements("", strictPolicy)).toHaveLength(7);
+  });
+
+  it("should report each broken rule in Django's words", () => {
+    expect(passwordErrors("short", strictPolicy)).toEqual([
+      "This password is too short. It must contain at least 10 characters.",
+      "The password must contain at least one uppercase letter.",
+      "The password must contain at least one digit.",
+      "The password must contain at least one symbol.",
+    ]);
+    expect(passwordErrors("Mango#Tree42!", strictPolicy)).toEqual([]);
+  });
+
+  it("should refuse the user's own name or email and common passwords", () => {
+    const context = { firstName: "Wanjiru", lastName: "Kamau", email: "wkamau@school.ac.ke" };
+
+    expect(passwordErrors("wanjiru2024", DEFAULT_PASSWORD_POLICY, context)).toEqual([
+      "The password is too similar to your name or email address.",
+    ]);
+    expect(passwordErrors("Kenya123", DEFAULT_PASSWORD_POLICY, context)).toEqual(["This password is too common."]);
+    expect(passwordErrors("99999999", DEFAULT_PASSWORD_POLICY, context)).toEqual(["This password is too common."]);
+  });
+
+  it("should rate longer and more varied passwords as stronger", () => {
+    expect(passwordStrength("")).toBe(0);
+    expect(passwordStrength("password123")).toBe(0);
+    expect(passwordStrength("mangotree")).toBe(1);
+    expect(passwordStrength("Mango#Tree42!")).toBe(4);
+  });
+});
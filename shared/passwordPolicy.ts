@@ -0,0 +1,120 @@
+import type { PasswordPolicy } from "./api";
+
+/**
+ * Password rules shared by the client's forms and the sandbox, so a password
+ * the form accepts is one the server accepts. Messages follow Django's
+ * password validators, which the real backend answers with.
+ */
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireDigit: false,
+  requireSymbol: false,
+  disallowPersonalInfo: true,
+  disallowCommonPasswords: true,
+  historyCount: 0,
+  maxAgeDays: 0,
+};
+
+// Kept short on purpose: the most guessed passwords, plus the obvious local ones
+const COMMON_PASSWORDS = new Set([
+  "123456", "12345678", "123456789", "1234567890", "password", "password1", "password123", "passw0rd",
+  "qwerty", "qwerty123", "qwertyuiop", "abc123", "abcd1234", "111111", "000000", "123123", "654321",
+  "iloveyou", "admin", "admin123", "administrator", "welcome", "welcome1", "welcome123", "letmein",
+  "monkey", "dragon", "football", "baseball", "sunshine", "princess", "master", "shadow", "superman",
+  "trustno1", "changeme", "secret", "login", "starwars", "whatever", "computer", "internet",
+  "teacher", "teacher1", "teacher123", "school", "school123", "student", "student123", "education",
+  "kenya", "kenya123", "kenya2024", "nairobi", "nairobi123", "mombasa", "jesus", "jesus123", "blessed",
+  "god123", "amen", "mwalimu", "mwalimu123", "harambee",
+]);
+
+export interface PasswordContext {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+}
+
+export interface PasswordRequirement {
+  label: string;
+  met: boolean;
+  message: string; // Shown when the requirement is not met
+}
+
+const containsPersonalInfo = (password: string, { firstName, lastName, email }: PasswordContext) => {
+  const lower = password.toLowerCase();
+  const parts = [firstName, lastName, email?.split("@")[0]]
+    .map(part => part?.trim().toLowerCase() ?? "")
+    .filter(part => part.length >= 3);
+  return parts.some(part => lower.includes(part));
+};
+
+const isCommon = (password: string) =>
+  COMMON_PASSWORDS.has(password.toLowerCase()) || /^(.)\1+$/.test(password) || /^\d+$/.test(password);
+
+/**
+ * The policy's rules, each with whether the password meets it; what the
+ * checklist under a password field shows
+ */
+export function passwordRequirements(
+  password: string,
+  policy: PasswordPolicy,
+  context: PasswordContext = {}
+): PasswordRequirement[] {
+  const requirements: PasswordRequirement[] = [{
+    label: `At least ${policy.minLength} characters`,
+    met: password.length >= policy.minLength,
+    message: `This password is too short. It must contain at least ${policy.minLength} characters.`,
+  }];
+
+  if (policy.requireUppercase) {
+    requirements.push({ label: "An uppercase letter", met: /[A-Z]/.test(password), message: "The password must contain at least one uppercase letter." });
+  }
+  if (policy.requireLowercase) {
+    requirements.push({ label: "A lowercase letter", met: /[a-z]/.test(password), message: "The password must contain at least one lowercase letter." });
+  }
+  if (policy.requireDigit) {
+    requirements.push({ label: "A number", met: /\d/.test(password), message: "The password must contain at least one digit." });
+  }
+  if (policy.requireSymbol) {
+    requirements.push({ label: "A symbol, e.g. ! or #", met: /[^A-Za-z0-9]/.test(password), message: "The password must contain at least one symbol." });
+  }
+  if (policy.disallowPersonalInfo) {
+    requirements.push({
+      label: "Not your name or email",
+      met: password.length > 0 && !containsPersonalInfo(password, context),
+      message: "The password is too similar to your name or email address.",
+    });
+  }
+  if (policy.disallowCommonPasswords) {
+    requirements.push({ label: "Not a common password", met: password.length > 0 && !isCommon(password), message: "This password is too common." });
+  }
+
+  return requirements;
+}
+
+// The messages for every rule the password breaks; empty when it is allowed
+export function passwordErrors(password: string, policy: PasswordPolicy, context: PasswordContext = {}): string[] {
+  return passwordRequirements(password, policy, context)
+    .filter(requirement => !requirement.met)
+    .map(requirement => requirement.message);
+}
+
+export const PASSWORD_STRENGTH_LABELS = ["Very weak", "Weak", "Fair", "Good", "Strong"] as const;
+
+/**
+ * A 0-4 guess at how hard the password is to guess, from its length and
+ * variety; independent of the policy, which only sets the minimum
+ */
+export function passwordStrength(password: string): number {
+  if (!password || isCommon(password)) return 0;
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(password)).length;
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (classes >= 2) score++;
+  if (classes >= 3 && password.length >= 10) score++;
+  return score;
+}
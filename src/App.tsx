@@ -4,7 +4,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { createRoot } from "react-dom/client";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 
 // Context
@@ -12,18 +12,26 @@ import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import { SettingsProvider } from "./contexts/SettingsContext";
 
+// Data
+import { queryClient } from "./lib/queryClient";
+import { installErrorReporting } from "./lib/errorReporter";
+
 // Components
 import ProtectedRoute from "./components/ProtectedRoute";
+import FeatureRoute from "./components/FeatureRoute";
+import { ErrorBoundary } from "./components/ErrorBoundary";
 
 // Pages
 import Login from "./pages/Login";
 import Register from "./pages/Register";
+import AcceptInvite from "./pages/AcceptInvite";
 import PublicShare from "./pages/PublicShare";
 import TeacherDashboard from "./pages/TeacherDashboard";
 import TeacherUpload from "./pages/TeacherUpload";
 import TeacherDocuments from "./pages/TeacherDocuments";
 import TeacherShared from "./pages/TeacherShared";
 import TeacherSettings from "./pages/TeacherSettings";
+import TeacherOutbox from "./pages/TeacherOutbox";
 import AdminDashboard from "./pages/AdminDashboard";
 import AdminTeachers from "./pages/AdminTeachers";
 import AdminCategories from "./pages/AdminCategories";
@@ -33,11 +41,10 @@ import AdminActivity from "./pages/AdminActivity";
 import AdminSettings from "./pages/AdminSettings";
 import Profile from "./pages/Profile";
 import ForgotPassword from "./pages/ForgotPassword";
+import ChangePassword from "./pages/ChangePassword";
 import PlaceholderPage from "./pages/PlaceholderPage";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
-
 // Dashboard Router - handles role-based dashboard routing
 const DashboardRouter = () => {
   const { user } = useAuth();
@@ -59,143 +66,179 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <ThemeProvider>
-        <BrowserRouter>
-          <AuthProvider>
-            <SettingsProvider>
-            <Routes>
-              {/* Public Routes */}
-              <Route path="/login" element={<Login />} />
-              <Route path="/register" element={<Register />} />
-              <Route path="/shared/:documentId/:token" element={<PublicShare />} />
+      <ErrorBoundary>
+        <ThemeProvider>
+          <BrowserRouter>
+            <AuthProvider>
+              <SettingsProvider>
+              <Routes>
+                {/* Public Routes */}
+                <Route path="/login" element={<Login />} />
+                <Route path="/register" element={<Register />} />
+                <Route path="/accept-invite/:token" element={<AcceptInvite />} />
+                <Route
+                  path="/shared/:documentId/:token"
+                  element={
+                    <FeatureRoute flag="publicLinks">
+                      <PublicShare />
+                    </FeatureRoute>
+                  }
+                />
               
-              {/* Dashboard Redirect */}
-              <Route path="/" element={<DashboardRouter />} />
-              <Route path="/dashboard" element={<DashboardRouter />} />
+                {/* Dashboard Redirect */}
+                <Route path="/" element={<DashboardRouter />} />
+                <Route path="/dashboard" element={<DashboardRouter />} />
               
-              {/* Teacher Routes */}
-              <Route 
-                path="/teacher/dashboard" 
-                element={
-                  <ProtectedRoute requiredRole="teacher">
-                    <TeacherDashboard />
-                  </ProtectedRoute>
-                } 
-              />
-              <Route
-                path="/teacher/upload"
-                element={
-                  <ProtectedRoute requiredRole="teacher">
-                    <TeacherUpload />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/teacher/documents"
-                element={
-                  <ProtectedRoute requiredRole="teacher">
-                    <TeacherDocuments />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/teacher/shared"
-                element={
-                  <ProtectedRoute requiredRole="teacher">
-                    <TeacherShared />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/teacher/settings"
-                element={
-                  <ProtectedRoute requiredRole="teacher">
-                    <TeacherSettings />
-                  </ProtectedRoute>
-                }
-              />
+                {/* Teacher Routes */}
+                <Route 
+                  path="/teacher/dashboard" 
+                  element={
+                    <ProtectedRoute requiredRole="teacher">
+                      <TeacherDashboard />
+                    </ProtectedRoute>
+                  } 
+                />
+                <Route
+                  path="/teacher/upload"
+                  element={
+                    <ProtectedRoute requiredRole="teacher">
+                      <TeacherUpload />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/teacher/documents"
+                  element={
+                    <ProtectedRoute requiredRole="teacher">
+                      <TeacherDocuments />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/teacher/shared"
+                  element={
+                    <ProtectedRoute requiredRole="teacher">
+                      <FeatureRoute flag="documentSharing">
+                        <TeacherShared />
+                      </FeatureRoute>
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/teacher/outbox"
+                  element={
+                    <ProtectedRoute requiredRole="teacher">
+                      <FeatureRoute flag="offlineOutbox">
+                        <TeacherOutbox />
+                      </FeatureRoute>
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/teacher/settings"
+                  element={
+                    <ProtectedRoute requiredRole="teacher">
+                      <TeacherSettings />
+                    </ProtectedRoute>
+                  }
+                />
               
-              {/* Admin Routes */}
-              <Route 
-                path="/admin/dashboard" 
-                element={
-                  <ProtectedRoute requiredRole="admin">
-                    <AdminDashboard />
-                  </ProtectedRoute>
-                } 
-              />
-              <Route
-                path="/admin/teachers"
-                element={
-                  <ProtectedRoute requiredRole="admin">
-                    <AdminTeachers />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/admin/categories"
-                element={
-                  <ProtectedRoute requiredRole="admin">
-                    <AdminCategories />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/admin/documents"
-                element={
-                  <ProtectedRoute requiredRole="admin">
-                    <AdminDocuments />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/admin/reports"
-                element={
-                  <ProtectedRoute requiredRole="admin">
-                    <AdminReports />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/admin/activity"
-                element={
-                  <ProtectedRoute requiredRole="admin">
-                    <AdminActivity />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/admin/settings"
-                element={
-                  <ProtectedRoute requiredRole="admin">
-                    <AdminSettings />
-                  </ProtectedRoute>
-                }
-              />
+                {/* Admin Routes */}
+                <Route 
+                  path="/admin/dashboard" 
+                  element={
+                    <ProtectedRoute requiredRole="admin">
+                      <AdminDashboard />
+                    </ProtectedRoute>
+                  } 
+                />
+                <Route
+                  path="/admin/teachers"
+                  element={
+                    <ProtectedRoute requiredRole="admin">
+                      <AdminTeachers />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin/categories"
+                  element={
+                    <ProtectedRoute requiredRole="admin">
+                      <AdminCategories />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin/documents"
+                  element={
+                    <ProtectedRoute requiredRole="admin">
+                      <AdminDocuments />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin/reports"
+                  element={
+                    <ProtectedRoute requiredRole="admin">
+                      <FeatureRoute flag="reports">
+                        <AdminReports />
+                      </FeatureRoute>
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin/activity"
+                  element={
+                    <ProtectedRoute requiredRole="admin">
+                      <FeatureRoute flag="activityLogs">
+                        <AdminActivity />
+                      </FeatureRoute>
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/admin/settings"
+                  element={
+                    <ProtectedRoute requiredRole="admin">
+                      <AdminSettings />
+                    </ProtectedRoute>
+                  }
+                />
               
-              {/* Shared Routes */}
-              <Route
-                path="/profile"
-                element={
-                  <ProtectedRoute>
-                    <Profile />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/forgot-password"
-                element={<ForgotPassword />}
-              />
+                {/* Shared Routes */}
+                <Route
+                  path="/profile"
+                  element={
+                    <ProtectedRoute>
+                      <Profile />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/change-password"
+                  element={
+                    <ProtectedRoute>
+                      <ChangePassword />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/forgot-password"
+                  element={<ForgotPassword />}
+                />
               
-              {/* Catch-all route */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-            </SettingsProvider>
-          </AuthProvider>
-        </BrowserRouter>
-      </ThemeProvider>
+                {/* Catch-all route */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+              </SettingsProvider>
+            </AuthProvider>
+          </BrowserRouter>
+        </ThemeProvider>
+      </ErrorBoundary>
     </TooltipProvider>
   </QueryClientProvider>
 );
 
+installErrorReporting();
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { apiClient } from '../services/api';
+import { ApiError } from '../services/errors';
+import { UserPreferences } from '../services/types';
+import TotpEnrollmentDialog from './TotpEnrollmentDialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Shield } from 'lucide-react';
+
+interface AuthenticatorAppSettingProps {
+  preferences: UserPreferences | null;
+  onChange: () => void; // Reload preferences after enrolling or removing the app
+}
+
+/**
+ * Enrollment status of the user's authenticator app, with set up and remove
+ */
+export default function AuthenticatorAppSetting({ preferences, onChange }: AuthenticatorAppSettingProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const enrolled = preferences?.totp_enabled ?? false;
+  const required = preferences?.totp_required ?? false;
+
+  const handleRemove = async () => {
+    setIsRemoving(true);
+    try {
+      const response = await apiClient.disableTotp();
+      toast.success('Authenticator App Removed', {
+        description: response.message,
+      });
+      onChange();
+    } catch (error) {
+      toast.error('Remove Failed', {
+        description: error instanceof ApiError ? error.message : 'Failed to remove authenticator app',
+      });
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <p className="font-medium">Authenticator App</p>
+            {enrolled ? (
+              <Badge className="bg-success/10 text-success border-success/20">Enrolled</Badge>
+            ) : (
+              <Badge variant="outline">Not set up</Badge>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Confirm sign-ins with codes from an app on your phone
+          </p>
+        </div>
+        {enrolled ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRemove}
+            disabled={!preferences || required || isRemoving}
+          >
+            {isRemoving ? 'Removing...' : 'Remove'}
+          </Button>
+        ) : (
+          <Button size="sm" onClick={() => setDialogOpen(true)} disabled={!preferences}>
+            Set Up
+          </Button>
+        )}
+      </div>
+
+      {required && !enrolled && (
+        <Alert className="bg-warning/10 border-warning/20">
+          <Shield className="h-4 w-4 text-warning" />
+          <AlertDescription className="text-warning-foreground">
+            Your administrator requires an authenticator app for this account. Set one up now.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <TotpEnrollmentDialog open={dialogOpen} onOpenChange={setDialogOpen} onEnrolled={onChange} />
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { PasswordContext, passwordErrors } from '@shared/passwordPolicy';
+import { PasswordPolicy } from '../services/types';
+import { useAuth } from '../contexts/AuthContext';
+import { useGlobalSettings } from '../contexts/SettingsContext';
+import usePasswordChange from '../hooks/usePasswordChange';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from './ui/form';
+import { Alert, AlertDescription } from './ui/alert';
+import { AlertTriangle, Eye, EyeOff, Lock } from 'lucide-react';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('change-password');
+
+interface ChangePasswordFormProps {
+  onChanged?: () => void | Promise<void>;
+  showHeading?: boolean;
+}
+
+const passwordFormSchema = (policy: PasswordPolicy, context: PasswordContext) => z.object({
+  currentPassword: z.string().min(1, 'Enter your current password'),
+  newPassword: z.string().min(1, 'Enter a new password'),
+  confirmPassword: z.string().min(1, 'Confirm your new password'),
+}).superRefine((values, ctx) => {
+  for (const message of passwordErrors(values.newPassword, policy, context)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['newPassword'] });
+  }
+  if (values.newPassword !== values.confirmPassword) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'New passwords do not match', path: ['confirmPassword'] });
+  }
+});
+
+type PasswordFormValues = z.infer<ReturnType<typeof passwordFormSchema>>;
+
+/**
+ * Current password plus a new one checked against the password policy; used
+ * by the settings pages and by the forced change when a password has expired
+ */
+export default function ChangePasswordForm({ onChanged, showHeading = true }: ChangePasswordFormProps) {
+  const { user } = useAuth();
+  const { passwordPolicy } = useGlobalSettings();
+  const { changePassword, isLoading } = usePasswordChange();
+  const [showPassword, setShowPassword] = useState(false);
+  const [showNewPassword, setShowNewPassword] = useState(false);
+
+  const context = useMemo<PasswordContext>(
+    () => ({ firstName: user?.firstName, lastName: user?.lastName, email: user?.email }),
+    [user?.firstName, user?.lastName, user?.email]
+  );
+  const schema = useMemo(() => passwordFormSchema(passwordPolicy, context), [passwordPolicy, context]);
+
+  const form = useForm<PasswordFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: '',
+    },
+  });
+
+  const handleSubmit = form.handleSubmit(async (values) => {
+    try {
+      const success = await changePassword({
+        current_password: values.currentPassword,
+        new_password: values.newPassword,
+      }, form);
+
+      if (success) {
+        form.reset();
+        await onChanged?.();
+      }
+    } catch (error) {
+      log.error('Password change error', error);
+    }
+  });
+
+  const serverError = form.formState.errors.root?.server?.message;
+  const [currentPassword, newPassword, confirmPassword] = form.watch(['currentPassword', 'newPassword', 'confirmPassword']);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+        {showHeading && <h3 className="text-lg font-medium">Change Password</h3>}
+        <div className="grid gap-4 md:grid-cols-1 max-w-md">
+          <FormField
+            control={form.control}
+            name="currentPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Current Password</FormLabel>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <FormControl>
+                    <Input type={showPassword ? "text" : "password"} className="pl-10 pr-10" autoComplete="current-password" {...field} />
+                  </FormControl>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-0 top-0 h-full px-3"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="newPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>New Password</FormLabel>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <FormControl>
+                    <Input type={showNewPassword ? "text" : "password"} className="pl-10 pr-10" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-0 top-0 h-full px-3"
+                    onClick={() => setShowNewPassword(!showNewPassword)}
+                  >
+                    {showNewPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                </div>
+                <FormMessage />
+                <PasswordStrengthMeter password={field.value} context={context} />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirm New Password</FormLabel>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <FormControl>
+                    <Input type="password" className="pl-10" autoComplete="new-password" {...field} />
+                  </FormControl>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {serverError && (
+          <Alert className="bg-destructive/10 border-destructive/20 max-w-md">
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+            <AlertDescription className="text-destructive">
+              {serverError}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          type="submit"
+          disabled={isLoading || !currentPassword || !newPassword || !confirmPassword}
+        >
+          {isLoading ? 'Changing Password...' : 'Change Password'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
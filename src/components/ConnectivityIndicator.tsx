@@ -0,0 +1,37 @@
+/**
+ * Connectivity Indicator Component
+ * A strip under the header while the browser is offline or requests are
+ * retrying after the connection dropped
+ */
+
+import { Loader2, WifiOff } from 'lucide-react';
+import { Alert, AlertDescription } from './ui/alert';
+import { useConnectivity } from '../hooks/useConnectivity';
+
+export default function ConnectivityIndicator() {
+  const connectivity = useConnectivity();
+
+  if (connectivity === 'online') return null;
+
+  if (connectivity === 'offline') {
+    return (
+      <Alert role="status" className="border-red-200 bg-red-50 text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-200 mb-0 rounded-none border-l-0 border-r-0 border-t-0">
+        <WifiOff className="h-4 w-4" />
+        <AlertDescription className="flex items-center gap-2">
+          <span className="font-medium">Offline:</span>
+          <span>Waiting for a connection. Pages will update once you are back online.</span>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert role="status" className="border-blue-200 bg-blue-50 text-blue-800 dark:border-blue-800 dark:bg-blue-950 dark:text-blue-200 mb-0 rounded-none border-l-0 border-r-0 border-t-0">
+      <Loader2 className="h-4 w-4 animate-spin" />
+      <AlertDescription className="flex items-center gap-2">
+        <span className="font-medium">Reconnecting:</span>
+        <span>The connection to the server dropped. Trying again...</span>
+      </AlertDescription>
+    </Alert>
+  );
+}
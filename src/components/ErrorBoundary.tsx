@@ -2,15 +2,18 @@
  * Error handling components
  */
 
-import { AlertTriangle, RefreshCw, Home } from 'lucide-react';
+import { Component, ErrorInfo, ReactNode, useState } from 'react';
+import { AlertTriangle, RefreshCw, Home, ClipboardCopy, Check } from 'lucide-react';
 import { Button } from './ui/button';
 import { Alert, AlertDescription } from './ui/alert';
+import { ErrorReport, formatDiagnostics, reportError } from '../lib/errorReporter';
 
 interface ErrorMessageProps {
   title?: string;
   message: string;
   onRetry?: () => void;
   onHome?: () => void;
+  actions?: ReactNode; // Extra buttons after Try Again and Go Home
   className?: string;
 }
 
@@ -19,6 +22,7 @@ export const ErrorMessage = ({
   message, 
   onRetry, 
   onHome,
+  actions,
   className = '' 
 }: ErrorMessageProps) => (
   <div className={`flex flex-col items-center justify-center p-8 text-center space-y-4 ${className}`}>
@@ -40,6 +44,7 @@ export const ErrorMessage = ({
           Go Home
         </Button>
       )}
+      {actions}
     </div>
   </div>
 );
@@ -98,4 +103,69 @@ export const PermissionError = ({ onHome }: { onHome?: () => void }) => (
   />
 );
 
+const CopyDiagnosticsButton = ({ report }: { report: ErrorReport }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatDiagnostics(report));
+      setCopied(true);
+    } catch {
+      // The clipboard API needs HTTPS; let them copy it by hand instead
+      window.prompt('Copy this error report for support:', formatDiagnostics(report));
+    }
+  };
+
+  return (
+    <Button onClick={copy} variant="ghost">
+      {copied ? <Check className="h-4 w-4 mr-2" /> : <ClipboardCopy className="h-4 w-4 mr-2" />}
+      {copied ? 'Copied' : 'Copy Diagnostics'}
+    </Button>
+  );
+};
+
+interface ErrorBoundaryProps {
+  children: ReactNode;
+}
+
+interface ErrorBoundaryState {
+  hasError: boolean;
+  report: ErrorReport | null;
+}
+
+/**
+ * Catches render errors below it, reports them and shows an error screen
+ * from which the teacher can retry or copy diagnostics for support
+ */
+export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { hasError: false, report: null };
+
+  static getDerivedStateFromError(): Partial<ErrorBoundaryState> {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    this.setState({ report: reportError(error, 'boundary', info.componentStack ?? undefined) });
+  }
+
+  private reset = () => {
+    this.setState({ hasError: false, report: null });
+  };
+
+  render() {
+    if (!this.state.hasError) return this.props.children;
+
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <ErrorMessage
+          message="This page ran into a problem. Try again, or copy the diagnostics and send them to support if it keeps happening."
+          onRetry={this.reset}
+          onHome={() => window.location.assign('/')}
+          actions={this.state.report && <CopyDiagnosticsButton report={this.state.report} />}
+        />
+      </div>
+    );
+  }
+}
+
 export default ErrorMessage;
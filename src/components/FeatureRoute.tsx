@@ -0,0 +1,36 @@
+import { Navigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useGlobalSettings } from '../contexts/SettingsContext';
+import { FeatureFlag } from '../services/types';
+
+interface FeatureRouteProps {
+  children: React.ReactNode;
+  flag: FeatureFlag;
+  fallbackPath?: string;
+}
+
+export default function FeatureRoute({
+  children,
+  flag,
+  fallbackPath = '/'
+}: FeatureRouteProps) {
+  const { isFeatureEnabled, featureFlagsLoading } = useGlobalSettings();
+
+  // Wait for the flags so a deep link to a piloted page is not bounced before they arrive
+  if (featureFlagsLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-primary" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isFeatureEnabled(flag)) {
+    return <Navigate to={fallbackPath} replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -5,6 +5,10 @@ import { X, Download, ZoomIn, ZoomOut, RotateCw, Maximize } from 'lucide-react';
 import { toast } from 'sonner';
 import { config } from '../lib/config';
 import { apiClient } from '../services/api';
+import { useDownload } from '../hooks/useDownload';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('preview');
 
 interface FilePreviewModalProps {
   file: {
@@ -21,6 +25,7 @@ interface FilePreviewModalProps {
 }
 
 export default function FilePreviewModal({ file, isOpen, onClose }: FilePreviewModalProps) {
+  const { downloadDocument } = useDownload();
   const [zoom, setZoom] = useState(100);
   const [rotation, setRotation] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
@@ -53,7 +58,7 @@ export default function FilePreviewModal({ file, isOpen, onClose }: FilePreviewM
       const url = await apiClient.previewDocument(file.id);
       setPreviewUrl(url);
     } catch (error) {
-      console.error('Failed to load preview:', error);
+      log.error('Failed to load preview', error);
       setPreviewError('Failed to load preview');
       toast.error('Failed to load preview');
     } finally {
@@ -109,16 +114,7 @@ export default function FilePreviewModal({ file, isOpen, onClose }: FilePreviewM
   const handleDownload = async () => {
     if (!file) return;
     
-    try {
-      await apiClient.downloadDocument(file.id, undefined, file.fileName);
-      toast.success('Download Started', {
-        description: `${file.fileName} is being downloaded`
-      });
-    } catch (error) {
-      toast.error('Download Failed', {
-        description: 'Failed to download file. Please try again.'
-      });
-    }
+    await downloadDocument({ documentId: file.id, fileName: file.fileName, fileSize: file.fileSize });
   };
 
   const handleCloseModal = () => {
@@ -4,10 +4,13 @@ import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useGlobalSettings } from '../contexts/SettingsContext';
 import { useSessionTimeout } from '../hooks/useSessionTimeout';
+import { useOutbox } from '../hooks/useOutbox';
 import { Button } from './ui/button';
 import UserAvatar from './UserAvatar';
 import SessionWarningDialog from './SessionWarningDialog';
 import MaintenanceBanner from './MaintenanceBanner';
+import ConnectivityIndicator from './ConnectivityIndicator';
+import { FeatureFlag } from '../services/types';
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -34,7 +37,8 @@ import {
   BarChart3,
   Shield,
   PlusCircle,
-  Activity
+  Activity,
+  Inbox
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -45,7 +49,7 @@ export default function Layout({ children }: LayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { user, logout } = useAuth();
   const { isDarkMode, toggleTheme } = useTheme();
-  const { getSiteName, getMaintenanceMode } = useGlobalSettings();
+  const { getSiteName, getMaintenanceMode, isFeatureEnabled } = useGlobalSettings();
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -57,6 +61,9 @@ export default function Layout({ children }: LayoutProps) {
     forceLogout
   } = useSessionTimeout();
 
+  // Documents saved offline; Layout is on every page, so it also sends them when the connection returns
+  const { entries: outboxEntries } = useOutbox({ autoSend: true });
+
   // Handle session expired events from API
   useEffect(() => {
     const handleSessionExpired = (event: any) => {
@@ -74,16 +81,16 @@ export default function Layout({ children }: LayoutProps) {
     navigate('/login');
   };
 
-  // Navigation items based on user role
-  const getNavigationItems = () => {
+  // Navigation items based on user role; items behind a flag show only while it is on
+  const getNavigationItems = (): { name: string; href: string; icon: typeof Home; badge?: number; flag?: FeatureFlag }[] => {
     if (user?.role === 'admin') {
       return [
         { name: 'Dashboard', href: '/admin/dashboard', icon: Home },
         { name: 'Teachers', href: '/admin/teachers', icon: Users },
         { name: 'Categories', href: '/admin/categories', icon: FolderOpen },
         { name: 'All Documents', href: '/admin/documents', icon: FileText },
-        { name: 'Reports', href: '/admin/reports', icon: BarChart3 },
-        { name: 'Activity Logs', href: '/admin/activity', icon: Activity },
+        { name: 'Reports', href: '/admin/reports', icon: BarChart3, flag: 'reports' },
+        { name: 'Activity Logs', href: '/admin/activity', icon: Activity, flag: 'activityLogs' },
         { name: 'Settings', href: '/admin/settings', icon: Settings },
       ];
     } else {
@@ -91,13 +98,14 @@ export default function Layout({ children }: LayoutProps) {
         { name: 'Dashboard', href: '/teacher/dashboard', icon: Home },
         { name: 'Upload Document', href: '/teacher/upload', icon: Upload },
         { name: 'My Documents', href: '/teacher/documents', icon: FolderOpen },
-        { name: 'Shared Files', href: '/teacher/shared', icon: FileText },
+        { name: 'Shared Files', href: '/teacher/shared', icon: FileText, flag: 'documentSharing' },
+        { name: 'Outbox', href: '/teacher/outbox', icon: Inbox, badge: outboxEntries.length, flag: 'offlineOutbox' },
         { name: 'Settings', href: '/teacher/settings', icon: Settings },
       ];
     }
   };
 
-  const navigationItems = getNavigationItems();
+  const navigationItems = getNavigationItems().filter(item => !item.flag || isFeatureEnabled(item.flag));
 
   const SidebarContent = () => (
     <div className="flex flex-col h-full">
@@ -145,6 +153,15 @@ export default function Layout({ children }: LayoutProps) {
                 >
                   <item.icon className="h-4 w-4" />
                   {item.name}
+                  {!!item.badge && (
+                    <span
+                      className={`ml-auto rounded-full px-2 py-0.5 text-xs ${
+                        isActive ? 'bg-primary-foreground text-primary' : 'bg-primary text-primary-foreground'
+                      }`}
+                    >
+                      {item.badge}
+                    </span>
+                  )}
                 </Link>
               </li>
             );
@@ -199,6 +216,9 @@ export default function Layout({ children }: LayoutProps) {
         {getMaintenanceMode() && (
           <MaintenanceBanner />
         )}
+
+        {/* Offline and reconnecting states */}
+        <ConnectivityIndicator />
         
         {/* Header */}
         <header className="sticky top-0 z-40 flex h-16 shrink-0 items-center gap-x-4 border-b bg-card/80 backdrop-blur px-4 shadow-sm sm:gap-x-6 sm:px-6 lg:px-8">
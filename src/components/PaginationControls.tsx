@@ -0,0 +1,139 @@
+/**
+ * Pagination Controls Component
+ * Page links for paginated tables and a load-more trigger for infinite lists
+ */
+
+import { useEffect, useRef, MouseEvent } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from './ui/pagination';
+import { cn } from '../lib/utils';
+
+interface PaginationControlsProps {
+  page: number;
+  pageCount: number;
+  totalCount?: number;
+  pageSize?: number;
+  onPageChange: (page: number) => void;
+  className?: string;
+}
+
+// First, last and the pages around the current one, with gaps marked as null
+const getVisiblePages = (page: number, pageCount: number): Array<number | null> => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const sorted = Array.from(pages)
+    .filter(p => p >= 1 && p <= pageCount)
+    .sort((a, b) => a - b);
+
+  return sorted.flatMap((p, index) =>
+    index > 0 && p - sorted[index - 1] > 1 ? [null, p] : [p]
+  );
+};
+
+export default function PaginationControls({
+  page,
+  pageCount,
+  totalCount,
+  pageSize,
+  onPageChange,
+  className
+}: PaginationControlsProps) {
+  if (pageCount <= 1) return null;
+
+  const changePage = (target: number) => (event: MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  const firstItem = pageSize ? (page - 1) * pageSize + 1 : undefined;
+  const lastItem = pageSize && totalCount !== undefined ? Math.min(page * pageSize, totalCount) : undefined;
+
+  return (
+    <div className={cn('flex flex-col sm:flex-row items-center justify-between gap-3', className)}>
+      {firstItem !== undefined && lastItem !== undefined && (
+        <p className="text-sm text-muted-foreground whitespace-nowrap">
+          Showing {firstItem}–{lastItem} of {totalCount}
+        </p>
+      )}
+      <Pagination className="sm:mx-0 sm:w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              onClick={changePage(page - 1)}
+              aria-disabled={page <= 1}
+              className={cn(page <= 1 && 'pointer-events-none opacity-50')}
+            />
+          </PaginationItem>
+          {getVisiblePages(page, pageCount).map((p, index) => (
+            <PaginationItem key={p ?? `gap-${index}`}>
+              {p === null ? (
+                <PaginationEllipsis />
+              ) : (
+                <PaginationLink href="#" isActive={p === page} onClick={changePage(p)}>
+                  {p}
+                </PaginationLink>
+              )}
+            </PaginationItem>
+          ))}
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              onClick={changePage(page + 1)}
+              aria-disabled={page >= pageCount}
+              className={cn(page >= pageCount && 'pointer-events-none opacity-50')}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+}
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Loads the next page when scrolled into view, with a button as a fallback
+ */
+export function LoadMoreTrigger({ hasMore, isLoading, onLoadMore }: LoadMoreTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMore();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoading}>
+        {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {isLoading ? 'Loading...' : 'Load more'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { apiClient } from '../services/api';
+import { ApiError } from '../services/errors';
+import { Passkey, UserPreferences } from '../services/types';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { createPasskeyCredential, isPasskeySupported, passkeyErrorMessage } from '../lib/webauthn';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { AlertTriangle, Fingerprint, Pencil, Trash2 } from 'lucide-react';
+
+interface PasskeysSettingProps {
+  preferences: UserPreferences | null;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-KE', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const failureMessage = (error: unknown, fallback: string) =>
+  passkeyErrorMessage(error) ?? (error instanceof ApiError ? error.message : fallback);
+
+/**
+ * Passkeys the user can sign in with instead of a password and OTP.
+ * Adding and renaming share one name dialog; `editing` tells them apart.
+ */
+export default function PasskeysSetting({ preferences }: PasskeysSettingProps) {
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null);
+  const [nameDialogOpen, setNameDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Passkey | null>(null);
+  const [name, setName] = useState('');
+  const [revoking, setRevoking] = useState<Passkey | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const nextSignal = useLatestRequest();
+  const supported = isPasskeySupported();
+
+  useEffect(() => {
+    const signal = nextSignal();
+    apiClient.getPasskeys({ signal })
+      .then(response => setPasskeys(response.data))
+      .catch(() => {
+        // The list stays empty; adding a passkey reports its own errors
+      });
+  }, [nextSignal]);
+
+  const openNameDialog = (passkey: Passkey | null) => {
+    setEditing(passkey);
+    setName(passkey?.name ?? '');
+    setNameDialogOpen(true);
+  };
+
+  const register = async () => {
+    setIsSaving(true);
+    try {
+      const options = await apiClient.getPasskeyRegistrationOptions();
+      const credential = await createPasskeyCredential(options.data);
+      const response = await apiClient.registerPasskey({ name: name.trim() || undefined, credential });
+      setPasskeys(current => [...(current ?? []), response.data]);
+      setNameDialogOpen(false);
+      toast.success('Passkey Added', { description: `You can now sign in with "${response.data.name}".` });
+    } catch (error) {
+      toast.error('Could Not Add Passkey', { description: failureMessage(error, 'Failed to register passkey') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const rename = async () => {
+    setIsSaving(true);
+    try {
+      const response = await apiClient.renamePasskey(editing.id, { name: name.trim() });
+      setPasskeys(current => current?.map(passkey => passkey.id === response.data.id ? response.data : passkey) ?? null);
+      setNameDialogOpen(false);
+      toast.success('Passkey Renamed');
+    } catch (error) {
+      toast.error('Could Not Rename Passkey', { description: failureMessage(error, 'Failed to rename passkey') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const revoke = async () => {
+    const passkey = revoking;
+    setRevoking(null);
+    try {
+      await apiClient.deletePasskey(passkey.id);
+      setPasskeys(current => current?.filter(item => item.id !== passkey.id) ?? null);
+      toast.success('Passkey Removed', { description: `"${passkey.name}" can no longer be used to sign in.` });
+    } catch (error) {
+      toast.error('Could Not Remove Passkey', { description: failureMessage(error, 'Failed to remove passkey') });
+    }
+  };
+
+  const required = Boolean(preferences?.passkey_required);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <p className="font-medium">Passkeys</p>
+            {required && <Badge variant="outline">Required</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {supported
+              ? 'Sign in with your fingerprint, face or device PIN instead of a password'
+              : 'This browser does not support passkeys'}
+          </p>
+        </div>
+        <Button size="sm" onClick={() => openNameDialog(null)} disabled={!supported || isSaving}>
+          Add Passkey
+        </Button>
+      </div>
+
+      {required && passkeys?.length === 0 && (
+        <Alert className="bg-warning/10 border-warning/20">
+          <AlertTriangle className="h-4 w-4 text-warning" />
+          <AlertDescription className="text-warning-foreground">
+            Your administrator requires a passkey for your account. Add one now; password sign-in will stop working once you do.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {passkeys && passkeys.length > 0 && (
+        <div className="divide-y rounded-md border">
+          {passkeys.map(passkey => (
+            <div key={passkey.id} className="flex items-center justify-between gap-4 p-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <Fingerprint className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{passkey.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Added {formatDate(passkey.createdAt)}
+                    {' · '}
+                    {passkey.lastUsedAt ? `Last used ${formatDate(passkey.lastUsedAt)}` : 'Never used'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <Button variant="ghost" size="icon" onClick={() => openNameDialog(passkey)} aria-label={`Rename ${passkey.name}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setRevoking(passkey)} aria-label={`Remove ${passkey.name}`}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={nameDialogOpen} onOpenChange={open => !isSaving && setNameDialogOpen(open)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Rename Passkey' : 'Add a Passkey'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'Choose a name that tells you which device this passkey lives on.'
+                : 'Name the passkey, then follow your browser\'s prompt to create it.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="passkey-name">Name</Label>
+            <Input
+              id="passkey-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Work laptop"
+              maxLength={64}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={editing ? rename : register} disabled={isSaving || (editing && !name.trim())}>
+              {isSaving ? 'Saving...' : editing ? 'Save' : 'Continue'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={revoking !== null} onOpenChange={open => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Passkey?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{revoking?.name}" will no longer be able to sign in to your account.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={revoke}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
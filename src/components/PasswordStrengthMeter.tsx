@@ -0,0 +1,56 @@
+import {
+  PASSWORD_STRENGTH_LABELS,
+  PasswordContext,
+  passwordRequirements,
+  passwordStrength,
+} from '@shared/passwordPolicy';
+import { useGlobalSettings } from '../contexts/SettingsContext';
+import { cn } from '../lib/utils';
+import { Check, X } from 'lucide-react';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  context?: PasswordContext; // Name and email, so the checklist can flag them inside the password
+  className?: string;
+}
+
+const BAR_COLORS = ['bg-destructive', 'bg-destructive', 'bg-warning', 'bg-success', 'bg-success'];
+
+/**
+ * Strength bar and the password policy as a checklist, under every field
+ * that sets a new password
+ */
+export default function PasswordStrengthMeter({ password, context, className }: PasswordStrengthMeterProps) {
+  const { passwordPolicy } = useGlobalSettings();
+  const strength = passwordStrength(password);
+  const requirements = passwordRequirements(password, passwordPolicy, context);
+
+  return (
+    <div className={cn('space-y-2 text-xs', className)}>
+      {password && (
+        <div className="space-y-1">
+          <div className="flex gap-1">
+            {[1, 2, 3, 4].map(level => (
+              <div
+                key={level}
+                className={cn('h-1.5 flex-1 rounded-full', strength >= level ? BAR_COLORS[strength] : 'bg-muted')}
+              />
+            ))}
+          </div>
+          <p className="text-muted-foreground">Strength: {PASSWORD_STRENGTH_LABELS[strength]}</p>
+        </div>
+      )}
+      <ul className="space-y-1">
+        {requirements.map(requirement => (
+          <li
+            key={requirement.label}
+            className={cn('flex items-center gap-1.5', requirement.met ? 'text-success' : 'text-muted-foreground')}
+          >
+            {requirement.met ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+            {requirement.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
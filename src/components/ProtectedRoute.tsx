@@ -41,6 +41,11 @@ export default function ProtectedRoute({
     return <Navigate to={redirectPath} replace />;
   }
 
+  // An expired password has to be changed before anything else
+  if (user.passwordExpired && location.pathname !== '/change-password') {
+    return <Navigate to="/change-password" replace />;
+  }
+
   // If user account is not active, show message
   if (!user.isActive) {
     return (
@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { apiClient } from '../services/api';
+import { ApiError } from '../services/errors';
+import { RecoveryCodeStatus } from '../services/types';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { AlertTriangle, Copy, Download, KeyRound } from 'lucide-react';
+
+// Below this many unused codes the user is nudged to make a new set
+const LOW_CODE_COUNT = 3;
+
+/**
+ * Single-use recovery codes for signing in without the email or app code.
+ * The codes are shown once, right after generating; after that only the
+ * number left is known.
+ */
+export default function RecoveryCodesSetting() {
+  const [status, setStatus] = useState<RecoveryCodeStatus | null>(null);
+  const [codes, setCodes] = useState<string[] | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const nextSignal = useLatestRequest();
+
+  useEffect(() => {
+    const signal = nextSignal();
+    apiClient.getRecoveryCodeStatus({ signal })
+      .then(response => setStatus(response.data))
+      .catch(() => {
+        // Without a status the button still works; generating reports its own errors
+      });
+  }, [nextSignal]);
+
+  const generate = async () => {
+    setConfirmOpen(false);
+    setIsGenerating(true);
+    try {
+      const response = await apiClient.generateRecoveryCodes();
+      setCodes(response.data.codes);
+      setStatus({ remaining: response.data.codes.length, generatedAt: response.data.generatedAt });
+    } catch (error) {
+      toast.error('Could Not Generate Codes', {
+        description: error instanceof ApiError ? error.message : 'Failed to generate recovery codes',
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success('Recovery Codes Copied');
+    } catch {
+      toast.error('Copy Failed', { description: 'Download the codes instead.' });
+    }
+  };
+
+  const downloadCodes = () => {
+    const content = [
+      'Recovery codes - each code signs you in once.',
+      `Generated ${new Date(status?.generatedAt ?? Date.now()).toLocaleString('en-KE')}`,
+      '',
+      ...codes,
+    ].join('\n');
+
+    const blob = new Blob([content], { type: 'text/plain;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'recovery-codes.txt');
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const hasCodes = Boolean(status?.generatedAt);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <p className="font-medium">Recovery Codes</p>
+            {status && (hasCodes ? (
+              <Badge variant="outline">{status.remaining} left</Badge>
+            ) : (
+              <Badge variant="outline">Not generated</Badge>
+            ))}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Sign in with a single-use code if you lose access to your email or phone
+          </p>
+        </div>
+        <Button
+          variant={hasCodes ? 'outline' : 'default'}
+          size="sm"
+          onClick={() => hasCodes ? setConfirmOpen(true) : generate()}
+          disabled={isGenerating}
+        >
+          {isGenerating ? 'Generating...' : hasCodes ? 'Regenerate' : 'Generate'}
+        </Button>
+      </div>
+
+      {hasCodes && status.remaining <= LOW_CODE_COUNT && (
+        <Alert className="bg-warning/10 border-warning/20">
+          <AlertTriangle className="h-4 w-4 text-warning" />
+          <AlertDescription className="text-warning-foreground">
+            {status.remaining === 0
+              ? 'You have used all your recovery codes. Generate a new set.'
+              : `Only ${status.remaining} recovery code${status.remaining === 1 ? '' : 's'} left. Consider generating a new set.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Regenerate Recovery Codes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your current recovery codes will stop working straight away.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={generate}>Regenerate</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={codes !== null} onOpenChange={open => !open && setCodes(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Save Your Recovery Codes
+            </DialogTitle>
+            <DialogDescription>
+              Each code signs you in once. Keep them somewhere safe; they will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+            {codes?.map(code => (
+              <span key={code} className="text-center">{code}</span>
+            ))}
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={copyCodes}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+            <Button variant="outline" onClick={downloadCodes}>
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </Button>
+            <Button onClick={() => setCodes(null)}>
+              I've Saved Them
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useSessions } from '../hooks/useSessions';
+import { describeUserAgent } from '../lib/userAgent';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Laptop, Loader2, LogOut, MapPin, Smartphone } from 'lucide-react';
+
+interface SessionsAndDevicesProps {
+  teacherId?: string; // An admin looking at a teacher's sessions rather than their own
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-KE', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * Where an account is signed in, one row per session, with sign-out for a
+ * single session and for the rest in one go
+ */
+export default function SessionsAndDevices({ teacherId }: SessionsAndDevicesProps) {
+  const { sessions, isLoading, error, revokeSession, revokeOtherSessions } = useSessions(teacherId);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const others = teacherId ? sessions : sessions.filter(session => !session.isCurrent);
+
+  const signOutOthers = async () => {
+    setConfirmOpen(false);
+    setPendingId('others');
+    await revokeOtherSessions();
+    setPendingId(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading sessions...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {teacherId ? 'This teacher is not signed in anywhere.' : 'No active sessions.'}
+        </p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {sessions.map(session => {
+            const device = describeUserAgent(session.userAgent);
+            const DeviceIcon = device.isMobile ? Smartphone : Laptop;
+            return (
+              <div key={session.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  <DeviceIcon className="mt-0.5 h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <p className="truncate text-sm font-medium">{device.browser} on {device.os}</p>
+                      {session.isCurrent && <Badge variant="outline">This device</Badge>}
+                    </div>
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <MapPin className="h-3 w-3" />
+                      {[session.location, session.ipAddress].filter(Boolean).join(' · ') || 'Unknown location'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Last active {formatDateTime(session.lastActivityAt)} · Signed in {formatDateTime(session.createdAt)}
+                    </p>
+                  </div>
+                </div>
+                {!session.isCurrent && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={pendingId !== null}
+                    onClick={async () => {
+                      setPendingId(session.id);
+                      await revokeSession(session);
+                      setPendingId(null);
+                    }}
+                  >
+                    {pendingId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Sign out'}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {others.length > 0 && (
+        <Button variant="outline" size="sm" onClick={() => setConfirmOpen(true)} disabled={pendingId !== null}>
+          <LogOut className="mr-2 h-4 w-4" />
+          {teacherId ? 'Sign Out Everywhere' : 'Sign Out All Other Sessions'}
+        </Button>
+      )}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{teacherId ? 'Sign Out Everywhere?' : 'Sign Out Other Sessions?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {teacherId
+                ? 'Every device this teacher is signed in on will have to sign in again.'
+                : 'Every other device will have to sign in again. This device stays signed in.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={signOutOthers}>Sign Out</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
 import { apiClient } from '../services/api';
+import { useFeatureFlag } from '../hooks/useFeatureFlag';
 import { DocumentShareRequest } from '../services/types';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -44,6 +45,7 @@ export default function ShareDialog({ document, open, onOpenChange, onShare }: S
   const [isSharing, setIsSharing] = useState(false);
   const [isUnsharing, setIsUnsharing] = useState(false);
   const [hasCreatedShare, setHasCreatedShare] = useState(false);
+  const publicLinksEnabled = useFeatureFlag('publicLinks');
 
   // Reset form when dialog opens/closes or document changes
   useEffect(() => {
@@ -63,8 +65,8 @@ export default function ShareDialog({ document, open, onOpenChange, onShare }: S
   // Populate existing share data when dialog opens
   useEffect(() => {
     if (open && document) {
-      // Populate public share if it exists
-      if (document.public_share_url) {
+      // Populate public share if it exists and public links are on for this user
+      if (document.public_share_url && publicLinksEnabled) {
         setIsPublic(true);
         setPublicLink(`${window.location.origin}${document.public_share_url}`);
       }
@@ -74,7 +76,7 @@ export default function ShareDialog({ document, open, onOpenChange, onShare }: S
         setEmails(document.shared_with_emails.map(share => share.email));
       }
     }
-  }, [open, document]);
+  }, [open, document, publicLinksEnabled]);
 
   const copyToClipboard = async (text: string) => {
     try {
@@ -266,67 +268,69 @@ export default function ShareDialog({ document, open, onOpenChange, onShare }: S
 
         <div className="space-y-4">
           {/* Public Link Option */}
-          <div className="space-y-3">
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label className="text-sm font-medium">Public Link</Label>
-                <p className="text-xs text-muted-foreground">
-                  Anyone with the link can access this document
-                </p>
+          {publicLinksEnabled && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="text-sm font-medium">Public Link</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Anyone with the link can access this document
+                  </p>
+                </div>
+                <Switch
+                  checked={isPublic}
+                  onCheckedChange={(checked) => {
+                    setIsPublic(checked);
+                    if (!checked) {
+                      setPublicLink('');
+                    }
+                  }}
+                />
               </div>
-              <Switch
-                checked={isPublic}
-                onCheckedChange={(checked) => {
-                  setIsPublic(checked);
-                  if (!checked) {
-                    setPublicLink('');
-                  }
-                }}
-              />
-            </div>
 
-            {isPublic && !publicLink && (
-              <div className="space-y-2">
-                <p className="text-sm text-muted-foreground">
-                  <Globe className="h-4 w-4 inline mr-2" />
-                  Click "Generate Public Link" to create a shareable link that anyone can access.
-                </p>
-              </div>
-            )}
+              {isPublic && !publicLink && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    <Globe className="h-4 w-4 inline mr-2" />
+                    Click "Generate Public Link" to create a shareable link that anyone can access.
+                  </p>
+                </div>
+              )}
 
-            {isPublic && publicLink && (
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Input
-                    value={publicLink}
-                    readOnly
-                    className="text-xs"
-                  />
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => copyToClipboard(publicLink)}
-                    className="flex-shrink-0"
-                  >
-                    {copySuccess ? (
-                      <CheckCircle className="h-4 w-4 text-green-500" />
-                    ) : (
-                      <Copy className="h-4 w-4" />
-                    )}
-                  </Button>
+              {isPublic && publicLink && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={publicLink}
+                      readOnly
+                      className="text-xs"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => copyToClipboard(publicLink)}
+                      className="flex-shrink-0"
+                    >
+                      {copySuccess ? (
+                        <CheckCircle className="h-4 w-4 text-green-500" />
+                      ) : (
+                        <Copy className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                  {copySuccess && (
+                    <p className="text-xs text-green-600">Link copied to clipboard!</p>
+                  )}
+                  {document?.publicShareUrl && (
+                    <p className="text-xs text-blue-600">
+                      <Globe className="h-3 w-3 inline mr-1" />
+                      This is your existing public share link
+                    </p>
+                  )}
                 </div>
-                {copySuccess && (
-                  <p className="text-xs text-green-600">Link copied to clipboard!</p>
-                )}
-                {document?.publicShareUrl && (
-                  <p className="text-xs text-blue-600">
-                    <Globe className="h-3 w-3 inline mr-1" />
-                    This is your existing public share link
-                  </p>
-                )}
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          )}
 
           {/* Email Sharing */}
           <div className="space-y-3">
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { useInvitations } from '../hooks/useInvitations';
+import { Invitation, InvitationStatus } from '../services/types';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Loader2, Mail, RefreshCw, XCircle } from 'lucide-react';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-KE', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+
+const STATUS_BADGES: Record<InvitationStatus, JSX.Element> = {
+  pending: <Badge className="bg-warning/10 text-warning border-warning/20">Pending</Badge>,
+  accepted: <Badge className="bg-success/10 text-success border-success/20">Accepted</Badge>,
+  expired: <Badge variant="outline" className="text-muted-foreground">Expired</Badge>,
+};
+
+const describeDates = (invitation: Invitation) => {
+  const sent = `Sent ${formatDate(invitation.createdAt)}`;
+  switch (invitation.status) {
+    case 'accepted':
+      return `${sent} · Accepted ${formatDate(invitation.acceptedAt ?? invitation.createdAt)}`;
+    case 'expired':
+      return `${sent} · Expired ${formatDate(invitation.expiresAt)}`;
+    default:
+      return `${sent} · Expires ${formatDate(invitation.expiresAt)}`;
+  }
+};
+
+/**
+ * Every invitation an admin has sent, newest first, with resend for the ones
+ * not yet accepted and revoke for the ones still outstanding
+ */
+export default function TeacherInvitations() {
+  const { invitations, isLoading, error, resendInvitation, revokeInvitation } = useInvitations();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<Invitation | null>(null);
+
+  const pendingCount = invitations.filter(invitation => invitation.status === 'pending').length;
+
+  const resend = async (invitation: Invitation) => {
+    setPendingId(invitation.id);
+    await resendInvitation(invitation);
+    setPendingId(null);
+  };
+
+  const confirmRevoke = async () => {
+    if (!revoking) return;
+    const invitation = revoking;
+    setRevoking(null);
+    setPendingId(invitation.id);
+    await revokeInvitation(invitation);
+    setPendingId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invitations ({pendingCount} pending)</CardTitle>
+        <CardDescription>
+          Teachers you have invited by email. A link works once, until it expires or is revoked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading invitations...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : invitations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No invitations have been sent yet.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {invitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  <Mail className="mt-0.5 h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <p className="truncate text-sm font-medium">{invitation.email}</p>
+                      {STATUS_BADGES[invitation.status]}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {describeDates(invitation)}
+                      {invitation.invitedBy && ` · By ${invitation.invitedBy}`}
+                    </p>
+                  </div>
+                </div>
+                {invitation.status !== 'accepted' && (
+                  <div className="flex shrink-0 items-center gap-1">
+                    {pendingId === invitation.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    ) : (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={pendingId !== null}
+                          onClick={() => resend(invitation)}
+                        >
+                          <RefreshCw className="mr-2 h-4 w-4" />
+                          Resend
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          disabled={pendingId !== null}
+                          onClick={() => setRevoking(invitation)}
+                        >
+                          <XCircle className="mr-2 h-4 w-4" />
+                          Revoke
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={revoking !== null} onOpenChange={open => !open && setRevoking(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Invitation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The link sent to {revoking?.email} will stop working. You can invite them again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRevoke}>Revoke</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
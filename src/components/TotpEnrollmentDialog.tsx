@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { apiClient } from '../services/api';
+import { ApiError, ValidationError } from '../services/errors';
+import { TotpSetup } from '../services/types';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Copy, ExternalLink, Loader2, Smartphone } from 'lucide-react';
+
+interface TotpEnrollmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onEnrolled?: () => void; // Callback after the first code is accepted
+}
+
+// Setup keys are easier to type in groups of four
+const formatSecret = (secret: string) => secret.replace(/(.{4})/g, '$1 ').trim();
+
+export default function TotpEnrollmentDialog({ open, onOpenChange, onEnrolled }: TotpEnrollmentDialogProps) {
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const nextSignal = useLatestRequest();
+
+  // Every opening starts a fresh enrollment; a secret that was never confirmed is discarded
+  useEffect(() => {
+    setSetup(null);
+    setCode('');
+    setError('');
+    if (!open) return;
+
+    const signal = nextSignal();
+    setIsStarting(true);
+    apiClient.startTotpSetup({ signal })
+      .then(response => setSetup(response.data))
+      .catch(err => {
+        if (signal.aborted) return;
+        setError(err instanceof ApiError ? err.message : 'Failed to start authenticator setup');
+      })
+      .finally(() => {
+        if (!signal.aborted) setIsStarting(false);
+      });
+  }, [open, nextSignal]);
+
+  const copySecret = async () => {
+    if (!setup) return;
+    try {
+      await navigator.clipboard.writeText(setup.secret);
+      toast.success('Setup Key Copied');
+    } catch {
+      toast.error('Copy Failed', { description: 'Select the key and copy it instead.' });
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsConfirming(true);
+
+    try {
+      const response = await apiClient.confirmTotp({ code });
+      toast.success('Authenticator App Enabled', {
+        description: response.message,
+      });
+      onOpenChange(false);
+      onEnrolled?.();
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        setError(err.fieldErrors.code?.join(' ') || err.nonFieldErrors.join(' ') || err.message);
+      } else {
+        setError(err instanceof ApiError ? err.message : 'Failed to verify authenticator code');
+      }
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Smartphone className="h-5 w-5" />
+            Set Up Authenticator App
+          </DialogTitle>
+          <DialogDescription>
+            Scan the code with an app such as Google Authenticator or Microsoft Authenticator,
+            then enter the 6-digit code it shows.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isStarting && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {setup && (
+          <form id="totp-enrollment" onSubmit={handleConfirm} className="space-y-4">
+            {setup.qrCode ? (
+              <div className="flex justify-center">
+                <img
+                  src={setup.qrCode}
+                  alt="QR code for your authenticator app"
+                  className="h-48 w-48 rounded-md border bg-white p-2"
+                />
+              </div>
+            ) : (
+              <Button asChild variant="outline" className="w-full">
+                <a href={setup.otpauthUrl}>
+                  <ExternalLink className="mr-2 h-4 w-4" />
+                  Open in Authenticator App
+                </a>
+              </Button>
+            )}
+
+            <div className="space-y-2">
+              <Label>Can't scan? Enter this setup key</Label>
+              <div className="flex gap-2">
+                <code className="flex-1 rounded-md bg-muted px-3 py-2 font-mono text-sm break-all">
+                  {formatSecret(setup.secret)}
+                </code>
+                <Button type="button" variant="outline" size="icon" onClick={copySecret}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="totp-code">Verification Code</Label>
+              <Input
+                id="totp-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="Enter 6-digit code"
+                value={code}
+                onChange={e => setCode(e.target.value.replace(/\D/g, ''))}
+                className="text-center text-lg tracking-widest"
+                maxLength={6}
+                required
+              />
+            </div>
+          </form>
+        )}
+
+        {error && (
+          <Alert className="bg-destructive/10 border-destructive/20">
+            <AlertDescription className="text-destructive">
+              {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            form="totp-enrollment"
+            disabled={!setup || code.length !== 6 || isConfirming}
+          >
+            {isConfirming ? 'Verifying...' : 'Verify and Enable'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,10 @@
-import { createContext, useContext, ReactNode } from 'react';
-import { User } from '../services/types';
-import { useAuth as useAuthHook } from '../hooks/useAuth';
+import { createContext, useContext, useEffect, ReactNode } from 'react';
+import { TwoFactorMethod, User } from '../services/types';
+import { useAuth as useAuthHook, LoginResult } from '../hooks/useAuth';
+import { queryClient } from '../lib/queryClient';
+import { setLogUser } from '../lib/logger';
+import { subscribeAuthEvents } from '../services/authChannel';
+import type { FormErrorTarget } from '../lib/formErrors';
 
 interface AuthContextType {
   user: User | null;
@@ -9,11 +13,21 @@ interface AuthContextType {
   isLogoutLoading: boolean;
   isAuthenticated: boolean;
   pendingOtpUser: User | null;
-  login: (email: string, password: string) => Promise<{ requiresOtp: boolean; message?: string; user?: User }>;
-  verifyOTP: (userId: string, otp: string) => Promise<boolean>;
-  register: (userData: RegisterData) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyOTP: (userId: string, otp: string, method?: TwoFactorMethod) => Promise<boolean>;
+  // Emails a code when the login offered an authenticator app first
+  sendLoginCode: (userId: string) => Promise<boolean>;
+  // Signs in without a password or OTP; resolves false when cancelled or refused
+  loginWithPasskey: () => Promise<boolean>;
+  // Pass the form to show validation errors on its fields; resolves false on failure
+  register: (userData: RegisterData, form?: FormErrorTarget) => Promise<boolean>;
   logout: () => void;
-  updateUser: (data: Partial<User> & { profilePictureFile?: File; removeProfilePicture?: boolean }) => Promise<void>;
+  updateUser: (
+    data: Partial<User> & { profilePictureFile?: File; removeProfilePicture?: boolean },
+    form?: FormErrorTarget
+  ) => Promise<boolean>;
+  // Re-reads the signed-in user, e.g. once an expired password has been changed
+  refreshUser: () => Promise<void>;
   handleSessionExpiry: () => void;
 }
 
@@ -42,34 +56,56 @@ interface AuthProviderProps {
 export const AuthProvider = ({ children }: AuthProviderProps) => {
   const authHook = useAuthHook();
 
+  // A sign-in or sign-out in another tab makes this tab's cached lists stale as well
+  useEffect(() => {
+    return subscribeAuthEvents(event => {
+      if (event.type === 'login' || event.type === 'logout' || event.type === 'session-expired') {
+        queryClient.clear();
+      }
+    });
+  }, []);
+
+  // Log entries and error reports say who was signed in
+  const userId = authHook.user?.id;
+  const role = authHook.user?.role;
+  useEffect(() => {
+    setLogUser(userId ? { userId, role } : {});
+  }, [userId, role]);
+
   // Wrapper functions to match the expected interface
   const login = async (email: string, password: string) => {
     return await authHook.login({ email, password });
   };
 
-  const verifyOTP = async (userId: string, otp: string) => {
-    return await authHook.verifyOTP({ user_id: userId, otp });
+  const verifyOTP = async (userId: string, otp: string, method?: TwoFactorMethod) => {
+    return await authHook.verifyOTP({ user_id: userId, otp, method });
   };
 
-  const register = async (userData: RegisterData) => {
-    await authHook.register({
+  const register = async (userData: RegisterData, form?: FormErrorTarget) => {
+    return authHook.register({
       email: userData.email,
       firstName: userData.firstName,
       lastName: userData.lastName,
       password: userData.password,
       confirmPassword: userData.password,
       phoneNumber: userData.phoneNumber,
-    });
+    }, form);
   };
 
   const logout = () => {
     authHook.logout();
+    // Cached lists belong to the user who is signing out
+    queryClient.clear();
   };
 
-  const updateUser = async (userData: Partial<User> & { profilePictureFile?: File }) => {
-    await authHook.updateProfile(userData);
+  const updateUser = async (
+    userData: Partial<User> & { profilePictureFile?: File; removeProfilePicture?: boolean },
+    form?: FormErrorTarget
+  ) => {
+    const updated = await authHook.updateProfile(userData, form);
     // Force refresh the user data to ensure UI updates
     authHook.refreshUser();
+    return updated;
   };
 
   const value: AuthContextType = {
@@ -81,9 +117,12 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     pendingOtpUser: authHook.pendingOtpUser,
     login,
     verifyOTP,
+    sendLoginCode: authHook.sendLoginCode,
+    loginWithPasskey: authHook.loginWithPasskey,
     register,
     logout,
     updateUser,
+    refreshUser: authHook.refreshUser,
     handleSessionExpiry: authHook.handleSessionExpiry,
   };
 
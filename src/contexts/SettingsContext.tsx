@@ -1,7 +1,12 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { SystemSettings } from '../services/types';
+import { DEFAULT_PASSWORD_POLICY } from '@shared/passwordPolicy';
+import { FeatureFlag, FeatureFlagRules, PasswordPolicy, SystemSettings } from '../services/types';
 import { apiClient } from '../services/api';
 import { useAuth } from './AuthContext';
+import { createLogger } from '../lib/logger';
+import { isFeatureEnabled as isFlagOn } from '../lib/featureFlags';
+
+const log = createLogger('settings');
 
 interface SettingsContextType {
   systemSettings: SystemSettings | null;
@@ -11,6 +16,9 @@ interface SettingsContextType {
   getSiteDescription: () => string;
   getMaintenanceMode: () => boolean;
   getRegistrationEnabled: () => boolean;
+  isFeatureEnabled: (flag: FeatureFlag) => boolean; // For the signed-in user, or visitors before sign-in
+  featureFlagsLoading: boolean;
+  passwordPolicy: PasswordPolicy; // What new passwords must meet, for every form that sets one
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -35,6 +43,9 @@ export const SettingsProvider = ({ children }: SettingsProviderProps) => {
     maintenanceMode?: boolean; 
   } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [featureFlags, setFeatureFlags] = useState<FeatureFlagRules>({});
+  const [featureFlagsLoading, setFeatureFlagsLoading] = useState(true);
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
   const { user } = useAuth();
 
   const refreshSettings = async () => {
@@ -52,7 +63,7 @@ export const SettingsProvider = ({ children }: SettingsProviderProps) => {
       }
     } catch (error) {
       // Fallback to default settings if API fails
-      console.warn('Failed to load system settings, using defaults');
+      log.warn('Failed to load system settings, using defaults');
     } finally {
       setIsLoading(false);
     }
@@ -63,13 +74,17 @@ export const SettingsProvider = ({ children }: SettingsProviderProps) => {
       const response = await apiClient.getPublicSettings();
       if (response.success && response.data) {
         setBasicSettings({
-          siteName: response.data.site_name,
-          registrationEnabled: response.data.registration_enabled,
-          maintenanceMode: response.data.maintenance_mode
+          siteName: response.data.siteName,
+          registrationEnabled: response.data.registrationEnabled,
+          maintenanceMode: response.data.maintenanceMode
         });
+        setFeatureFlags(response.data.featureFlags);
+        setPasswordPolicy(response.data.passwordPolicy);
       }
     } catch (error) {
-      console.warn('Failed to load basic settings');
+      log.warn('Failed to load basic settings');
+    } finally {
+      setFeatureFlagsLoading(false);
     }
   };
 
@@ -89,6 +104,8 @@ export const SettingsProvider = ({ children }: SettingsProviderProps) => {
     return systemSettings?.registrationEnabled ?? basicSettings?.registrationEnabled ?? true;
   };
 
+  const isFeatureEnabled = (flag: FeatureFlag) => isFlagOn(flag, featureFlags, user);
+
   // Update document title when settings change
   useEffect(() => {
     const siteName = getSiteName();
@@ -115,6 +132,9 @@ export const SettingsProvider = ({ children }: SettingsProviderProps) => {
     getSiteDescription,
     getMaintenanceMode,
     getRegistrationEnabled,
+    isFeatureEnabled,
+    featureFlagsLoading,
+    passwordPolicy,
   };
 
   return (
@@ -10,9 +10,16 @@ import {
   LoginRequest, 
   RegisterRequest, 
   OTPVerificationRequest,
-  PasswordResetRequest
+  PasswordResetRequest,
+  TwoFactorMethod
 } from '../services/types';
-import { apiClient, ApiError } from '../services/api';
+import { apiClient, ApiError, RateLimitError } from '../services/api';
+import { clearActivity, publishAuthEvent, subscribeAuthEvents } from '../services/authChannel';
+import { applyFieldErrors, FormErrorTarget } from '../lib/formErrors';
+import { getPasskeyCredential, passkeyErrorMessage } from '../lib/webauthn';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('auth');
 
 interface AuthState {
   user: User | null;
@@ -24,18 +31,42 @@ interface AuthState {
   pendingOtpUser: User | null; // Store user info during OTP flow
 }
 
+// What the login form needs to ask for the second factor
+export interface LoginResult {
+  requiresOtp: boolean;
+  message?: string;
+  user?: User;
+  methods?: TwoFactorMethod[]; // The preferred method first
+  retryAfter?: number; // Seconds until a locked account may try again
+}
+
 interface AuthActions {
-  login: (credentials: LoginRequest) => Promise<{ requiresOtp: boolean; message?: string; user?: User }>;
-  register: (data: RegisterRequest) => Promise<boolean>;
+  login: (credentials: LoginRequest) => Promise<LoginResult>;
+  register: (data: RegisterRequest, form?: FormErrorTarget) => Promise<boolean>;
   verifyOTP: (data: OTPVerificationRequest) => Promise<boolean>;
+  sendLoginCode: (userId: string) => Promise<boolean>;
+  loginWithPasskey: () => Promise<boolean>;
   logout: () => Promise<void>;
   forgotPassword: (data: PasswordResetRequest) => Promise<boolean>;
-  updateProfile: (data: Partial<User> & { profilePictureFile?: File; removeProfilePicture?: boolean }) => Promise<boolean>;
-  refreshUser: () => void;
+  updateProfile: (
+    data: Partial<User> & { profilePictureFile?: File; removeProfilePicture?: boolean },
+    form?: FormErrorTarget
+  ) => Promise<boolean>;
+  refreshUser: () => Promise<void>;
   clearError: () => void;
   handleSessionExpiry: () => void;
 }
 
+const signedOutState: AuthState = {
+  user: null,
+  isAuthenticated: false,
+  isLoading: false,
+  isLoginLoading: false,
+  isLogoutLoading: false,
+  error: null,
+  pendingOtpUser: null,
+};
+
 export const useAuth = (): AuthState & AuthActions => {
   const [state, setState] = useState<AuthState>({
     user: null,
@@ -56,10 +87,10 @@ export const useAuth = (): AuthState & AuthActions => {
         if (token) {
           // If we have a token, fetch the latest profile data from server
           try {
-            console.log('Initializing auth: fetching profile data...');
+            log.debug('Initializing auth: fetching profile data...');
             const response = await apiClient.getProfile();
             if (response.success && response.data) {
-              console.log('Profile data fetched successfully:', response.data);
+              log.debug('Profile data fetched successfully');
               setState({
                 user: response.data.user, // Extract user from ProfileResponse
                 isAuthenticated: true,
@@ -73,7 +104,7 @@ export const useAuth = (): AuthState & AuthActions => {
             }
           } catch (error) {
             // If profile fetch fails, fall back to cached user data
-            console.warn('Failed to fetch fresh profile data, using cached data:', error);
+            log.warn('Failed to fetch fresh profile data, using cached data', error);
           }
           
           // Fallback to cached user data if API call fails
@@ -99,7 +130,7 @@ export const useAuth = (): AuthState & AuthActions => {
           isLoading: false,
         }));
       } catch (error) {
-        console.error('Failed to initialize auth:', error);
+        log.error('Failed to initialize auth', error);
         setState(prev => ({
           ...prev,
           isLoading: false,
@@ -111,7 +142,30 @@ export const useAuth = (): AuthState & AuthActions => {
     initializeAuth();
   }, []);
 
-  const login = useCallback(async (credentials: LoginRequest): Promise<{ requiresOtp: boolean; message?: string; user?: User }> => {
+  // Follow logins and logouts from other tabs; tokens are already shared through localStorage
+  useEffect(() => {
+    return subscribeAuthEvents(event => {
+      if (event.type === 'login') {
+        const userString = localStorage.getItem(config.auth.userKey);
+        if (!userString) return;
+
+        try {
+          setState({ ...signedOutState, user: JSON.parse(userString) as User, isAuthenticated: true });
+        } catch (error) {
+          log.warn('Failed to parse user from localStorage', error);
+        }
+      } else if (event.type === 'logout') {
+        setState(signedOutState);
+      } else if (event.type === 'session-expired') {
+        setState(signedOutState);
+        toast.info('Session Expired', {
+          description: 'Your session has expired. Please log in again.',
+        });
+      }
+    });
+  }, []);
+
+  const login = useCallback(async (credentials: LoginRequest): Promise<LoginResult> => {
     setState(prev => ({ ...prev, isLoginLoading: true, error: null }));
 
     try {
@@ -130,6 +184,7 @@ export const useAuth = (): AuthState & AuthActions => {
             requiresOtp: true,
             message: response.message,
             user: response.data.user,
+            methods: response.data.methods,
           };
         }
 
@@ -145,6 +200,8 @@ export const useAuth = (): AuthState & AuthActions => {
             pendingOtpUser: null,
           });
 
+          publishAuthEvent({ type: 'login' });
+
           toast.success('Welcome back!', {
             description: `Logged in as ${response.data.user.firstName} ${response.data.user.lastName}`,
           });
@@ -167,6 +224,14 @@ export const useAuth = (): AuthState & AuthActions => {
         pendingOtpUser: null,
       }));
 
+      // Too many failed attempts: the login page counts down instead of letting the user keep guessing
+      if (error instanceof RateLimitError) {
+        toast.error('Account Locked', {
+          description: errorMessage,
+        });
+        return { requiresOtp: false, message: errorMessage, retryAfter: error.retryAfter ?? 60 };
+      }
+
       toast.error('Login Failed', {
         description: errorMessage,
       });
@@ -175,7 +240,7 @@ export const useAuth = (): AuthState & AuthActions => {
     }
   }, []);
 
-  const register = useCallback(async (data: RegisterRequest): Promise<boolean> => {
+  const register = useCallback(async (data: RegisterRequest, form?: FormErrorTarget): Promise<boolean> => {
     setState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
@@ -204,14 +269,51 @@ export const useAuth = (): AuthState & AuthActions => {
         error: errorMessage,
       }));
 
-      toast.error('Registration Failed', {
-        description: errorMessage,
-      });
+      // Field errors are shown next to the fields instead
+      if (!applyFieldErrors(error, form)) {
+        toast.error('Registration Failed', {
+          description: errorMessage,
+        });
+      }
 
       return false;
     }
   }, []);
 
+  // Shared by the OTP and passkey sign-ins once the backend has issued tokens
+  const completeLogin = useCallback(async (user: User): Promise<void> => {
+    setState({
+      user,
+      isAuthenticated: true,
+      isLoading: false,
+      isLoginLoading: false,
+      isLogoutLoading: false,
+      error: null,
+      pendingOtpUser: null,
+    });
+
+    // Fetch complete profile data to get profile picture and other details
+    try {
+      const profileResponse = await apiClient.getProfile();
+      if (profileResponse.success) {
+        log.debug('Fetched profile data after login');
+        setState(prev => ({
+          ...prev,
+          user: profileResponse.data.user, // Extract user from ProfileResponse
+        }));
+      }
+    } catch (profileError) {
+      log.warn('Failed to fetch complete profile after login', profileError);
+      // Continue with login even if profile fetch fails
+    }
+
+    publishAuthEvent({ type: 'login' });
+
+    toast.success('Welcome back!', {
+      description: `Welcome ${user.firstName} ${user.lastName}`,
+    });
+  }, []);
+
   const verifyOTP = useCallback(async (data: OTPVerificationRequest): Promise<boolean> => {
     setState(prev => ({ ...prev, isLoginLoading: true, error: null }));
 
@@ -219,36 +321,7 @@ export const useAuth = (): AuthState & AuthActions => {
       const response = await apiClient.verifyOTP(data);
       
       if (response.success && response.data) {
-        // Set initial user data from OTP response
-        setState({
-          user: response.data.user,
-          isAuthenticated: true,
-          isLoading: false,
-          isLoginLoading: false,
-          isLogoutLoading: false,
-          error: null,
-          pendingOtpUser: null,
-        });
-
-        // Fetch complete profile data to get profile picture and other details
-        try {
-          const profileResponse = await apiClient.getProfile();
-          if (profileResponse.success) {
-            console.log('Fetched profile data after OTP:', profileResponse.data);
-            setState(prev => ({
-              ...prev,
-              user: profileResponse.data.user, // Extract user from ProfileResponse
-            }));
-          }
-        } catch (profileError) {
-          console.warn('Failed to fetch complete profile after login:', profileError);
-          // Continue with login even if profile fetch fails
-        }
-
-        toast.success('Welcome back!', {
-          description: `Welcome ${response.data.user.firstName} ${response.data.user.lastName}`,
-        });
-
+        await completeLogin(response.data.user);
         return true;
       }
 
@@ -269,6 +342,57 @@ export const useAuth = (): AuthState & AuthActions => {
         description: errorMessage,
       });
 
+      return false;
+    }
+  }, [completeLogin]);
+
+  const loginWithPasskey = useCallback(async (): Promise<boolean> => {
+    setState(prev => ({ ...prev, isLoginLoading: true, error: null }));
+
+    try {
+      const options = await apiClient.getPasskeyLoginOptions();
+      const credential = await getPasskeyCredential(options.data);
+      const response = await apiClient.loginWithPasskey({ credential });
+
+      if (response.success && response.data) {
+        await completeLogin(response.data.user);
+        return true;
+      }
+
+      setState(prev => ({ ...prev, isLoginLoading: false }));
+      return false;
+    } catch (error) {
+      const errorMessage = passkeyErrorMessage(error)
+        ?? (error instanceof ApiError ? error.message : 'Passkey sign-in failed. Please try again.');
+
+      setState(prev => ({
+        ...prev,
+        isLoginLoading: false,
+        error: errorMessage,
+      }));
+
+      toast.error('Passkey Sign-in Failed', {
+        description: errorMessage,
+      });
+
+      return false;
+    }
+  }, [completeLogin]);
+
+  const sendLoginCode = useCallback(async (userId: string): Promise<boolean> => {
+    try {
+      const response = await apiClient.sendLoginCode({ user_id: userId });
+
+      toast.success('Code Sent', {
+        description: response.message,
+      });
+
+      return true;
+    } catch (error) {
+      toast.error('Could Not Send Code', {
+        description: error instanceof ApiError ? error.message : 'Please try again.',
+      });
+
       return false;
     }
   }, []);
@@ -294,7 +418,7 @@ export const useAuth = (): AuthState & AuthActions => {
       });
 
     } catch (error) {
-      console.error('Logout error:', error);
+      log.error('Logout error', error);
       
       // Force logout even if API call fails
       setState({
@@ -347,7 +471,10 @@ export const useAuth = (): AuthState & AuthActions => {
     }
   }, []);
 
-  const updateProfile = useCallback(async (data: Partial<User> & { profilePictureFile?: File; removeProfilePicture?: boolean }): Promise<boolean> => {
+  const updateProfile = useCallback(async (
+    data: Partial<User> & { profilePictureFile?: File; removeProfilePicture?: boolean },
+    form?: FormErrorTarget
+  ): Promise<boolean> => {
     if (!state.user) return false;
 
     setState(prev => ({ ...prev, isLoading: true, error: null }));
@@ -380,7 +507,7 @@ export const useAuth = (): AuthState & AuthActions => {
                 setState(prev => ({ ...prev, user: refreshResponse.data.user }));
               }
             } catch (error) {
-              console.warn('Failed to refresh profile after image update:', error);
+              log.warn('Failed to refresh profile after image update', error);
             }
           }, 500); // Small delay to ensure backend has processed the image
         }
@@ -401,9 +528,12 @@ export const useAuth = (): AuthState & AuthActions => {
         error: errorMessage,
       }));
 
-      toast.error('Update Failed', {
-        description: errorMessage,
-      });
+      // The request nests the profile fields under user; the form has them at the top level
+      if (!applyFieldErrors(error, form, { scope: 'user' })) {
+        toast.error('Update Failed', {
+          description: errorMessage,
+        });
+      }
 
       return false;
     }
@@ -418,7 +548,7 @@ export const useAuth = (): AuthState & AuthActions => {
         setState(prev => ({ ...prev, user: response.data.user })); // Extract user from ProfileResponse
       }
     } catch (error) {
-      console.warn('Failed to refresh user profile:', error);
+      log.warn('Failed to refresh user profile', error);
       // Fall back to cached data
       const userStr = localStorage.getItem(config.auth.userKey);
       if (userStr) {
@@ -426,7 +556,7 @@ export const useAuth = (): AuthState & AuthActions => {
           const user = JSON.parse(userStr);
           setState(prev => ({ ...prev, user }));
         } catch (error) {
-          console.warn('Failed to parse user from localStorage:', error);
+          log.warn('Failed to parse user from localStorage', error);
         }
       }
     }
@@ -452,6 +582,8 @@ export const useAuth = (): AuthState & AuthActions => {
     localStorage.removeItem(config.auth.tokenKey);
     localStorage.removeItem(config.auth.refreshTokenKey);
     localStorage.removeItem(config.auth.userKey);
+    clearActivity();
+    publishAuthEvent({ type: 'session-expired' });
 
     toast.info('Session Expired', {
       description: 'Your session has expired. Please log in again.',
@@ -463,6 +595,8 @@ export const useAuth = (): AuthState & AuthActions => {
     login,
     register,
     verifyOTP,
+    sendLoginCode,
+    loginWithPasskey,
     logout,
     forgotPassword,
     updateProfile,
@@ -2,14 +2,17 @@
  * Custom hook for category management operations
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { 
-  DocumentCategory, 
-  CategoryCreateRequest, 
+import {
+  DocumentCategory,
+  CategoryCreateRequest,
   CategoryUpdateRequest
 } from '../services/types';
-import { apiClient, ApiError } from '../services/api';
+import { apiClient } from '../services/api';
+import { queryKeys, invalidateAfter, getErrorMessage } from '../lib/queryClient';
+import { applyFieldErrors, FormErrorTarget } from '../lib/formErrors';
 
 interface CategoriesState {
   categories: DocumentCategory[];
@@ -19,7 +22,7 @@ interface CategoriesState {
 
 interface CategoriesActions {
   fetchCategories: () => Promise<void>;
-  createCategory: (data: CategoryCreateRequest) => Promise<boolean>;
+  createCategory: (data: CategoryCreateRequest, form?: FormErrorTarget) => Promise<boolean>;
   updateCategory: (categoryId: string, data: CategoryUpdateRequest) => Promise<boolean>;
   deleteCategory: (categoryId: string) => Promise<boolean>;
   toggleCategoryStatus: (categoryId: string, isActive: boolean) => Promise<boolean>;
@@ -28,62 +31,52 @@ interface CategoriesActions {
 }
 
 export const useCategories = (): CategoriesState & CategoriesActions => {
-  const [state, setState] = useState<CategoriesState>({
-    categories: [],
-    isLoading: false,
-    error: null,
+  const queryClient = useQueryClient();
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const categoriesQuery = useQuery({
+    queryKey: queryKeys.categories.list(),
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.getCategories({ signal });
+      return response.data ?? [];
+    },
   });
 
-  const fetchCategories = useCallback(async (): Promise<void> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+  const createMutation = useMutation({
+    mutationFn: (data: CategoryCreateRequest) => apiClient.createCategory(data),
+    onSettled: () => invalidateAfter(queryClient, 'changeCategory'),
+  });
 
-    try {
-      const response = await apiClient.getCategories();
-      
-      if (response.success && response.data) {
-        setState({
-          categories: response.data,
-          isLoading: false,
-          error: null,
-        });
-      } else {
-        setState(prev => ({
-          ...prev,
-          isLoading: false,
-          error: 'Failed to fetch categories',
-        }));
-      }
-    } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to fetch categories. Please try again.';
+  const updateMutation = useMutation({
+    mutationFn: ({ categoryId, data }: { categoryId: string; data: CategoryUpdateRequest }) =>
+      apiClient.updateCategory(categoryId, data),
+    onSettled: () => invalidateAfter(queryClient, 'changeCategory'),
+  });
 
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+  const deleteMutation = useMutation({
+    mutationFn: (categoryId: string) => apiClient.deleteCategory(categoryId),
+    onSettled: () => invalidateAfter(queryClient, 'changeCategory'),
+  });
 
-      toast.error('Fetch Failed', {
-        description: errorMessage,
-      });
-    }
-  }, []);
+  const toggleMutation = useMutation({
+    mutationFn: (categoryId: string) => apiClient.toggleCategoryActive(categoryId),
+    onSettled: () => invalidateAfter(queryClient, 'changeCategory'),
+  });
+
+  const fetchCategories = useCallback(async (): Promise<void> => {
+    await queryClient.refetchQueries({ queryKey: queryKeys.categories.list() });
+  }, [queryClient]);
 
-  const createCategory = useCallback(async (data: CategoryCreateRequest): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+  const createCategory = useCallback(async (
+    data: CategoryCreateRequest,
+    form?: FormErrorTarget
+  ): Promise<boolean> => {
+    setActionError(null);
 
     try {
-      const response = await apiClient.createCategory(data);
-      
-      if (response.success && response.data) {
-        // Add the new category to the local state
-        setState(prev => ({
-          ...prev,
-          categories: [...prev.categories, response.data!],
-          isLoading: false,
-        }));
+      const response = await createMutation.mutateAsync(data);
 
+      if (response.success && response.data) {
         toast.success('Category Created', {
           description: `"${response.data.name}" has been created successfully.`,
         });
@@ -91,45 +84,32 @@ export const useCategories = (): CategoriesState & CategoriesActions => {
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to create category. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(error, 'Failed to create category. Please try again.');
+      setActionError(errorMessage);
 
-      toast.error('Creation Failed', {
-        description: errorMessage,
-      });
+      // Field errors are shown next to the fields instead
+      if (!applyFieldErrors(error, form)) {
+        toast.error('Creation Failed', {
+          description: errorMessage,
+        });
+      }
 
       return false;
     }
-  }, []);
+  }, [createMutation.mutateAsync]);
 
   const updateCategory = useCallback(async (
-    categoryId: string, 
+    categoryId: string,
     data: CategoryUpdateRequest
   ): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setActionError(null);
 
     try {
-      const response = await apiClient.updateCategory(categoryId, data);
-      
-      if (response.success && response.data) {
-        setState(prev => ({
-          ...prev,
-          categories: prev.categories.map(cat => 
-            cat.id === categoryId ? response.data! : cat
-          ),
-          isLoading: false,
-        }));
+      const response = await updateMutation.mutateAsync({ categoryId, data });
 
+      if (response.success && response.data) {
         toast.success('Category Updated', {
           description: response.message,
         });
@@ -137,18 +117,10 @@ export const useCategories = (): CategoriesState & CategoriesActions => {
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to update category. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(error, 'Failed to update category. Please try again.');
+      setActionError(errorMessage);
 
       toast.error('Update Failed', {
         description: errorMessage,
@@ -156,24 +128,16 @@ export const useCategories = (): CategoriesState & CategoriesActions => {
 
       return false;
     }
-  }, []);
+  }, [updateMutation.mutateAsync]);
 
   const deleteCategory = useCallback(async (categoryId: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setActionError(null);
+    const categoryToDelete = categoriesQuery.data?.find(cat => cat.id === categoryId);
 
     try {
-      const response = await apiClient.deleteCategory(categoryId);
-      
-      if (response.success) {
-        const categoryToDelete = state.categories.find(cat => cat.id === categoryId);
-        
-        // Remove the category from the local state
-        setState(prev => ({
-          ...prev,
-          categories: prev.categories.filter(cat => cat.id !== categoryId),
-          isLoading: false,
-        }));
+      const response = await deleteMutation.mutateAsync(categoryId);
 
+      if (response.success) {
         toast.success('Category Deleted', {
           description: `"${categoryToDelete?.name}" has been deleted successfully.`,
         });
@@ -181,18 +145,10 @@ export const useCategories = (): CategoriesState & CategoriesActions => {
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to delete category. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(error, 'Failed to delete category. Please try again.');
+      setActionError(errorMessage);
 
       toast.error('Delete Failed', {
         description: errorMessage,
@@ -200,26 +156,18 @@ export const useCategories = (): CategoriesState & CategoriesActions => {
 
       return false;
     }
-  }, [state.categories]);
+  }, [categoriesQuery.data, deleteMutation.mutateAsync]);
 
   const toggleCategoryStatus = useCallback(async (
-    categoryId: string, 
+    categoryId: string,
     isActive: boolean
   ): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setActionError(null);
 
     try {
-      const response = await apiClient.toggleCategoryActive(categoryId);
-      
-      if (response.success && response.data) {
-        setState(prev => ({
-          ...prev,
-          categories: prev.categories.map(cat => 
-            cat.id === categoryId ? response.data! : cat
-          ),
-          isLoading: false,
-        }));
+      const response = await toggleMutation.mutateAsync(categoryId);
 
+      if (response.success && response.data) {
         toast.success(
           response.data.isActive ? 'Category Activated' : 'Category Deactivated',
           {
@@ -230,18 +178,13 @@ export const useCategories = (): CategoriesState & CategoriesActions => {
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : `Failed to ${isActive ? 'activate' : 'deactivate'} category. Please try again.`;
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(
+        error,
+        `Failed to ${isActive ? 'activate' : 'deactivate'} category. Please try again.`
+      );
+      setActionError(errorMessage);
 
       toast.error(
         isActive ? 'Activation Failed' : 'Deactivation Failed',
@@ -252,23 +195,25 @@ export const useCategories = (): CategoriesState & CategoriesActions => {
 
       return false;
     }
-  }, []);
+  }, [toggleMutation.mutateAsync]);
 
   const refresh = useCallback(() => {
     fetchCategories();
   }, [fetchCategories]);
 
   const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
+    setActionError(null);
   }, []);
 
-  // Auto-fetch on mount
-  useEffect(() => {
-    fetchCategories();
-  }, [fetchCategories]);
+  const isMutating = createMutation.isPending || updateMutation.isPending ||
+    deleteMutation.isPending || toggleMutation.isPending;
 
   return {
-    ...state,
+    categories: categoriesQuery.data ?? [],
+    isLoading: categoriesQuery.isLoading || isMutating,
+    error: actionError ?? (categoriesQuery.error
+      ? getErrorMessage(categoriesQuery.error, 'Failed to fetch categories. Please try again.')
+      : null),
     fetchCategories,
     createCategory,
     updateCategory,
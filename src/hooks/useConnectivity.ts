@@ -0,0 +1,13 @@
+/**
+ * Custom hook for the connectivity state, including requests that are
+ * retrying a dropped connection
+ */
+
+import { useSyncExternalStore } from 'react';
+import { Connectivity, getConnectivity, subscribeConnectivity } from '../services/connectivity';
+
+// Assume a connection where the browser cannot tell us
+const getServerSnapshot = (): Connectivity => 'online';
+
+export const useConnectivity = (): Connectivity =>
+  useSyncExternalStore(subscribeConnectivity, getConnectivity, getServerSnapshot);
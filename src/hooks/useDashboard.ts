@@ -2,14 +2,15 @@
  * Custom hook for dashboard statistics operations
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { toast } from 'sonner';
-import { 
-  DashboardStats, 
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  DashboardStats,
   TeacherDashboardStats,
   ActivityLog
 } from '../services/types';
-import { apiClient, ApiError } from '../services/api';
+import { apiClient } from '../services/api';
+import { queryKeys, getErrorMessage } from '../lib/queryClient';
 
 interface DashboardState {
   stats: DashboardStats | TeacherDashboardStats | null;
@@ -26,95 +27,56 @@ interface DashboardActions {
 }
 
 export const useDashboard = (userRole: 'admin' | 'teacher'): DashboardState & DashboardActions => {
-  const [state, setState] = useState<DashboardState>({
-    stats: null,
-    activityLogs: [],
-    isLoading: false,
-    error: null,
+  const queryClient = useQueryClient();
+
+  const statsQuery = useQuery<DashboardStats | TeacherDashboardStats>({
+    queryKey: queryKeys.dashboard.stats(userRole),
+    queryFn: async ({ signal }) => {
+      const response = userRole === 'admin'
+        ? await apiClient.getDashboardStats({ signal })
+        : await apiClient.getTeacherDashboardStats({ signal });
+      return response.data;
+    },
   });
 
-  const fetchDashboardStats = useCallback(async (): Promise<void> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      let response;
-      
-      if (userRole === 'admin') {
-        response = await apiClient.getDashboardStats();
-      } else {
-        response = await apiClient.getTeacherDashboardStats();
-      }
-      
-      if (response.success && response.data) {
-        setState(prev => ({
-          ...prev,
-          stats: response.data!,
-          isLoading: false,
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          isLoading: false,
-          error: 'Failed to fetch dashboard statistics',
-        }));
-      }
-    } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to fetch dashboard statistics. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+  // Only admin can fetch activity logs
+  const activityQuery = useQuery({
+    queryKey: queryKeys.dashboard.activity(),
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.getActivityLogs({ signal });
+      return response.data ?? [];
+    },
+    enabled: userRole === 'admin',
+    // Don't show toast for activity logs error as it's not critical
+    meta: { silent: true },
+  });
 
-      toast.error('Fetch Failed', {
-        description: errorMessage,
-      });
-    }
-  }, [userRole]);
+  const fetchDashboardStats = useCallback(async (): Promise<void> => {
+    await queryClient.refetchQueries({ queryKey: queryKeys.dashboard.stats(userRole) });
+  }, [queryClient, userRole]);
 
   const fetchActivityLogs = useCallback(async (): Promise<void> => {
-    // Only admin can fetch activity logs
     if (userRole !== 'admin') return;
-
-    try {
-      const response = await apiClient.getActivityLogs();
-      
-      if (response.success && response.data) {
-        setState(prev => ({
-          ...prev,
-          activityLogs: response.data!,
-        }));
-      }
-    } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to fetch activity logs.';
-
-      console.error('Activity logs fetch error:', errorMessage);
-      // Don't show toast for activity logs error as it's not critical
-    }
-  }, [userRole]);
+    await queryClient.refetchQueries({ queryKey: queryKeys.dashboard.activity() });
+  }, [queryClient, userRole]);
 
   const refresh = useCallback(() => {
     fetchDashboardStats();
     fetchActivityLogs();
   }, [fetchDashboardStats, fetchActivityLogs]);
 
+  // Query errors clear themselves on the next successful fetch
   const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
-  }, []);
-
-  // Auto-fetch on mount and when userRole changes
-  useEffect(() => {
-    fetchDashboardStats();
-    fetchActivityLogs();
-  }, [fetchDashboardStats, fetchActivityLogs]);
+    queryClient.resetQueries({ queryKey: queryKeys.dashboard.stats(userRole), exact: true });
+  }, [queryClient, userRole]);
 
   return {
-    ...state,
+    stats: statsQuery.data ?? null,
+    activityLogs: activityQuery.data ?? [],
+    isLoading: statsQuery.isLoading,
+    error: statsQuery.error
+      ? getErrorMessage(statsQuery.error, 'Failed to fetch dashboard statistics. Please try again.')
+      : null,
     fetchDashboardStats,
     fetchActivityLogs,
     refresh,
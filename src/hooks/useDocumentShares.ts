@@ -2,11 +2,12 @@
  * Custom hook for document shares management
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { toast } from 'sonner';
-import { DocumentShare, Document } from '../services/types';
-import { apiClient, ApiError } from '../services/api';
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { DocumentShare, Document, User } from '../services/types';
+import { apiClient } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
+import { queryKeys, getErrorMessage } from '../lib/queryClient';
 
 interface ShareWithDocument extends DocumentShare {
   documentDetails?: Document;
@@ -26,150 +27,103 @@ interface DocumentSharesActions {
   clearError: () => void;
 }
 
-export const useDocumentShares = (): DocumentSharesState & DocumentSharesActions => {
-  const { user } = useAuth();
-  const [state, setState] = useState<DocumentSharesState>({
-    shares: [],
-    sharedWithMe: [],
-    mySharedFiles: [],
-    isLoading: false,
-    error: null,
+type SharesData = Pick<DocumentSharesState, 'shares' | 'sharedWithMe' | 'mySharedFiles'>;
+
+const fetchSharesFor = async (user: User | null, signal?: AbortSignal): Promise<SharesData> => {
+  const response = await apiClient.getDocumentShares({ signal });
+  const shares = response.data ?? [];
+  
+  // Convert shares to include document details from the backend data
+  const sharesWithDocuments: ShareWithDocument[] = shares.map((share) => {
+    // Create document object from the share's document fields
+    const documentDetails: Document = {
+      id: share.document,
+      title: share.document_title || 'Untitled Document',
+      description: share.document_description || '',
+      fileName: share.document_file_name || 'document',
+      fileSize: share.document_file_size || 0,
+      fileType: share.document_file_type || 'unknown',
+      filePath: '',
+      category: {
+        id: share.document_category_id || '',
+        name: share.document_category_name || 'Uncategorized',
+      },
+      teacher: {
+        id: share.shared_by.toString(),
+        name: share.shared_by_name || 'Unknown',
+      },
+      classLevel: share.document_class_level || '',
+      subject: share.document_subject || '',
+      isShared: true,
+      sharedAt: share.shared_at,
+      downloadCount: share.document_download_count || 0,
+      status: (share.document_status as any) || 'active',
+      sharedWith: [],
+      tags: [],
+      createdAt: share.document_created_at || share.shared_at,
+      updatedAt: share.document_created_at || share.shared_at,
+      // Include the public share URL if this is a public share
+      public_share_url: share.share_type === 'public' ? share.public_url : undefined,
+      shared_with_emails: [], // This would need to be populated from a separate API call if needed
+    };
+    
+    return {
+      ...share,
+      documentDetails,
+    };
   });
 
-  const fetchShares = useCallback(async (): Promise<void> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      const response = await apiClient.getDocumentShares();
-      
-      if (response.success && response.data) {
-        const shares = response.data;
-        
-        // Convert shares to include document details from the backend data
-        const sharesWithDocuments: ShareWithDocument[] = shares.map((share) => {
-          // Create document object from the share's document fields
-          const documentDetails: Document = {
-            id: share.document,
-            title: share.document_title || 'Untitled Document',
-            description: share.document_description || '',
-            fileName: share.document_file_name || 'document',
-            fileSize: share.document_file_size || 0,
-            fileType: share.document_file_type || 'unknown',
-            filePath: '',
-            category: {
-              id: share.document_category_id || '',
-              name: share.document_category_name || 'Uncategorized',
-              description: '',
-              requiresClassSubject: false,
-              isActive: true,
-              documentsCount: 0,
-              createdAt: '',
-              updatedAt: '',
-            },
-            teacher: {
-              id: share.shared_by.toString(),
-              user: {
-                id: share.shared_by.toString(),
-                email: '',
-                firstName: share.shared_by_name?.split(' ')[0] || 'Unknown',
-                lastName: share.shared_by_name?.split(' ').slice(1).join(' ') || '',
-                role: 'teacher',
-                isActive: true,
-                dateJoined: '',
-              },
-              status: 'active',
-              documentsCount: 0,
-              sharedDocumentsCount: 0,
-              totalDownloads: 0,
-              createdAt: '',
-              updatedAt: '',
-            },
-            classLevel: share.document_class_level || '',
-            subject: share.document_subject || '',
-            isShared: true,
-            sharedAt: share.shared_at,
-            downloadCount: share.document_download_count || 0,
-            status: (share.document_status as any) || 'active',
-            sharedWith: [],
-            tags: [],
-            createdAt: share.document_created_at || share.shared_at,
-            updatedAt: share.document_created_at || share.shared_at,
-            // Include the public share URL if this is a public share
-            public_share_url: share.share_type === 'public' ? share.public_url : undefined,
-            shared_with_emails: [], // This would need to be populated from a separate API call if needed
-          };
-          
-          return {
-            ...share,
-            documentDetails,
-          };
-        });
+  // Separate shares into categories with proper filtering
+  // Backend already filters to only return shares for this user's teacher profile
+  const currentUserTeacherProfileId = user?.teacherProfileId;
+  
+  const sharedWithMe = sharesWithDocuments.filter(share => {
+    // Documents shared TO me (I am the recipient)
+    return share.shared_with === currentUserTeacherProfileId && 
+           share.is_active && 
+           share.share_type === 'private';
+  });
+  
+  const mySharedFiles = sharesWithDocuments.filter(share => {
+    // Documents shared BY me (I am the creator)
+    return share.shared_by === currentUserTeacherProfileId && 
+           share.is_active;
+  });
 
-        // Separate shares into categories with proper filtering
-        // Backend already filters to only return shares for this user's teacher profile
-        const currentUserTeacherProfileId = user?.teacherProfileId;
-        
-        const sharedWithMe = sharesWithDocuments.filter(share => {
-          // Documents shared TO me (I am the recipient)
-          return share.shared_with === currentUserTeacherProfileId && 
-                 share.is_active && 
-                 share.share_type === 'private';
-        });
-        
-        const mySharedFiles = sharesWithDocuments.filter(share => {
-          // Documents shared BY me (I am the creator)
-          return share.shared_by === currentUserTeacherProfileId && 
-                 share.is_active;
-        });
+  return { shares: sharesWithDocuments, sharedWithMe, mySharedFiles };
+};
 
-        setState(prev => ({
-          ...prev,
-          shares: sharesWithDocuments,
-          sharedWithMe,
-          mySharedFiles,
-          isLoading: false,
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          isLoading: false,
-          error: 'Failed to fetch document shares',
-        }));
-      }
-    } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to fetch document shares. Please try again.';
+export const useDocumentShares = (): DocumentSharesState & DocumentSharesActions => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
 
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+  const sharesQuery = useQuery({
+    queryKey: queryKeys.shares.list(user?.id),
+    queryFn: ({ signal }) => fetchSharesFor(user, signal),
+    enabled: Boolean(user),
+  });
 
-      toast.error('Fetch Failed', {
-        description: errorMessage,
-      });
-    }
-  }, [user?.id]);
+  const fetchShares = useCallback(async (): Promise<void> => {
+    await queryClient.refetchQueries({ queryKey: queryKeys.shares.list(user?.id) });
+  }, [queryClient, user?.id]);
 
   const refresh = useCallback(() => {
     fetchShares();
   }, [fetchShares]);
 
+  // Query errors clear themselves on the next successful fetch
   const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
-  }, []);
-
-  // Auto-fetch on mount
-  useEffect(() => {
-    if (user) {
-      fetchShares();
-    }
-  }, [fetchShares, user]);
+    queryClient.resetQueries({ queryKey: queryKeys.shares.list(user?.id), exact: true });
+  }, [queryClient, user?.id]);
 
   return {
-    ...state,
+    shares: sharesQuery.data?.shares ?? [],
+    sharedWithMe: sharesQuery.data?.sharedWithMe ?? [],
+    mySharedFiles: sharesQuery.data?.mySharedFiles ?? [],
+    isLoading: sharesQuery.isLoading,
+    error: sharesQuery.error
+      ? getErrorMessage(sharesQuery.error, 'Failed to fetch document shares. Please try again.')
+      : null,
     fetchShares,
     refresh,
     clearError,
@@ -2,17 +2,27 @@
  * Custom hook for document management operations
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { 
-  Document, 
+import {
+  Document,
   DocumentStatus,
-  DocumentCreateRequest, 
-  DocumentUpdateRequest, 
+  DocumentCreateRequest,
+  DocumentUpdateRequest,
   DocumentShareRequest,
-  SearchFilters
+  SearchFilters,
+  UploadOptions
 } from '../services/types';
-import { apiClient, ApiError } from '../services/api';
+import { apiClient } from '../services/api';
+import {
+  queryKeys,
+  invalidateAfter,
+  updateCachedDocuments,
+  restoreQueries,
+  findCachedDocument,
+  getErrorMessage,
+} from '../lib/queryClient';
 
 interface DocumentsState {
   documents: Document[];
@@ -21,9 +31,13 @@ interface DocumentsState {
   error: string | null;
 }
 
+interface UploadDocumentOptions extends UploadOptions {
+  onError?: (error: unknown) => void; // For callers that show the failure next to the file as well
+}
+
 interface DocumentsActions {
   fetchDocuments: (filters?: SearchFilters) => Promise<void>;
-  uploadDocument: (data: DocumentCreateRequest) => Promise<boolean>;
+  uploadDocument: (data: DocumentCreateRequest, options?: UploadDocumentOptions) => Promise<boolean>;
   updateDocument: (documentId: string, data: DocumentUpdateRequest) => Promise<boolean>;
   shareDocument: (documentId: string, isShared: boolean) => Promise<boolean>;
   revokeShare: (documentId: string) => Promise<boolean>;
@@ -36,71 +50,134 @@ interface DocumentsActions {
   clearError: () => void;
 }
 
-export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & DocumentsActions => {
-  const [state, setState] = useState<DocumentsState>({
-    documents: [],
-    isLoading: false,
-    isUploading: false,
-    error: null,
-  });
+interface DocumentsOptions {
+  fetchOnMount?: boolean; // Pages that load their own paginated list only need the actions
+}
 
+// Flag and archive toggle between their status and active on the backend
+const toggledStatus = (document: Document, status: DocumentStatus): DocumentStatus =>
+  document.status === status ? 'active' : status;
+
+export const useDocuments = (
+  initialFilters?: SearchFilters,
+  { fetchOnMount = true }: DocumentsOptions = {}
+): DocumentsState & DocumentsActions => {
+  const queryClient = useQueryClient();
   const [currentFilters, setCurrentFilters] = useState<SearchFilters | undefined>(initialFilters);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const documentsQuery = useQuery({
+    queryKey: queryKeys.documents.list(currentFilters),
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.getDocuments(currentFilters, { signal });
+      return response.data ?? [];
+    },
+    enabled: fetchOnMount,
+  });
 
-  const fetchDocuments = useCallback(async (filters?: SearchFilters): Promise<void> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
-    
-    // Update current filters if provided
-    if (filters !== undefined) {
-      setCurrentFilters(filters);
-    }
+  // Optimistically apply a change to every cached list; rolled back if the request fails
+  const optimistic = useCallback(async (update: (documents: Document[]) => Document[]) => {
+    await queryClient.cancelQueries({ queryKey: queryKeys.documents.all });
+    return { snapshot: updateCachedDocuments(queryClient, update) };
+  }, [queryClient]);
 
-    try {
-      const response = await apiClient.getDocuments(filters || currentFilters);
-      
-      if (response.success && response.data) {
-        setState(prev => ({
-          ...prev,
-          documents: response.data!,
-          isLoading: false,
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          isLoading: false,
-          error: 'Failed to fetch documents',
-        }));
+  const rollback = useCallback((context?: { snapshot: ReturnType<typeof updateCachedDocuments> }) => {
+    if (context) restoreQueries(queryClient, context.snapshot);
+  }, [queryClient]);
+
+  const uploadMutation = useMutation({
+    mutationFn: ({ data, options }: { data: DocumentCreateRequest; options?: UploadOptions }) =>
+      apiClient.createDocument(data, options),
+    onSettled: () => invalidateAfter(queryClient, 'uploadDocument'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ documentId, data }: { documentId: string; data: DocumentUpdateRequest }) =>
+      apiClient.updateDocument(documentId, data),
+    onSettled: () => invalidateAfter(queryClient, 'updateDocument'),
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async ({ documentId, isShared }: { documentId: string; isShared: boolean }) => {
+      if (isShared) {
+        // Create a public share
+        const data: DocumentShareRequest = {
+          share_type: 'public',
+          can_download: true,
+          can_view: true
+        };
+        const response = await apiClient.shareDocument(documentId, data);
+        return { success: response.success, message: undefined as string | undefined };
       }
-    } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to fetch documents. Please try again.';
+      // Use the proper unshare API
+      const response = await apiClient.unshareDocument(documentId);
+      return { success: response.success, message: response.data.message };
+    },
+    onMutate: ({ documentId, isShared }) => optimistic(documents =>
+      documents.map(doc => doc.id === documentId ? { ...doc, isShared } : doc)
+    ),
+    onError: (_error, _variables, context) => rollback(context),
+    onSettled: () => invalidateAfter(queryClient, 'shareDocument'),
+  });
 
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+  const revokeMutation = useMutation({
+    mutationFn: (documentId: string) => {
+      // Set the document to not shared and clear shared users
+      const data: DocumentShareRequest = { isShared: false };
+      return apiClient.shareDocument(documentId, data);
+    },
+    onMutate: documentId => optimistic(documents =>
+      documents.map(doc => doc.id === documentId ? { ...doc, isShared: false, sharedWith: [] } : doc)
+    ),
+    onError: (_error, _variables, context) => rollback(context),
+    onSettled: () => invalidateAfter(queryClient, 'shareDocument'),
+  });
 
-      toast.error('Fetch Failed', {
-        description: errorMessage,
-      });
+  const deleteMutation = useMutation({
+    mutationFn: ({ documentId, asAdmin }: { documentId: string; asAdmin: boolean }) =>
+      asAdmin ? apiClient.adminDeleteDocument(documentId) : apiClient.deleteDocument(documentId),
+    onMutate: ({ documentId }) => optimistic(documents => documents.filter(doc => doc.id !== documentId)),
+    onError: (_error, _variables, context) => rollback(context),
+    onSettled: () => invalidateAfter(queryClient, 'deleteDocument'),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ documentId, status }: { documentId: string; status: 'flagged' | 'archived' }) =>
+      status === 'flagged' ? apiClient.flagDocument(documentId) : apiClient.archiveDocument(documentId),
+    onMutate: ({ documentId, status }) => optimistic(documents =>
+      documents.map(doc => doc.id === documentId ? { ...doc, status: toggledStatus(doc, status) } : doc)
+    ),
+    onSuccess: (response, { documentId }) => {
+      // The backend decides the final status
+      if (response.success && response.data) {
+        updateCachedDocuments(queryClient, documents => documents.map(doc =>
+          doc.id === documentId ? { ...doc, status: response.data!.document_status as DocumentStatus } : doc
+        ));
+      }
+    },
+    onError: (_error, _variables, context) => rollback(context),
+    onSettled: () => invalidateAfter(queryClient, 'changeDocumentStatus'),
+  });
+
+  const fetchDocuments = useCallback(async (filters?: SearchFilters): Promise<void> => {
+    // Update current filters if provided; a key not yet cached is fetched on the next render
+    if (filters !== undefined) {
+      setCurrentFilters(filters);
     }
-  }, [currentFilters]);
 
-  const uploadDocument = useCallback(async (data: DocumentCreateRequest): Promise<boolean> => {
-    setState(prev => ({ ...prev, isUploading: true, error: null }));
+    await queryClient.refetchQueries({ queryKey: queryKeys.documents.list(filters ?? currentFilters) });
+  }, [queryClient, currentFilters]);
+
+  const uploadDocument = useCallback(async (
+    data: DocumentCreateRequest,
+    { onError, ...options }: UploadDocumentOptions = {}
+  ): Promise<boolean> => {
+    setActionError(null);
 
     try {
-      const response = await apiClient.createDocument(data);
-      
-      if (response.success && response.data) {
-        // Add the new document to the local state
-        setState(prev => ({
-          ...prev,
-          documents: [response.data!, ...prev.documents],
-          isUploading: false,
-        }));
+      const response = await uploadMutation.mutateAsync({ data, options });
 
+      if (response.success && response.data) {
         toast.success('Document Uploaded', {
           description: `"${response.data.title}" has been uploaded successfully.`,
         });
@@ -108,18 +185,14 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
         return true;
       }
 
-      setState(prev => ({ ...prev, isUploading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to upload document. Please try again.';
+      // A cancelled upload is the caller's decision, not a failure
+      if (options.signal?.aborted) return false;
 
-      setState(prev => ({
-        ...prev,
-        isUploading: false,
-        error: errorMessage,
-      }));
+      onError?.(error);
+      const errorMessage = getErrorMessage(error, 'Failed to upload document. Please try again.');
+      setActionError(errorMessage);
 
       toast.error('Upload Failed', {
         description: errorMessage,
@@ -127,26 +200,18 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
 
       return false;
     }
-  }, []);
+  }, [uploadMutation.mutateAsync]);
 
   const updateDocument = useCallback(async (
-    documentId: string, 
+    documentId: string,
     data: DocumentUpdateRequest
   ): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setActionError(null);
 
     try {
-      const response = await apiClient.updateDocument(documentId, data);
-      
-      if (response.success && response.data) {
-        setState(prev => ({
-          ...prev,
-          documents: prev.documents.map(doc => 
-            doc.id === documentId ? response.data! : doc
-          ),
-          isLoading: false,
-        }));
+      const response = await updateMutation.mutateAsync({ documentId, data });
 
+      if (response.success && response.data) {
         toast.success('Document Updated', {
           description: 'Document has been updated successfully.',
         });
@@ -154,18 +219,10 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to update document. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(error, 'Failed to update document. Please try again.');
+      setActionError(errorMessage);
 
       toast.error('Update Failed', {
         description: errorMessage,
@@ -173,60 +230,37 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
 
       return false;
     }
-  }, []);
+  }, [updateMutation.mutateAsync]);
 
   const shareDocument = useCallback(async (
-    documentId: string, 
+    documentId: string,
     isShared: boolean
   ): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setActionError(null);
 
     try {
-      if (isShared) {
-        // Create a public share
-        const data: DocumentShareRequest = { 
-          share_type: 'public',
-          can_download: true,
-          can_view: true
-        };
-        const response = await apiClient.shareDocument(documentId, data);
-        
-        if (response.success) {
-          // Refresh documents to get updated state
-          await fetchDocuments();
-          
+      const response = await shareMutation.mutateAsync({ documentId, isShared });
+
+      if (response.success) {
+        if (isShared) {
           toast.success('Document Shared', {
             description: 'Document is now publicly accessible.'
           });
-          return true;
-        }
-      } else {
-        // Use the proper unshare API
-        const response = await apiClient.unshareDocument(documentId);
-        
-        if (response.success) {
-          // Refresh documents to get updated state
-          await fetchDocuments();
-          
+        } else {
           toast.success('Document Unshared', {
-            description: response.data.message || 'Document is now private.'
+            description: response.message || 'Document is now private.'
           });
-          return true;
         }
+        return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : `Failed to ${isShared ? 'share' : 'unshare'} document. Please try again.`;
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(
+        error,
+        `Failed to ${isShared ? 'share' : 'unshare'} document. Please try again.`
+      );
+      setActionError(errorMessage);
 
       toast.error(
         isShared ? 'Share Failed' : 'Unshare Failed',
@@ -237,28 +271,15 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
 
       return false;
     }
-  }, [fetchDocuments]);
+  }, [shareMutation.mutateAsync]);
 
   const revokeShare = useCallback(async (documentId: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setActionError(null);
 
     try {
-      // Set the document to not shared and clear shared users
-      const data: DocumentShareRequest = { isShared: false };
-      const response = await apiClient.shareDocument(documentId, data);
-      
-      if (response.success && response.data) {
-        // Update the document in the local state
-        setState(prev => ({
-          ...prev,
-          documents: prev.documents.map(doc => 
-            doc.id === documentId 
-              ? { ...response.data!, sharedWith: [] } // Clear shared users
-              : doc
-          ),
-          isLoading: false,
-        }));
+      const response = await revokeMutation.mutateAsync(documentId);
 
+      if (response.success && response.data) {
         toast.success('Sharing Revoked', {
           description: 'Document sharing has been stopped successfully.',
         });
@@ -266,18 +287,10 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to revoke sharing. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(error, 'Failed to revoke sharing. Please try again.');
+      setActionError(errorMessage);
 
       toast.error('Revoke Failed', {
         description: errorMessage,
@@ -285,41 +298,31 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
 
       return false;
     }
-  }, []);
+  }, [revokeMutation.mutateAsync]);
 
-  const deleteDocument = useCallback(async (documentId: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+  const removeDocument = useCallback(async (documentId: string, asAdmin: boolean): Promise<boolean> => {
+    setActionError(null);
+    // Look the title up before the optimistic update drops it from the cache
+    const documentToDelete = findCachedDocument(queryClient, documentId);
+    const deletedBy = asAdmin ? 'deleted by admin' : 'deleted';
 
     try {
-      const documentToDelete = state.documents.find(doc => doc.id === documentId);
-      const response = await apiClient.deleteDocument(documentId);
-      
-      if (response.success) {
-        setState(prev => ({
-          ...prev,
-          documents: prev.documents.filter(doc => doc.id !== documentId),
-          isLoading: false,
-        }));
+      const response = await deleteMutation.mutateAsync({ documentId, asAdmin });
 
+      if (response.success) {
         toast.success('Document Deleted', {
-          description: `"${documentToDelete?.title}" has been deleted successfully.`,
+          description: documentToDelete
+            ? `"${documentToDelete.title}" has been ${deletedBy} successfully.`
+            : `The document has been ${deletedBy} successfully.`,
         });
 
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to delete document. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(error, 'Failed to delete document. Please try again.');
+      setActionError(errorMessage);
 
       toast.error('Delete Failed', {
         description: errorMessage,
@@ -327,56 +330,24 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
 
       return false;
     }
-  }, [state.documents]);
-
-  const adminDeleteDocument = useCallback(async (documentId: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      const documentToDelete = state.documents.find(doc => doc.id === documentId);
-      const response = await apiClient.adminDeleteDocument(documentId);
-      
-      if (response.success) {
-        setState(prev => ({
-          ...prev,
-          documents: prev.documents.filter(doc => doc.id !== documentId),
-          isLoading: false,
-        }));
-
-        toast.success('Document Deleted', {
-          description: `"${documentToDelete?.title}" has been deleted by admin successfully.`,
-        });
+  }, [queryClient, deleteMutation.mutateAsync]);
 
-        return true;
-      }
+  const deleteDocument = useCallback(
+    (documentId: string) => removeDocument(documentId, false),
+    [removeDocument]
+  );
 
-      setState(prev => ({ ...prev, isLoading: false }));
-      return false;
-    } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to delete document. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
-
-      toast.error('Delete Failed', {
-        description: errorMessage,
-      });
-
-      return false;
-    }
-  }, [state.documents]);
+  const adminDeleteDocument = useCallback(
+    (documentId: string) => removeDocument(documentId, true),
+    [removeDocument]
+  );
 
   const downloadDocument = useCallback(async (documentId: string): Promise<boolean> => {
     try {
       // Note: This would be implemented when we add the download document endpoint
       // For now, we'll simulate the download and update download count
-      
-      const document = state.documents.find(doc => doc.id === documentId);
+
+      const document = findCachedDocument(queryClient, documentId);
       if (!document) {
         toast.error('Download Failed', {
           description: 'Document not found.',
@@ -385,14 +356,11 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
       }
 
       // Update download count locally
-      setState(prev => ({
-        ...prev,
-        documents: prev.documents.map(doc => 
-          doc.id === documentId 
-            ? { ...doc, downloadCount: doc.downloadCount + 1 }
-            : doc
-        ),
-      }));
+      updateCachedDocuments(queryClient, documents => documents.map(doc =>
+        doc.id === documentId
+          ? { ...doc, downloadCount: doc.downloadCount + 1 }
+          : doc
+      ));
 
       toast.success('Download Started', {
         description: `Downloading "${document.title}"...`,
@@ -400,9 +368,7 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
 
       return true;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to download document. Please try again.';
+      const errorMessage = getErrorMessage(error, 'Failed to download document. Please try again.');
 
       toast.error('Download Failed', {
         description: errorMessage,
@@ -410,26 +376,18 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
 
       return false;
     }
-  }, [state.documents]);
+  }, [queryClient]);
 
-  const flagDocument = useCallback(async (documentId: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+  const changeStatus = useCallback(async (
+    documentId: string,
+    status: 'flagged' | 'archived'
+  ): Promise<boolean> => {
+    setActionError(null);
 
     try {
-      const response = await apiClient.flagDocument(documentId);
-      
-      if (response.success && response.data) {
-        // Update the document status in local state
-        setState(prev => ({
-          ...prev,
-          documents: prev.documents.map(doc => 
-            doc.id === documentId 
-              ? { ...doc, status: response.data!.document_status as DocumentStatus }
-              : doc
-          ),
-          isLoading: false,
-        }));
+      const response = await statusMutation.mutateAsync({ documentId, status });
 
+      if (response.success && response.data) {
         toast.success('Document Status Updated', {
           description: response.message,
         });
@@ -437,18 +395,10 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to update document status. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(error, 'Failed to update document status. Please try again.');
+      setActionError(errorMessage);
 
       toast.error('Action Failed', {
         description: errorMessage,
@@ -456,69 +406,36 @@ export const useDocuments = (initialFilters?: SearchFilters): DocumentsState & D
 
       return false;
     }
-  }, []);
-
-  const archiveDocument = useCallback(async (documentId: string): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      const response = await apiClient.archiveDocument(documentId);
-      
-      if (response.success && response.data) {
-        // Update the document status in local state
-        setState(prev => ({
-          ...prev,
-          documents: prev.documents.map(doc => 
-            doc.id === documentId 
-              ? { ...doc, status: response.data!.document_status as DocumentStatus }
-              : doc
-          ),
-          isLoading: false,
-        }));
-
-        toast.success('Document Status Updated', {
-          description: response.message,
-        });
+  }, [statusMutation.mutateAsync]);
 
-        return true;
-      }
-
-      setState(prev => ({ ...prev, isLoading: false }));
-      return false;
-    } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to update document status. Please try again.';
+  const flagDocument = useCallback(
+    (documentId: string) => changeStatus(documentId, 'flagged'),
+    [changeStatus]
+  );
 
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
-
-      toast.error('Action Failed', {
-        description: errorMessage,
-      });
-
-      return false;
-    }
-  }, []);
+  const archiveDocument = useCallback(
+    (documentId: string) => changeStatus(documentId, 'archived'),
+    [changeStatus]
+  );
 
   const refresh = useCallback(() => {
     fetchDocuments();
   }, [fetchDocuments]);
 
   const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
+    setActionError(null);
   }, []);
 
-  // Auto-fetch on mount
-  useEffect(() => {
-    fetchDocuments();
-  }, [fetchDocuments]);
+  const isMutating = updateMutation.isPending || shareMutation.isPending || revokeMutation.isPending ||
+    deleteMutation.isPending || statusMutation.isPending;
 
   return {
-    ...state,
+    documents: documentsQuery.data ?? [],
+    isLoading: documentsQuery.isLoading || isMutating,
+    isUploading: uploadMutation.isPending,
+    error: actionError ?? (documentsQuery.error
+      ? getErrorMessage(documentsQuery.error, 'Failed to fetch documents. Please try again.')
+      : null),
     fetchDocuments,
     uploadDocument,
     updateDocument,
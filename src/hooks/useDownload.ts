@@ -0,0 +1,121 @@
+/**
+ * Custom hook for document downloads with a progress toast and cancel action
+ */
+
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { apiClient } from '../services/api';
+import { config } from '../lib/config';
+import { formatFileSize } from '../lib/fileUtils';
+import { getErrorMessage } from '../lib/queryClient';
+
+interface DownloadRequest {
+  documentId: string;
+  fileName?: string;
+  fileSize?: number; // Lets the size check happen before any request is made
+  shareToken?: string;
+}
+
+interface DownloadActions {
+  downloadDocument: (request: DownloadRequest) => Promise<boolean>;
+}
+
+// The progress toast never closes on its own, so results restore sonner's default duration
+const RESULT_TOAST_DURATION = 4000;
+const PROGRESS_UPDATE_INTERVAL = 250;
+
+// Ask in a toast rather than a blocking dialog so the page stays usable
+const confirmLargeDownload = (fileName: string, size: number): Promise<boolean> =>
+  new Promise(resolve => {
+    let answered = false;
+    const answer = (confirmed: boolean) => {
+      if (answered) return;
+      answered = true;
+      resolve(confirmed);
+    };
+
+    toast.warning('Large File', {
+      description: `${fileName} is ${formatFileSize(size)}. It may take a while and use a lot of memory on this device.`,
+      duration: Infinity,
+      action: { label: 'Download', onClick: () => answer(true) },
+      cancel: { label: 'Cancel', onClick: () => answer(false) },
+      onDismiss: () => answer(false),
+    });
+  });
+
+export const useDownload = (): DownloadActions => {
+  const downloadDocument = useCallback(async ({
+    documentId,
+    fileName,
+    fileSize,
+    shareToken,
+  }: DownloadRequest): Promise<boolean> => {
+    const name = fileName || 'document';
+
+    // Known sizes are checked up front; otherwise the client asks once the server reports one
+    const checkedSize = Boolean(fileSize && fileSize > config.download.confirmSizeThreshold);
+    if (checkedSize && !(await confirmLargeDownload(name, fileSize!))) {
+      return false;
+    }
+
+    const controller = new AbortController();
+    const toastId = toast.loading('Downloading', {
+      description: name,
+      action: { label: 'Cancel', onClick: () => controller.abort() },
+    });
+    let lastUpdate = 0;
+
+    try {
+      const saved = await apiClient.downloadDocument(documentId, fileName, {
+        shareToken,
+        signal: controller.signal,
+        confirmLargeDownload: checkedSize ? undefined : size => confirmLargeDownload(name, size),
+        onProgress: ({ loaded, total, percentage }) => {
+          const now = Date.now();
+          if (now - lastUpdate < PROGRESS_UPDATE_INTERVAL) return;
+          lastUpdate = now;
+
+          toast.loading('Downloading', {
+            id: toastId,
+            description: total
+              ? `${name}: ${formatFileSize(loaded)} of ${formatFileSize(total)} (${percentage}%)`
+              : `${name}: ${formatFileSize(loaded)}`,
+          });
+        },
+      });
+
+      if (!saved) {
+        toast.dismiss(toastId);
+        return false;
+      }
+
+      toast.success('Download Complete', {
+        id: toastId,
+        description: `${name} has been saved`,
+        action: undefined,
+        duration: RESULT_TOAST_DURATION,
+      });
+      return true;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast.info('Download Cancelled', {
+          id: toastId,
+          description: name,
+          action: undefined,
+          duration: RESULT_TOAST_DURATION,
+        });
+        return false;
+      }
+
+      toast.error('Download Failed', {
+        id: toastId,
+        description: getErrorMessage(error, 'Failed to download file. Please try again.'),
+        action: undefined,
+        duration: RESULT_TOAST_DURATION,
+      });
+      return false;
+    }
+  }, []);
+
+  return { downloadDocument };
+};
@@ -0,0 +1,13 @@
+/**
+ * Custom hook for whether a feature flag is on for the current user
+ */
+
+import { useGlobalSettings } from '../contexts/SettingsContext';
+import { FeatureFlag } from '../services/types';
+
+export const useFeatureFlag = (flag: FeatureFlag): boolean => {
+  const { isFeatureEnabled } = useGlobalSettings();
+  return isFeatureEnabled(flag);
+};
+
+export default useFeatureFlag;
@@ -0,0 +1,122 @@
+/**
+ * Custom hook for the teacher invitations an admin has sent: listing them,
+ * sending more, and resending or revoking the ones not yet accepted
+ */
+
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Invitation, InvitationBatch } from '../services/types';
+import { apiClient } from '../services/api';
+import { queryKeys, invalidateAfter, getErrorMessage } from '../lib/queryClient';
+
+interface InvitationsState {
+  invitations: Invitation[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface InvitationsActions {
+  sendInvitations: (emails: string[]) => Promise<InvitationBatch | null>;
+  resendInvitation: (invitation: Invitation) => Promise<boolean>;
+  revokeInvitation: (invitation: Invitation) => Promise<boolean>;
+  refresh: () => void;
+}
+
+const plural = (count: number) => `${count} invitation${count === 1 ? '' : 's'}`;
+
+export const useInvitations = (): InvitationsState & InvitationsActions => {
+  const queryClient = useQueryClient();
+
+  const invitationsQuery = useQuery({
+    queryKey: queryKeys.invitations.list(),
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.getInvitations({ signal });
+      return response.data ?? [];
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: (emails: string[]) => apiClient.sendInvitations(emails),
+    onSettled: () => invalidateAfter(queryClient, 'changeInvitation'),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (invitationId: string) => apiClient.resendInvitation(invitationId),
+    onSettled: () => invalidateAfter(queryClient, 'changeInvitation'),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitationId: string) => apiClient.revokeInvitation(invitationId),
+    onSettled: () => invalidateAfter(queryClient, 'changeInvitation'),
+  });
+
+  // Resolves to the batch so the dialog can list the skipped addresses; null on failure
+  const sendInvitations = useCallback(async (emails: string[]): Promise<InvitationBatch | null> => {
+    try {
+      const response = await sendMutation.mutateAsync(emails);
+      const { invitations, skipped } = response.data;
+      if (invitations.length > 0) {
+        toast.success('Invitations Sent', {
+          description: skipped.length > 0
+            ? `${plural(invitations.length)} sent, ${skipped.length} skipped.`
+            : `${plural(invitations.length)} sent.`,
+        });
+      } else {
+        toast.warning('No Invitations Sent', {
+          description: 'Every address was skipped.',
+        });
+      }
+      return response.data;
+    } catch (error) {
+      toast.error('Invitation Failed', {
+        description: getErrorMessage(error, 'Failed to send invitations. Please try again.'),
+      });
+      return null;
+    }
+  }, [sendMutation.mutateAsync]);
+
+  const resendInvitation = useCallback(async (invitation: Invitation): Promise<boolean> => {
+    try {
+      await resendMutation.mutateAsync(invitation.id);
+      toast.success('Invitation Resent', {
+        description: `A new link was sent to ${invitation.email}. The previous link no longer works.`,
+      });
+      return true;
+    } catch (error) {
+      toast.error('Resend Failed', {
+        description: getErrorMessage(error, 'Failed to resend the invitation. Please try again.'),
+      });
+      return false;
+    }
+  }, [resendMutation.mutateAsync]);
+
+  const revokeInvitation = useCallback(async (invitation: Invitation): Promise<boolean> => {
+    try {
+      await revokeMutation.mutateAsync(invitation.id);
+      toast.success('Invitation Revoked', {
+        description: `The link sent to ${invitation.email} no longer works.`,
+      });
+      return true;
+    } catch (error) {
+      toast.error('Revoke Failed', {
+        description: getErrorMessage(error, 'Failed to revoke the invitation. Please try again.'),
+      });
+      return false;
+    }
+  }, [revokeMutation.mutateAsync]);
+
+  const refresh = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.invitations.list() });
+  }, [queryClient]);
+
+  return {
+    invitations: invitationsQuery.data ?? [],
+    isLoading: invitationsQuery.isLoading,
+    error: invitationsQuery.error ? getErrorMessage(invitationsQuery.error, 'Failed to load invitations') : null,
+    sendInvitations,
+    resendInvitation,
+    revokeInvitation,
+    refresh,
+  };
+};
@@ -0,0 +1,21 @@
+/**
+ * Custom hook for loads where only the latest request matters
+ * Each call returns a fresh signal and aborts the request started before it;
+ * the last one is aborted when the component unmounts.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+
+export const useLatestRequest = (): (() => AbortSignal) => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+};
+
+export default useLatestRequest;
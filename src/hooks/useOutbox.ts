@@ -0,0 +1,169 @@
+/**
+ * Custom hook for the offline upload outbox
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useIsMutating, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '../contexts/AuthContext';
+import { DocumentCreateRequest } from '../services/types';
+import {
+  OutboxEntry,
+  addToOutbox,
+  isOutboxAvailable,
+  listOutbox,
+  removeFromOutbox,
+  sendPendingEntries,
+  updateOutboxEntry,
+} from '../services/outbox';
+import { isConnectionError } from '../services/resumableUpload';
+import { queryKeys, invalidateAfter } from '../lib/queryClient';
+import { useConnectivity } from './useConnectivity';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('outbox');
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  pendingCount: number;
+  isLoading: boolean;
+  isSending: boolean;
+  isAvailable: boolean;
+}
+
+interface OutboxActions {
+  queueUpload: (data: DocumentCreateRequest) => Promise<boolean>;
+  sendOutbox: () => Promise<void>;
+  retryEntry: (entryId: string, changes?: Partial<DocumentCreateRequest>) => Promise<void>;
+  discardEntry: (entryId: string) => Promise<void>;
+}
+
+interface OutboxOptions {
+  autoSend?: boolean; // Send whenever the connection returns; Layout does this for every page
+}
+
+const sendMutationKey = ['outbox', 'send'] as const;
+
+export const useOutbox = ({ autoSend = false }: OutboxOptions = {}): OutboxState & OutboxActions => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const isOnline = useConnectivity() !== 'offline';
+  const isAvailable = isOutboxAvailable();
+  // Only teachers upload documents
+  const ownerId = user?.role === 'teacher' ? user.id : undefined;
+
+  const outboxQuery = useQuery({
+    queryKey: queryKeys.outbox.list(ownerId),
+    queryFn: () => listOutbox(ownerId!),
+    enabled: Boolean(ownerId) && isAvailable,
+    // Local storage, so there is nothing to refetch from the server
+    staleTime: Infinity,
+    meta: { silent: true },
+  });
+
+  const sendMutation = useMutation({
+    mutationKey: sendMutationKey,
+    mutationFn: () => sendPendingEntries(ownerId!),
+    onSuccess: ({ sent, needsAttention }) => {
+      if (sent > 0) {
+        invalidateAfter(queryClient, 'uploadDocument');
+        toast.success('Outbox Sent', {
+          description: `${sent} document${sent > 1 ? 's' : ''} uploaded from your outbox.`,
+        });
+      }
+
+      if (needsAttention > 0) {
+        toast.warning('Outbox Needs Attention', {
+          description: `${needsAttention} document${needsAttention > 1 ? 's' : ''} could not be sent. Review them in your outbox.`,
+        });
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.outbox.all }),
+  });
+
+  const isSending = useIsMutating({ mutationKey: sendMutationKey }) > 0;
+
+  const sendOutbox = useCallback(async (): Promise<void> => {
+    // Several components share the outbox; only one of them sends at a time, and other tabs wait for the lock
+    if (!ownerId || queryClient.isMutating({ mutationKey: sendMutationKey }) > 0) return;
+
+    try {
+      await sendMutation.mutateAsync();
+    } catch (error) {
+      // Nothing was lost; the entries stay queued for the next attempt
+      if (!isConnectionError(error)) {
+        log.error('Failed to send outbox', error);
+      }
+    }
+  }, [ownerId, queryClient, sendMutation.mutateAsync]);
+
+  const queueUpload = useCallback(async (data: DocumentCreateRequest): Promise<boolean> => {
+    if (!ownerId || !isAvailable) return false;
+
+    try {
+      await addToOutbox(ownerId, data);
+      await queryClient.invalidateQueries({ queryKey: queryKeys.outbox.all });
+
+      toast.success('Saved to Outbox', {
+        description: `"${data.title}" will upload when your connection returns.`,
+      });
+
+      return true;
+    } catch (error) {
+      log.error('Failed to save to outbox', error);
+
+      toast.error('Could Not Save', {
+        description: 'There is not enough space on this device to keep the file for later.',
+      });
+
+      return false;
+    }
+  }, [ownerId, isAvailable, queryClient]);
+
+  const retryEntry = useCallback(async (
+    entryId: string,
+    changes?: Partial<DocumentCreateRequest>
+  ): Promise<void> => {
+    const entry = outboxQuery.data?.find(item => item.id === entryId);
+    if (!entry) return;
+
+    await updateOutboxEntry(entryId, {
+      status: 'pending',
+      error: undefined,
+      request: { ...entry.request, ...changes },
+    });
+    await queryClient.invalidateQueries({ queryKey: queryKeys.outbox.all });
+
+    if (isOnline) {
+      await sendOutbox();
+    }
+  }, [outboxQuery.data, queryClient, isOnline, sendOutbox]);
+
+  const discardEntry = useCallback(async (entryId: string): Promise<void> => {
+    await removeFromOutbox(entryId);
+    await queryClient.invalidateQueries({ queryKey: queryKeys.outbox.all });
+  }, [queryClient]);
+
+  const entries = outboxQuery.data ?? [];
+  const pendingCount = entries.filter(entry => entry.status === 'pending').length;
+  const hasPending = pendingCount > 0;
+
+  // Send what was saved offline as soon as the connection is back
+  useEffect(() => {
+    if (autoSend && isOnline && hasPending) {
+      sendOutbox();
+    }
+  }, [autoSend, isOnline, hasPending, sendOutbox]);
+
+  return {
+    entries,
+    pendingCount,
+    isLoading: outboxQuery.isLoading,
+    isSending,
+    isAvailable,
+    queueUpload,
+    sendOutbox,
+    retryEntry,
+    discardEntry,
+  };
+};
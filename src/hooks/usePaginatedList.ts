@@ -0,0 +1,159 @@
+/**
+ * Custom hook for server-side paginated lists
+ * Supports numbered pages and infinite scroll over DRF page links
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  QueryKey,
+  hashKey,
+  keepPreviousData,
+  useInfiniteQuery,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { ApiResponse, PaginatedResponse, PaginationParams, RequestOptions } from '../services/types';
+import { ApiError } from '../services/api';
+import { config } from '../lib/config';
+import { getErrorMessage } from '../lib/queryClient';
+
+export type PaginationMode = 'pages' | 'infinite';
+
+interface PaginatedListOptions {
+  mode?: PaginationMode;
+  pageSize?: number;
+}
+
+interface PaginatedListState<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageCount: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+}
+
+interface PaginatedListActions {
+  goToPage: (page: number) => Promise<void>;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const unwrapPage = <T>(response: ApiResponse<PaginatedResponse<T>>): PaginatedResponse<T> => {
+  if (!response.success || !response.data) {
+    throw new ApiError(response.message || 'Failed to load results', 500);
+  }
+  return response.data;
+};
+
+/**
+ * `queryKey` must identify everything `fetchPage` closes over, e.g. the
+ * active filters; the list restarts from the first page whenever it changes.
+ * `fetchPage` should hand the signal on to the API client, so a page that is
+ * no longer wanted, e.g. after the filters change again, is cancelled.
+ */
+export const usePaginatedList = <T>(
+  queryKey: QueryKey,
+  fetchPage: (params: PaginationParams, options: RequestOptions) => Promise<ApiResponse<PaginatedResponse<T>>>,
+  { mode = 'pages', pageSize = config.ui.itemsPerPage }: PaginatedListOptions = {}
+): PaginatedListState<T> & PaginatedListActions => {
+  const queryClient = useQueryClient();
+  const isInfinite = mode === 'infinite';
+
+  // The selected page belongs to one list; any other list starts from the first page
+  const listHash = hashKey(queryKey);
+  const [selection, setSelection] = useState({ listHash, page: 1 });
+  const page = selection.listHash === listHash ? selection.page : 1;
+
+  const pageQuery = useQuery({
+    queryKey: [...queryKey, { page, pageSize }],
+    queryFn: async ({ signal }) => {
+      try {
+        return unwrapPage(await fetchPage({ page, pageSize }, { signal }));
+      } catch (error) {
+        // DRF answers 404 for a page past the end, e.g. after deleting the last item on it
+        if (error instanceof ApiError && error.status === 404 && page > 1) return null;
+        throw error;
+      }
+    },
+    placeholderData: keepPreviousData,
+    enabled: !isInfinite,
+  });
+
+  useEffect(() => {
+    if (pageQuery.data === null && page > 1) {
+      setSelection({ listHash, page: page - 1 });
+    }
+  }, [pageQuery.data, listHash, page]);
+
+  const infiniteQuery = useInfiniteQuery({
+    queryKey: [...queryKey, { pageSize, infinite: true }],
+    queryFn: async ({ pageParam, signal }) => unwrapPage(await fetchPage(pageParam, { signal })),
+    initialPageParam: { page: 1, pageSize } as PaginationParams,
+    // Follow the link the server hands back rather than counting pages
+    getNextPageParam: lastPage => (lastPage.next ? { cursor: lastPage.next } : undefined),
+    enabled: isInfinite,
+  });
+
+  const goToPage = useCallback(async (target: number): Promise<void> => {
+    setSelection({ listHash, page: target });
+  }, [listHash]);
+
+  const { hasNextPage: infiniteHasNext, isFetchingNextPage, fetchNextPage } = infiniteQuery;
+  const loadMore = useCallback(async (): Promise<void> => {
+    if (!infiniteHasNext || isFetchingNextPage) return;
+    await fetchNextPage();
+  }, [infiniteHasNext, isFetchingNextPage, fetchNextPage]);
+
+  const refresh = useCallback(async (): Promise<void> => {
+    // Infinite lists start over so removed or reordered items do not linger
+    if (isInfinite) {
+      await queryClient.resetQueries({ queryKey });
+    } else {
+      await queryClient.refetchQueries({ queryKey });
+    }
+  }, [queryClient, isInfinite, listHash]);
+
+  if (isInfinite) {
+    const pages = infiniteQuery.data?.pages ?? [];
+    const totalCount = pages[0]?.count ?? 0;
+
+    return {
+      items: pages.flatMap(loaded => loaded.results),
+      totalCount,
+      page: Math.max(1, pages.length),
+      pageCount: Math.max(1, Math.ceil(totalCount / pageSize)),
+      hasNextPage: Boolean(infiniteHasNext),
+      hasPreviousPage: false,
+      isLoading: infiniteQuery.isLoading,
+      isLoadingMore: isFetchingNextPage,
+      error: infiniteQuery.error ? getErrorMessage(infiniteQuery.error, 'Failed to load results') : null,
+      goToPage,
+      loadMore,
+      refresh,
+    };
+  }
+
+  const current = pageQuery.data;
+  const totalCount = current?.count ?? 0;
+
+  return {
+    items: current?.results ?? [],
+    totalCount,
+    page,
+    pageCount: Math.max(1, Math.ceil(totalCount / pageSize)),
+    hasNextPage: Boolean(current?.next),
+    hasPreviousPage: Boolean(current?.previous),
+    isLoading: pageQuery.isLoading || (pageQuery.isPlaceholderData && pageQuery.isFetching),
+    isLoadingMore: false,
+    error: pageQuery.error ? getErrorMessage(pageQuery.error, 'Failed to load results') : null,
+    goToPage,
+    loadMore,
+    refresh,
+  };
+};
+
+export default usePaginatedList;
@@ -6,6 +6,7 @@ import { useState, useCallback } from 'react';
 import { toast } from 'sonner';
 import { ChangePasswordRequest } from '../services/types';
 import { apiClient, ApiError } from '../services/api';
+import { applyFieldErrors, FormErrorTarget } from '../lib/formErrors';
 
 interface PasswordChangeState {
   isLoading: boolean;
@@ -13,7 +14,7 @@ interface PasswordChangeState {
 }
 
 interface PasswordChangeActions {
-  changePassword: (data: ChangePasswordRequest) => Promise<boolean>;
+  changePassword: (data: ChangePasswordRequest, form?: FormErrorTarget) => Promise<boolean>;
   clearError: () => void;
 }
 
@@ -23,7 +24,10 @@ export const usePasswordChange = (): PasswordChangeState & PasswordChangeActions
     error: null,
   });
 
-  const changePassword = useCallback(async (data: ChangePasswordRequest): Promise<boolean> => {
+  const changePassword = useCallback(async (
+    data: ChangePasswordRequest,
+    form?: FormErrorTarget
+  ): Promise<boolean> => {
     setState({ isLoading: true, error: null });
 
     try {
@@ -51,9 +55,12 @@ export const usePasswordChange = (): PasswordChangeState & PasswordChangeActions
         error: errorMessage,
       });
 
-      toast.error('Password Change Failed', {
-        description: errorMessage,
-      });
+      // Field errors are shown next to the fields instead
+      if (!applyFieldErrors(error, form)) {
+        toast.error('Password Change Failed', {
+          description: errorMessage,
+        });
+      }
 
       return false;
     }
@@ -2,10 +2,11 @@
  * Custom hook for reports operations
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { toast } from 'sonner';
+import { useState, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { ReportsData } from '../services/types';
-import { apiClient, ApiError } from '../services/api';
+import { apiClient } from '../services/api';
+import { queryKeys, getErrorMessage } from '../lib/queryClient';
 
 interface ReportsState {
   data: ReportsData | null;
@@ -19,62 +20,49 @@ interface ReportsActions {
   clearError: () => void;
 }
 
+const reportsQuery = (timeRange: string) => ({
+  queryKey: queryKeys.reports.data(timeRange),
+  queryFn: async ({ signal }: { signal: AbortSignal }) => {
+    const response = await apiClient.getReportsData(timeRange, { signal });
+    return response.data;
+  },
+});
+
 export const useReports = (): ReportsState & ReportsActions => {
-  const [state, setState] = useState<ReportsState>({
-    data: null,
-    isLoading: false,
-    error: null,
-  });
+  const queryClient = useQueryClient();
+  // Reports are only loaded once a time range has been requested
+  const [timeRange, setTimeRange] = useState<string | null>(null);
 
-  const fetchReports = useCallback(async (timeRange: string = '30'): Promise<void> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+  const query = useQuery({
+    ...reportsQuery(timeRange ?? '30'),
+    enabled: timeRange !== null,
+  });
 
+  const fetchReports = useCallback(async (range: string = '30'): Promise<void> => {
+    setTimeRange(range);
     try {
-      const response = await apiClient.getReportsData(timeRange);
-      
-      if (response.success && response.data) {
-        setState(prev => ({
-          ...prev,
-          data: response.data!,
-          isLoading: false,
-        }));
-      } else {
-        setState(prev => ({
-          ...prev,
-          isLoading: false,
-          error: 'Failed to fetch reports data',
-        }));
-      }
-    } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to fetch reports data. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
-
-      toast.error('Fetch Failed', {
-        description: errorMessage,
-      });
+      await queryClient.fetchQuery(reportsQuery(range));
+    } catch {
+      // Surfaced through the query error and the shared fetch toast
     }
-  }, []);
+  }, [queryClient]);
 
   const refresh = useCallback(() => {
-    const currentTimeRange = '30'; // Default, could be enhanced to remember last used
-    fetchReports(currentTimeRange);
-  }, [fetchReports]);
+    queryClient.refetchQueries({ queryKey: queryKeys.reports.data(timeRange ?? '30') });
+  }, [queryClient, timeRange]);
 
   const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
-  }, []);
+    if (timeRange !== null) {
+      queryClient.resetQueries({ queryKey: queryKeys.reports.data(timeRange), exact: true });
+    }
+  }, [queryClient, timeRange]);
 
   return {
-    data: state.data,
-    isLoading: state.isLoading,
-    error: state.error,
+    data: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error
+      ? getErrorMessage(query.error, 'Failed to fetch reports data. Please try again.')
+      : null,
     fetchReports,
     refresh,
     clearError,
@@ -1,10 +1,12 @@
 /**
  * Custom hook for session timeout management
+ * Activity in any open tab keeps the session alive in all of them
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useUserPreferences } from './useUserPreferences';
+import { SessionTimer, startSessionTimer } from '../services/sessionTimer';
 
 interface SessionTimeoutHook {
   showWarning: boolean;
@@ -14,17 +16,12 @@ interface SessionTimeoutHook {
 }
 
 export const useSessionTimeout = (): SessionTimeoutHook => {
-  const { user, isAuthenticated, handleSessionExpiry } = useAuth();
+  const { isAuthenticated, handleSessionExpiry } = useAuth();
   const { preferences } = useUserPreferences();
   
   const [showWarning, setShowWarning] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState(0);
-  
-  // Refs to track timers and activity
-  const lastActivityRef = useRef<number>(Date.now());
-  const warningTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const logoutTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const countdownTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const timerRef = useRef<SessionTimer | null>(null);
 
   // Get session timeout in milliseconds
   const getSessionTimeout = useCallback(() => {
@@ -47,127 +44,53 @@ export const useSessionTimeout = (): SessionTimeoutHook => {
     }
   }, [getSessionTimeout]);
 
-  // Clear all timers
-  const clearTimers = useCallback(() => {
-    if (warningTimerRef.current) {
-      clearTimeout(warningTimerRef.current);
-      warningTimerRef.current = null;
-    }
-    if (logoutTimerRef.current) {
-      clearTimeout(logoutTimerRef.current);
-      logoutTimerRef.current = null;
-    }
-    if (countdownTimerRef.current) {
-      clearInterval(countdownTimerRef.current);
-      countdownTimerRef.current = null;
-    }
-  }, []);
-
   // Force logout
   const forceLogout = useCallback(() => {
-    clearTimers();
+    timerRef.current?.stop();
     setShowWarning(false);
     handleSessionExpiry();
-  }, [clearTimers, handleSessionExpiry]);
-
-  // Start countdown when warning is shown
-  const startCountdown = useCallback(() => {
-    const warningTime = getWarningTime();
-    let remaining = warningTime;
-    
-    setTimeRemaining(remaining);
-    
-    countdownTimerRef.current = setInterval(() => {
-      remaining -= 1000;
-      setTimeRemaining(remaining);
-      
-      if (remaining <= 0) {
-        forceLogout();
-      }
-    }, 1000);
-  }, [forceLogout, getWarningTime]);
-
-  // Update activity timestamp and reset timers
-  const updateActivity = useCallback(() => {
-    if (!isAuthenticated) return;
-    
-    const now = Date.now();
-    lastActivityRef.current = now;
-    
-    // Clear existing timers
-    clearTimers();
-    setShowWarning(false);
-    
-    const sessionTimeout = getSessionTimeout();
-    const warningTime = getWarningTime();
-    const timeToWarning = sessionTimeout - warningTime;
-    
-    // Only set warning timer if we have positive time until warning
-    if (timeToWarning > 0) {
-      warningTimerRef.current = setTimeout(() => {
-        setShowWarning(true);
-        startCountdown();
-      }, timeToWarning);
-    } else {
-      // For very short sessions, show warning immediately but with proper countdown
-      setShowWarning(true);
-      startCountdown();
-    }
-    
-    // Set logout timer
-    logoutTimerRef.current = setTimeout(() => {
-      forceLogout();
-    }, sessionTimeout);
-  }, [isAuthenticated, getSessionTimeout, getWarningTime, clearTimers, startCountdown, forceLogout]);
+  }, [handleSessionExpiry]);
 
-  // Extend session (reset timers)
+  // Extend session (reset timers) and close the warning in every tab
   const extendSession = useCallback(() => {
-    updateActivity();
-  }, [updateActivity]);
-
-  // Throttled activity update to prevent excessive timer resets
-  const throttledUpdateActivity = useCallback(() => {
-    const now = Date.now();
-    const timeSinceLastActivity = now - lastActivityRef.current;
-    
-    // Only update if more than 1 second has passed since last activity
-    if (timeSinceLastActivity > 1000) {
-      updateActivity();
-    }
-  }, [updateActivity]);
+    timerRef.current?.extend();
+  }, []);
 
-  // Set up activity listeners
+  // Time the session while signed in, following activity in this tab and the others
   useEffect(() => {
     if (!isAuthenticated) {
-      clearTimers();
       setShowWarning(false);
       return;
     }
 
+    const timer = startSessionTimer({
+      timeout: getSessionTimeout(),
+      warningTime: getWarningTime(),
+      onWarning: remaining => {
+        setShowWarning(true);
+        setTimeRemaining(remaining);
+      },
+      onActive: () => setShowWarning(false),
+      onExpire: forceLogout,
+    });
+    timerRef.current = timer;
+
     // Reduced activity events to prevent interference with navigation
     const events = ['mousedown', 'keypress', 'touchstart'];
+    const handleActivity = () => timer.recordActivity();
     
     events.forEach(event => {
-      document.addEventListener(event, throttledUpdateActivity, false); // Use bubbling, not capturing
+      document.addEventListener(event, handleActivity, false); // Use bubbling, not capturing
     });
 
-    // Initialize timers
-    updateActivity();
-
     return () => {
       events.forEach(event => {
-        document.removeEventListener(event, throttledUpdateActivity, false);
+        document.removeEventListener(event, handleActivity, false);
       });
-      clearTimers();
-    };
-  }, [isAuthenticated, throttledUpdateActivity, clearTimers, updateActivity]);
-
-  // Clean up on unmount
-  useEffect(() => {
-    return () => {
-      clearTimers();
+      timer.stop();
+      timerRef.current = null;
     };
-  }, [clearTimers]);
+  }, [isAuthenticated, getSessionTimeout, getWarningTime, forceLogout]);
 
   return {
     showWarning,
@@ -0,0 +1,92 @@
+/**
+ * Custom hook for listing and ending sign-in sessions, either the signed-in
+ * user's own or, for admins, a teacher's
+ */
+
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { ActiveSession } from '../services/types';
+import { apiClient } from '../services/api';
+import { queryKeys, invalidateAfter, getErrorMessage } from '../lib/queryClient';
+
+interface SessionsState {
+  sessions: ActiveSession[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface SessionsActions {
+  revokeSession: (session: ActiveSession) => Promise<boolean>;
+  revokeOtherSessions: () => Promise<boolean>; // Own sessions: all but this one; a teacher's: all of them
+  refresh: () => void;
+}
+
+const plural = (count: number) => `${count} session${count === 1 ? '' : 's'}`;
+
+export const useSessions = (teacherId?: string): SessionsState & SessionsActions => {
+  const queryClient = useQueryClient();
+
+  const sessionsQuery = useQuery({
+    queryKey: queryKeys.sessions.list(teacherId),
+    queryFn: async ({ signal }) => {
+      const response = teacherId
+        ? await apiClient.getTeacherSessions(teacherId, { signal })
+        : await apiClient.getSessions({ signal });
+      return response.data ?? [];
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => apiClient.revokeSession(sessionId),
+    onSettled: () => invalidateAfter(queryClient, 'revokeSession'),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => teacherId ? apiClient.revokeTeacherSessions(teacherId) : apiClient.revokeOtherSessions(),
+    onSettled: () => invalidateAfter(queryClient, 'revokeSession'),
+  });
+
+  const revokeSession = useCallback(async (session: ActiveSession): Promise<boolean> => {
+    try {
+      await revokeMutation.mutateAsync(session.id);
+      toast.success('Session Signed Out', {
+        description: 'That device will have to sign in again.',
+      });
+      return true;
+    } catch (error) {
+      toast.error('Sign Out Failed', {
+        description: getErrorMessage(error, 'Failed to sign out the session. Please try again.'),
+      });
+      return false;
+    }
+  }, [revokeMutation.mutateAsync]);
+
+  const revokeOtherSessions = useCallback(async (): Promise<boolean> => {
+    try {
+      const response = await revokeOthersMutation.mutateAsync();
+      toast.success(teacherId ? 'Teacher Signed Out' : 'Other Sessions Signed Out', {
+        description: `${plural(response.data.revoked)} ended.`,
+      });
+      return true;
+    } catch (error) {
+      toast.error('Sign Out Failed', {
+        description: getErrorMessage(error, 'Failed to sign out sessions. Please try again.'),
+      });
+      return false;
+    }
+  }, [revokeOthersMutation.mutateAsync, teacherId]);
+
+  const refresh = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.sessions.list(teacherId) });
+  }, [queryClient, teacherId]);
+
+  return {
+    sessions: sessionsQuery.data ?? [],
+    isLoading: sessionsQuery.isLoading,
+    error: sessionsQuery.error ? getErrorMessage(sessionsQuery.error, 'Failed to load sessions') : null,
+    revokeSession,
+    revokeOtherSessions,
+    refresh,
+  };
+};
@@ -41,10 +41,10 @@ export const useSystemSettings = (): SystemSettingsState & SystemSettingsActions
       if (response.success && response.data) {
         setState({
           settings: {
-            allowedFileTypes: response.data.allowed_file_types || [],
-            maxFileSize: response.data.max_file_size || 10,
-            siteName: response.data.site_name || 'Digital Filing System',
-            registrationEnabled: response.data.registration_enabled || true,
+            allowedFileTypes: response.data.allowedFileTypes,
+            maxFileSize: response.data.maxFileSize,
+            siteName: response.data.siteName,
+            registrationEnabled: response.data.registrationEnabled,
           },
           isLoading: false,
           error: null,
@@ -2,15 +2,18 @@
  * Custom hook for teacher management operations
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { 
-  Teacher, 
-  TeacherCreateRequest, 
-  TeacherUpdateRequest, 
+import {
+  Teacher,
+  TeacherCreateRequest,
+  TeacherUpdateRequest,
   TeacherApprovalRequest
 } from '../services/types';
-import { apiClient, ApiError } from '../services/api';
+import { apiClient } from '../services/api';
+import { queryKeys, invalidateAfter, getErrorMessage } from '../lib/queryClient';
+import { applyFieldErrors, FormErrorTarget } from '../lib/formErrors';
 
 interface TeachersState {
   teachers: Teacher[];
@@ -20,123 +23,105 @@ interface TeachersState {
 
 interface TeachersActions {
   fetchTeachers: () => Promise<void>;
-  addTeacher: (data: TeacherCreateRequest) => Promise<boolean>;
+  addTeacher: (data: TeacherCreateRequest, form?: FormErrorTarget) => Promise<boolean>;
   deleteTeacher: (teacherId: string) => Promise<boolean>;
   approveTeacher: (teacherId: string, approved: boolean, rejectionReason?: string) => Promise<boolean>;
   updateTeacher: (teacherId: string, data: TeacherUpdateRequest) => Promise<boolean>;
+  unlockTeacher: (teacherId: string) => Promise<boolean>;
   refresh: () => void;
   clearError: () => void;
 }
 
-export const useTeachers = (): TeachersState & TeachersActions => {
-  const [state, setState] = useState<TeachersState>({
-    teachers: [],
-    isLoading: false,
-    error: null,
+interface TeachersOptions {
+  fetchOnMount?: boolean; // Pages that load their own paginated list only need the actions
+}
+
+export const useTeachers = ({ fetchOnMount = true }: TeachersOptions = {}): TeachersState & TeachersActions => {
+  const queryClient = useQueryClient();
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const teachersQuery = useQuery({
+    queryKey: queryKeys.teachers.list(),
+    queryFn: async ({ signal }) => {
+      const response = await apiClient.getTeachers({ signal });
+      return response.data ?? [];
+    },
+    enabled: fetchOnMount,
   });
 
-  const fetchTeachers = useCallback(async (): Promise<void> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+  const addMutation = useMutation({
+    mutationFn: (data: TeacherCreateRequest) => apiClient.createTeacher(data),
+    onSettled: () => invalidateAfter(queryClient, 'changeTeacher'),
+  });
 
-    try {
-      const response = await apiClient.getTeachers();
-      
-      if (response.success && response.data) {
-        setState({
-          teachers: response.data,
-          isLoading: false,
-          error: null,
-        });
-      } else {
-        setState(prev => ({
-          ...prev,
-          isLoading: false,
-          error: 'Failed to fetch teachers',
-        }));
-      }
-    } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to fetch teachers. Please try again.';
+  const deleteMutation = useMutation({
+    mutationFn: (teacherId: string) => apiClient.deleteTeacher(teacherId),
+    onSettled: () => invalidateAfter(queryClient, 'deleteTeacher'),
+  });
 
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+  const approveMutation = useMutation({
+    mutationFn: ({ teacherId, data }: { teacherId: string; data: TeacherApprovalRequest }) =>
+      apiClient.approveTeacher(teacherId, data),
+    onSettled: () => invalidateAfter(queryClient, 'changeTeacher'),
+  });
 
-      toast.error('Fetch Failed', {
-        description: errorMessage,
-      });
-    }
-  }, []);
+  const updateMutation = useMutation({
+    mutationFn: ({ teacherId, data }: { teacherId: string; data: TeacherUpdateRequest }) =>
+      apiClient.updateTeacher(teacherId, data),
+    onSettled: () => invalidateAfter(queryClient, 'changeTeacher'),
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: (teacherId: string) => apiClient.unlockTeacher(teacherId),
+    onSettled: () => invalidateAfter(queryClient, 'changeTeacher'),
+  });
+
+  const fetchTeachers = useCallback(async (): Promise<void> => {
+    await queryClient.refetchQueries({ queryKey: queryKeys.teachers.list() });
+  }, [queryClient]);
 
   const addTeacher = useCallback(async (
-    data: TeacherCreateRequest
+    data: TeacherCreateRequest,
+    form?: FormErrorTarget
   ): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setActionError(null);
 
     try {
-      const response = await apiClient.createTeacher(data);
-      
-      if (response.success && response.data) {
-        // Add the new teacher to the local state
-        setState(prev => {
-          const updatedTeachers = [...prev.teachers, response.data!];
-          return {
-            ...prev,
-            teachers: updatedTeachers,
-            isLoading: false,
-          };
-        });
+      const response = await addMutation.mutateAsync(data);
 
+      if (response.success && response.data) {
         toast.success('Teacher Added', {
           description: `${response.data.user.firstName} ${response.data.user.lastName} has been added successfully.`,
         });
 
-        // Also refresh the data to ensure consistency
-        fetchTeachers();
-
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to add teacher. Please try again.';
+      const errorMessage = getErrorMessage(error, 'Failed to add teacher. Please try again.');
+      setActionError(errorMessage);
 
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
-
-      toast.error('Add Teacher Failed', {
-        description: errorMessage,
-      });
+      // Field errors are shown next to the fields instead
+      if (!applyFieldErrors(error, form)) {
+        toast.error('Add Teacher Failed', {
+          description: errorMessage,
+        });
+      }
 
       return false;
     }
-  }, []);
+  }, [addMutation.mutateAsync]);
 
   const deleteTeacher = useCallback(async (
     teacherId: string
   ): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setActionError(null);
 
     try {
-      const response = await apiClient.deleteTeacher(teacherId);
-      
-      if (response.success) {
-        // Remove the teacher from the local state
-        setState(prev => ({
-          ...prev,
-          teachers: prev.teachers.filter(teacher => teacher.id !== teacherId),
-          isLoading: false,
-        }));
+      const response = await deleteMutation.mutateAsync(teacherId);
 
+      if (response.success) {
         toast.success('Teacher Deleted', {
           description: 'Teacher account has been permanently deleted.',
         });
@@ -144,18 +129,10 @@ export const useTeachers = (): TeachersState & TeachersActions => {
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to delete teacher. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(error, 'Failed to delete teacher. Please try again.');
+      setActionError(errorMessage);
 
       toast.error('Delete Teacher Failed', {
         description: errorMessage,
@@ -163,37 +140,28 @@ export const useTeachers = (): TeachersState & TeachersActions => {
 
       return false;
     }
-  }, []);
+  }, [deleteMutation.mutateAsync]);
 
   const approveTeacher = useCallback(async (
-    teacherId: string, 
-    approved: boolean, 
+    teacherId: string,
+    approved: boolean,
     rejectionReason?: string
   ): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setActionError(null);
 
     try {
-      const data: TeacherApprovalRequest = { 
-        approved, 
-        rejectionReason: approved ? undefined : rejectionReason 
+      const data: TeacherApprovalRequest = {
+        approved,
+        rejectionReason: approved ? undefined : rejectionReason
       };
 
-      const response = await apiClient.approveTeacher(teacherId, data);
-      
-      if (response.success && response.data) {
-        // Update the teacher in the local state
-        setState(prev => ({
-          ...prev,
-          teachers: prev.teachers.map(teacher => 
-            teacher.id === teacherId ? response.data! : teacher
-          ),
-          isLoading: false,
-        }));
+      const response = await approveMutation.mutateAsync({ teacherId, data });
 
+      if (response.success && response.data) {
         toast.success(
           approved ? 'Teacher Approved' : 'Teacher Rejected',
           {
-            description: approved 
+            description: approved
               ? `${response.data.user.firstName} ${response.data.user.lastName} has been approved successfully.`
               : `${response.data.user.firstName} ${response.data.user.lastName} has been rejected.`,
           }
@@ -202,18 +170,13 @@ export const useTeachers = (): TeachersState & TeachersActions => {
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : `Failed to ${approved ? 'approve' : 'reject'} teacher. Please try again.`;
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(
+        error,
+        `Failed to ${approved ? 'approve' : 'reject'} teacher. Please try again.`
+      );
+      setActionError(errorMessage);
 
       toast.error(
         approved ? 'Approval Failed' : 'Rejection Failed',
@@ -224,27 +187,18 @@ export const useTeachers = (): TeachersState & TeachersActions => {
 
       return false;
     }
-  }, []);
+  }, [approveMutation.mutateAsync]);
 
   const updateTeacher = useCallback(async (
-    teacherId: string, 
+    teacherId: string,
     data: TeacherUpdateRequest
   ): Promise<boolean> => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    setActionError(null);
 
     try {
-      const response = await apiClient.updateTeacher(teacherId, data);
-      
-      if (response.success && response.data) {
-        // Update the teacher in the local state
-        setState(prev => ({
-          ...prev,
-          teachers: prev.teachers.map(teacher => 
-            teacher.id === teacherId ? response.data! : teacher
-          ),
-          isLoading: false,
-        }));
+      const response = await updateMutation.mutateAsync({ teacherId, data });
 
+      if (response.success && response.data) {
         toast.success('Teacher Updated', {
           description: 'Teacher information has been updated successfully.',
         });
@@ -252,18 +206,10 @@ export const useTeachers = (): TeachersState & TeachersActions => {
         return true;
       }
 
-      setState(prev => ({ ...prev, isLoading: false }));
       return false;
     } catch (error) {
-      const errorMessage = error instanceof ApiError 
-        ? error.message 
-        : 'Failed to update teacher. Please try again.';
-
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: errorMessage,
-      }));
+      const errorMessage = getErrorMessage(error, 'Failed to update teacher. Please try again.');
+      setActionError(errorMessage);
 
       toast.error('Update Failed', {
         description: errorMessage,
@@ -271,28 +217,57 @@ export const useTeachers = (): TeachersState & TeachersActions => {
 
       return false;
     }
-  }, []);
+  }, [updateMutation.mutateAsync]);
+
+  const unlockTeacher = useCallback(async (teacherId: string): Promise<boolean> => {
+    setActionError(null);
+
+    try {
+      const response = await unlockMutation.mutateAsync(teacherId);
+
+      if (response.success) {
+        toast.success('Lockout Cleared', {
+          description: response.message || 'The teacher can sign in again.',
+        });
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      const errorMessage = getErrorMessage(error, 'Failed to clear the lockout. Please try again.');
+      setActionError(errorMessage);
+
+      toast.error('Unlock Failed', {
+        description: errorMessage,
+      });
+
+      return false;
+    }
+  }, [unlockMutation.mutateAsync]);
 
   const refresh = useCallback(() => {
     fetchTeachers();
   }, [fetchTeachers]);
 
   const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null }));
+    setActionError(null);
   }, []);
 
-  // Auto-fetch on mount
-  useEffect(() => {
-    fetchTeachers();
-  }, [fetchTeachers]);
+  const isMutating = addMutation.isPending || deleteMutation.isPending ||
+    approveMutation.isPending || updateMutation.isPending || unlockMutation.isPending;
 
   return {
-    ...state,
+    teachers: teachersQuery.data ?? [],
+    isLoading: teachersQuery.isLoading || isMutating,
+    error: actionError ?? (teachersQuery.error
+      ? getErrorMessage(teachersQuery.error, 'Failed to fetch teachers. Please try again.')
+      : null),
     fetchTeachers,
     addTeacher,
     deleteTeacher,
     approveTeacher,
     updateTeacher,
+    unlockTeacher,
     refresh,
     clearError,
   };
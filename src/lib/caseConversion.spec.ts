@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { camelizeKeys, snakeizeKeys, toCamelCaseKey, toSnakeCaseKey } from "./caseConversion";
+
+describe("case conversion", () => {
+  it("should convert single keys", () => {
+    expect(toCamelCaseKey("requires_class_subject")).toBe("requiresClassSubject");
+    expect(toSnakeCaseKey("requireAdminApproval")).toBe("require_admin_approval");
+  });
+
+  it("should convert nested objects and arrays", () => {
+    expect(
+      camelizeKeys({ site_name: "DFS", allowed_file_types: ["pdf"], owner: { first_name: "Amina" } }),
+    ).toEqual({ siteName: "DFS", allowedFileTypes: ["pdf"], owner: { firstName: "Amina" } });
+  });
+
+  it("should round-trip keys", () => {
+    const payload = { maxFileSize: 10, maintenanceMode: false };
+    expect(camelizeKeys(snakeizeKeys(payload))).toEqual(payload);
+  });
+
+  it("should leave non-plain objects untouched", () => {
+    const formData = new FormData();
+    expect(snakeizeKeys(formData)).toBe(formData);
+    expect(camelizeKeys(null)).toBeNull();
+  });
+});
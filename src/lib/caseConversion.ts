@@ -0,0 +1,33 @@
+/**
+ * Key case conversion between the Django (snake_case) and frontend (camelCase) conventions
+ */
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Object.prototype.toString.call(value) === '[object Object]';
+
+export const toCamelCaseKey = (key: string): string =>
+  key.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+export const toSnakeCaseKey = (key: string): string =>
+  key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+const convertKeys = (value: unknown, convertKey: (key: string) => string): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(item => convertKeys(item, convertKey));
+  }
+
+  // Leave FormData, Blob, Date and other non-plain objects untouched
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nested]) => [convertKey(key), convertKeys(nested, convertKey)])
+  );
+};
+
+export const camelizeKeys = <T = any>(value: unknown): T =>
+  convertKeys(value, toCamelCaseKey) as T;
+
+export const snakeizeKeys = <T = any>(value: unknown): T =>
+  convertKeys(value, toSnakeCaseKey) as T;
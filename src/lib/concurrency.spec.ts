@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { runWithConcurrency } from "./concurrency";
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("runWithConcurrency", () => {
+  it("should never exceed the limit", async () => {
+    let active = 0;
+    let peak = 0;
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await tick();
+      active--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it("should keep results in input order and isolate failures", async () => {
+    const results = await runWithConcurrency([30, 10, 20], 2, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      if (index === 1) throw new Error("upload failed");
+      return delay * 2;
+    });
+
+    expect(results.map(result => result.status)).toEqual(["fulfilled", "rejected", "fulfilled"]);
+    expect(results[0]).toEqual({ status: "fulfilled", value: 60 });
+    expect(results[2]).toEqual({ status: "fulfilled", value: 40 });
+  });
+});
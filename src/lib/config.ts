@@ -8,12 +8,26 @@ export const config = {
   api: {
     baseUrl: import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api',
     timeout: parseInt(import.meta.env.VITE_API_TIMEOUT || '10000', 10),
+    // Idempotent requests retry dropped connections, 429 and 5xx with exponential backoff
+    retryAttempts: 3,
+    retryBaseDelay: 500, // Doubled on each attempt
+    retryMaxDelay: 30 * 1000, // A longer Retry-After fails the request instead of holding it
   },
 
   // Development Settings
   dev: {
     debugMode: import.meta.env.VITE_DEBUG_MODE === 'true',
-    logLevel: import.meta.env.VITE_LOG_LEVEL || 'info',
+    logLevel: import.meta.env.VITE_LOG_LEVEL || 'info', // debug, info, warn or error; debug mode logs everything
+    logBufferSize: 200, // Recent log entries kept for error reports and diagnostics
+  },
+
+  // Error Reporting
+  reporting: {
+    collectorUrl: import.meta.env.VITE_ERROR_COLLECTOR_URL || '', // Empty keeps reports in the browser
+    batchSize: 10, // Reports sent together
+    flushInterval: 10 * 1000, // Longest a report waits for the rest of its batch
+    maxQueued: 50, // Reports kept while the collector is unreachable; older ones are dropped
+    logsPerReport: 30, // Recent log entries attached to each report
   },
 
   // Application Settings
@@ -26,6 +40,11 @@ export const config = {
   // File Upload Settings
   upload: {
     maxFileSize: 10 * 1024 * 1024, // 10MB
+    maxConcurrentUploads: 3, // Files sent at once by Upload All
+    chunkedUploadThreshold: 5 * 1024 * 1024, // Larger files upload in resumable chunks
+    chunkSize: 1024 * 1024, // 1MB
+    chunkTimeout: 60 * 1000, // A chunk that takes longer is treated as a dropped connection
+    resumeStateMaxAge: 24 * 60 * 60 * 1000, // Saved upload progress older than this starts over
     allowedFileTypes: [
       'application/pdf',
       'application/msword',
@@ -42,11 +61,21 @@ export const config = {
     ],
   },
 
+  // File Download Settings
+  download: {
+    // Ask before fetching files larger than this; low-end laptops can run out of memory
+    confirmSizeThreshold: parseInt(import.meta.env.VITE_DOWNLOAD_CONFIRM_SIZE || String(50 * 1024 * 1024), 10),
+    flushSize: 8 * 1024 * 1024, // Without a save dialog, received bytes are folded into a Blob every 8MB
+  },
+
   // Authentication Settings
   auth: {
     tokenKey: 'dfs_access_token',
     refreshTokenKey: 'dfs_refresh_token',
     userKey: 'dfs_user',
+    lastActivityKey: 'dfs_last_activity', // Shared by all tabs so they agree on the idle timer
+    syncChannel: 'dfs-auth', // BroadcastChannel for login, logout and activity across tabs
+    activitySyncInterval: 15 * 1000, // How often a busy tab tells the others it is still in use
     otpLength: 6,
     otpExpiryMinutes: 10,
   },
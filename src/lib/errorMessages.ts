@@ -0,0 +1,111 @@
+/**
+ * User-facing error messages
+ * One catalog for every message the error handling shows, so a locale can
+ * replace the English text with setErrorMessages()
+ */
+
+import {
+  ApiError,
+  AuthenticationError,
+  ConflictError,
+  NetworkError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from '../services/errors';
+
+const englishMessages = {
+  authentication: 'Your session has expired. Please sign in again.',
+  permission: 'You do not have permission to do that.',
+  validation: 'Please correct the highlighted fields.',
+  conflict: 'Someone else changed this in the meantime. Refresh and try again.',
+  rateLimit: 'Too many attempts. Please wait {seconds} seconds and try again.',
+  rateLimitUnknown: 'Too many attempts. Please wait a moment and try again.',
+  offline: 'Unable to connect to server. Please check your connection.',
+  timeout: 'The server took too long to respond. Please try again.',
+  server: 'Something went wrong on our side. Please try again shortly.',
+  unknown: 'Something went wrong. Please try again.',
+
+  // Field messages, matched from Django's stock validation messages
+  fieldRequired: 'This field is required.',
+  fieldBlank: 'This field cannot be empty.',
+  fieldInvalidEmail: 'Enter a valid email address.',
+  fieldEmailTaken: 'An account with this email address already exists.',
+  fieldNameTaken: 'This name is already in use.',
+  fieldTooLong: 'Use no more than {max} characters.',
+  fieldPasswordTooShort: 'Use at least {min} characters.',
+  fieldPasswordTooCommon: 'This password is too common. Choose something harder to guess.',
+  fieldPasswordNumeric: 'The password cannot be only numbers.',
+  fieldPasswordSimilar: 'The password is too similar to your {attribute}.',
+  fieldCurrentPasswordIncorrect: 'Your current password is incorrect.',
+};
+
+export type ErrorMessageKey = keyof typeof englishMessages;
+
+let messages: Record<ErrorMessageKey, string> = { ...englishMessages };
+
+/**
+ * Replace some or all of the catalog, e.g. with a translation
+ */
+export const setErrorMessages = (overrides: Partial<Record<ErrorMessageKey, string>>): void => {
+  messages = { ...messages, ...overrides };
+};
+
+export const formatErrorMessage = (key: ErrorMessageKey, values: Record<string, string | number> = {}): string =>
+  messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder);
+
+// Django's built-in messages, in the order they are checked
+const fieldMessagePatterns: { pattern: RegExp; key: ErrorMessageKey; values?: (match: RegExpMatchArray) => Record<string, string> }[] = [
+  { pattern: /^this field is required\.?$/i, key: 'fieldRequired' },
+  { pattern: /^this field may not be (blank|null)\.?$/i, key: 'fieldBlank' },
+  { pattern: /^enter a valid email address\.?$/i, key: 'fieldInvalidEmail' },
+  { pattern: /user with this email( address)? already exists/i, key: 'fieldEmailTaken' },
+  { pattern: /with this name already exists/i, key: 'fieldNameTaken' },
+  { pattern: /no more than (\d+) characters/i, key: 'fieldTooLong', values: match => ({ max: match[1] }) },
+  { pattern: /password is too short\. it must contain at least (\d+) characters/i, key: 'fieldPasswordTooShort', values: match => ({ min: match[1] }) },
+  { pattern: /password is too common/i, key: 'fieldPasswordTooCommon' },
+  { pattern: /password is entirely numeric/i, key: 'fieldPasswordNumeric' },
+  { pattern: /password is too similar to the (.+?)\.?$/i, key: 'fieldPasswordSimilar', values: match => ({ attribute: match[1] }) },
+  { pattern: /current password is incorrect/i, key: 'fieldCurrentPasswordIncorrect' },
+];
+
+/**
+ * Reword a backend field error from the catalog; messages the catalog does
+ * not know are shown as the backend wrote them
+ */
+export const localizeFieldError = (message: string): string => {
+  for (const { pattern, key, values } of fieldMessagePatterns) {
+    const match = message.match(pattern);
+    if (match) return formatErrorMessage(key, values?.(match));
+  }
+  return message;
+};
+
+const fallbackFor = (error: ApiError): string => {
+  if (error instanceof AuthenticationError) return formatErrorMessage('authentication');
+  if (error instanceof PermissionError) return formatErrorMessage('permission');
+  if (error instanceof ConflictError) return formatErrorMessage('conflict');
+  return formatErrorMessage('unknown');
+};
+
+/**
+ * A message for an error that is not tied to a form field
+ */
+export const describeError = (error: unknown): string => {
+  if (error instanceof RateLimitError) {
+    return error.retryAfter === undefined
+      ? formatErrorMessage('rateLimitUnknown')
+      : formatErrorMessage('rateLimit', { seconds: Math.ceil(error.retryAfter) });
+  }
+  if (error instanceof NetworkError) return formatErrorMessage(error.reason);
+  if (error instanceof ValidationError) {
+    if (error.nonFieldErrors.length > 0) return error.nonFieldErrors.map(localizeFieldError).join(' ');
+    return error.message ? localizeFieldError(error.message) : formatErrorMessage('validation');
+  }
+  if (error instanceof ServerError) return formatErrorMessage('server');
+  // Auth, permission and conflict errors carry the backend's own explanation
+  if (error instanceof ApiError) return error.message || fallbackFor(error);
+  return formatErrorMessage('unknown');
+};
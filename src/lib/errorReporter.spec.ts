@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { config } from "./config";
+import { clearRecentLogs, createLogger, getRecentLogs, setLogUser } from "./logger";
+import { buildErrorReport, flushErrorReports, formatDiagnostics, reportError } from "./errorReporter";
+
+describe("logger", () => {
+  beforeEach(() => {
+    clearRecentLogs();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setLogUser({});
+    vi.restoreAllMocks();
+  });
+
+  it("should keep structured entries with the user and request context", () => {
+    setLogUser({ userId: "7", role: "teacher" });
+    createLogger("api").warn("Request failed", { status: 503 }, { requestId: "abc123" });
+
+    const [entry] = getRecentLogs();
+    expect(entry).toMatchObject({
+      level: "warn",
+      scope: "api",
+      message: "Request failed",
+      data: { status: 503 },
+      context: { userId: "7", role: "teacher", requestId: "abc123" },
+    });
+    expect(console.warn).toHaveBeenCalledWith("[api] Request failed", { status: 503 });
+  });
+
+  it("should keep only the most recent entries", () => {
+    const log = createLogger("test");
+    for (let i = 0; i < config.dev.logBufferSize + 5; i++) {
+      log.error(`Entry ${i}`);
+    }
+
+    const logs = getRecentLogs();
+    expect(logs).toHaveLength(config.dev.logBufferSize);
+    expect(logs[0].message).toBe("Entry 5");
+  });
+});
+
+describe("error reports", () => {
+  beforeEach(() => {
+    clearRecentLogs();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("should describe the error with the logs leading up to it", () => {
+    createLogger("documents").error("Failed to load preview");
+    const report = buildErrorReport(new TypeError("Cannot read properties of undefined"), "boundary", "\n    at DocumentCard");
+
+    expect(report.error).toMatchObject({ name: "TypeError", message: "Cannot read properties of undefined" });
+    expect(report.componentStack).toContain("DocumentCard");
+    expect(report.logs.map(entry => entry.message)).toEqual(["Failed to load preview"]);
+    expect(JSON.parse(formatDiagnostics(report)).id).toBe(report.id);
+  });
+
+  it("should send queued reports to the collector in one batch", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    vi.stubGlobal("fetch", fetchMock);
+    (config.reporting as { collectorUrl: string }).collectorUrl = "https://errors.example.test/collect";
+
+    try {
+      reportError(new Error("First"), "unhandledrejection");
+      reportError(new Error("Second"), "boundary");
+      await flushErrorReports();
+    } finally {
+      (config.reporting as { collectorUrl: string }).collectorUrl = "";
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const { reports } = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(reports.map((report: { error: { message: string } }) => report.error.message)).toEqual(["First", "Second"]);
+  });
+});
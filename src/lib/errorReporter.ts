@@ -0,0 +1,130 @@
+/**
+ * Error reporting
+ * Crashes caught by the error boundary and unhandled promise rejections are
+ * queued and sent in batches to config.reporting.collectorUrl together with
+ * the log entries that led up to them. Without a collector the reports stay
+ * in the browser, where the error screen can still copy them for support.
+ */
+
+import { config } from './config';
+import { createLogger, getLogContext, getRecentLogs, LogContext, LogEntry, SerializedError, serializeError } from './logger';
+
+export type ErrorSource = 'boundary' | 'unhandledrejection' | 'error';
+
+export interface ErrorReport {
+  id: string;
+  timestamp: string;
+  source: ErrorSource;
+  error: SerializedError;
+  componentStack?: string;
+  context: LogContext;
+  app: { name: string; version: string };
+  userAgent?: string;
+  logs: LogEntry[];
+}
+
+const log = createLogger('reporting');
+
+let queue: ErrorReport[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+let installed = false;
+
+// randomUUID is only available on HTTPS and localhost
+const createReportId = (): string =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const buildErrorReport = (error: unknown, source: ErrorSource, componentStack?: string): ErrorReport => ({
+  id: createReportId(),
+  timestamp: new Date().toISOString(),
+  source,
+  error: serializeError(error),
+  componentStack,
+  context: getLogContext(),
+  app: { name: config.app.name, version: config.app.version },
+  userAgent: typeof navigator === 'undefined' ? undefined : navigator.userAgent,
+  logs: getRecentLogs(config.reporting.logsPerReport),
+});
+
+/**
+ * Text a teacher can paste into a message to support
+ */
+export const formatDiagnostics = (report: ErrorReport): string => JSON.stringify(report, null, 2);
+
+export const flushErrorReports = async ({ beacon = false }: { beacon?: boolean } = {}): Promise<void> => {
+  clearTimeout(flushTimer);
+  flushTimer = undefined;
+
+  const { collectorUrl } = config.reporting;
+  if (!collectorUrl || queue.length === 0) return;
+
+  const batch = queue;
+  queue = [];
+  const body = JSON.stringify({ reports: batch });
+
+  // The page is going away and fetch may not finish
+  if (beacon && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+    navigator.sendBeacon(collectorUrl, new Blob([body], { type: 'application/json' }));
+    return;
+  }
+
+  try {
+    const response = await fetch(collectorUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true,
+    });
+    if (!response.ok) {
+      throw new Error(`Collector responded with ${response.status}`);
+    }
+  } catch (error) {
+    log.warn('Failed to send error reports', error);
+    // Keep them for the next batch, newest first when there is no room
+    queue = [...batch, ...queue].slice(-config.reporting.maxQueued);
+  }
+};
+
+/**
+ * Record an error and queue it for the collector. Returns the report so the
+ * error screen can offer it as diagnostics.
+ */
+export const reportError = (error: unknown, source: ErrorSource, componentStack?: string): ErrorReport => {
+  log.error(`Unhandled error (${source})`, error);
+  const report = buildErrorReport(error, source, componentStack);
+
+  if (!config.reporting.collectorUrl) return report;
+
+  queue = [...queue, report].slice(-config.reporting.maxQueued);
+  if (queue.length >= config.reporting.batchSize) {
+    void flushErrorReports();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => void flushErrorReports(), config.reporting.flushInterval);
+  }
+  return report;
+};
+
+// Cancelled requests reject with AbortError on purpose
+const isAbort = (reason: unknown): boolean => reason instanceof DOMException && reason.name === 'AbortError';
+
+/**
+ * Report unhandled promise rejections and uncaught errors, and send what is
+ * queued when the page is hidden. Safe to call more than once.
+ */
+export const installErrorReporting = (): void => {
+  if (installed || typeof window === 'undefined') return;
+  installed = true;
+
+  window.addEventListener('unhandledrejection', (event) => {
+    if (!isAbort(event.reason)) {
+      reportError(event.reason, 'unhandledrejection');
+    }
+  });
+  window.addEventListener('error', (event) => {
+    reportError(event.error ?? event.message, 'error');
+  });
+  window.addEventListener('pagehide', () => {
+    void flushErrorReports({ beacon: true });
+  });
+};
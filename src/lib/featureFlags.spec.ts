@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { decode, featureFlagRulesSchema, userSchema } from "../services/decoders";
+import { isFeatureEnabled } from "./featureFlags";
+
+const teacher = { id: "12", email: "Wanjiru.Kamau@school.ac.ke", role: "teacher" as const };
+const admin = { id: "1", email: "admin@dfs.co.ke", role: "admin" as const };
+
+describe("feature flags", () => {
+  it("should fall back to the registry default without a rule", () => {
+    expect(isFeatureEnabled("reports", {}, admin)).toBe(true);
+    expect(isFeatureEnabled("publicLinks", {}, null)).toBe(true);
+  });
+
+  it("should let the most specific override win", () => {
+    const rules = {
+      publicLinks: {
+        enabled: false,
+        roles: { teacher: true },
+        schools: { "school.ac.ke": false },
+      },
+    };
+
+    expect(isFeatureEnabled("publicLinks", rules, { ...teacher, featureFlags: { publicLinks: true } })).toBe(true);
+    expect(isFeatureEnabled("publicLinks", rules, teacher)).toBe(false);
+    expect(isFeatureEnabled("publicLinks", rules, { ...teacher, email: "juma@other.ac.ke" })).toBe(true);
+    expect(isFeatureEnabled("publicLinks", rules, admin)).toBe(false);
+    expect(isFeatureEnabled("publicLinks", rules, null)).toBe(false);
+  });
+
+  it("should read snake_case flag names and drop flags the client does not know", () => {
+    const rules = decode(featureFlagRulesSchema, {
+      offline_outbox: { enabled: false },
+      video_lessons: { enabled: true },
+    }, "feature flags");
+
+    expect(rules).toEqual({ offlineOutbox: { enabled: false } });
+  });
+
+  it("should read the user's own overrides from their account", () => {
+    const user = decode(userSchema, {
+      id: 12,
+      email: "wanjiru.kamau@school.ac.ke",
+      first_name: "Wanjiru",
+      last_name: "Kamau",
+      role: "teacher",
+      feature_flags: { offline_outbox: true, video_lessons: true },
+    }, "user");
+
+    expect(user.featureFlags).toEqual({ offlineOutbox: true });
+    expect(isFeatureEnabled("offlineOutbox", { offlineOutbox: { enabled: false } }, user)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Feature flags
+ * Every flag the client knows, with the default it falls back to when the
+ * public settings carry no rule for it. Gating here only hides the feature;
+ * the backend still decides what each user may do.
+ */
+
+import { FeatureFlag, FeatureFlagRules, User } from '../services/types';
+
+interface FeatureFlagDefinition {
+  label: string;
+  description: string;
+  defaultEnabled: boolean;
+}
+
+export const featureFlagRegistry: Record<FeatureFlag, FeatureFlagDefinition> = {
+  documentSharing: {
+    label: 'Document sharing',
+    description: 'Teachers share documents with colleagues and see what was shared with them',
+    defaultEnabled: true,
+  },
+  publicLinks: {
+    label: 'Public links',
+    description: 'Anyone with a link can open a shared document without signing in',
+    defaultEnabled: true,
+  },
+  offlineOutbox: {
+    label: 'Offline outbox',
+    description: 'Uploads made without a connection are kept and sent later',
+    defaultEnabled: true,
+  },
+  reports: {
+    label: 'Reports',
+    description: 'Usage reports for administrators',
+    defaultEnabled: true,
+  },
+  activityLogs: {
+    label: 'Activity logs',
+    description: 'The audit trail of what users did',
+    defaultEnabled: true,
+  },
+};
+
+/**
+ * Whether a flag is on for a user, or for a visitor who is not signed in.
+ * The user's own overrides come with their account, never with the public rules.
+ */
+export const isFeatureEnabled = (
+  flag: FeatureFlag,
+  rules: FeatureFlagRules,
+  user: Pick<User, 'email' | 'role' | 'featureFlags'> | null
+): boolean => {
+  const override = user?.featureFlags?.[flag];
+  if (override !== undefined) return override;
+
+  const rule = rules[flag];
+  if (!rule) return featureFlagRegistry[flag].defaultEnabled;
+  if (!user) return rule.enabled;
+
+  const school = user.email.toLowerCase().split('@')[1];
+  return (school ? rule.schools?.[school] : undefined)
+    ?? rule.roles?.[user.role]
+    ?? rule.enabled;
+};
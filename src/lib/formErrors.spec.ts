@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { ServerError, ValidationError } from "../services/errors";
+import { applyFieldErrors, FormErrorTarget, SERVER_ERROR_FIELD } from "./formErrors";
+
+const fakeForm = (values: Record<string, unknown>) => {
+  const errors: Record<string, { message?: string; focus: boolean }> = {};
+  const form: FormErrorTarget = {
+    setError: (name, error, options) => {
+      errors[name] = { message: error.message, focus: options?.shouldFocus ?? false };
+    },
+    getValues: name => name.split(".").reduce<unknown>((value, key) => (value as Record<string, unknown>)?.[key], values),
+  };
+  return { form, errors };
+};
+
+describe("applyFieldErrors", () => {
+  it("should put field errors on matching fields and the rest on the form", () => {
+    const { form, errors } = fakeForm({ email: "", password: "" });
+    const error = new ValidationError("Invalid", {
+      email: ["User with this email already exists."],
+      password: ["This password is too common."],
+      username: ["This field is required."],
+    });
+
+    expect(applyFieldErrors(error, form)).toBe(true);
+    expect(errors.email).toEqual({ message: "An account with this email address already exists.", focus: true });
+    expect(errors.password.focus).toBe(false);
+    expect(errors[SERVER_ERROR_FIELD].message).toBe("This field is required.");
+  });
+
+  it("should read the errors of a nested part of the request", () => {
+    const { form, errors } = fakeForm({ firstName: "Amina" });
+    const error = new ValidationError("Invalid", { "user.first_name": ["This field may not be blank."] });
+
+    applyFieldErrors(error, form, { scope: "user" });
+    expect(errors.firstName.message).toBe("This field cannot be empty.");
+    expect(errors[SERVER_ERROR_FIELD].message).toBe("Please correct the highlighted fields.");
+  });
+
+  it("should leave other errors to the caller", () => {
+    const { form, errors } = fakeForm({ email: "" });
+    expect(applyFieldErrors(new ServerError("Boom"), form)).toBe(false);
+    expect(applyFieldErrors(new ValidationError("Invalid", { email: ["x"] }), undefined)).toBe(false);
+    expect(errors).toEqual({});
+  });
+});
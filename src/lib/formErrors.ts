@@ -0,0 +1,59 @@
+/**
+ * Show API validation errors on react-hook-form fields
+ */
+
+import type { ErrorOption } from 'react-hook-form';
+import { ValidationError } from '../services/errors';
+import { formatErrorMessage, localizeFieldError } from './errorMessages';
+
+// Where errors that match no field of the form are reported
+export const SERVER_ERROR_FIELD = 'root.server';
+
+/**
+ * The part of a react-hook-form form this needs; any useForm() result fits
+ */
+export interface FormErrorTarget {
+  setError(name: string, error: ErrorOption, options?: { shouldFocus: boolean }): void;
+  getValues(name: string): unknown;
+}
+
+/**
+ * Put each field error of a ValidationError on the form field with the same
+ * name, and errors for fields the form does not have on root.server.
+ * `scope` reads the errors of a nested part of the request, e.g. 'user'
+ * for { user: { ... } }.
+ * Returns false for errors that are not validation errors, which the caller
+ * should report as usual.
+ */
+export const applyFieldErrors = (
+  error: unknown,
+  form: FormErrorTarget | undefined,
+  { scope }: { scope?: string } = {}
+): boolean => {
+  if (!form || !(error instanceof ValidationError)) return false;
+
+  const prefix = scope ? `${scope}.` : '';
+  const unmatched: string[] = [...error.nonFieldErrors.map(localizeFieldError)];
+  let focused = false;
+
+  Object.entries(error.fieldErrors).forEach(([field, messages]) => {
+    if (field === 'nonFieldErrors') return;
+    const name = field.slice(prefix.length);
+    if (!field.startsWith(prefix) || form.getValues(name) === undefined) {
+      unmatched.push(...messages.map(localizeFieldError));
+      return;
+    }
+
+    form.setError(name, {
+      type: 'server',
+      message: messages.map(localizeFieldError).join(' '),
+    }, { shouldFocus: !focused });
+    focused = true;
+  });
+
+  form.setError(SERVER_ERROR_FIELD, {
+    type: 'server',
+    message: unmatched.length > 0 ? unmatched.join(' ') : formatErrorMessage('validation'),
+  });
+  return true;
+};
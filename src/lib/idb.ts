@@ -0,0 +1,90 @@
+/**
+ * IndexedDB helpers
+ * Promise wrappers over the browser database used for upload state and the offline outbox
+ */
+
+const DB_NAME = 'dfs';
+const DB_VERSION = 2;
+
+// Object stores and their key paths; bump DB_VERSION when adding one
+export const STORES = {
+  uploads: 'fingerprint',
+  outbox: 'id',
+} as const;
+
+export type StoreName = keyof typeof STORES;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(STORES) as StoreName[]).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: STORES[name] });
+          }
+        });
+      };
+      // Another tab still holds an older version open and did not close it
+      let blocked = false;
+      request.onblocked = () => {
+        blocked = true;
+        reject(new Error('The local database is in use by another tab. Close other tabs and reload.'));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Too late for the callers that were already turned away
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // A newer version in another tab needs this connection closed to upgrade
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again if opening failed, e.g. in private browsing or while blocked
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
+
+export const idbGet = <T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(name, 'readonly', store => store.get(key));
+
+export const idbGetAll = <T>(name: StoreName): Promise<T[]> =>
+  withStore(name, 'readonly', store => store.getAll());
+
+export const idbPut = async <T>(name: StoreName, value: T): Promise<void> => {
+  await withStore(name, 'readwrite', store => store.put(value));
+};
+
+export const idbDelete = async (name: StoreName, key: IDBValidKey): Promise<void> => {
+  await withStore(name, 'readwrite', store => store.delete(key));
+};
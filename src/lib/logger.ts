@@ -0,0 +1,111 @@
+/**
+ * Structured client logging
+ * Every entry carries the signed-in user, the current route and, for API
+ * calls, the request id. Entries from config.dev.logLevel up (everything in
+ * debug mode) go to the console and into a ring buffer that error reports
+ * and the diagnostics on the error screen include.
+ */
+
+import { config } from './config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+export interface LogContext {
+  userId?: string;
+  role?: string;
+  route?: string;
+  requestId?: string;
+}
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  scope: string;
+  message: string;
+  context: LogContext;
+  data?: unknown;
+}
+
+export interface Logger {
+  debug: (message: string, data?: unknown, context?: LogContext) => void;
+  info: (message: string, data?: unknown, context?: LogContext) => void;
+  warn: (message: string, data?: unknown, context?: LogContext) => void;
+  error: (message: string, data?: unknown, context?: LogContext) => void;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+const minimumLevel = (): LogLevel => {
+  if (config.dev.debugMode) return 'debug';
+  const level = config.dev.logLevel as LogLevel;
+  return level in LEVEL_ORDER ? level : 'info';
+};
+
+let userContext: Pick<LogContext, 'userId' | 'role'> = {};
+let buffer: LogEntry[] = [];
+
+/**
+ * Attach the signed-in user to every later entry; call with {} on logout
+ */
+export const setLogUser = (context: Pick<LogContext, 'userId' | 'role'>): void => {
+  userContext = { ...context };
+};
+
+export const getRecentLogs = (limit: number = config.dev.logBufferSize): LogEntry[] => buffer.slice(-limit);
+
+export const clearRecentLogs = (): void => {
+  buffer = [];
+};
+
+// Errors do not survive JSON.stringify, so keep the parts support can use
+export const serializeError = (error: unknown): SerializedError => {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { name: 'Error', message: typeof error === 'string' ? error : JSON.stringify(error) ?? String(error) };
+};
+
+const currentRoute = (): string | undefined =>
+  typeof window === 'undefined' ? undefined : window.location.pathname;
+
+// The user and route an entry made now would carry
+export const getLogContext = (): LogContext => ({ ...userContext, route: currentRoute() });
+
+export const createLogger = (scope: string): Logger => {
+  const write = (level: LogLevel) => (message: string, data?: unknown, context: LogContext = {}) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[minimumLevel()]) return;
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      scope,
+      message,
+      context: { ...getLogContext(), ...context },
+      ...(data === undefined ? {} : { data: data instanceof Error ? serializeError(data) : data }),
+    };
+    buffer.push(entry);
+    if (buffer.length > config.dev.logBufferSize) {
+      buffer.shift();
+    }
+
+    const args = data === undefined ? [] : [data];
+    console[level](`[${scope}] ${message}`, ...args);
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+};
+
+export const logger = createLogger('app');
+
+export default logger;
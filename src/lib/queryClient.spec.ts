@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { QueryClient } from "@tanstack/react-query";
+import { Document } from "../services/types";
+import { findCachedDocument, queryKeys, restoreQueries, updateCachedDocuments } from "./queryClient";
+
+const makeDocument = (id: string, title: string): Document => ({
+  id,
+  title,
+  fileName: `${title}.pdf`,
+  fileSize: 1024,
+  fileType: "pdf",
+  filePath: "",
+  category: null,
+  teacher: { id: "7", name: "Amina Wanjiru" },
+  isShared: false,
+  downloadCount: 0,
+  status: "active",
+  sharedWith: [],
+  tags: [],
+  createdAt: "2024-01-10T08:00:00Z",
+  updatedAt: "2024-01-10T08:00:00Z",
+} as Document);
+
+describe("query cache helpers", () => {
+  it("should update lists, pages and infinite pages alike", () => {
+    const client = new QueryClient();
+    const first = makeDocument("1", "Scheme");
+    const second = makeDocument("2", "Lesson Plan");
+    client.setQueryData(queryKeys.documents.list(), [first, second]);
+    client.setQueryData([...queryKeys.documents.page(), { page: 1 }], { count: 2, results: [first, second] });
+    client.setQueryData([...queryKeys.documents.page(), { infinite: true }], {
+      pages: [{ count: 2, results: [first] }, { count: 2, results: [second] }],
+      pageParams: [],
+    });
+
+    updateCachedDocuments(client, documents => documents.filter(doc => doc.id !== "2"));
+
+    expect(client.getQueryData<Document[]>(queryKeys.documents.list())).toEqual([first]);
+    expect(client.getQueryData<{ results: Document[] }>([...queryKeys.documents.page(), { page: 1 }])?.results).toEqual([first]);
+    expect(
+      client.getQueryData<{ pages: Array<{ results: Document[] }> }>([...queryKeys.documents.page(), { infinite: true }])
+        ?.pages.map(page => page.results.length),
+    ).toEqual([1, 0]);
+  });
+
+  it("should roll back an optimistic update", () => {
+    const client = new QueryClient();
+    const document = makeDocument("1", "Scheme");
+    client.setQueryData(queryKeys.documents.list(), [document]);
+
+    const snapshot = updateCachedDocuments(client, documents =>
+      documents.map(doc => ({ ...doc, status: "flagged" as const })),
+    );
+    expect(findCachedDocument(client, "1")?.status).toBe("flagged");
+
+    restoreQueries(client, snapshot);
+    expect(findCachedDocument(client, "1")?.status).toBe("active");
+  });
+});
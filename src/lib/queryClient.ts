@@ -0,0 +1,157 @@
+/**
+ * React Query setup
+ * Shared client, query keys and the invalidation map used by the data hooks
+ */
+
+import { QueryCache, QueryClient, QueryKey } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { ApiError } from '../services/errors';
+import { describeError } from './errorMessages';
+import { ActivityLogFilters, Document, PaginatedResponse, SearchFilters } from '../services/types';
+import { createLogger } from './logger';
+
+const log = createLogger('query');
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    queryMeta: {
+      silent?: boolean; // Skip the "Fetch Failed" toast for non-critical queries
+    };
+  }
+}
+
+// Query keys, from broadest to most specific so a prefix invalidates everything below it
+export const queryKeys = {
+  documents: {
+    all: ['documents'] as const,
+    list: (filters?: SearchFilters) => ['documents', 'list', filters ?? {}] as const,
+    page: (filters?: SearchFilters) => ['documents', 'page', filters ?? {}] as const,
+    summary: () => ['documents', 'summary'] as const,
+  },
+  teachers: {
+    all: ['teachers'] as const,
+    list: () => ['teachers', 'list'] as const,
+    page: (filters?: { status?: string; query?: string }) => ['teachers', 'page', filters ?? {}] as const,
+    summary: () => ['teachers', 'summary'] as const,
+  },
+  categories: {
+    all: ['categories'] as const,
+    list: () => ['categories', 'list'] as const,
+  },
+  shares: {
+    all: ['shares'] as const,
+    list: (userId?: string) => ['shares', 'list', userId] as const,
+  },
+  dashboard: {
+    all: ['dashboard'] as const,
+    stats: (role: 'admin' | 'teacher') => ['dashboard', 'stats', role] as const,
+    activity: () => ['dashboard', 'activity'] as const,
+  },
+  activity: {
+    all: ['activity'] as const,
+    page: (filters?: ActivityLogFilters) => ['activity', 'page', filters ?? {}] as const,
+  },
+  reports: {
+    all: ['reports'] as const,
+    data: (timeRange: string) => ['reports', timeRange] as const,
+  },
+  outbox: {
+    all: ['outbox'] as const,
+    list: (ownerId?: string) => ['outbox', 'list', ownerId] as const,
+  },
+  sessions: {
+    all: ['sessions'] as const,
+    list: (teacherId?: string) => ['sessions', 'list', teacherId] as const,
+  },
+  invitations: {
+    all: ['invitations'] as const,
+    list: () => ['invitations', 'list'] as const,
+  },
+};
+
+// Which cached queries each mutation makes stale
+export const invalidationMap = {
+  uploadDocument: [queryKeys.documents.all, queryKeys.categories.all, queryKeys.dashboard.all, queryKeys.activity.all, queryKeys.reports.all],
+  updateDocument: [queryKeys.documents.all, queryKeys.shares.all, queryKeys.dashboard.all],
+  shareDocument: [queryKeys.documents.all, queryKeys.shares.all, queryKeys.dashboard.all, queryKeys.activity.all],
+  deleteDocument: [queryKeys.documents.all, queryKeys.shares.all, queryKeys.categories.all, queryKeys.dashboard.all, queryKeys.activity.all, queryKeys.reports.all],
+  changeDocumentStatus: [queryKeys.documents.all, queryKeys.dashboard.all, queryKeys.activity.all],
+  changeTeacher: [queryKeys.teachers.all, queryKeys.dashboard.all, queryKeys.activity.all, queryKeys.reports.all],
+  deleteTeacher: [queryKeys.teachers.all, queryKeys.documents.all, queryKeys.dashboard.all, queryKeys.activity.all, queryKeys.reports.all],
+  changeCategory: [queryKeys.categories.all, queryKeys.documents.all, queryKeys.dashboard.all],
+  revokeSession: [queryKeys.sessions.all, queryKeys.activity.all],
+  changeInvitation: [queryKeys.invitations.all, queryKeys.activity.all],
+} satisfies Record<string, readonly QueryKey[]>;
+
+export type InvalidatingMutation = keyof typeof invalidationMap;
+
+export const invalidateAfter = (client: QueryClient, mutation: InvalidatingMutation): Promise<void[]> =>
+  Promise.all(invalidationMap[mutation].map(queryKey => client.invalidateQueries({ queryKey })));
+
+// Document lists are cached both as plain arrays and as server pages
+type DocumentCache = Document[] | PaginatedResponse<Document> | { pages: PaginatedResponse<Document>[]; pageParams: unknown[] };
+
+/**
+ * Apply an update to every cached document list, returning the previous
+ * entries so an optimistic change can be rolled back
+ */
+export const updateCachedDocuments = (
+  client: QueryClient,
+  update: (documents: Document[]) => Document[]
+): Array<[QueryKey, unknown]> => {
+  const previous = client.getQueriesData<DocumentCache>({ queryKey: queryKeys.documents.all });
+
+  client.setQueriesData<DocumentCache>({ queryKey: queryKeys.documents.all }, data => {
+    if (!data) return data;
+    if (Array.isArray(data)) return update(data);
+    if ('pages' in data) {
+      return { ...data, pages: data.pages.map(page => ({ ...page, results: update(page.results) })) };
+    }
+    if ('results' in data) return { ...data, results: update(data.results) };
+    return data;
+  });
+
+  return previous;
+};
+
+export const restoreQueries = (client: QueryClient, snapshot: Array<[QueryKey, unknown]>): void => {
+  snapshot.forEach(([queryKey, data]) => client.setQueryData(queryKey, data));
+};
+
+export const findCachedDocument = (client: QueryClient, documentId: string): Document | undefined => {
+  for (const [, data] of client.getQueriesData<DocumentCache>({ queryKey: queryKeys.documents.all })) {
+    const lists = !data ? []
+      : Array.isArray(data) ? [data]
+      : 'pages' in data ? data.pages.map(page => page.results)
+      : 'results' in data ? [data.results]
+      : [];
+    const found = lists.flat().find(doc => doc.id === documentId);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+export const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ApiError ? describeError(error) : fallback;
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      if (query.meta?.silent) {
+        log.error('Background fetch failed', error);
+        return;
+      }
+      toast.error('Fetch Failed', {
+        description: getErrorMessage(error, 'Failed to load data. Please try again.'),
+      });
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      staleTime: 30 * 1000,
+      refetchOnWindowFocus: true,
+      // The HTTP client already retries transient API failures; client errors will not succeed on a second attempt
+      retry: (failureCount, error) => !(error instanceof ApiError) && failureCount < 2,
+    },
+  },
+});
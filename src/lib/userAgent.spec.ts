@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { describeUserAgent } from "./userAgent";
+
+describe("describeUserAgent", () => {
+  it("should name the browser rather than the engines it claims to be", () => {
+    const edge = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0";
+    const chrome = "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
+
+    expect(describeUserAgent(edge)).toEqual({ browser: "Edge", os: "Windows", isMobile: false });
+    expect(describeUserAgent(chrome)).toEqual({ browser: "Chrome", os: "macOS", isMobile: false });
+  });
+
+  it("should recognise phones", () => {
+    const iphone = "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1";
+    const android = "Mozilla/5.0 (Linux; Android 14; SM-A546E) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/24.0 Chrome/117.0.0.0 Mobile Safari/537.36";
+
+    expect(describeUserAgent(iphone)).toEqual({ browser: "Safari", os: "iOS", isMobile: true });
+    expect(describeUserAgent(android)).toEqual({ browser: "Samsung Internet", os: "Android", isMobile: true });
+  });
+
+  it("should fall back for missing or unknown agents", () => {
+    expect(describeUserAgent(undefined)).toEqual({ browser: "Unknown browser", os: "Unknown device", isMobile: false });
+    expect(describeUserAgent("curl/8.5.0").browser).toBe("Unknown browser");
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * User agent descriptions
+ * Turns the User-Agent the backend logged for a session into the browser and
+ * device names people recognise. Order matters: Edge and Opera also claim to
+ * be Chrome, and Chrome also claims to be Safari.
+ */
+
+export interface DeviceDescription {
+  browser: string;
+  os: string;
+  isMobile: boolean;
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Version\/.*Safari\//, 'Safari'],
+];
+
+const SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows NT/, 'Windows'],
+  [/Android/, 'Android'],
+  [/iPad/, 'iPadOS'],
+  [/iPhone|iPod/, 'iOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (userAgent: string, patterns: Array<[RegExp, string]>) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+export const describeUserAgent = (userAgent?: string): DeviceDescription => {
+  const value = userAgent ?? '';
+  return {
+    browser: match(value, BROWSERS) ?? 'Unknown browser',
+    os: match(value, SYSTEMS) ?? 'Unknown device',
+    isMobile: /Mobi|Android|iPhone|iPad|iPod/.test(value),
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { base64UrlToBuffer, bufferToBase64Url, passkeyErrorMessage, toCreationOptions, toRequestOptions } from "./webauthn";
+
+const bytes = (buffer: BufferSource) =>
+  Array.from(buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : new Uint8Array(buffer.buffer));
+
+describe("webauthn", () => {
+  it("should round-trip binary through unpadded, url-safe base64", () => {
+    const encoded = bufferToBase64Url(new Uint8Array([0xfb, 0xff, 0xbf, 0x01]));
+
+    expect(encoded).toBe("-_-_AQ");
+    expect(bytes(base64UrlToBuffer(encoded))).toEqual([0xfb, 0xff, 0xbf, 0x01]);
+  });
+
+  it("should turn the base64url fields of ceremony options into buffers", () => {
+    const creation = toCreationOptions({
+      challenge: "AQID",
+      rp: { name: "Digital Filing System" },
+      user: { id: "BAU", name: "admin@dfs.co.ke", displayName: "Grace Njeri" },
+      pubKeyCredParams: [{ type: "public-key", alg: -7 }],
+      excludeCredentials: [{ type: "public-key", id: "Bgc" }],
+    });
+    const request = toRequestOptions({ challenge: "CAk", allowCredentials: [], userVerification: "preferred" });
+
+    expect(bytes(creation.challenge)).toEqual([1, 2, 3]);
+    expect(bytes(creation.user.id)).toEqual([4, 5]);
+    expect(creation.user.displayName).toBe("Grace Njeri");
+    expect(bytes(creation.excludeCredentials[0].id)).toEqual([6, 7]);
+    expect(bytes(request.challenge)).toEqual([8, 9]);
+    expect(request.userVerification).toBe("preferred");
+  });
+
+  it("should explain the browser's passkey errors and leave other errors alone", () => {
+    expect(passkeyErrorMessage(new DOMException("", "NotAllowedError"))).toBe("The passkey prompt was closed or timed out.");
+    expect(passkeyErrorMessage(new Error("Network down"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Passkey (WebAuthn) ceremonies in the browser
+ * The backend speaks WebAuthn JSON, where binary fields are base64url
+ * strings; navigator.credentials wants and returns ArrayBuffers. These
+ * helpers convert both ways so callers only handle JSON.
+ */
+
+import type { PasskeyLoginRequest, PasskeyRegistrationRequest } from '../services/types';
+
+export const isPasskeySupported = (): boolean =>
+  typeof window !== 'undefined'
+  && typeof window.PublicKeyCredential === 'function'
+  && typeof navigator.credentials?.create === 'function';
+
+export const bufferToBase64Url = (buffer: ArrayBuffer | ArrayBufferView): string => {
+  const bytes = buffer instanceof ArrayBuffer
+    ? new Uint8Array(buffer)
+    : new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const base64UrlToBuffer = (value: string): ArrayBuffer => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+const toDescriptor = (descriptor: PublicKeyCredentialDescriptorJSON): PublicKeyCredentialDescriptor => ({
+  type: 'public-key',
+  id: base64UrlToBuffer(descriptor.id),
+  transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+});
+
+export const toCreationOptions = (json: PublicKeyCredentialCreationOptionsJSON): PublicKeyCredentialCreationOptions => ({
+  ...json,
+  challenge: base64UrlToBuffer(json.challenge),
+  user: { ...json.user, id: base64UrlToBuffer(json.user.id) },
+  excludeCredentials: json.excludeCredentials?.map(toDescriptor),
+  attestation: json.attestation as AttestationConveyancePreference | undefined,
+  extensions: json.extensions as unknown as AuthenticationExtensionsClientInputs | undefined,
+});
+
+export const toRequestOptions = (json: PublicKeyCredentialRequestOptionsJSON): PublicKeyCredentialRequestOptions => ({
+  ...json,
+  challenge: base64UrlToBuffer(json.challenge),
+  allowCredentials: json.allowCredentials?.map(toDescriptor),
+  userVerification: json.userVerification as UserVerificationRequirement | undefined,
+  extensions: json.extensions as unknown as AuthenticationExtensionsClientInputs | undefined,
+});
+
+/**
+ * Ask the browser to create a passkey; resolves with the credential the
+ * backend's registration endpoint expects
+ */
+export const createPasskeyCredential = async (
+  options: PublicKeyCredentialCreationOptionsJSON,
+  signal?: AbortSignal
+): Promise<PasskeyRegistrationRequest['credential']> => {
+  const credential = await navigator.credentials.create({ publicKey: toCreationOptions(options), signal }) as PublicKeyCredential | null;
+  if (!credential) throw new DOMException('No passkey was created', 'NotAllowedError');
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const publicKey = response.getPublicKey?.();
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      attestationObject: bufferToBase64Url(response.attestationObject),
+      authenticatorData: bufferToBase64Url(response.getAuthenticatorData()),
+      publicKey: publicKey ? bufferToBase64Url(publicKey) : undefined,
+      publicKeyAlgorithm: response.getPublicKeyAlgorithm(),
+      transports: response.getTransports?.(),
+    },
+  };
+};
+
+/**
+ * Ask the browser to sign in with a passkey; the user picks which one
+ */
+export const getPasskeyCredential = async (
+  options: PublicKeyCredentialRequestOptionsJSON,
+  signal?: AbortSignal
+): Promise<PasskeyLoginRequest['credential']> => {
+  const credential = await navigator.credentials.get({ publicKey: toRequestOptions(options), signal }) as PublicKeyCredential | null;
+  if (!credential) throw new DOMException('No passkey was chosen', 'NotAllowedError');
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      authenticatorData: bufferToBase64Url(response.authenticatorData),
+      signature: bufferToBase64Url(response.signature),
+      userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : undefined,
+    },
+  };
+};
+
+/**
+ * A readable message for an error from navigator.credentials, or undefined
+ * for errors that did not come from the browser's passkey prompt
+ */
+export const passkeyErrorMessage = (error: unknown): string | undefined => {
+  if (!(error instanceof DOMException)) return undefined;
+
+  switch (error.name) {
+    case 'NotAllowedError':
+      return 'The passkey prompt was closed or timed out.';
+    case 'InvalidStateError':
+      return 'This device already has a passkey for your account.';
+    case 'SecurityError':
+      return 'Passkeys are not available on this address. Use the site over HTTPS.';
+    case 'NotSupportedError':
+      return 'This device does not support the kind of passkey the server asked for.';
+    case 'AbortError':
+      return 'The passkey request was cancelled.';
+    default:
+      return error.message || 'The passkey request failed.';
+  }
+};
@@ -0,0 +1,307 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { invitationAcceptRequestSchema, PasswordPolicy } from '@shared/api';
+import { PasswordContext, passwordErrors } from '@shared/passwordPolicy';
+import { useGlobalSettings } from '../contexts/SettingsContext';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { apiClient } from '../services/api';
+import { InvitationPreview } from '../services/types';
+import { toast } from 'sonner';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '../components/ui/form';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Alert, AlertDescription } from '../components/ui/alert';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+import { Loader2, User, Mail, Phone, Lock, GraduationCap, AlertTriangle, ArrowLeft } from 'lucide-react';
+import { applyFieldErrors, SERVER_ERROR_FIELD } from '../lib/formErrors';
+import { getErrorMessage } from '../lib/queryClient';
+
+// Like registration, but the email is fixed by the invitation and only checked against the password
+const acceptFormSchema = (policy: PasswordPolicy, email: string) => invitationAcceptRequestSchema
+  .extend({
+    firstName: z.string().trim().min(1, 'Enter your first name'),
+    lastName: z.string().trim().min(1, 'Enter your last name'),
+    phoneNumber: z.string().trim(),
+    confirmPassword: z.string().min(1, 'Confirm your password'),
+  })
+  .superRefine((values, ctx) => {
+    passwordErrors(values.password, policy, { ...values, email }).forEach(message =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['password'] }));
+  })
+  .refine(values => values.password === values.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type AcceptFormValues = z.infer<ReturnType<typeof acceptFormSchema>>;
+
+/**
+ * Where an emailed invitation lands: the invited teacher sets their own
+ * password and profile, and can sign in as soon as they submit
+ */
+export default function AcceptInvite() {
+  const { token } = useParams<{ token: string }>();
+  const { getSiteName, passwordPolicy } = useGlobalSettings();
+  const navigate = useNavigate();
+  const startRequest = useLatestRequest();
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [loadError, setLoadError] = useState('');
+
+  const email = invitation?.email ?? '';
+  const schema = useMemo(() => acceptFormSchema(passwordPolicy, email), [passwordPolicy, email]);
+  const form = useForm<AcceptFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      firstName: '',
+      lastName: '',
+      phoneNumber: '',
+      password: '',
+      confirmPassword: '',
+    },
+  });
+  const [firstName, lastName] = form.watch(['firstName', 'lastName']);
+  const context = useMemo<PasswordContext>(() => ({ firstName, lastName, email }), [firstName, lastName, email]);
+
+  useEffect(() => {
+    if (!token) {
+      setLoadError('Invalid invitation link');
+      return;
+    }
+
+    // Leaving the page cancels a load still in flight
+    const signal = startRequest();
+    apiClient.getInvitationPreview(token, { signal })
+      .then(response => setInvitation(response.data!))
+      .catch(error => {
+        if (!signal.aborted) setLoadError(getErrorMessage(error, 'This invitation link is invalid or has expired'));
+      });
+  }, [token, startRequest]);
+
+  const handleSubmit = async (values: AcceptFormValues) => {
+    try {
+      const response = await apiClient.acceptInvitation(token!, {
+        firstName: values.firstName,
+        lastName: values.lastName,
+        phoneNumber: values.phoneNumber,
+        password: values.password,
+      });
+      toast.success('Welcome Aboard', {
+        description: response.message,
+      });
+      navigate('/login', { replace: true });
+    } catch (error) {
+      if (!applyFieldErrors(error, form)) {
+        form.setError(SERVER_ERROR_FIELD, { message: getErrorMessage(error, 'Failed to accept the invitation') });
+      }
+    }
+  };
+
+  const serverError = form.formState.errors.root?.server?.message;
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary-50 via-background to-primary-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md shadow-lg border-0">
+          <CardContent className="pt-6">
+            <div className="text-center space-y-4">
+              <div className="inline-flex items-center justify-center w-16 h-16 bg-warning/10 rounded-full">
+                <AlertTriangle className="w-8 h-8 text-warning" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold">Invitation Unavailable</h2>
+                <p className="text-muted-foreground mt-2">{loadError}</p>
+                <p className="text-muted-foreground mt-1">
+                  Ask your administrator to send you a new invitation.
+                </p>
+              </div>
+              <Button onClick={() => navigate('/login')} className="w-full">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Login
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!invitation) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary-50 via-background to-primary-100 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md shadow-lg border-0">
+          <CardContent className="pt-6">
+            <div className="text-center space-y-4">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              <p className="text-muted-foreground">Checking your invitation...</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-background to-primary-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-lg">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-primary rounded-xl mb-4">
+            <GraduationCap className="w-8 h-8 text-primary-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">You're Invited</h1>
+          <p className="text-muted-foreground mt-1">{getSiteName()} • Kenya</p>
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-semibold text-center">
+              Set Up Your Account
+            </CardTitle>
+            <CardDescription className="text-center">
+              Choose a password and tell us your name to finish joining as a teacher
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4" noValidate>
+                {/* The invited address; fixed by the invitation */}
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Email Address</p>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                    <Input type="email" value={email} className="pl-10" readOnly disabled />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="firstName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>First Name</FormLabel>
+                        <div className="relative">
+                          <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                          <FormControl>
+                            <Input type="text" placeholder="John" className="pl-10" {...field} />
+                          </FormControl>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="lastName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Last Name</FormLabel>
+                        <FormControl>
+                          <Input type="text" placeholder="Doe" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="phoneNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone Number (Optional)</FormLabel>
+                      <div className="relative">
+                        <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input type="tel" placeholder="+254 700 000 000" className="pl-10" {...field} />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input type="password" placeholder="Create a strong password" className="pl-10" autoComplete="new-password" {...field} />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                      <PasswordStrengthMeter password={field.value} context={context} />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input type="password" placeholder="Confirm your password" className="pl-10" autoComplete="new-password" {...field} />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {serverError && (
+                  <Alert className="bg-destructive/10 border-destructive/20">
+                    <AlertDescription className="text-destructive">
+                      {serverError}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={form.formState.isSubmitting}
+                  size="lg"
+                >
+                  {form.formState.isSubmitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Creating Account...
+                    </>
+                  ) : (
+                    'Create Account'
+                  )}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <div className="text-center mt-6">
+          <p className="text-sm text-muted-foreground">
+            Already have an account? {' '}
+            <Link
+              to="/login"
+              className="text-primary hover:underline font-medium"
+            >
+              Sign In
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { activityActionSchema } from '@shared/api';
 import Layout from '../components/Layout';
 import UserAvatar from '../components/UserAvatar';
+import { LoadMoreTrigger } from '../components/PaginationControls';
 import { toast } from 'sonner';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -8,7 +11,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Badge } from '../components/ui/badge';
 import { apiClient } from '../services/api';
-import { ActivityLog } from '../services/types';
+import { ActivityAction, ActivityLog, ActivityLogFilters, PaginationParams, RequestOptions } from '../services/types';
+import { usePaginatedList } from '../hooks/usePaginatedList';
+import { config } from '../lib/config';
+import { getErrorMessage, queryKeys } from '../lib/queryClient';
 import { 
   Search, 
   Filter, 
@@ -28,114 +34,114 @@ import {
   AlertTriangle
 } from 'lucide-react';
 
+const SEVERITIES = ['low', 'medium', 'high'] as const;
+
 export default function AdminActivity() {
-  const [activities, setActivities] = useState<ActivityLog[]>([]);
-  const [filteredActivities, setFilteredActivities] = useState<ActivityLog[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [actionFilter, setActionFilter] = useState('all');
   const [userFilter, setUserFilter] = useState('all');
   const [severityFilter, setSeverityFilter] = useState('all');
   const [dateRange, setDateRange] = useState('7');
-  const [loading, setLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  // Everyone seen in the log so far, so picking a user does not shrink the user list to them
+  const [knownUsers, setKnownUsers] = useState(new Map<string, string>());
 
-  // Load activity logs from API
+  // Wait for typing to settle before querying the server
   useEffect(() => {
-    const loadActivities = async () => {
-      try {
-        setLoading(true);
-        const response = await apiClient.getActivityLogs();
-        
-        // Ensure we have valid data and filter out any potential invalid entries
-        const validActivities = (response.data || []).filter(activity => 
-          activity && 
-          activity.id && 
-          activity.user && 
-          activity.user.id && 
-          activity.user.id.trim() !== ''
-        );
-        
-        setActivities(validActivities);
-        setFilteredActivities(validActivities);
-      } catch (error) {
-        console.error('Failed to load activity logs:', error);
-        toast.error('Failed to load activity logs');
-        // Set empty arrays in case of error to prevent undefined issues
-        setActivities([]);
-        setFilteredActivities([]);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadActivities();
-  }, []);
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), config.ui.debounceDelay);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
-  const handleExportLogs = () => {
-    // Generate and download activity logs CSV
-    const csvHeaders = ['Timestamp', 'User', 'Role', 'Action', 'Target', 'IP Address', 'Severity', 'Details'];
-    const csvRows = filteredActivities.map(activity => [
-      new Date(activity.createdAt).toLocaleString(),
-      `${activity.user?.firstName || ''} ${activity.user?.lastName || ''}`.trim(),
-      activity.user?.role || 'unknown',
-      activity.action || '',
-      activity.targetName || activity.targetType || '',
-      activity.ipAddress || '',
-      activity.severity || 'LOW',
-      (activity.description || '').replace(/,/g, ';') // Replace commas to avoid CSV issues
-    ]);
+  // The filters are applied by the backend, so every loaded page already matches them
+  const filters = useMemo<ActivityLogFilters>(() => ({
+    query: debouncedSearch || undefined,
+    action: actionFilter === 'all' ? undefined : actionFilter as ActivityAction,
+    userId: userFilter === 'all' ? undefined : userFilter,
+    severity: severityFilter === 'all' ? undefined : severityFilter as ActivityLogFilters['severity'],
+    days: Number(dateRange),
+  }), [debouncedSearch, actionFilter, userFilter, severityFilter, dateRange]);
 
-    const csvContent = [csvHeaders, ...csvRows]
-      .map(row => row.map(field => `"${field}"`).join(','))
-      .join('\n');
+  // Logs arrive newest first, one page at a time as the list is scrolled
+  const fetchActivityPage = useCallback(
+    (params: PaginationParams, options: RequestOptions) => apiClient.getActivityLogsPage(filters, params, options),
+    [filters]
+  );
+  const {
+    items: activities,
+    totalCount,
+    isLoading: loading,
+    isLoadingMore,
+    hasNextPage,
+    loadMore,
+  } = usePaginatedList(queryKeys.activity.page(filters), fetchActivityPage, { mode: 'infinite' });
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `activity-logs-${dateRange}days.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Per-severity totals under the other filters; one-item pages, read for their count
+  const severityCounts = useQueries({
+    queries: SEVERITIES.map(severity => {
+      const severityFilters = { ...filters, severity };
+      return {
+        queryKey: [...queryKeys.activity.page(severityFilters), 'count'],
+        queryFn: async ({ signal }: { signal: AbortSignal }) =>
+          (await apiClient.getActivityLogsPage(severityFilters, { page: 1, pageSize: 1 }, { signal })).data.count,
+      };
+    }),
+  });
+  const [lowCount, mediumCount, highCount] = severityCounts.map(query => query.data ?? 0);
 
-    toast.success('Export Complete', {
-      description: `Activity logs for the last ${dateRange} days have been exported successfully`
+  useEffect(() => {
+    setKnownUsers(previous => {
+      const unseen = activities.filter(activity => activity.user?.id && !previous.has(activity.user.id));
+      if (unseen.length === 0) return previous;
+      const next = new Map(previous);
+      unseen.forEach(({ user }) => next.set(user.id, `${user.firstName} ${user.lastName}`.trim() || user.id));
+      return next;
     });
-  };
+  }, [activities]);
 
-  // Filter activities
-  useEffect(() => {
-    if (!activities || activities.length === 0) {
-      setFilteredActivities([]);
-      return;
-    }
+  const handleExportLogs = async () => {
+    setIsExporting(true);
+    try {
+      // The whole filtered range, not just the pages scrolled into view
+      const { data: logs } = await apiClient.getAllActivityLogs(filters);
+      const csvHeaders = ['Timestamp', 'User', 'Role', 'Action', 'Target', 'IP Address', 'Severity', 'Details'];
+      const csvRows = logs.map(activity => [
+        new Date(activity.createdAt).toLocaleString(),
+        `${activity.user?.firstName || ''} ${activity.user?.lastName || ''}`.trim(),
+        activity.user?.role || 'unknown',
+        activity.action || '',
+        activity.targetName || activity.targetType || '',
+        activity.ipAddress || '',
+        activity.severity || 'LOW',
+        (activity.description || '').replace(/,/g, ';') // Replace commas to avoid CSV issues
+      ]);
 
-    let filtered = activities.filter(activity => {
-      // Ensure activity and user data is valid
-      if (!activity || !activity.user || !activity.user.id) return false;
-      
-      // Date range filtering
-      const activityDate = new Date(activity.createdAt);
-      const now = new Date();
-      const daysBack = parseInt(dateRange);
-      const cutoffDate = new Date(now.getTime() - (daysBack * 24 * 60 * 60 * 1000));
-      
-      const matchesDateRange = activityDate >= cutoffDate;
-      
-      const fullUserName = `${activity.user.firstName || ''} ${activity.user.lastName || ''}`.trim();
-      const matchesSearch = fullUserName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                           activity.targetName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                           activity.description?.toLowerCase().includes(searchQuery.toLowerCase());
-      
-      const matchesAction = actionFilter === 'all' || activity.action === actionFilter;
-      const matchesUser = userFilter === 'all' || activity.user.id === userFilter;
-      const matchesSeverity = severityFilter === 'all' || activity.severity?.toLowerCase() === severityFilter;
+      const csvContent = [csvHeaders, ...csvRows]
+        .map(row => row.map(field => `"${field}"`).join(','))
+        .join('\n');
 
-      return matchesDateRange && matchesSearch && matchesAction && matchesUser && matchesSeverity;
-    });
+      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      const link = document.createElement('a');
+      const url = URL.createObjectURL(blob);
+      link.setAttribute('href', url);
+      link.setAttribute('download', `activity-logs-${dateRange}days.csv`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
 
-    setFilteredActivities(filtered);
-  }, [activities, searchQuery, actionFilter, userFilter, severityFilter, dateRange]);
+      toast.success('Export Complete', {
+        description: `${logs.length} activit${logs.length === 1 ? 'y' : 'ies'} from the last ${dateRange} days have been exported`
+      });
+    } catch (error) {
+      toast.error('Export Failed', {
+        description: getErrorMessage(error, 'Failed to export activity logs. Please try again.'),
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   const getActionIcon = (action: string) => {
     switch (action) {
@@ -221,17 +227,6 @@ export default function AdminActivity() {
     return baseAction;
   };
 
-  const users = Array.from(new Set(
-    activities
-      .filter(a => a && a.user && a.user.firstName && a.user.lastName)
-      .map(a => `${a.user.firstName} ${a.user.lastName}`)
-  ));
-  const actions = Array.from(new Set(
-    activities
-      .map(a => a?.action)
-      .filter(action => action && action.trim() !== '')
-  ));
-
   return (
     <Layout>
       <div className="space-y-6">
@@ -260,9 +255,9 @@ export default function AdminActivity() {
                 <SelectItem value="90">Last 3 months</SelectItem>
               </SelectContent>
             </Select>
-            <Button onClick={handleExportLogs}>
+            <Button onClick={handleExportLogs} disabled={isExporting}>
               <Download className="h-4 w-4 mr-2" />
-              Export Logs
+              {isExporting ? 'Exporting...' : 'Export Logs'}
             </Button>
           </div>
         </div>
@@ -272,7 +267,7 @@ export default function AdminActivity() {
           <Card>
             <CardContent className="p-6">
               <div className="flex flex-col space-y-2">
-                <div className="text-2xl font-bold">{filteredActivities.length}</div>
+                <div className="text-2xl font-bold">{totalCount}</div>
                 <p className="text-xs text-muted-foreground">Total Activities</p>
               </div>
             </CardContent>
@@ -281,7 +276,7 @@ export default function AdminActivity() {
             <CardContent className="p-6">
               <div className="flex flex-col space-y-2">
                 <div className="text-2xl font-bold text-success">
-                  {filteredActivities.filter(a => a.severity.toLowerCase() === 'low').length}
+                  {lowCount}
                 </div>
                 <p className="text-xs text-muted-foreground">Low Severity</p>
               </div>
@@ -291,7 +286,7 @@ export default function AdminActivity() {
             <CardContent className="p-6">
               <div className="flex flex-col space-y-2">
                 <div className="text-2xl font-bold text-warning">
-                  {filteredActivities.filter(a => a.severity.toLowerCase() === 'medium').length}
+                  {mediumCount}
                 </div>
                 <p className="text-xs text-muted-foreground">Medium Severity</p>
               </div>
@@ -301,7 +296,7 @@ export default function AdminActivity() {
             <CardContent className="p-6">
               <div className="flex flex-col space-y-2">
                 <div className="text-2xl font-bold text-destructive">
-                  {filteredActivities.filter(a => ['high', 'critical'].includes(a.severity.toLowerCase())).length}
+                  {highCount}
                 </div>
                 <p className="text-xs text-muted-foreground">High Severity</p>
               </div>
@@ -329,13 +324,11 @@ export default function AdminActivity() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Actions</SelectItem>
-                    {actions
-                      .filter(action => action && action.trim() !== '') // Filter out empty actions
-                      .map(action => (
-                        <SelectItem key={action} value={action}>
-                          {action.replace('_', ' ')}
-                        </SelectItem>
-                      ))}
+                    {activityActionSchema.options.map(action => (
+                      <SelectItem key={action} value={action}>
+                        {action.replace('_', ' ')}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
 
@@ -357,19 +350,9 @@ export default function AdminActivity() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Users</SelectItem>
-                    {Array.from(new Set(
-                      activities
-                        .filter(a => a && a.user && a.user.id && a.user.id.trim() !== '')
-                        .map(a => a.user.id)
-                    )).map(userId => {
-                      const activity = activities.find(a => a.user.id === userId);
-                      const userName = activity && activity.user.firstName && activity.user.lastName 
-                        ? `${activity.user.firstName} ${activity.user.lastName}` 
-                        : userId;
-                      return (
-                        <SelectItem key={userId} value={userId}>{userName}</SelectItem>
-                      );
-                    })}
+                    {Array.from(knownUsers, ([userId, userName]) => (
+                      <SelectItem key={userId} value={userId}>{userName}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -380,7 +363,7 @@ export default function AdminActivity() {
         {/* Activity List */}
         <Card>
           <CardHeader>
-            <CardTitle>Recent Activities ({filteredActivities.length})</CardTitle>
+            <CardTitle>Recent Activities ({totalCount})</CardTitle>
             <CardDescription>
               Chronological list of system activities
             </CardDescription>
@@ -392,12 +375,12 @@ export default function AdminActivity() {
               </div>
             ) : (
               <div className="space-y-4">
-                {filteredActivities.length === 0 ? (
+                {activities.length === 0 ? (
                   <div className="text-center py-8 text-muted-foreground">
                     No activities found matching your filters.
                   </div>
                 ) : (
-                  filteredActivities.map((activity) => (
+                  activities.map((activity) => (
                     <div
                       key={activity.id}
                       className="flex items-start gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors w-full"
@@ -460,6 +443,7 @@ export default function AdminActivity() {
                     </div>
                   ))
                 )}
+                <LoadMoreTrigger hasMore={hasNextPage} isLoading={isLoadingMore} onLoadMore={loadMore} />
               </div>
             )}
           </CardContent>
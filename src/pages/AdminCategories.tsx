@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { categoryCreateRequestSchema } from '@shared/api';
 import Layout from '../components/Layout';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
-import { Label } from '../components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Switch } from '../components/ui/switch';
 import { Badge } from '../components/ui/badge';
@@ -25,6 +28,7 @@ import {
   DialogTrigger,
 } from '../components/ui/dialog';
 import { Textarea } from '../components/ui/textarea';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '../components/ui/form';
 import { 
   Search, 
   Plus, 
@@ -40,11 +44,18 @@ import {
   X
 } from 'lucide-react';
 
-interface CategoryFormData {
-  name: string;
-  description: string;
-  requiresClassSubject: boolean;
-}
+const categoryFormSchema = categoryCreateRequestSchema.extend({
+  name: z.string().trim().min(1, 'Category name is required'),
+  description: z.string(),
+});
+
+type CategoryFormData = z.infer<typeof categoryFormSchema>;
+
+const emptyCategoryForm: CategoryFormData = {
+  name: '',
+  description: '',
+  requiresClassSubject: false
+};
 
 export default function AdminCategories() {
   const {
@@ -68,10 +79,10 @@ export default function AdminCategories() {
   const [actionSuccess, setActionSuccess] = useState('');
   const [actionError, setActionError] = useState('');
 
-  const [formData, setFormData] = useState<CategoryFormData>({
-    name: '',
-    description: '',
-    requiresClassSubject: false
+  // Shared by the add and edit dialogs; only one is open at a time
+  const form = useForm<CategoryFormData>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: emptyCategoryForm,
   });
 
   // Filter categories based on search
@@ -101,45 +112,37 @@ export default function AdminCategories() {
     setTimeout(() => setActionError(''), 3000);
   };
 
-  const handleAddCategory = async () => {
-    if (!formData.name.trim()) {
-      showError('Category name is required');
-      return;
-    }
-
+  const handleAddCategory = async (values: CategoryFormData) => {
     const categoryData: CategoryCreateRequest = {
-      name: formData.name,
-      description: formData.description,
-      requiresClassSubject: formData.requiresClassSubject
+      name: values.name,
+      description: values.description,
+      requiresClassSubject: values.requiresClassSubject
     };
 
-    const success = await createCategory(categoryData);
+    const success = await createCategory(categoryData, form);
     if (success) {
       setAddDialogOpen(false);
-      setFormData({ name: '', description: '', requiresClassSubject: false });
+      form.reset(emptyCategoryForm);
       showSuccess('Category created successfully!');
-    } else {
+    } else if (!form.formState.errors.root?.server) {
       showError('Failed to create category');
     }
   };
 
-  const handleEditCategory = async () => {
-    if (!selectedCategory || !formData.name.trim()) {
-      showError('Category name is required');
-      return;
-    }
+  const handleEditCategory = async (values: CategoryFormData) => {
+    if (!selectedCategory) return;
 
     const updateData: CategoryUpdateRequest = {
-      name: formData.name,
-      description: formData.description,
-      requiresClassSubject: formData.requiresClassSubject
+      name: values.name,
+      description: values.description,
+      requiresClassSubject: values.requiresClassSubject
     };
 
     const success = await updateCategory(selectedCategory.id, updateData);
     if (success) {
       setEditDialogOpen(false);
       setSelectedCategory(null);
-      setFormData({ name: '', description: '', requiresClassSubject: false });
+      form.reset(emptyCategoryForm);
       showSuccess('Category updated successfully!');
     } else {
       showError('Failed to update category');
@@ -181,9 +184,14 @@ export default function AdminCategories() {
     }
   };
 
+  const openAddDialog = () => {
+    form.reset(emptyCategoryForm);
+    setAddDialogOpen(true);
+  };
+
   const openEditDialog = (category: DocumentCategory) => {
     setSelectedCategory(category);
-    setFormData({
+    form.reset({
       name: category.name,
       description: category.description,
       requiresClassSubject: category.requiresClassSubject
@@ -196,6 +204,8 @@ export default function AdminCategories() {
     setDeleteDialogOpen(true);
   };
 
+  const categoryFormError = form.formState.errors.root?.server?.message;
+
   const activeCategories = categories.filter(c => c.isActive).length;
   const totalDocuments = categories.reduce((sum, cat) => sum + cat.documentsCount, 0);
   const categoriesWithClassSubject = categories.filter(c => c.requiresClassSubject).length;
@@ -211,7 +221,7 @@ export default function AdminCategories() {
               Organize document types and their requirements
             </p>
           </div>
-          <Button onClick={() => setAddDialogOpen(true)}>
+          <Button onClick={openAddDialog}>
             <Plus className="h-4 w-4 mr-2" />
             Add Category
           </Button>
@@ -377,49 +387,76 @@ export default function AdminCategories() {
                 Create a new document category with the following details
               </DialogDescription>
             </DialogHeader>
-            <div className="grid gap-4 py-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Category Name</Label>
-                <Input
-                  id="name"
-                  value={formData.name}
-                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                  placeholder="Enter category name"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-                  placeholder="Describe what this category is used for"
-                  rows={3}
-                />
-              </div>
-              <div className="flex items-center justify-between">
-                <div className="space-y-1">
-                  <Label htmlFor="requiresClassSubject">Requires Class & Subject</Label>
-                  <p className="text-sm text-muted-foreground">
-                    Documents in this category must specify a class and subject
-                  </p>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleAddCategory)} noValidate>
+                <div className="grid gap-4 py-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter category name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Description</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="Describe what this category is used for"
+                            rows={3}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="requiresClassSubject"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between space-y-0">
+                        <div className="space-y-1">
+                          <FormLabel>Requires Class & Subject</FormLabel>
+                          <FormDescription>
+                            Documents in this category must specify a class and subject
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  {categoryFormError && (
+                    <Alert className="bg-destructive/10 border-destructive/20">
+                      <AlertTriangle className="h-4 w-4 text-destructive" />
+                      <AlertDescription className="text-destructive">
+                        {categoryFormError}
+                      </AlertDescription>
+                    </Alert>
+                  )}
                 </div>
-                <Switch
-                  id="requiresClassSubject"
-                  checked={formData.requiresClassSubject}
-                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, requiresClassSubject: checked }))}
-                />
-              </div>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setAddDialogOpen(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleAddCategory}>
-                <Save className="h-4 w-4 mr-2" />
-                Create Category
-              </Button>
-            </DialogFooter>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setAddDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Create Category
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
           </DialogContent>
         </Dialog>
 
@@ -432,58 +469,77 @@ export default function AdminCategories() {
                 Update the category details
               </DialogDescription>
             </DialogHeader>
-            <div className="grid gap-4 py-4">
-              <div className="space-y-2">
-                <Label htmlFor="editName">Category Name</Label>
-                <Input
-                  id="editName"
-                  value={formData.name}
-                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                  placeholder="Enter category name"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="editDescription">Description</Label>
-                <Textarea
-                  id="editDescription"
-                  value={formData.description}
-                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
-                  placeholder="Describe what this category is used for"
-                  rows={3}
-                />
-              </div>
-              <div className="flex items-center justify-between">
-                <div className="space-y-1">
-                  <Label htmlFor="editRequiresClassSubject">Requires Class & Subject</Label>
-                  <p className="text-sm text-muted-foreground">
-                    Documents in this category must specify a class and subject
-                  </p>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleEditCategory)} noValidate>
+                <div className="grid gap-4 py-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter category name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Description</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="Describe what this category is used for"
+                            rows={3}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="requiresClassSubject"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between space-y-0">
+                        <div className="space-y-1">
+                          <FormLabel>Requires Class & Subject</FormLabel>
+                          <FormDescription>
+                            Documents in this category must specify a class and subject
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  {selectedCategory && selectedCategory.documentsCount > 0 && (
+                    <Alert className="bg-warning/10 border-warning/20">
+                      <AlertTriangle className="h-4 w-4 text-warning" />
+                      <AlertDescription className="text-warning-foreground">
+                        This category has {selectedCategory.documentsCount} existing documents. 
+                        Changing requirements may affect existing documents.
+                      </AlertDescription>
+                    </Alert>
+                  )}
                 </div>
-                <Switch
-                  id="editRequiresClassSubject"
-                  checked={formData.requiresClassSubject}
-                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, requiresClassSubject: checked }))}
-                />
-              </div>
-              {selectedCategory && selectedCategory.documentsCount > 0 && (
-                <Alert className="bg-warning/10 border-warning/20">
-                  <AlertTriangle className="h-4 w-4 text-warning" />
-                  <AlertDescription className="text-warning-foreground">
-                    This category has {selectedCategory.documentsCount} existing documents. 
-                    Changing requirements may affect existing documents.
-                  </AlertDescription>
-                </Alert>
-              )}
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setEditDialogOpen(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleEditCategory}>
-                <Save className="h-4 w-4 mr-2" />
-                Update Category
-              </Button>
-            </DialogFooter>
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setEditDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={form.formState.isSubmitting}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Update Category
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
           </DialogContent>
         </Dialog>
 
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useTeachers } from '../hooks/useTeachers';
@@ -46,8 +46,7 @@ export default function AdminDashboard() {
     teachers, 
     isLoading: teachersLoading, 
     error: teachersError, 
-    approveTeacher, 
-    fetchTeachers 
+    approveTeacher
   } = useTeachers();
   const { 
     categories, 
@@ -58,8 +57,7 @@ export default function AdminDashboard() {
   const { 
     stats, 
     isLoading: statsLoading, 
-    error: statsError, 
-    fetchDashboardStats 
+    error: statsError
   } = useDashboard('admin');
 
   // Dialog states
@@ -72,13 +70,6 @@ export default function AdminDashboard() {
   // Extract recent activity from dashboard stats (limit to 5)
   const recentActivity = ((stats as DashboardStats)?.recentActivity || []).slice(0, 5);
 
-    // Fetch data on component mount
-  useEffect(() => {
-    fetchTeachers();
-    fetchCategories();
-    fetchDashboardStats();
-  }, [fetchTeachers, fetchCategories, fetchDashboardStats]);
-
   const handleViewReports = () => {
     window.location.href = '/admin/reports';
   };
@@ -107,7 +98,6 @@ export default function AdminDashboard() {
     if (selectedTeacher) {
       try {
         await approveTeacher(selectedTeacher.id, true);
-        fetchTeachers(); // Refresh list
         setApproveDialogOpen(false);
         setSelectedTeacher(null);
       } catch (error) {
@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import Layout from '../components/Layout';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -42,15 +43,21 @@ import {
 import { useDocuments } from '../hooks/useDocuments';
 import { useCategories } from '../hooks/useCategories';
 import { useTeachers } from '../hooks/useTeachers';
+import { usePaginatedList } from '../hooks/usePaginatedList';
+import PaginationControls from '../components/PaginationControls';
+import { apiClient } from '../services/api';
+import { PaginationParams, RequestOptions } from '../services/types';
+import { config } from '../lib/config';
+import { queryKeys } from '../lib/queryClient';
 import { toast } from 'sonner';
 import { getFileIconWithColor, formatFileSize } from '../lib/fileUtils';
 
 export default function AdminDocuments() {
-  const { documents, isLoading, deleteDocument, adminDeleteDocument, flagDocument, archiveDocument } = useDocuments();
+  const { adminDeleteDocument, flagDocument, archiveDocument } = useDocuments(undefined, { fetchOnMount: false });
   const { categories } = useCategories();
   const { teachers } = useTeachers();
-  const [filteredDocuments, setFilteredDocuments] = useState(documents);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('all');
   const [statusFilter, setStatusFilter] = useState('all');
   const [uploaderFilter, setUploaderFilter] = useState('all');
@@ -58,26 +65,52 @@ export default function AdminDocuments() {
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
-  // Initialize filtered documents when documents change
+  // Wait for typing to settle before querying the server
   useEffect(() => {
-    setFilteredDocuments(documents);
-  }, [documents]);
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), config.ui.debounceDelay);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
-  // Filter documents
-  useEffect(() => {
-    let filtered = documents.filter(doc => {
-      const matchesSearch = doc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                           doc.description?.toLowerCase().includes(searchQuery.toLowerCase());
-      
-      const matchesCategory = categoryFilter === 'all' || doc.category?.id === categoryFilter;
-      const matchesStatus = statusFilter === 'all' || doc.status === statusFilter;
-      const matchesUploader = uploaderFilter === 'all' || doc.teacher?.id === uploaderFilter;
+  // Filters are applied by the backend so only the current page is loaded
+  const filters = useMemo(() => ({
+    query: debouncedSearch || undefined,
+    category: categoryFilter === 'all' ? undefined : categoryFilter,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    teacher: uploaderFilter === 'all' ? undefined : uploaderFilter,
+  }), [debouncedSearch, categoryFilter, statusFilter, uploaderFilter]);
+
+  const fetchDocumentsPage = useCallback(
+    (params: PaginationParams, options: RequestOptions) => apiClient.getDocumentsPage(filters, params, options),
+    [filters]
+  );
 
-      return matchesSearch && matchesCategory && matchesStatus && matchesUploader;
-    });
+  const {
+    items: documents,
+    totalCount,
+    page,
+    pageCount,
+    isLoading,
+    goToPage,
+  } = usePaginatedList(queryKeys.documents.page(filters), fetchDocumentsPage);
 
-    setFilteredDocuments(filtered);
-  }, [documents, searchQuery, categoryFilter, statusFilter, uploaderFilter]);
+  // Status totals cover every document, not just the loaded page
+  const { data: summary } = useQuery({
+    queryKey: queryKeys.documents.summary(),
+    queryFn: async ({ signal }) => {
+      const countFor = async (status: string) => {
+        const response = await apiClient.getDocumentsPage({ status }, { page: 1, pageSize: 1 }, { signal });
+        return response.data?.count ?? 0;
+      };
+      const [active, flagged, archived, stats] = await Promise.all([
+        countFor('active'),
+        countFor('flagged'),
+        countFor('archived'),
+        apiClient.getDashboardStats({ signal }),
+      ]);
+      return { active, flagged, archived, downloads: stats.data?.totalDownloads ?? 0 };
+    },
+    meta: { silent: true },
+  });
 
   const getFileTypeDisplay = (fileType: string) => {
     if (!fileType) return 'File';
@@ -143,10 +176,7 @@ export default function AdminDocuments() {
   };
 
   const getTeacherName = (document: any) => {
-    if (document.teacher?.user) {
-      return `${document.teacher.user.firstName} ${document.teacher.user.lastName}`;
-    }
-    return 'Unknown Teacher';
+    return document.teacher?.name || 'Unknown Teacher';
   };
 
   const handleViewDocument = (document: any) => {
@@ -181,10 +211,12 @@ export default function AdminDocuments() {
     }
   };
 
-  const activeDocuments = documents.filter(d => d.status === 'active').length;
-  const flaggedDocuments = documents.filter(d => d.status === 'flagged').length;
-  const archivedDocuments = documents.filter(d => d.status === 'archived').length;
-  const totalDownloads = documents.reduce((sum, doc) => sum + (doc.downloadCount || 0), 0);
+  const {
+    active: activeDocuments = 0,
+    flagged: flaggedDocuments = 0,
+    archived: archivedDocuments = 0,
+    downloads: totalDownloads = 0,
+  } = summary ?? {};
 
   return (
     <Layout>
@@ -282,14 +314,14 @@ export default function AdminDocuments() {
         {/* Documents List */}
         <Card>
           <CardHeader>
-            <CardTitle>Documents ({filteredDocuments.length})</CardTitle>
+            <CardTitle>Documents ({totalCount})</CardTitle>
             <CardDescription>
               All documents uploaded by teachers in the system
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {filteredDocuments.map((document) => (
+              {documents.map((document) => (
                 <div
                   key={document.id}
                   className="flex flex-col lg:flex-row lg:items-center gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors"
@@ -374,7 +406,20 @@ export default function AdminDocuments() {
                   </div>
                 </div>
               ))}
+              {!isLoading && documents.length === 0 && (
+                <p className="text-center text-sm text-muted-foreground py-8">
+                  No documents match the current filters
+                </p>
+              )}
             </div>
+            <PaginationControls
+              className="mt-6"
+              page={page}
+              pageCount={pageCount}
+              totalCount={totalCount}
+              pageSize={config.ui.itemsPerPage}
+              onPageChange={goToPage}
+            />
           </CardContent>
         </Card>
 
@@ -16,10 +16,26 @@ import {
   CheckCircle,
   Loader2,
   Lock,
-  AlertTriangle
+  AlertTriangle,
+  KeyRound
 } from 'lucide-react';
+import { DEFAULT_PASSWORD_POLICY } from '@shared/passwordPolicy';
 import { useSettings } from '../hooks/useSettings';
+import { useGlobalSettings } from '../contexts/SettingsContext';
 import { toast } from 'sonner';
+import { PasswordPolicy } from '../services/types';
+
+type PasswordPolicySwitch = Exclude<keyof PasswordPolicy, 'minLength' | 'historyCount' | 'maxAgeDays'>;
+
+// The policy's on/off rules, in the order the checklist under password fields lists them
+const POLICY_SWITCHES: { key: PasswordPolicySwitch; label: string; description: string }[] = [
+  { key: 'requireUppercase', label: 'Require an Uppercase Letter', description: 'Passwords must contain at least one capital letter' },
+  { key: 'requireLowercase', label: 'Require a Lowercase Letter', description: 'Passwords must contain at least one small letter' },
+  { key: 'requireDigit', label: 'Require a Number', description: 'Passwords must contain at least one digit' },
+  { key: 'requireSymbol', label: 'Require a Symbol', description: 'Passwords must contain at least one character such as ! or #' },
+  { key: 'disallowPersonalInfo', label: 'Disallow Name or Email', description: "Passwords may not contain the user's name or the start of their email address" },
+  { key: 'disallowCommonPasswords', label: 'Disallow Common Passwords', description: 'Reject passwords from the list of most guessed passwords' },
+];
 
 export default function AdminSettings() {
   const { 
@@ -30,6 +46,7 @@ export default function AdminSettings() {
     updateSecuritySettings,
     refresh
   } = useSettings('admin');
+  const { refreshSettings } = useGlobalSettings();
 
   // Initialize local state with empty values - will be populated from backend
   const [localSystemSettings, setLocalSystemSettings] = useState({
@@ -46,9 +63,23 @@ export default function AdminSettings() {
   // Security Settings - Initialize with empty values
   const [localSecuritySettings, setLocalSecuritySettings] = useState({
     twoFactorRequired: false,
+    adminTotpRequired: false,
+    adminPasskeyRequired: false,
+    lockoutThreshold: '5',
+    lockoutMinutes: '15',
     enableAuditLogs: false
   });
 
+  // Password Policy - saved along with the security settings
+  const [localPasswordPolicy, setLocalPasswordPolicy] = useState({
+    ...DEFAULT_PASSWORD_POLICY,
+    minLength: DEFAULT_PASSWORD_POLICY.minLength.toString(),
+    historyCount: DEFAULT_PASSWORD_POLICY.historyCount.toString(),
+    maxAgeDays: DEFAULT_PASSWORD_POLICY.maxAgeDays.toString(),
+  });
+
+  const [lockoutMinutesError, setLockoutMinutesError] = useState('');
+
   // Track if user tried to interact with audit logs
   const [showAuditWarning, setShowAuditWarning] = useState(false);
 
@@ -74,8 +105,19 @@ export default function AdminSettings() {
     if (securitySettings) {
       setLocalSecuritySettings({
         twoFactorRequired: securitySettings.twoFactorRequired !== undefined ? securitySettings.twoFactorRequired : false,
+        adminTotpRequired: securitySettings.adminTotpRequired ?? false,
+        adminPasskeyRequired: securitySettings.adminPasskeyRequired ?? false,
+        lockoutThreshold: securitySettings.lockoutThreshold?.toString() ?? '5',
+        lockoutMinutes: securitySettings.lockoutMinutes?.toString() ?? '15',
         enableAuditLogs: true // Always force audit logs to be enabled
       });
+      const policy = securitySettings.passwordPolicy ?? DEFAULT_PASSWORD_POLICY;
+      setLocalPasswordPolicy({
+        ...policy,
+        minLength: policy.minLength.toString(),
+        historyCount: policy.historyCount.toString(),
+        maxAgeDays: policy.maxAgeDays.toString(),
+      });
     }
   }, [securitySettings]);
 
@@ -107,9 +149,25 @@ export default function AdminSettings() {
   };
 
   const handleSecuritySave = async () => {
+    const lockoutMinutes = parseInt(localSecuritySettings.lockoutMinutes);
+    if (Number.isNaN(lockoutMinutes)) {
+      setLockoutMinutesError('Enter a lockout duration between 1 and 1440 minutes');
+      return;
+    }
+
     try {
       const updatedSettings = {
         twoFactorRequired: localSecuritySettings.twoFactorRequired,
+        adminTotpRequired: localSecuritySettings.adminTotpRequired,
+        adminPasskeyRequired: localSecuritySettings.adminPasskeyRequired,
+        lockoutThreshold: parseInt(localSecuritySettings.lockoutThreshold) || 0,
+        lockoutMinutes: Math.min(1440, Math.max(1, lockoutMinutes)),
+        passwordPolicy: {
+          ...localPasswordPolicy,
+          minLength: parseInt(localPasswordPolicy.minLength),
+          historyCount: parseInt(localPasswordPolicy.historyCount) || 0,
+          maxAgeDays: parseInt(localPasswordPolicy.maxAgeDays) || 0,
+        },
         enableAuditLogs: true // Always force audit logs to be enabled
       };
 
@@ -117,6 +175,8 @@ export default function AdminSettings() {
       if (success) {
         // The useSettings hook automatically updates its state after successful update
         refresh();
+        // Password fields across the app check against the new policy
+        refreshSettings();
       }
     } catch (error) {
       toast.error('Failed to save security settings');
@@ -325,6 +385,67 @@ export default function AdminSettings() {
                     />
                   </div>
 
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <Label>Require Authenticator App for Admins</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Admin accounts must confirm sign-ins with an authenticator app instead of an emailed code
+                      </p>
+                    </div>
+                    <Switch
+                      checked={localSecuritySettings.adminTotpRequired}
+                      onCheckedChange={(checked) => setLocalSecuritySettings(prev => ({ ...prev, adminTotpRequired: checked }))}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <Label>Require Passkeys for Admins</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Admins who have added a passkey can no longer sign in with a password
+                      </p>
+                    </div>
+                    <Switch
+                      checked={localSecuritySettings.adminPasskeyRequired}
+                      onCheckedChange={(checked) => setLocalSecuritySettings(prev => ({ ...prev, adminPasskeyRequired: checked }))}
+                    />
+                  </div>
+
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="lockoutThreshold">Failed Sign-ins Before Lockout</Label>
+                      <Input
+                        id="lockoutThreshold"
+                        type="number"
+                        min="0"
+                        max="20"
+                        value={localSecuritySettings.lockoutThreshold}
+                        onChange={(e) => setLocalSecuritySettings(prev => ({ ...prev, lockoutThreshold: e.target.value }))}
+                      />
+                      <p className="text-xs text-muted-foreground">0 never locks an account</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="lockoutMinutes">Lockout Duration (minutes)</Label>
+                      <Input
+                        id="lockoutMinutes"
+                        type="number"
+                        min="1"
+                        max="1440"
+                        value={localSecuritySettings.lockoutMinutes}
+                        onChange={(e) => {
+                          setLocalSecuritySettings(prev => ({ ...prev, lockoutMinutes: e.target.value }));
+                          setLockoutMinutesError('');
+                        }}
+                        aria-invalid={Boolean(lockoutMinutesError)}
+                      />
+                      {lockoutMinutesError ? (
+                        <p className="text-xs text-destructive">{lockoutMinutesError}</p>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">Doubles with each further lockout, up to a day</p>
+                      )}
+                    </div>
+                  </div>
+
                   <div className="flex items-center justify-between p-3 rounded-lg border-2 border-dashed border-muted bg-muted/20">
                     <div className="space-y-1">
                       <div className="flex items-center gap-2">
@@ -357,6 +478,76 @@ export default function AdminSettings() {
                 </Button>
               </CardContent>
             </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <KeyRound className="h-5 w-5" />
+                  Password Policy
+                </CardTitle>
+                <CardDescription>
+                  Rules for new passwords at registration, reset and change
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="minLength">Minimum Length</Label>
+                    <Input
+                      id="minLength"
+                      type="number"
+                      min="6"
+                      max="128"
+                      value={localPasswordPolicy.minLength}
+                      onChange={(e) => setLocalPasswordPolicy(prev => ({ ...prev, minLength: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="historyCount">Password History</Label>
+                    <Input
+                      id="historyCount"
+                      type="number"
+                      min="0"
+                      max="24"
+                      value={localPasswordPolicy.historyCount}
+                      onChange={(e) => setLocalPasswordPolicy(prev => ({ ...prev, historyCount: e.target.value }))}
+                    />
+                    <p className="text-xs text-muted-foreground">Recent passwords that cannot be reused; 0 allows any</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="maxAgeDays">Maximum Age (days)</Label>
+                    <Input
+                      id="maxAgeDays"
+                      type="number"
+                      min="0"
+                      max="365"
+                      value={localPasswordPolicy.maxAgeDays}
+                      onChange={(e) => setLocalPasswordPolicy(prev => ({ ...prev, maxAgeDays: e.target.value }))}
+                    />
+                    <p className="text-xs text-muted-foreground">Older passwords must be changed at sign-in; 0 never expires</p>
+                  </div>
+                </div>
+
+                <div className="space-y-4">
+                  {POLICY_SWITCHES.map(({ key, label, description }) => (
+                    <div key={key} className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <Label>{label}</Label>
+                        <p className="text-sm text-muted-foreground">{description}</p>
+                      </div>
+                      <Switch
+                        checked={localPasswordPolicy[key]}
+                        onCheckedChange={(checked) => setLocalPasswordPolicy(prev => ({ ...prev, [key]: checked }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <Button onClick={handleSecuritySave}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Password Policy
+                </Button>
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       </div>
@@ -1,6 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { invitationCreateRequestSchema } from '@shared/api';
 import Layout from '../components/Layout';
 import UserAvatar from '../components/UserAvatar';
+import SessionsAndDevices from '../components/SessionsAndDevices';
+import TeacherInvitations from '../components/TeacherInvitations';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
@@ -27,6 +34,7 @@ import {
   DialogTrigger,
 } from '../components/ui/dialog';
 import { Textarea } from '../components/ui/textarea';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '../components/ui/form';
 import { 
   Search, 
   Filter, 
@@ -51,72 +59,110 @@ import {
   Activity,
   Pause,
   Play,
-  Loader2
+  Loader2,
+  MonitorSmartphone,
+  Lock,
+  LockOpen
 } from 'lucide-react';
+import PaginationControls from '../components/PaginationControls';
 import { useTeachers } from '../hooks/useTeachers';
-import { useDocuments } from '../hooks/useDocuments';
+import { useInvitations } from '../hooks/useInvitations';
+import { usePaginatedList } from '../hooks/usePaginatedList';
+import { apiClient } from '../services/api';
+import { config } from '../lib/config';
+import { queryKeys } from '../lib/queryClient';
 import { toast } from 'sonner';
-import { Teacher } from '../services/types';
-
-interface NewTeacherData {
-  firstName: string;
-  lastName: string;
-  email: string;
-  phoneNumber: string;
-  temporaryPassword: string;
-}
-
-interface NewTeacherData {
-  firstName: string;
-  lastName: string;
-  email: string;
-  phoneNumber: string;
-  temporaryPassword: string;
-}
+import { InvitationBatch, PaginationParams, RequestOptions, Teacher } from '../services/types';
+
+// Addresses can be pasted one per line or separated by commas, semicolons or spaces
+const splitEmails = (value: string) =>
+  [...new Set(value.split(/[\s,;]+/).map(email => email.trim().toLowerCase()).filter(Boolean))];
+
+const isEmail = (value: string) => invitationCreateRequestSchema.shape.emails.element.safeParse(value).success;
+
+const inviteSchema = z.object({
+  emails: z.string(),
+}).superRefine(({ emails }, ctx) => {
+  const addresses = splitEmails(emails);
+  const invalid = addresses.filter(email => !isEmail(email));
+  if (addresses.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter at least one email address', path: ['emails'] });
+  } else if (invalid.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Not a valid email address: ${invalid.join(', ')}`, path: ['emails'] });
+  } else if (!invitationCreateRequestSchema.safeParse({ emails: addresses }).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invite at most 100 teachers at a time', path: ['emails'] });
+  }
+});
+
+type InviteData = z.infer<typeof inviteSchema>;
 
 export default function AdminTeachers() {
-  const { teachers, isLoading, addTeacher, deleteTeacher, approveTeacher, updateTeacher } = useTeachers();
-  const { documents } = useDocuments();
-  const [filteredTeachers, setFilteredTeachers] = useState<Teacher[]>([]);
+  const { deleteTeacher, approveTeacher, updateTeacher, unlockTeacher } = useTeachers({ fetchOnMount: false });
+  const { sendInvitations } = useInvitations();
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [selectedTeacher, setSelectedTeacher] = useState<Teacher | null>(null);
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
-  const [addTeacherDialogOpen, setAddTeacherDialogOpen] = useState(false);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [skippedInvites, setSkippedInvites] = useState<InvitationBatch['skipped']>([]);
   const [approveDialogOpen, setApproveDialogOpen] = useState(false);
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [suspendDialogOpen, setSuspendDialogOpen] = useState(false);
+  const [sessionsDialogOpen, setSessionsDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [rejectionReason, setRejectionReason] = useState('');
   const [suspensionReason, setSuspensionReason] = useState('');
 
-  const [newTeacher, setNewTeacher] = useState<NewTeacherData>({
-    firstName: '',
-    lastName: '',
-    email: '',
-    phoneNumber: '',
-    temporaryPassword: ''
+  const inviteForm = useForm<InviteData>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { emails: '' },
   });
 
-  // Filter teachers based on search and filter criteria
+  // Wait for typing to settle before querying the server
   useEffect(() => {
-    setFilteredTeachers(teachers);
-  }, [teachers]);
-
-  // Filter teachers based on search and status
-  useEffect(() => {
-    let filtered = teachers.filter(teacher => {
-      const matchesSearch = teacher.user?.firstName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                           teacher.user?.lastName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                           teacher.user?.email?.toLowerCase().includes(searchQuery.toLowerCase());
-      
-      const matchesStatus = statusFilter === 'all' || teacher.status === statusFilter;
-
-      return matchesSearch && matchesStatus;
-    });
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), config.ui.debounceDelay);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Search and status are applied by the backend so only the current page is loaded
+  const filters = useMemo(() => ({
+    query: debouncedSearch || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+  }), [debouncedSearch, statusFilter]);
+
+  const fetchTeachersPage = useCallback(
+    (params: PaginationParams, options: RequestOptions) => apiClient.getTeachersPage(filters, params, options),
+    [filters]
+  );
 
-    setFilteredTeachers(filtered);
-  }, [teachers, searchQuery, statusFilter]);
+  const {
+    items: teachers,
+    totalCount,
+    page,
+    pageCount,
+    isLoading,
+    goToPage,
+  } = usePaginatedList(queryKeys.teachers.page(filters), fetchTeachersPage);
+
+  // Status totals cover every teacher, not just the loaded page
+  const { data: summary } = useQuery({
+    queryKey: queryKeys.teachers.summary(),
+    queryFn: async ({ signal }) => {
+      const countFor = async (status?: string) => {
+        const response = await apiClient.getTeachersPage({ status }, { page: 1, pageSize: 1 }, { signal });
+        return response.data?.count ?? 0;
+      };
+      const [active, pending, suspended, total] = await Promise.all([
+        countFor('active'),
+        countFor('pending'),
+        countFor('suspended'),
+        countFor(),
+      ]);
+      return { active, pending, suspended, total };
+    },
+    meta: { silent: true },
+  });
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -151,6 +197,16 @@ export default function AdminTeachers() {
     });
   };
 
+  // Locks lapse on their own, so a past lockedUntil no longer counts
+  const isLocked = (teacher: Teacher) => Boolean(teacher.lockedUntil) && Date.parse(teacher.lockedUntil) > Date.now();
+
+  const getLockBadge = (teacher: Teacher) => isLocked(teacher) && (
+    <Badge variant="outline" className="border-destructive text-destructive" title={`Locked until ${formatDateTime(teacher.lockedUntil)}`}>
+      <Lock className="h-3 w-3 mr-1" />
+      Locked
+    </Badge>
+  );
+
   const handleApproveTeacher = (teacher: Teacher) => {
     setSelectedTeacher(teacher);
     setApproveDialogOpen(true);
@@ -229,74 +285,23 @@ export default function AdminTeachers() {
     }
   };
 
-  const handleAddTeacher = async () => {
-    // Validate required fields
-    if (!newTeacher.firstName.trim()) {
-      toast.error('First name is required');
-      return;
-    }
-    
-    if (!newTeacher.lastName.trim()) {
-      toast.error('Last name is required');
-      return;
-    }
-    
-    if (!newTeacher.email.trim()) {
-      toast.error('Email is required');
-      return;
-    }
-    
-    // Basic email validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(newTeacher.email)) {
-      toast.error('Please enter a valid email address');
-      return;
-    }
-    
-    if (!newTeacher.temporaryPassword.trim()) {
-      toast.error('Temporary password is required');
-      return;
-    }
-    
-    if (newTeacher.temporaryPassword.length < 6) {
-      toast.error('Password must be at least 6 characters long');
-      return;
-    }
+  const handleInvite = async (values: InviteData) => {
+    const batch = await sendInvitations(splitEmails(values.emails));
+    if (!batch) return; // The hook has already shown the error
 
-    try {
-      const teacherData = {
-        user: {
-          firstName: newTeacher.firstName.trim(),
-          lastName: newTeacher.lastName.trim(),
-          email: newTeacher.email.trim(),
-          password: newTeacher.temporaryPassword
-        },
-        phoneNumber: newTeacher.phoneNumber?.trim() || undefined
-      };
-
-      const success = await addTeacher(teacherData);
-      
-      if (success) {
-        setAddTeacherDialogOpen(false);
-        setNewTeacher({
-          firstName: '',
-          lastName: '',
-          email: '',
-          phoneNumber: '',
-          temporaryPassword: ''
-        });
-        // Success message is already shown by the hook
-      } else {
-        toast.error('Failed to add teacher. Please try again.');
-      }
-    } catch (error) {
-      toast.error('Failed to add teacher. Please try again.');
+    inviteForm.reset({ emails: '' });
+    // Keep the dialog open so the admin can see which addresses were left out
+    if (batch.skipped.length > 0) {
+      setSkippedInvites(batch.skipped);
+    } else {
+      setInviteDialogOpen(false);
     }
   };
 
-  const generatePassword = () => {
-    const password = Math.random().toString(36).slice(-10);
-    setNewTeacher(prev => ({ ...prev, temporaryPassword: password }));
+  const openInviteDialog = () => {
+    inviteForm.reset({ emails: '' });
+    setSkippedInvites([]);
+    setInviteDialogOpen(true);
   };
 
   const handleDeleteTeacher = (teacher: Teacher) => {
@@ -325,14 +330,12 @@ export default function AdminTeachers() {
     }
   };
 
-  // Calculate document counts per teacher
-  const getTeacherDocumentCount = (teacherId: string) => {
-    return documents.filter(doc => doc.teacher?.id === teacherId).length;
-  };
-
-  const activeTeachers = teachers.filter(t => t.status === 'active').length;
-  const pendingTeachers = teachers.filter(t => t.status === 'pending').length;
-  const suspendedTeachers = teachers.filter(t => t.status === 'suspended').length;
+  const {
+    active: activeTeachers = 0,
+    pending: pendingTeachers = 0,
+    suspended: suspendedTeachers = 0,
+    total: totalTeachers = 0,
+  } = summary ?? {};
 
   return (
     <Layout>
@@ -345,9 +348,9 @@ export default function AdminTeachers() {
               Manage teacher accounts, approvals, and permissions
             </p>
           </div>
-          <Button onClick={() => setAddTeacherDialogOpen(true)}>
+          <Button onClick={openInviteDialog}>
             <UserPlus className="h-4 w-4 mr-2" />
-            Add Teacher
+            Invite Teachers
           </Button>
         </div>
 
@@ -376,7 +379,7 @@ export default function AdminTeachers() {
           </Card>
           <Card>
             <CardContent className="p-4">
-              <div className="text-2xl font-bold">{teachers.length}</div>
+              <div className="text-2xl font-bold">{totalTeachers}</div>
               <p className="text-xs text-muted-foreground">Total Teachers</p>
             </CardContent>
           </Card>
@@ -414,7 +417,7 @@ export default function AdminTeachers() {
         {/* Teachers List */}
         <Card>
           <CardHeader>
-            <CardTitle>Teachers ({filteredTeachers.length})</CardTitle>
+            <CardTitle>Teachers ({totalCount})</CardTitle>
             <CardDescription>
               Manage teacher accounts and their access to the system
             </CardDescription>
@@ -427,13 +430,13 @@ export default function AdminTeachers() {
                   <span>Loading teachers...</span>
                 </div>
               </div>
-            ) : filteredTeachers.length === 0 ? (
+            ) : teachers.length === 0 ? (
               <div className="text-center py-8">
                 <p className="text-muted-foreground">No teachers found</p>
               </div>
             ) : (
               <div className="space-y-4">
-              {filteredTeachers.map((teacher) => (
+              {teachers.map((teacher) => (
                 <div
                   key={teacher.id}
                   className="flex flex-col lg:flex-row lg:items-center gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors"
@@ -451,6 +454,7 @@ export default function AdminTeachers() {
                           {teacher.user?.firstName} {teacher.user?.lastName}
                         </h3>
                         {getStatusBadge(teacher.status)}
+                        {getLockBadge(teacher)}
                       </div>
                       
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-2 text-sm text-muted-foreground">
@@ -524,6 +528,23 @@ export default function AdminTeachers() {
                           <Eye className="h-4 w-4 mr-2" />
                           View Details
                         </DropdownMenuItem>
+                        {teacher.status !== 'pending' && (
+                          <DropdownMenuItem
+                            onClick={() => {
+                              setSelectedTeacher(teacher);
+                              setSessionsDialogOpen(true);
+                            }}
+                          >
+                            <MonitorSmartphone className="h-4 w-4 mr-2" />
+                            Sessions & Devices
+                          </DropdownMenuItem>
+                        )}
+                        {isLocked(teacher) && (
+                          <DropdownMenuItem onClick={() => unlockTeacher(teacher.id)}>
+                            <LockOpen className="h-4 w-4 mr-2" />
+                            Clear Lockout
+                          </DropdownMenuItem>
+                        )}
                         {teacher.status === 'active' && (
                           <DropdownMenuItem onClick={() => handleSuspendTeacher(teacher)}>
                             <Pause className="h-4 w-4 mr-2" />
@@ -551,83 +572,80 @@ export default function AdminTeachers() {
               ))}
             </div>
             )}
+            <PaginationControls
+              className="mt-6"
+              page={page}
+              pageCount={pageCount}
+              totalCount={totalCount}
+              pageSize={config.ui.itemsPerPage}
+              onPageChange={goToPage}
+            />
           </CardContent>
         </Card>
 
-        {/* Add Teacher Dialog */}
-        <Dialog open={addTeacherDialogOpen} onOpenChange={setAddTeacherDialogOpen}>
+        {/* Invitations */}
+        <TeacherInvitations />
+
+        {/* Invite Teachers Dialog */}
+        <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Add New Teacher</DialogTitle>
+              <DialogTitle>Invite Teachers</DialogTitle>
               <DialogDescription>
-                Create a new teacher account with the following details
+                Each address gets an email with a link to set their own password and profile.
+                Invited teachers are active as soon as they accept.
               </DialogDescription>
             </DialogHeader>
-            <div className="grid gap-4 py-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="firstName">First Name <span className="text-red-500">*</span></Label>
-                  <Input
-                    id="firstName"
-                    value={newTeacher.firstName}
-                    onChange={(e) => setNewTeacher(prev => ({ ...prev, firstName: e.target.value }))}
-                    placeholder="Enter first name"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="lastName">Last Name <span className="text-red-500">*</span></Label>
-                  <Input
-                    id="lastName"
-                    value={newTeacher.lastName}
-                    onChange={(e) => setNewTeacher(prev => ({ ...prev, lastName: e.target.value }))}
-                    placeholder="Enter last name"
+            <Form {...inviteForm}>
+              <form onSubmit={inviteForm.handleSubmit(handleInvite)} noValidate>
+                <div className="grid gap-4 py-4">
+                  <FormField
+                    control={inviteForm.control}
+                    name="emails"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email Addresses <span className="text-red-500">*</span></FormLabel>
+                        <FormControl>
+                          <Textarea
+                            rows={6}
+                            placeholder={'jane.wanjiku@school.ac.ke\nbrian.otieno@school.ac.ke'}
+                            {...field}
+                          />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground">
+                          One per line, or separated by commas. Up to 100 at a time.
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
+                  {skippedInvites.length > 0 && (
+                    <Alert className="bg-warning/10 border-warning/20">
+                      <AlertTriangle className="h-4 w-4 text-warning" />
+                      <AlertDescription>
+                        <p className="font-medium">Not invited:</p>
+                        <ul className="mt-1 space-y-0.5 text-sm">
+                          {skippedInvites.map(({ email, reason }) => (
+                            <li key={email}>{email} — {reason}</li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
                 </div>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="email">Email Address <span className="text-red-500">*</span></Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={newTeacher.email}
-                  onChange={(e) => setNewTeacher(prev => ({ ...prev, email: e.target.value }))}
-                  placeholder="Enter email address"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="phoneNumber">Phone Number</Label>
-                <Input
-                  id="phoneNumber"
-                  value={newTeacher.phoneNumber}
-                  onChange={(e) => setNewTeacher(prev => ({ ...prev, phoneNumber: e.target.value }))}
-                  placeholder="Enter phone number (optional)"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="temporaryPassword">Temporary Password <span className="text-red-500">*</span></Label>
-                <div className="flex gap-2">
-                  <Input
-                    id="temporaryPassword"
-                    type="password"
-                    value={newTeacher.temporaryPassword}
-                    onChange={(e) => setNewTeacher(prev => ({ ...prev, temporaryPassword: e.target.value }))}
-                    placeholder="Enter temporary password (min 6 characters)"
-                  />
-                  <Button variant="outline" onClick={generatePassword}>
-                    Generate
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setInviteDialogOpen(false)}>
+                    {skippedInvites.length > 0 ? 'Done' : 'Cancel'}
                   </Button>
-                </div>
-              </div>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setAddTeacherDialogOpen(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleAddTeacher}>
-                <UserPlus className="h-4 w-4 mr-2" />
-                Add Teacher
-              </Button>
-            </DialogFooter>
+                  <Button type="submit" disabled={inviteForm.formState.isSubmitting}>
+                    {inviteForm.formState.isSubmitting
+                      ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      : <Mail className="h-4 w-4 mr-2" />}
+                    Send Invitations
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
           </DialogContent>
         </Dialog>
 
@@ -650,7 +668,10 @@ export default function AdminTeachers() {
                       {selectedTeacher.user.firstName} {selectedTeacher.user.lastName}
                     </h3>
                     <p className="text-muted-foreground">{selectedTeacher.user.email}</p>
-                    {getStatusBadge(selectedTeacher.status)}
+                    <div className="flex items-center gap-2">
+                      {getStatusBadge(selectedTeacher.status)}
+                      {getLockBadge(selectedTeacher)}
+                    </div>
                   </div>
                 </div>
                 
@@ -661,12 +682,18 @@ export default function AdminTeachers() {
                   </div>
                   <div>
                     <Label className="text-sm font-medium">Documents</Label>
-                    <p className="text-sm text-muted-foreground">{getTeacherDocumentCount(selectedTeacher.id)} uploaded</p>
+                    <p className="text-sm text-muted-foreground">{selectedTeacher.documentsCount || 0} uploaded</p>
                   </div>
                   <div>
                     <Label className="text-sm font-medium">Join Date</Label>
                     <p className="text-sm text-muted-foreground">{formatDate(selectedTeacher.createdAt)}</p>
                   </div>
+                  {isLocked(selectedTeacher) && (
+                    <div>
+                      <Label className="text-sm font-medium">Locked Until</Label>
+                      <p className="text-sm text-destructive">{formatDateTime(selectedTeacher.lockedUntil)}</p>
+                    </div>
+                  )}
                   {/* {selectedTeacher.lastLogin && (
                     <div>
                       <Label className="text-sm font-medium">Last Login</Label>
@@ -698,6 +725,24 @@ export default function AdminTeachers() {
           </DialogContent>
         </Dialog>
 
+        {/* Sessions Dialog */}
+        <Dialog open={sessionsDialogOpen} onOpenChange={setSessionsDialogOpen}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Sessions & Devices</DialogTitle>
+              <DialogDescription>
+                Where {selectedTeacher?.user.firstName} {selectedTeacher?.user.lastName} is signed in. Sign out a session you suspect is compromised.
+              </DialogDescription>
+            </DialogHeader>
+            {selectedTeacher && sessionsDialogOpen && <SessionsAndDevices teacherId={selectedTeacher.id} />}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setSessionsDialogOpen(false)}>
+                Close
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Approval Dialog */}
         <Dialog open={approveDialogOpen} onOpenChange={setApproveDialogOpen}>
           <DialogContent>
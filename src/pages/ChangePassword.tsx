@@ -0,0 +1,56 @@
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useGlobalSettings } from '../contexts/SettingsContext';
+import ChangePasswordForm from '../components/ChangePasswordForm';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { GraduationCap } from 'lucide-react';
+
+/**
+ * Where a user whose password has passed the policy's maximum age is sent
+ * until they choose a new one
+ */
+export default function ChangePassword() {
+  const { refreshUser, logout } = useAuth();
+  const { getSiteName, passwordPolicy } = useGlobalSettings();
+  const navigate = useNavigate();
+
+  const handleChanged = async () => {
+    // The profile no longer reports the password as expired, so the routes let the user through
+    await refreshUser();
+    navigate('/dashboard', { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-background to-primary-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-primary rounded-xl mb-4">
+            <GraduationCap className="w-8 h-8 text-primary-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">Password Expired</h1>
+          <p className="text-muted-foreground mt-1">{getSiteName()} • Kenya</p>
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-semibold text-center">
+              Choose a New Password
+            </CardTitle>
+            <CardDescription className="text-center">
+              {passwordPolicy.maxAgeDays > 0
+                ? `Passwords must be changed every ${passwordPolicy.maxAgeDays} days. Choose a new password to continue.`
+                : 'Your password must be changed before you continue.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ChangePasswordForm onChanged={handleChanged} showHeading={false} />
+            <Button variant="ghost" className="w-full" onClick={logout}>
+              Sign out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
+import { passwordErrors } from '@shared/passwordPolicy';
 import { useGlobalSettings } from '../contexts/SettingsContext';
 import { apiClient } from '../services/api';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
@@ -28,7 +30,7 @@ export default function ForgotPassword() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
-  const { getSiteName } = useGlobalSettings();
+  const { getSiteName, passwordPolicy } = useGlobalSettings();
 
   const handleSendResetEmail = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -73,8 +75,9 @@ export default function ForgotPassword() {
       return;
     }
 
-    if (newPassword.length < 8) {
-      setError('Password must be at least 8 characters long');
+    const [policyError] = passwordErrors(newPassword, passwordPolicy, { email });
+    if (policyError) {
+      setError(policyError);
       return;
     }
 
@@ -296,14 +299,9 @@ export default function ForgotPassword() {
                     />
                   </div>
 
-                  <div className="bg-muted/50 rounded-lg p-3 text-xs text-muted-foreground">
-                    <p className="mb-1">Password requirements:</p>
-                    <ul className="space-y-1 ml-4">
-                      <li>• At least 8 characters long</li>
-                      <li>• Contains uppercase and lowercase letters</li>
-                      <li>• Contains at least one number</li>
-                      <li>• Contains at least one special character</li>
-                    </ul>
+                  <div className="bg-muted/50 rounded-lg p-3">
+                    <p className="mb-2 text-xs text-muted-foreground">Password requirements:</p>
+                    <PasswordStrengthMeter password={newPassword} context={{ email }} />
                   </div>
 
                   {error && (
@@ -1,6 +1,5 @@
 import { useNavigate } from 'react-router-dom';
 import { useGlobalSettings } from '../contexts/SettingsContext';
-import { useDashboard } from '../hooks/useDashboard';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
@@ -18,7 +17,6 @@ import {
 export default function Index() {
   const navigate = useNavigate();
   const { getSiteName, getSiteDescription, getRegistrationEnabled } = useGlobalSettings();
-  const { stats } = useDashboard('teacher');
 
     const handleLogin = () => {
     navigate('/login');
@@ -159,19 +157,19 @@ export default function Index() {
           <div className="grid grid-cols-3 gap-8 max-w-2xl mx-auto">
             <div className="text-center">
               <div className="text-3xl font-bold text-primary mb-2">
-                {stats?.totalTeachers || '50+'}
+                50+
               </div>
               <div className="text-sm text-slate-600">Teachers</div>
             </div>
             <div className="text-center">
               <div className="text-3xl font-bold text-primary mb-2">
-                {stats?.totalDocuments || '500+'}
+                500+
               </div>
               <div className="text-sm text-slate-600">Documents</div>
             </div>
             <div className="text-center">
               <div className="text-3xl font-bold text-primary mb-2">
-                {stats?.totalCategories || '15+'}
+                15+
               </div>
               <div className="text-sm text-slate-600">Categories</div>
             </div>
@@ -3,6 +3,8 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useGlobalSettings } from '../contexts/SettingsContext';
 import { apiClient } from '../services/api';
+import { TwoFactorMethod } from '../services/types';
+import { isPasskeySupported } from '../lib/webauthn';
 import { toast } from 'sonner';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -10,7 +12,28 @@ import { Label } from '../components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../components/ui/card';
 import { Alert, AlertDescription } from '../components/ui/alert';
 import MaintenanceBanner from '../components/MaintenanceBanner';
-import { Loader2, Mail, Lock, Smartphone, GraduationCap, Shield } from 'lucide-react';
+import { Loader2, Mail, Lock, Smartphone, GraduationCap, Shield, KeyRound, Timer } from 'lucide-react';
+
+// What the OTP step says for each way of confirming the sign-in
+const OTP_PROMPTS: Record<TwoFactorMethod, { message: string; description: string; switchLabel: string }> = {
+  email: {
+    message: 'Verification code sent to your email',
+    description: 'Enter the verification code sent to your email',
+    switchLabel: 'Email me a code instead',
+  },
+  totp: {
+    message: 'Enter the code shown in your authenticator app',
+    description: 'Enter the code from your authenticator app',
+    switchLabel: 'Use my authenticator app instead',
+  },
+  recovery: {
+    message: 'Enter one of your saved recovery codes. Each code can only be used once.',
+    description: 'Enter one of your recovery codes',
+    switchLabel: 'Use a recovery code',
+  },
+};
+
+const formatWait = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 
 export default function Login() {
   const [formData, setFormData] = useState({
@@ -22,11 +45,28 @@ export default function Login() {
   const [showOTP, setShowOTP] = useState(false);
   const [otpMessage, setOtpMessage] = useState('');
   const [userId, setUserId] = useState(''); // Store user ID for OTP verification
+  const [otpMethods, setOtpMethods] = useState<TwoFactorMethod[]>(['email']);
+  const [otpMethod, setOtpMethod] = useState<TwoFactorMethod>('email');
+  const [isSendingCode, setIsSendingCode] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null); // When the locked account may try again
+  const [now, setNow] = useState(Date.now());
   
-  const { login, verifyOTP, isLoginLoading } = useAuth();
+  const { login, verifyOTP, sendLoginCode, loginWithPasskey, isLoginLoading } = useAuth();
   const { getSiteName, getMaintenanceMode, getRegistrationEnabled } = useGlobalSettings();
   const navigate = useNavigate();
 
+  // Count down a lockout once a second and lift it when it runs out
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) setLockedUntil(null);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const lockSeconds = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -36,10 +76,16 @@ export default function Login() {
         // First step: email and password
         const response = await login(formData.email, formData.password);
         
-        if (response.requiresOtp && response.user) {
+        if (response.retryAfter !== undefined) {
+          setNow(Date.now());
+          setLockedUntil(Date.now() + response.retryAfter * 1000);
+        } else if (response.requiresOtp && response.user) {
+          const methods = response.methods ?? ['email'];
           setShowOTP(true);
           setUserId(response.user.id);
-          setOtpMessage(response.message || 'Verification code sent to your email');
+          setOtpMethods(methods);
+          setOtpMethod(methods[0]);
+          setOtpMessage(response.message || OTP_PROMPTS[methods[0]].message);
           // Don't show success toast here - only show after OTP verification
         } else {
           // Direct login successful (shouldn't happen with current backend)
@@ -47,7 +93,7 @@ export default function Login() {
         }
       } else {
         // Second step: OTP verification
-        const success = await verifyOTP(userId, formData.otp);
+        const success = await verifyOTP(userId, formData.otp, otpMethod);
         
         if (success) {
           // Success toast is handled in the verifyOTP hook
@@ -59,7 +105,36 @@ export default function Login() {
     }
   };
 
+  // Only the email method needs a code sent; the app and recovery codes are already at hand
+  const switchMethod = async (method: TwoFactorMethod) => {
+    setError('');
+    setFormData(prev => ({ ...prev, otp: '' }));
+
+    if (method === 'email') {
+      setIsSendingCode(true);
+      const sent = await sendLoginCode(userId);
+      setIsSendingCode(false);
+      if (!sent) return;
+    }
+
+    setOtpMethod(method);
+    setOtpMessage(OTP_PROMPTS[method].message);
+  };
+
+  // A recovery code can stand in for any method, so it is always offered
+  const otherMethods = [...otpMethods, 'recovery' as const]
+    .filter((method, index, methods) => method !== otpMethod && methods.indexOf(method) === index);
+
+  const handlePasskeySignIn = async () => {
+    setError('');
+    if (await loginWithPasskey()) {
+      navigate('/dashboard');
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // The lock belongs to one account, so another email may still try
+    if (e.target.name === 'email') setLockedUntil(null);
     setFormData(prev => ({
       ...prev,
       [e.target.name]: e.target.value
@@ -91,7 +166,7 @@ export default function Login() {
             </CardTitle>
             <CardDescription className="text-center">
               {showOTP 
-                ? 'Enter the verification code sent to your email'
+                ? OTP_PROMPTS[otpMethod].description
                 : 'Sign in to access your document management system'
               }
             </CardDescription>
@@ -160,26 +235,53 @@ export default function Login() {
                   )}
 
                   <div className="space-y-2">
-                    <Label htmlFor="otp">Verification Code</Label>
+                    <Label htmlFor="otp">{otpMethod === 'recovery' ? 'Recovery Code' : 'Verification Code'}</Label>
                     <div className="relative">
                       <Smartphone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                       <Input
                         id="otp"
                         name="otp"
                         type="text"
-                        placeholder="Enter 6-digit code"
+                        placeholder={otpMethod === 'recovery' ? 'xxxx-xxxx' : 'Enter 6-digit code'}
                         value={formData.otp}
                         onChange={handleInputChange}
                         className="pl-10 text-center text-lg tracking-widest"
-                        maxLength={6}
+                        maxLength={otpMethod === 'recovery' ? 9 : 6}
+                        autoComplete={otpMethod === 'recovery' ? 'off' : 'one-time-code'}
                         required
                       />
                     </div>
                   </div>
+
+                  {otherMethods.length > 0 && (
+                    <div className="flex flex-col items-center">
+                      {otherMethods.map(method => (
+                        <Button
+                          key={method}
+                          type="button"
+                          variant="link"
+                          size="sm"
+                          disabled={isSendingCode || isLoginLoading}
+                          onClick={() => switchMethod(method)}
+                        >
+                          {method === 'email' && isSendingCode ? 'Sending code...' : OTP_PROMPTS[method].switchLabel}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                 </>
               )}
 
-              {error && (
+              {lockedUntil && !showOTP && (
+                <Alert className="bg-destructive/10 border-destructive/20">
+                  <Timer className="h-4 w-4 text-destructive" />
+                  <AlertDescription className="text-destructive">
+                    Too many failed sign-in attempts. You can try again in {formatWait(lockSeconds)}.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {error && !lockedUntil && (
                 <Alert className="bg-destructive/10 border-destructive/20">
                   <AlertDescription className="text-destructive">
                     {error}
@@ -190,7 +292,7 @@ export default function Login() {
               <Button 
                 type="submit" 
                 className="w-full" 
-                disabled={isLoginLoading}
+                disabled={isLoginLoading || (!showOTP && lockedUntil !== null)}
                 size="lg"
               >
                 {isLoginLoading ? (
@@ -203,6 +305,27 @@ export default function Login() {
                 )}
               </Button>
 
+              {!showOTP && isPasskeySupported() && (
+                <>
+                  <div className="flex items-center gap-3 text-xs uppercase text-muted-foreground">
+                    <span className="h-px flex-1 bg-border" />
+                    or
+                    <span className="h-px flex-1 bg-border" />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    size="lg"
+                    disabled={isLoginLoading}
+                    onClick={handlePasskeySignIn}
+                  >
+                    <KeyRound className="mr-2 h-4 w-4" />
+                    Sign in with a passkey
+                  </Button>
+                </>
+              )}
+
               {showOTP && (
                 <Button
                   type="button"
@@ -211,6 +334,8 @@ export default function Login() {
                   onClick={() => {
                     setShowOTP(false);
                     setUserId('');
+                    setOtpMethods(['email']);
+                    setOtpMethod('email');
                     setFormData(prev => ({ ...prev, otp: '' }));
                     setError('');
                   }}
@@ -6,6 +6,9 @@ import Layout from "../components/Layout";
 import { Button } from "../components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Home, ArrowLeft, FileQuestion, GraduationCap } from "lucide-react";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("router");
 
 const NotFound = () => {
   const location = useLocation();
@@ -14,13 +17,7 @@ const NotFound = () => {
   const { getSiteName } = useGlobalSettings();
 
   useEffect(() => {
-    // Log 404 error for debugging (can be removed in production)
-    if (process.env.NODE_ENV === 'development') {
-      console.error(
-        "404 Error: User attempted to access non-existent route:",
-        location.pathname,
-      );
-    }
+    log.warn("No route matches the requested path", { path: location.pathname });
   }, [location.pathname]);
 
   const handleGoHome = () => {
@@ -1,8 +1,13 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useDashboard } from '../hooks/useDashboard';
+import useUserPreferences from '../hooks/useUserPreferences';
 import Layout from '../components/Layout';
 import UserAvatar from '../components/UserAvatar';
+import AuthenticatorAppSetting from '../components/AuthenticatorAppSetting';
+import RecoveryCodesSetting from '../components/RecoveryCodesSetting';
+import PasskeysSetting from '../components/PasskeysSetting';
+import SessionsAndDevices from '../components/SessionsAndDevices';
 import { Loading } from '../components/Loading';
 import { ErrorMessage } from '../components/ErrorBoundary';
 import { Button } from '../components/ui/button';
@@ -26,12 +31,14 @@ import {
   Shield,
   Activity,
   FileText,
-  Clock
+  Clock,
+  MonitorSmartphone
 } from 'lucide-react';
 
 export default function Profile() {
   const { user, updateUser, isLoading } = useAuth();
   const { stats, isLoading: statsLoading, error: statsError, fetchDashboardStats } = useDashboard(user?.role || 'teacher');
+  const { preferences, refreshPreferences } = useUserPreferences();
   
   const [profileData, setProfileData] = useState({
     firstName: '',
@@ -227,7 +234,7 @@ export default function Profile() {
 
         <div className="grid gap-6 lg:grid-cols-3">
           {/* Profile Information */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -346,6 +353,22 @@ export default function Profile() {
                 </Button>
               </CardContent>
             </Card>
+
+            {/* Sessions & Devices */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MonitorSmartphone className="h-5 w-5" />
+                  Sessions & Devices
+                </CardTitle>
+                <CardDescription>
+                  Where your account is signed in. Sign out any device you do not recognise.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SessionsAndDevices />
+              </CardContent>
+            </Card>
           </div>
 
           {/* Account Summary & Stats */}
@@ -373,10 +396,19 @@ export default function Profile() {
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">2FA Enabled</span>
-                  <Badge className="bg-success/10 text-success border-success/20">
-                    Yes
-                  </Badge>
+                  {preferences?.effective_2fa_setting || preferences?.totp_enabled ? (
+                    <Badge className="bg-success/10 text-success border-success/20">
+                      {preferences.totp_enabled ? 'Authenticator app' : 'Email'}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">
+                      {preferences ? 'No' : '—'}
+                    </Badge>
+                  )}
                 </div>
+                <AuthenticatorAppSetting preferences={preferences} onChange={refreshPreferences} />
+                <RecoveryCodesSetting />
+                <PasskeysSetting preferences={preferences} />
                 <div className="space-y-1">
                   <div className="flex items-center gap-2 text-sm">
                     <Calendar className="h-4 w-4 text-muted-foreground" />
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { Document } from '../services/types';
+import { apiClient } from '../services/api';
 import { toast } from 'sonner';
+import { useDownload } from '../hooks/useDownload';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { getErrorMessage } from '../lib/queryClient';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
@@ -25,6 +29,9 @@ import {
 
 export default function PublicShare() {
   const { documentId, token } = useParams<{ documentId: string; token: string }>();
+  const { downloadDocument } = useDownload();
+  const startRequest = useLatestRequest();
+  const startPreview = useLatestRequest();
   const [document, setDocument] = useState<Document | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
@@ -45,90 +52,22 @@ export default function PublicShare() {
   }, [documentId, token]);
 
   const loadDocument = async () => {
+    // Switching links or leaving the page cancels a load still in flight
+    const signal = startRequest();
     try {
       setIsLoading(true);
       setError('');
       
-      // Call the public_view endpoint
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api'}/documents/documents/${documentId}/public_view/?token=${token}`);
-      
-      if (!response.ok) {
-        if (response.status === 403) {
-          throw new Error('This share link is invalid or has expired');
-        } else if (response.status === 404) {
-          throw new Error('Document not found');
-        } else {
-          throw new Error('Failed to load document');
-        }
-      }
-
-      const responseData = await response.json();
-      
-      // Transform the response to match our Document type
-      const transformedDocument: Document = {
-        id: responseData.id,
-        title: responseData.title,
-        description: responseData.description,
-        fileName: responseData.file_name,
-        fileSize: responseData.file_size,
-        fileType: responseData.file_type,
-        filePath: responseData.file,
-        teacher: {
-          id: responseData.teacher,
-          user: {
-            id: responseData.teacher,
-            firstName: '', // Will be derived from teacher_name
-            lastName: '',
-            email: '',
-            phone: '',
-            isActive: true,
-            isStaff: false,
-            isEmailVerified: true,
-            profilePicture: null,
-            createdAt: '',
-            updatedAt: '',
-          },
-          phoneNumber: '',
-          bio: '',
-          status: 'approved' as const,
-          documentsCount: 0,
-          sharedDocumentsCount: 0,
-          totalDownloads: 0,
-          createdAt: '',
-          updatedAt: '',
-        },
-        teacherName: responseData.teacher_name,
-        category: responseData.category ? {
-          id: responseData.category.id,
-          name: responseData.category.name,
-          description: responseData.category.description,
-          requiresClassSubject: responseData.category.requires_class_subject,
-          isActive: responseData.category.is_active,
-          documentsCount: responseData.category.documents_count,
-          createdAt: responseData.category.created_at,
-          updatedAt: responseData.category.updated_at,
-        } : null,
-        classLevel: responseData.class_level,
-        subject: responseData.subject,
-        downloadCount: responseData.download_count,
-        status: responseData.status,
-        isShared: responseData.is_shared,
-        sharedWith: [], // Public shares don't expose shared user IDs
-        sharedAt: responseData.shared_at,
-        tags: [], // Tags not available in public view
-        shared_with_emails: [], // Emails not exposed in public view
-        createdAt: responseData.created_at,
-        updatedAt: responseData.updated_at,
-      };
-
-      setDocument(transformedDocument);
+      const response = await apiClient.getPublicDocument(documentId!, token!, { signal });
+      setDocument(response.data!);
     } catch (error: any) {
+      if (signal.aborted) return;
       setError(error.message || 'Failed to load document');
       toast.error('Load Failed', {
         description: error.message || 'Failed to load shared document'
       });
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
   };
 
@@ -140,21 +79,15 @@ export default function PublicShare() {
     setZoom(100);
     setRotation(0);
 
+    // Closing the preview or opening it again cancels a load still in flight
+    const signal = startPreview();
     try {
-      // Use the preview endpoint instead of download endpoint for public shares
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api'}/documents/documents/${documentId}/preview/?token=${token}`);
-      
-      if (!response.ok) {
-        throw new Error('Preview failed');
-      }
-
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      setPreviewUrl(url);
+      setPreviewUrl(await apiClient.previewDocument(documentId, token, { signal }));
     } catch (error) {
+      if (signal.aborted) return;
       setPreviewError('Failed to load preview');
       toast.error('Preview Failed', {
-        description: 'Could not load file preview'
+        description: getErrorMessage(error, 'Could not load file preview')
       });
     }
   };
@@ -162,57 +95,12 @@ export default function PublicShare() {
   const handleDownload = async () => {
     if (!document || !documentId || !token) return;
 
-    try {
-      const response = await fetch(`${import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api'}/documents/documents/${documentId}/download/?token=${token}`);
-      
-      if (!response.ok) {
-        throw new Error('Download failed');
-      }
-
-      // Get filename from Content-Disposition header with improved parsing
-      const contentDisposition = response.headers.get('Content-Disposition');
-      let fileName = document.fileName || 'download';
-      
-      if (contentDisposition) {
-        // Try multiple patterns to extract filename
-        const patterns = [
-          /filename\*=UTF-8''(.+)/i,  // RFC 5987 encoded filename
-          /filename="([^"]+)"/i,       // Quoted filename
-          /filename=([^;]+)/i          // Unquoted filename
-        ];
-        
-        for (const pattern of patterns) {
-          const match = contentDisposition.match(pattern);
-          if (match && match[1]) {
-            fileName = decodeURIComponent(match[1].trim());
-            break;
-          }
-        }
-      }
-
-      // Get the file blob
-      const blob = await response.blob();
-      
-      // Create download link - use window.document explicitly to avoid naming conflict
-      const url = window.URL.createObjectURL(blob);
-      const link = window.document.createElement('a');
-      link.href = url;
-      link.download = fileName;
-      window.document.body.appendChild(link);
-      link.click();
-      
-      // Cleanup
-      window.URL.revokeObjectURL(url);
-      window.document.body.removeChild(link);
-
-      toast.success('Download Started', {
-        description: `${fileName} is being downloaded`
-      });
-    } catch (error) {
-      toast.error('Download Failed', {
-        description: 'Failed to download file. Please try again.'
-      });
-    }
+    await downloadDocument({
+      documentId,
+      fileName: document.fileName,
+      fileSize: document.fileSize,
+      shareToken: token,
+    });
   };
 
   const formatFileSize = (bytes: number) => {
@@ -263,6 +151,7 @@ export default function PublicShare() {
   };
 
   const handleClosePreview = () => {
+    startPreview();
     setIsPreviewOpen(false);
     setPreviewFile(null);
     if (previewUrl) {
@@ -388,7 +277,7 @@ export default function PublicShare() {
                 <div className="flex items-center gap-3">
                   <User className="h-4 w-4 text-muted-foreground" />
                   <div>
-                    <p className="font-medium text-foreground">{document.teacherName || 'Teacher'}</p>
+                    <p className="font-medium text-foreground">{document.teacher.name || 'Teacher'}</p>
                     <p className="text-sm text-muted-foreground">Educator</p>
                   </div>
                 </div>
@@ -1,32 +1,64 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { PasswordPolicy, registerRequestSchema } from '@shared/api';
+import { passwordErrors } from '@shared/passwordPolicy';
 import { useAuth } from '../contexts/AuthContext';
 import { useGlobalSettings } from '../contexts/SettingsContext';
 import { apiClient } from '../services/api';
 import { toast } from 'sonner';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
-import { Label } from '../components/ui/label';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '../components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Alert, AlertDescription } from '../components/ui/alert';
 import MaintenanceBanner from '../components/MaintenanceBanner';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
 import { Loader2, User, Mail, Phone, Lock, GraduationCap, CheckCircle, AlertTriangle, ArrowLeft } from 'lucide-react';
+import { SERVER_ERROR_FIELD } from '../lib/formErrors';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('auth');
+
+// The password rules come from the admin's policy, so the schema is built per policy
+const registerFormSchema = (policy: PasswordPolicy) => registerRequestSchema
+  .extend({
+    email: z.string().email('Enter a valid email address'),
+    firstName: z.string().trim().min(1, 'Enter your first name'),
+    lastName: z.string().trim().min(1, 'Enter your last name'),
+  })
+  .superRefine((values, ctx) => {
+    passwordErrors(values.password, policy, values).forEach(message =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['password'] }));
+  })
+  .refine(values => values.password === values.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type RegisterFormValues = z.infer<ReturnType<typeof registerFormSchema>>;
 
 export default function Register() {
-  const [formData, setFormData] = useState({
-    firstName: '',
-    lastName: '',
-    email: '',
-    phoneNumber: '',
-    password: '',
-    confirmPassword: ''
+  const { getSiteName, getMaintenanceMode, getRegistrationEnabled, passwordPolicy } = useGlobalSettings();
+  const schema = useMemo(() => registerFormSchema(passwordPolicy), [passwordPolicy]);
+  const form = useForm<RegisterFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      firstName: '',
+      lastName: '',
+      email: '',
+      phoneNumber: '',
+      password: '',
+      confirmPassword: '',
+    },
   });
-  const [error, setError] = useState('');
+  const [firstName, lastName, email] = form.watch(['firstName', 'lastName', 'email']);
   const [success, setSuccess] = useState(false);
   const [registrationStatus, setRegistrationStatus] = useState<'loading' | 'enabled' | 'disabled'>('loading');
 
   const { register, isLoading } = useAuth();
-  const { getSiteName, getMaintenanceMode, getRegistrationEnabled } = useGlobalSettings();
   const navigate = useNavigate();
 
   // Check registration status on mount and when settings change
@@ -37,13 +69,13 @@ export default function Register() {
         const response = await apiClient.getPublicSettings();
 
         if (response.success && response.data) {
-          setRegistrationStatus(response.data.registration_enabled ? 'enabled' : 'disabled');
+          setRegistrationStatus(response.data.registrationEnabled ? 'enabled' : 'disabled');
         } else {
           // If we can't determine, assume enabled for better UX
           setRegistrationStatus('enabled');
         }
       } catch (error) {
-        console.warn('Failed to check registration status:', error);
+        log.warn('Failed to check registration status', error);
         setRegistrationStatus('enabled');
       }
     };
@@ -51,30 +83,16 @@ export default function Register() {
     checkRegistrationStatus();
   }, []);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
-    
-    // Validation
-    if (formData.password !== formData.confirmPassword) {
-      setError('Passwords do not match');
-      return;
-    }
-    
-    if (formData.password.length < 8) {
-      setError('Password must be at least 8 characters long');
-      return;
-    }
-
+  const handleSubmit = async (values: RegisterFormValues) => {
     try {
-      await register({
-        firstName: formData.firstName,
-        lastName: formData.lastName,
-        email: formData.email,
-        phoneNumber: formData.phoneNumber,
-        password: formData.password,
-      });
-      setSuccess(true);
+      const registered = await register({
+        firstName: values.firstName,
+        lastName: values.lastName,
+        email: values.email,
+        phoneNumber: values.phoneNumber,
+        password: values.password,
+      }, form);
+      setSuccess(registered);
     } catch (err: any) {
       // Handle specific registration disabled error
       if (err?.message?.includes('registration is currently disabled') || 
@@ -84,17 +102,12 @@ export default function Register() {
           description: 'Teacher registration is currently closed. Please contact the administrator.',
         });
       } else {
-        setError(err instanceof Error ? err.message : 'Registration failed');
+        form.setError(SERVER_ERROR_FIELD, { message: err instanceof Error ? err.message : 'Registration failed' });
       }
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    setFormData(prev => ({
-      ...prev,
-      [e.target.name]: e.target.value
-    }));
-  };
+  const serverError = form.formState.errors.root?.server?.message;
 
   // Show loading state while checking registration status
   if (registrationStatus === 'loading') {
@@ -228,144 +241,146 @@ export default function Register() {
           </CardHeader>
           
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {/* Name Fields */}
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="firstName">First Name</Label>
-                  <div className="relative">
-                    <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="firstName"
-                      name="firstName"
-                      type="text"
-                      placeholder="John"
-                      value={formData.firstName}
-                      onChange={handleInputChange}
-                      className="pl-10"
-                      required
-                    />
-                  </div>
-                </div>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4" noValidate>
+                {/* Name Fields */}
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="firstName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>First Name</FormLabel>
+                        <div className="relative">
+                          <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                          <FormControl>
+                            <Input type="text" placeholder="John" className="pl-10" {...field} />
+                          </FormControl>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                <div className="space-y-2">
-                  <Label htmlFor="lastName">Last Name</Label>
-                  <Input
-                    id="lastName"
+                  <FormField
+                    control={form.control}
                     name="lastName"
-                    type="text"
-                    placeholder="Doe"
-                    value={formData.lastName}
-                    onChange={handleInputChange}
-                    required
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Last Name</FormLabel>
+                        <FormControl>
+                          <Input type="text" placeholder="Doe" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
                 </div>
-              </div>
 
-              {/* Email */}
-              <div className="space-y-2">
-                <Label htmlFor="email">Email Address</Label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    id="email"
-                    name="email"
-                    type="email"
-                    placeholder="john.doe@email.co.ke"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    className="pl-10"
-                    required
-                  />
-                </div>
-              </div>
+                {/* Email */}
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email Address</FormLabel>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input type="email" placeholder="john.doe@email.co.ke" className="pl-10" {...field} />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              {/* Phone Number */}
-              <div className="space-y-2">
-                <Label htmlFor="phoneNumber">Phone Number (Optional)</Label>
-                <div className="relative">
-                  <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    id="phoneNumber"
-                    name="phoneNumber"
-                    type="tel"
-                    placeholder="+254 700 000 000"
-                    value={formData.phoneNumber}
-                    onChange={handleInputChange}
-                    className="pl-10"
-                  />
-                </div>
-              </div>
+                {/* Phone Number */}
+                <FormField
+                  control={form.control}
+                  name="phoneNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone Number (Optional)</FormLabel>
+                      <div className="relative">
+                        <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input type="tel" placeholder="+254 700 000 000" className="pl-10" {...field} />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              {/* Password Fields */}
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    id="password"
-                    name="password"
-                    type="password"
-                    placeholder="Create a strong password"
-                    value={formData.password}
-                    onChange={handleInputChange}
-                    className="pl-10"
-                    required
-                  />
-                </div>
-                <p className="text-xs text-muted-foreground">
-                  Must be at least 8 characters long
-                </p>
-              </div>
+                {/* Password Fields */}
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input type="password" placeholder="Create a strong password" className="pl-10" {...field} />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                      <PasswordStrengthMeter password={field.value} context={{ firstName, lastName, email }} />
+                    </FormItem>
+                  )}
+                />
 
-              <div className="space-y-2">
-                <Label htmlFor="confirmPassword">Confirm Password</Label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    id="confirmPassword"
-                    name="confirmPassword"
-                    type="password"
-                    placeholder="Confirm your password"
-                    value={formData.confirmPassword}
-                    onChange={handleInputChange}
-                    className="pl-10"
-                    required
-                  />
-                </div>
-              </div>
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input type="password" placeholder="Confirm your password" className="pl-10" {...field} />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-              {error && (
-                <Alert className="bg-destructive/10 border-destructive/20">
-                  <AlertDescription className="text-destructive">
-                    {error}
-                  </AlertDescription>
-                </Alert>
-              )}
+                {serverError && (
+                  <Alert className="bg-destructive/10 border-destructive/20">
+                    <AlertDescription className="text-destructive">
+                      {serverError}
+                    </AlertDescription>
+                  </Alert>
+                )}
 
-              <div className="bg-muted/50 rounded-lg p-3 text-xs text-muted-foreground">
-                <p>
-                  By submitting this form, you acknowledge that your information will be 
-                  verified by system administrators before account activation.
-                </p>
-              </div>
+                <div className="bg-muted/50 rounded-lg p-3 text-xs text-muted-foreground">
+                  <p>
+                    By submitting this form, you acknowledge that your information will be 
+                    verified by system administrators before account activation.
+                  </p>
+                </div>
 
-              <Button 
-                type="submit" 
-                className="w-full" 
-                disabled={isLoading}
-                size="lg"
-              >
-                {isLoading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Submitting Request...
-                  </>
-                ) : (
-                  'Submit Account Request'
-                )}
-              </Button>
-            </form>
+                <Button 
+                  type="submit" 
+                  className="w-full" 
+                  disabled={isLoading}
+                  size="lg"
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Submitting Request...
+                    </>
+                  ) : (
+                    'Submit Account Request'
+                  )}
+                </Button>
+              </form>
+            </Form>
           </CardContent>
         </Card>
 
@@ -4,6 +4,8 @@ import { useDocuments } from '../hooks/useDocuments';
 import { useCategories } from '../hooks/useCategories';
 import { useSystemSettings } from '../hooks/useSystemSettings';
 import { useDashboard } from '../hooks/useDashboard';
+import { useDownload } from '../hooks/useDownload';
+import { useFeatureFlag } from '../hooks/useFeatureFlag';
 import Layout from '../components/Layout';
 import { Loading } from '../components/Loading';
 import { ErrorMessage } from '../components/ErrorBoundary';
@@ -40,20 +42,20 @@ import type { DocumentCategory } from '../services/types';
 
 export default function TeacherDashboard() {
   const { user } = useAuth();
+  const { downloadDocument } = useDownload();
+  const sharingEnabled = useFeatureFlag('documentSharing');
   const { 
     documents, 
     isLoading: documentsLoading, 
     error: documentsError, 
     uploadDocument, 
     deleteDocument,
-    shareDocument,
-    fetchDocuments 
+    shareDocument
   } = useDocuments();
   const { 
     categories, 
     isLoading: categoriesLoading, 
-    error: categoriesError, 
-    fetchCategories 
+    error: categoriesError
   } = useCategories();
   const { 
     settings,
@@ -64,8 +66,7 @@ export default function TeacherDashboard() {
   const { 
     stats, 
     isLoading: statsLoading, 
-    error: statsError, 
-    fetchDashboardStats 
+    error: statsError
   } = useDashboard('teacher');
 
   const [uploadForm, setUploadForm] = useState({
@@ -81,13 +82,10 @@ export default function TeacherDashboard() {
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [selectedDocument, setSelectedDocument] = useState<any>(null);
 
-  // Fetch data on component mount
+  // Documents, categories and stats load through the query cache; settings still need a fetch
   useEffect(() => {
-    fetchCategories();
-    fetchDocuments();
-    fetchDashboardStats();
     fetchSettings();
-  }, [fetchCategories, fetchDocuments, fetchDashboardStats, fetchSettings]);
+  }, [fetchSettings]);
 
   const selectedCategory = categories.find(cat => cat.id.toString() === uploadForm.category);
   const recentFiles = documents.slice(0, 5); // Show 5 most recent documents
@@ -118,10 +116,6 @@ export default function TeacherDashboard() {
       toast.success('Document Uploaded', {
         description: 'Your document has been uploaded successfully'
       });
-      
-      // Refresh data
-      fetchDocuments();
-      fetchDashboardStats();
     } catch (error) {
       toast.error('Upload Failed', {
         description: 'Failed to upload document. Please try again.'
@@ -194,17 +188,7 @@ export default function TeacherDashboard() {
   };
 
   const handleDownload = async (file: any) => {
-    try {
-      await apiClient.downloadDocument(file.id, undefined, file.fileName);
-      toast.success('Download Started', {
-        description: `${file.fileName} is being downloaded`
-      });
-    } catch (error) {
-      console.error('Download failed:', error);
-      toast.error('Download Failed', {
-        description: 'Failed to download file. Please try again.'
-      });
-    }
+    await downloadDocument({ documentId: file.id, fileName: file.fileName, fileSize: file.fileSize });
   };
 
   const handleShare = (file: any) => {
@@ -216,9 +200,6 @@ export default function TeacherDashboard() {
     setShareDialogOpen(false);
     setSelectedDocument(null);
     
-    // Refresh data
-    fetchDocuments();
-    fetchDashboardStats();
     
     toast.success('Document Shared', {
       description: 'Document has been shared successfully'
@@ -510,9 +491,11 @@ export default function TeacherDashboard() {
                         <Button variant="ghost" size="sm" onClick={() => handleDownload(file)}>
                           <Download className="h-4 w-4" />
                         </Button>
-                        <Button variant="ghost" size="sm" onClick={() => handleShare(file)}>
-                          <Share className="h-4 w-4" />
-                        </Button>
+                        {sharingEnabled && (
+                          <Button variant="ghost" size="sm" onClick={() => handleShare(file)}>
+                            <Share className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   ))
@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Layout from '../components/Layout';
 import ShareDialog from '../components/ShareDialog';
 import FilePreviewModal from '../components/FilePreviewModal';
+import { LoadMoreTrigger } from '../components/PaginationControls';
 import { toast } from 'sonner';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -9,9 +10,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Badge } from '../components/ui/badge';
 import { useDocuments } from '../hooks/useDocuments';
-import { Document } from '../services/types';
+import { usePaginatedList } from '../hooks/usePaginatedList';
+import { useDashboard } from '../hooks/useDashboard';
+import { useDownload } from '../hooks/useDownload';
+import { useFeatureFlag } from '../hooks/useFeatureFlag';
+import { Document, PaginationParams, RequestOptions, TeacherDashboardStats } from '../services/types';
 import { apiClient } from '../services/api';
 import { config } from '../lib/config';
+import { queryKeys } from '../lib/queryClient';
 import { getFileIconWithColor, formatFileSize } from '../lib/fileUtils';
 import { 
   DropdownMenu, 
@@ -74,7 +80,23 @@ type SortField = 'title' | 'uploadDate' | 'fileSize' | 'category';
 type SortDirection = 'asc' | 'desc';
 
 export default function TeacherDocuments() {
-  const { documents, shareDocument, deleteDocument } = useDocuments();
+  const { shareDocument, deleteDocument } = useDocuments(undefined, { fetchOnMount: false });
+  const fetchDocumentsPage = useCallback(
+    (params: PaginationParams, options: RequestOptions) => apiClient.getDocumentsPage(undefined, params, options),
+    []
+  );
+  const {
+    items: documents,
+    totalCount,
+    hasNextPage,
+    isLoadingMore,
+    loadMore,
+  } = usePaginatedList(queryKeys.documents.page(), fetchDocumentsPage, { mode: 'infinite' });
+  // Totals come from the server since only part of the list may be loaded
+  const { stats } = useDashboard('teacher');
+  const { downloadDocument } = useDownload();
+  const sharingEnabled = useFeatureFlag('documentSharing');
+  const teacherStats = stats as TeacherDashboardStats | null;
   const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
@@ -150,16 +172,7 @@ export default function TeacherDocuments() {
   };
 
   const handleDownload = async (doc: Document) => {
-    try {
-      await apiClient.downloadDocument(doc.id, undefined, doc.fileName);
-      toast.success('Download Started', {
-        description: `${doc.fileName} is being downloaded`
-      });
-    } catch (error) {
-      toast.error('Download Failed', {
-        description: 'Failed to download file. Please try again.'
-      });
-    }
+    await downloadDocument({ documentId: doc.id, fileName: doc.fileName, fileSize: doc.fileSize });
   };
 
   const handleShare = (document: Document) => {
@@ -187,7 +200,7 @@ export default function TeacherDocuments() {
     if (selectedDocument) {
       try {
         await deleteDocument(selectedDocument.id);
-        setDeleteDialogOpen(false);
+          setDeleteDialogOpen(false);
         setSelectedDocument(null);
         toast.success('File Deleted', {
           description: `${selectedDocument.fileName} has been deleted`
@@ -211,7 +224,7 @@ export default function TeacherDocuments() {
         // Call the hook's shareDocument function to update the document status
         const isShared = shareData.isPublic || shareData.emails.length > 0;
         await shareDocument(selectedDocument.id, isShared);
-
+  
         // Show custom success message with details
         let message = `Document "${selectedDocument.title}" shared successfully!`;
 
@@ -265,14 +278,14 @@ export default function TeacherDocuments() {
         <div className="grid gap-4 md:grid-cols-4">
           <Card>
             <CardContent className="p-4">
-              <div className="text-2xl font-bold">{documents.length}</div>
+              <div className="text-2xl font-bold">{totalCount}</div>
               <p className="text-xs text-muted-foreground">Total Documents</p>
             </CardContent>
           </Card>
           <Card>
             <CardContent className="p-4">
               <div className="text-2xl font-bold">
-                {documents.filter(doc => doc.isShared).length}
+                {teacherStats?.documentsShared ?? 0}
               </div>
               <p className="text-xs text-muted-foreground">Shared Documents</p>
             </CardContent>
@@ -280,7 +293,7 @@ export default function TeacherDocuments() {
           <Card>
             <CardContent className="p-4">
               <div className="text-2xl font-bold">
-                {documents.reduce((sum, doc) => sum + doc.downloadCount, 0)}
+                {teacherStats?.totalDownloads ?? 0}
               </div>
               <p className="text-xs text-muted-foreground">Total Downloads</p>
             </CardContent>
@@ -417,7 +430,7 @@ export default function TeacherDocuments() {
                             <Share className="h-4 w-4 mr-2" />
                             Unshare
                           </DropdownMenuItem>
-                        ) : (
+                        ) : sharingEnabled && (
                           <DropdownMenuItem onClick={() => handleShare(document)}>
                             <Share className="h-4 w-4 mr-2" />
                             Share
@@ -573,10 +586,12 @@ export default function TeacherDocuments() {
                                 <Eye className="h-4 w-4 mr-2" />
                                 Preview
                               </DropdownMenuItem>
-                              <DropdownMenuItem onClick={() => handleShare(document)}>
-                                <Share className="h-4 w-4 mr-2" />
-                                {document.isShared ? 'Unshare' : 'Share'}
-                              </DropdownMenuItem>
+                              {(sharingEnabled || document.isShared) && (
+                                <DropdownMenuItem onClick={() => handleShare(document)}>
+                                  <Share className="h-4 w-4 mr-2" />
+                                  {document.isShared ? 'Unshare' : 'Share'}
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuSeparator />
                               <DropdownMenuItem 
                                 onClick={() => handleDelete(document)}
@@ -597,6 +612,8 @@ export default function TeacherDocuments() {
           </Card>
         )}
 
+        <LoadMoreTrigger hasMore={hasNextPage} isLoading={isLoadingMore} onLoadMore={loadMore} />
+
         {/* Delete Confirmation Dialog */}
         <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
           <DialogContent>
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import Layout from '../components/Layout';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Badge } from '../components/ui/badge';
+import { Alert, AlertDescription } from '../components/ui/alert';
+import {
+  Inbox,
+  Send,
+  RotateCcw,
+  Trash2,
+  Clock,
+  AlertCircle,
+  AlertTriangle,
+  WifiOff,
+  Upload
+} from 'lucide-react';
+import { useOutbox } from '../hooks/useOutbox';
+import { useConnectivity } from '../hooks/useConnectivity';
+import { useCategories } from '../hooks/useCategories';
+import { OutboxEntry } from '../services/outbox';
+import { getFileIconWithColor, formatFileSize } from '../lib/fileUtils';
+
+export default function TeacherOutbox() {
+  const { entries, pendingCount, isLoading, isSending, isAvailable, sendOutbox, retryEntry, discardEntry } = useOutbox();
+  const { categories } = useCategories();
+  const isOnline = useConnectivity() !== 'offline';
+  // Replacement categories picked for entries whose category was deactivated
+  const [replacementCategories, setReplacementCategories] = useState<Record<string, string>>({});
+
+  const activeCategories = categories.filter(category => category.isActive);
+
+  const getStatusBadge = (entry: OutboxEntry) => {
+    switch (entry.status) {
+      case 'pending':
+        return (
+          <Badge variant="outline">
+            <Clock className="h-3 w-3 mr-1" />
+            Waiting
+          </Badge>
+        );
+      case 'conflict':
+        return (
+          <Badge className="bg-warning/10 text-warning border-warning/20">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            Needs Attention
+          </Badge>
+        );
+      case 'failed':
+        return (
+          <Badge variant="destructive">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            Failed
+          </Badge>
+        );
+    }
+  };
+
+  const handleRetry = (entry: OutboxEntry) => {
+    const categoryId = replacementCategories[entry.id];
+    retryEntry(entry.id, categoryId ? { categoryId } : undefined);
+  };
+
+  const getCategoryName = (categoryId: string) =>
+    categories.find(category => category.id === categoryId)?.name || 'Unavailable category';
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Outbox</h1>
+            <p className="text-muted-foreground">
+              Documents saved while offline upload automatically when your connection returns
+            </p>
+          </div>
+          <Button onClick={sendOutbox} disabled={!isOnline || isSending || pendingCount === 0}>
+            <Send className="h-4 w-4 mr-2" />
+            {isSending ? 'Sending...' : 'Send Now'}
+          </Button>
+        </div>
+
+        {!isOnline && (
+          <Alert className="bg-warning/10 border-warning/20">
+            <WifiOff className="h-4 w-4" />
+            <AlertDescription>
+              You're offline. Waiting documents will be sent as soon as the connection returns.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!isAvailable && (
+          <Alert className="bg-destructive/10 border-destructive/20">
+            <AlertCircle className="h-4 w-4 text-destructive" />
+            <AlertDescription className="text-destructive">
+              This browser cannot store files for later, so documents can only be uploaded while online.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Card>
+            <CardContent className="p-6 text-sm text-muted-foreground">Loading outbox...</CardContent>
+          </Card>
+        ) : entries.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Inbox className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">Your outbox is empty</h3>
+              <p className="text-muted-foreground mb-4">
+                Files you upload while offline will wait here until they can be sent.
+              </p>
+              <Button asChild variant="outline">
+                <Link to="/teacher/upload">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload Documents
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Saved Documents ({entries.length})</CardTitle>
+              <CardDescription>
+                Retry documents that failed, or discard the ones you no longer need
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {entries.map((entry) => {
+                const { request } = entry;
+                const extension = request.file.name.split('.').pop()?.toLowerCase() || '';
+
+                return (
+                  <div key={entry.id} className="space-y-3 rounded-lg border p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex items-center gap-3">
+                        {getFileIconWithColor(extension, 'h-6 w-6')}
+                        <div>
+                          <p className="font-medium">{request.title}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {request.file.name} • {formatFileSize(request.file.size)} • {getCategoryName(request.categoryId)}
+                            {request.classLevel && ` • ${request.classLevel}`}
+                            {request.subject && ` • ${request.subject}`}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Saved {new Date(entry.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                      {getStatusBadge(entry)}
+                    </div>
+
+                    {entry.error && (
+                      <Alert className="bg-destructive/10 border-destructive/20">
+                        <AlertCircle className="h-4 w-4 text-destructive" />
+                        <AlertDescription className="text-destructive">
+                          {entry.error}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-end">
+                      {entry.status === 'conflict' && (
+                        <Select
+                          value={replacementCategories[entry.id] ?? ''}
+                          onValueChange={(value) => setReplacementCategories(prev => ({ ...prev, [entry.id]: value }))}
+                        >
+                          <SelectTrigger className="sm:w-56">
+                            <SelectValue placeholder="Choose another category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {activeCategories.map((category) => (
+                              <SelectItem key={category.id} value={category.id.toString()}>
+                                {category.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {entry.status !== 'pending' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRetry(entry)}
+                          disabled={isSending || (entry.status === 'conflict' && !replacementCategories[entry.id])}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Retry
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => discardEntry(entry.id)}
+                        disabled={isSending}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Discard
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -1,13 +1,19 @@
 import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import useUserPreferences from '../hooks/useUserPreferences';
-import usePasswordChange from '../hooks/usePasswordChange';
+import AuthenticatorAppSetting from '../components/AuthenticatorAppSetting';
+import RecoveryCodesSetting from '../components/RecoveryCodesSetting';
+import PasskeysSetting from '../components/PasskeysSetting';
+import SessionsAndDevices from '../components/SessionsAndDevices';
+import ChangePasswordForm from '../components/ChangePasswordForm';
 import Layout from '../components/Layout';
 import { toast } from 'sonner';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '../components/ui/form';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Switch } from '../components/ui/switch';
@@ -39,18 +45,22 @@ import {
   CheckCircle,
   AlertTriangle,
   Save,
-  Eye,
-  EyeOff,
   Camera,
   Trash2
 } from 'lucide-react';
+import { createLogger } from '../lib/logger';
 
-interface ProfileData {
+const log = createLogger('settings');
+
+interface ProfileFormValues {
   firstName: string;
   lastName: string;
   email: string;
   phoneNumber: string;
   bio: string;
+}
+
+interface ProfilePictureState {
   profilePicture?: string;
   profilePictureFile?: File;
   profilePicturePreview?: string;
@@ -58,9 +68,6 @@ interface ProfileData {
 }
 
 interface SecuritySettings {
-  currentPassword: string;
-  newPassword: string;
-  confirmPassword: string;
   twoFactorEnabled: boolean;
   sessionTimeout: number;
 }
@@ -72,15 +79,19 @@ interface NotificationSettings {
 
 export default function TeacherSettings() {
   const { user, updateUser } = useAuth();
-  const { preferences, updatePreferences, isLoading: preferencesLoading } = useUserPreferences();
-  const { changePassword, isLoading: passwordLoading } = usePasswordChange();
+  const { preferences, updatePreferences, refreshPreferences, isLoading: preferencesLoading } = useUserPreferences();
   
-  const [profileData, setProfileData] = useState<ProfileData>({
-    firstName: user?.firstName || '',
-    lastName: user?.lastName || '',
-    email: user?.email || '',
-    phoneNumber: user?.phoneNumber || '',
-    bio: user?.bio || '',
+  const profileForm = useForm<ProfileFormValues>({
+    defaultValues: {
+      firstName: user?.firstName || '',
+      lastName: user?.lastName || '',
+      email: user?.email || '',
+      phoneNumber: user?.phoneNumber || '',
+      bio: user?.bio || '',
+    },
+  });
+
+  const [profileData, setProfileData] = useState<ProfilePictureState>({
     profilePicture: user?.profilePicture || undefined,
     profilePictureFile: undefined,
     profilePicturePreview: undefined,
@@ -88,9 +99,6 @@ export default function TeacherSettings() {
   });
 
   const [securitySettings, setSecuritySettings] = useState<SecuritySettings>({
-    currentPassword: '',
-    newPassword: '',
-    confirmPassword: '',
     twoFactorEnabled: preferences?.two_factor_enabled || true,
     sessionTimeout: preferences?.session_timeout_override || preferences?.effective_session_timeout || 30,
   });
@@ -100,21 +108,20 @@ export default function TeacherSettings() {
     documentShared: preferences?.document_shared_notifications || true,
   });
 
-  const [showPassword, setShowPassword] = useState(false);
-  const [showNewPassword, setShowNewPassword] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState('');
-  const [saveError, setSaveError] = useState('');
 
   // Sync local state with user changes
   useEffect(() => {
     if (user) {
-      setProfileData(prev => ({
-        ...prev,
+      profileForm.reset({
         firstName: user.firstName || '',
         lastName: user.lastName || '',
         email: user.email || '',
         phoneNumber: user.phoneNumber || '',
         bio: user.bio || '',
+      });
+      setProfileData(prev => ({
+        ...prev,
         profilePicture: user.profilePicture || undefined,
       }));
     }
@@ -147,15 +154,15 @@ export default function TeacherSettings() {
     }
   }, [user?.profilePicture]);
 
-  const handleProfileSave = async () => {
+  const handleProfileSave = profileForm.handleSubmit(async (values) => {
     try {
       // Prepare update data
       const updateData: any = {
-        firstName: profileData.firstName,
-        lastName: profileData.lastName,
-        email: profileData.email,
-        phoneNumber: profileData.phoneNumber,
-        bio: profileData.bio,
+        firstName: values.firstName,
+        lastName: values.lastName,
+        email: values.email,
+        phoneNumber: values.phoneNumber,
+        bio: values.bio,
       };
 
       // Handle profile picture changes
@@ -168,52 +175,25 @@ export default function TeacherSettings() {
       }
       
       // Update the user in AuthContext with all profile data including profile picture
-      await updateUser(updateData);
+      const updated = await updateUser(updateData, profileForm);
       
       // Clear the file and preview after successful upload
-      setProfileData(prev => ({
-        ...prev,
-        profilePictureFile: undefined,
-        profilePicturePreview: undefined,
-        removeExistingPicture: false,
-      }));
-      
-    } catch (error) {
-      console.error('Profile update error:', error);
-    }
-  };
-
-  const handlePasswordChange = async () => {
-    if (securitySettings.newPassword !== securitySettings.confirmPassword) {
-      setSaveError('New passwords do not match');
-      setTimeout(() => setSaveError(''), 3000);
-      return;
-    }
-
-    if (securitySettings.newPassword.length < 8) {
-      setSaveError('Password must be at least 8 characters long');
-      setTimeout(() => setSaveError(''), 3000);
-      return;
-    }
-
-    try {
-      const success = await changePassword({
-        current_password: securitySettings.currentPassword,
-        new_password: securitySettings.newPassword,
-      });
-
-      if (success) {
-        setSecuritySettings(prev => ({
+      if (updated) {
+        setProfileData(prev => ({
           ...prev,
-          currentPassword: '',
-          newPassword: '',
-          confirmPassword: '',
+          profilePictureFile: undefined,
+          profilePicturePreview: undefined,
+          removeExistingPicture: false,
         }));
       }
+      
     } catch (error) {
-      console.error('Password change error:', error);
+      log.error('Profile update error', error);
     }
-  };
+  });
+
+  const [firstName, lastName] = profileForm.watch(['firstName', 'lastName']);
+  const profileError = profileForm.formState.errors.root?.server?.message;
 
   const handleSecuritySave = async () => {
     if (!preferences) return;
@@ -239,7 +219,7 @@ export default function TeacherSettings() {
         });
       }
     } catch (error) {
-      console.error('Security settings update error:', error);
+      log.error('Security settings update error', error);
     }
   };
 
@@ -250,7 +230,7 @@ export default function TeacherSettings() {
         document_shared_notifications: notificationSettings.documentShared,
       });
     } catch (error) {
-      console.error('Notification settings update error:', error);
+      log.error('Notification settings update error', error);
     }
   };
 
@@ -321,15 +301,6 @@ export default function TeacherSettings() {
           </Alert>
         )}
 
-        {saveError && (
-          <Alert className="bg-destructive/10 border-destructive/20">
-            <AlertTriangle className="h-4 w-4 text-destructive" />
-            <AlertDescription className="text-destructive">
-              {saveError}
-            </AlertDescription>
-          </Alert>
-        )}
-
         {/* Settings Tabs */}
         <Tabs defaultValue="profile" className="space-y-4">
           <TabsList className="grid w-full grid-cols-3">
@@ -357,8 +328,8 @@ export default function TeacherSettings() {
                     key={profileData.profilePicturePreview || profileData.profilePicture || 'no-picture'}
                     user={{
                       ...user!,
-                      firstName: profileData.firstName,
-                      lastName: profileData.lastName,
+                      firstName,
+                      lastName,
                       profilePicture: profileData.removeExistingPicture 
                         ? undefined 
                         : (profileData.profilePicturePreview || profileData.profilePicture)
@@ -382,71 +353,108 @@ export default function TeacherSettings() {
                   </div>
                 </div>
 
-                {/* Basic Information */}
-                <div className="grid gap-4 md:grid-cols-2">
-                  <div className="space-y-2">
-                    <Label htmlFor="firstName">First Name</Label>
-                    <Input
-                      id="firstName"
-                      value={profileData.firstName}
-                      onChange={(e) => setProfileData(prev => ({ ...prev, firstName: e.target.value }))}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="lastName">Last Name</Label>
-                    <Input
-                      id="lastName"
-                      value={profileData.lastName}
-                      onChange={(e) => setProfileData(prev => ({ ...prev, lastName: e.target.value }))}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="email">Email Address</Label>
-                    <div className="relative">
-                      <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        id="email"
-                        type="email"
-                        value={profileData.email}
-                        onChange={(e) => setProfileData(prev => ({ ...prev, email: e.target.value }))}
-                        className="pl-10"
+                <Form {...profileForm}>
+                  <form onSubmit={handleProfileSave} className="space-y-6" noValidate>
+                    {/* Basic Information */}
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <FormField
+                        control={profileForm.control}
+                        name="firstName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>First Name</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
                       />
-                    </div>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="phoneNumber">Phone Number</Label>
-                    <div className="relative">
-                      <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        id="phoneNumber"
-                        value={profileData.phoneNumber}
-                        onChange={(e) => setProfileData(prev => ({ ...prev, phoneNumber: e.target.value }))}
-                        className="pl-10"
+                      <FormField
+                        control={profileForm.control}
+                        name="lastName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Last Name</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={profileForm.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email Address</FormLabel>
+                            <div className="relative">
+                              <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                              <FormControl>
+                                <Input type="email" className="pl-10" {...field} />
+                              </FormControl>
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={profileForm.control}
+                        name="phoneNumber"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Phone Number</FormLabel>
+                            <div className="relative">
+                              <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                              <FormControl>
+                                <Input className="pl-10" {...field} />
+                              </FormControl>
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
                       />
                     </div>
-                  </div>
-                </div>
 
-                {/* Professional Information */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Professional Details</h3>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="bio">Bio</Label>
-                    <Textarea
-                      id="bio"
-                      value={profileData.bio}
-                      onChange={(e) => setProfileData(prev => ({ ...prev, bio: e.target.value }))}
-                      rows={4}
-                      placeholder="Tell us about yourself, your teaching experience, and interests..."
-                    />
-                  </div>
-                </div>
+                    {/* Professional Information */}
+                    <div className="space-y-4">
+                      <h3 className="text-lg font-medium">Professional Details</h3>
+
+                      <FormField
+                        control={profileForm.control}
+                        name="bio"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Bio</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                rows={4}
+                                placeholder="Tell us about yourself, your teaching experience, and interests..."
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
 
-                <Button onClick={handleProfileSave} className="w-full md:w-auto">
-                  <Save className="h-4 w-4 mr-2" />
-                  Save Profile
-                </Button>
+                    {profileError && (
+                      <Alert className="bg-destructive/10 border-destructive/20">
+                        <AlertTriangle className="h-4 w-4 text-destructive" />
+                        <AlertDescription className="text-destructive">
+                          {profileError}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    <Button type="submit" className="w-full md:w-auto">
+                      <Save className="h-4 w-4 mr-2" />
+                      Save Profile
+                    </Button>
+                  </form>
+                </Form>
               </CardContent>
             </Card>
           </TabsContent>
@@ -465,72 +473,7 @@ export default function TeacherSettings() {
               </CardHeader>
               <CardContent className="space-y-6">
                 {/* Change Password */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Change Password</h3>
-                  <div className="grid gap-4 md:grid-cols-1 max-w-md">
-                    <div className="space-y-2">
-                      <Label htmlFor="currentPassword">Current Password</Label>
-                      <div className="relative">
-                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          id="currentPassword"
-                          type={showPassword ? "text" : "password"}
-                          value={securitySettings.currentPassword}
-                          onChange={(e) => setSecuritySettings(prev => ({ ...prev, currentPassword: e.target.value }))}
-                          className="pl-10 pr-10"
-                        />
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="absolute right-0 top-0 h-full px-3"
-                          onClick={() => setShowPassword(!showPassword)}
-                        >
-                          {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                        </Button>
-                      </div>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="newPassword">New Password</Label>
-                      <div className="relative">
-                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          id="newPassword"
-                          type={showNewPassword ? "text" : "password"}
-                          value={securitySettings.newPassword}
-                          onChange={(e) => setSecuritySettings(prev => ({ ...prev, newPassword: e.target.value }))}
-                          className="pl-10 pr-10"
-                        />
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="absolute right-0 top-0 h-full px-3"
-                          onClick={() => setShowNewPassword(!showNewPassword)}
-                        >
-                          {showNewPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                        </Button>
-                      </div>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="confirmPassword">Confirm New Password</Label>
-                      <div className="relative">
-                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          id="confirmPassword"
-                          type="password"
-                          value={securitySettings.confirmPassword}
-                          onChange={(e) => setSecuritySettings(prev => ({ ...prev, confirmPassword: e.target.value }))}
-                          className="pl-10"
-                        />
-                      </div>
-                    </div>
-                  </div>
-                  <Button 
-                    onClick={handlePasswordChange} 
-                    disabled={passwordLoading || !securitySettings.currentPassword || !securitySettings.newPassword || !securitySettings.confirmPassword}
-                  >
-                    {passwordLoading ? 'Changing Password...' : 'Change Password'}
-                  </Button>
-                </div>
+                <ChangePasswordForm />
 
                 {/* Two-Factor Authentication */}
                 <div className="space-y-4">
@@ -566,6 +509,12 @@ export default function TeacherSettings() {
                       </AlertDescription>
                     </Alert>
                   )}
+
+                  <AuthenticatorAppSetting preferences={preferences} onChange={refreshPreferences} />
+
+                  <RecoveryCodesSetting />
+
+                  <PasskeysSetting preferences={preferences} />
                 </div>
 
                 {/* Session Management */}
@@ -596,6 +545,17 @@ export default function TeacherSettings() {
                   </div>
                 </div>
 
+                {/* Sessions & Devices */}
+                <div className="space-y-4">
+                  <div className="space-y-1">
+                    <h3 className="text-lg font-medium">Sessions & Devices</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Where your account is signed in. Sign out any device you do not recognise.
+                    </p>
+                  </div>
+                  <SessionsAndDevices />
+                </div>
+
                 {/* Save Security Settings Button */}
                 <div className="flex justify-end pt-4 border-t">
                   <Button 
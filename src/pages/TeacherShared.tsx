@@ -49,12 +49,16 @@ import {
 import { useDocumentShares } from '../hooks/useDocumentShares';
 import { useAuth } from '../contexts/AuthContext';
 import { useCategories } from '../hooks/useCategories';
+import { useDownload } from '../hooks/useDownload';
+import { useFeatureFlag } from '../hooks/useFeatureFlag';
 import { formatFileSize, getFileIconWithColor } from '../lib/fileUtils';
 
 export default function TeacherShared() {
   const { user } = useAuth();
   const { shares, sharedWithMe, mySharedFiles, isLoading, refresh } = useDocumentShares();
   const { categories } = useCategories();
+  const { downloadDocument } = useDownload();
+  const publicLinksEnabled = useFeatureFlag('publicLinks');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [selectedDocument, setSelectedDocument] = useState<any>(null);
@@ -88,21 +92,22 @@ export default function TeacherShared() {
     });
   };
 
+  const getInitials = (name: string) => {
+    return name
+      .split(' ')
+      .filter(Boolean)
+      .slice(0, 2)
+      .map(part => part[0].toUpperCase())
+      .join('') || '?';
+  };
+
   const handleDownload = async (document: any) => {
-    try {
-      // For shared documents, use document.document (the actual document ID)
-      const documentId = document.document || document.id;
-      const fileName = document.document_file_name || document.fileName || document.document_title || document.title;
-      
-      await apiClient.downloadDocument(documentId, undefined, fileName);
-      toast.success('Download Started', {
-        description: `${fileName} is being downloaded`
-      });
-    } catch (error) {
-      toast.error('Download Failed', {
-        description: 'Failed to download file. Please try again.'
-      });
-    }
+    // For shared documents, use document.document (the actual document ID)
+    const documentId = document.document || document.id;
+    const fileName = document.document_file_name || document.fileName || document.document_title || document.title;
+    const fileSize = document.document_file_size || document.fileSize;
+
+    await downloadDocument({ documentId, fileName, fileSize });
   };
 
   const handlePreview = (document: any) => {
@@ -357,11 +362,11 @@ export default function TeacherShared() {
                           <div className="flex items-center gap-2">
                             <Avatar className="h-6 w-6">
                               <AvatarFallback className="text-xs">
-                                {document.teacher.user.firstName[0]}{document.teacher.user.lastName[0]}
+                                {getInitials(share.shared_by_name || document.teacher.name)}
                               </AvatarFallback>
                             </Avatar>
                             <div className="text-sm">
-                              <p className="font-medium">{share.shared_by_name || `${document.teacher.user.firstName} ${document.teacher.user.lastName}`}</p>
+                              <p className="font-medium">{share.shared_by_name || document.teacher.name}</p>
                               <p className="text-muted-foreground text-xs">
                                 Shared {formatDate(share.shared_at)}
                               </p>
@@ -447,7 +452,7 @@ export default function TeacherShared() {
                                   <UserPlus className="h-4 w-4 mr-2" />
                                   Share with More
                                 </DropdownMenuItem>
-                                {share.share_type === 'public' && share.public_url ? (
+                                {publicLinksEnabled && (share.share_type === 'public' && share.public_url ? (
                                   <DropdownMenuItem onClick={() => handleCopyShareLink(document, share)}>
                                     <Copy className="h-4 w-4 mr-2" />
                                     Copy Public Link
@@ -457,7 +462,7 @@ export default function TeacherShared() {
                                     <ExternalLink className="h-4 w-4 mr-2" />
                                     Create Public Link
                                   </DropdownMenuItem>
-                                )}
+                                ))}
                                 <DropdownMenuItem onClick={() => handleDownload(document)}>
                                   <Download className="h-4 w-4 mr-2" />
                                   Download
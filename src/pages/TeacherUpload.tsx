@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Badge } from '../components/ui/badge';
 import { Progress } from '../components/ui/progress';
 import { Alert, AlertDescription } from '../components/ui/alert';
+import { Link } from 'react-router-dom';
 import { Textarea } from '../components/ui/textarea';
 import { 
   Upload, 
@@ -24,12 +25,23 @@ import {
   Download,
   Clock,
   Paperclip,
-  Info
+  Info,
+  RotateCcw,
+  XCircle,
+  WifiOff,
+  Inbox
 } from 'lucide-react';
 import { useCategories } from '../hooks/useCategories';
 import { useDocuments } from '../hooks/useDocuments';
 import { useSystemSettings } from '../hooks/useSystemSettings';
+import { useOutbox } from '../hooks/useOutbox';
+import { useConnectivity } from '../hooks/useConnectivity';
 import { getFileIconWithColor, formatFileSize } from '../lib/fileUtils';
+import { runWithConcurrency } from '../lib/concurrency';
+import { getErrorMessage } from '../lib/queryClient';
+import { config } from '../lib/config';
+import { loadSavedUpload } from '../services/resumableUpload';
+import { UploadTransferState } from '../services/types';
 
 interface UploadFile {
   id: string;
@@ -40,18 +52,37 @@ interface UploadFile {
   class: string;
   subject: string;
   progress: number;
-  status: 'pending' | 'uploading' | 'completed' | 'error';
+  uploadedBytes: number;
+  // 'error' is a validation problem; 'failed' and 'cancelled' uploads can be retried; 'saved' waits in the outbox
+  status: 'pending' | 'queued' | 'uploading' | 'completed' | 'failed' | 'cancelled' | 'saved' | 'error';
   error?: string;
+  transfer?: UploadTransferState; // Chunked uploads only
+  savedChunks?: { uploaded: number; total: number }; // Progress left by an earlier attempt
 }
 
 export default function TeacherUpload() {
   const { categories, isLoading: categoriesLoading } = useCategories();
   const { settings, isLoading: settingsLoading } = useSystemSettings();
   const { uploadDocument } = useDocuments();
+  const { queueUpload, isAvailable: outboxAvailable } = useOutbox();
+  const isOnline = useConnectivity() !== 'offline';
+  // Without a connection, uploads go to the outbox and are sent later
+  const saveOffline = !isOnline && outboxAvailable;
   const [uploadFiles, setUploadFiles] = useState<UploadFile[]>([]);
   const [dragActive, setDragActive] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // In-flight uploads by file id, so each one can be cancelled
+  const controllersRef = useRef(new Map<string, AbortController>());
+  // Files waiting for an Upload All lane; updated as soon as they are queued or taken out,
+  // since the lanes start before the queued state has rendered
+  const queuedIdsRef = useRef(new Set<string>());
+
+  // Stop any uploads still running when leaving the page
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
 
   // Get allowed file types and max file size from system settings
   const allowedFileTypes = settings?.allowedFileTypes || ['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'jpg', 'jpeg', 'png'];
@@ -99,6 +130,7 @@ export default function TeacherUpload() {
         class: '',
         subject: '',
         progress: 0,
+        uploadedBytes: 0,
         status: error ? 'error' : 'pending',
         error
       });
@@ -106,6 +138,19 @@ export default function TeacherUpload() {
 
     setUploadFiles(prev => [...prev, ...newFiles]);
 
+    // Large files picked again after a reload can carry on from their saved progress
+    newFiles
+      .filter(fileData => fileData.status === 'pending' && fileData.file.size > config.upload.chunkedUploadThreshold)
+      .forEach(async (fileData) => {
+        const saved = await loadSavedUpload(fileData.file);
+        if (!saved || saved.chunksUploaded === 0) return;
+        setUploadFiles(prev => prev.map(file =>
+          file.id === fileData.id
+            ? { ...file, savedChunks: { uploaded: saved.chunksUploaded, total: saved.totalChunks } }
+            : file
+        ));
+      });
+
     // Show toast notifications
     if (successCount > 0) {
       toast.success('Files Added', {
@@ -153,69 +198,96 @@ export default function TeacherUpload() {
   };
 
   const removeFile = (id: string) => {
+    queuedIdsRef.current.delete(id);
     setUploadFiles(prev => prev.filter(file => file.id !== id));
   };
 
-  const uploadFile = async (fileData: UploadFile) => {
-    if (!fileData.title || !fileData.category) return;
-
-    setUploadFiles(prev => prev.map(file => 
-      file.id === fileData.id ? { ...file, status: 'uploading', progress: 0 } : file
+  const setFileState = (id: string, changes: Partial<UploadFile>) => {
+    setUploadFiles(prev => prev.map(file =>
+      file.id === id ? { ...file, ...changes } : file
     ));
+  };
+
+  // Create document object for upload
+  const getDocumentData = (fileData: UploadFile) => ({
+    title: fileData.title,
+    description: fileData.description,
+    categoryId: fileData.category,
+    classLevel: fileData.class || undefined,
+    subject: fileData.subject || undefined,
+    file: fileData.file
+  });
+
+  const saveToOutbox = async (fileData: UploadFile): Promise<boolean> => {
+    if (!fileData.title || !fileData.category) return false;
+
+    const saved = await queueUpload(getDocumentData(fileData));
+    if (saved) {
+      setFileState(fileData.id, { status: 'saved', error: undefined, transfer: undefined });
+    }
+    return saved;
+  };
 
-    try {
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadFiles(prev => prev.map(file => {
-          if (file.id === fileData.id && file.status === 'uploading') {
-            const newProgress = Math.min(file.progress + Math.random() * 30, 90);
-            return { ...file, progress: newProgress };
-          }
-          return file;
-        }));
-      }, 200);
-
-      // Create document object for upload
-      const documentData = {
-        title: fileData.title,
-        description: fileData.description,
-        categoryId: fileData.category,
-        classLevel: fileData.class || undefined,
-        subject: fileData.subject || undefined,
-        file: fileData.file
-      };
-
-      // Upload through our API
-      await uploadDocument(documentData);
-
-      // Complete the progress
-      clearInterval(progressInterval);
-      setUploadFiles(prev => prev.map(file => 
-        file.id === fileData.id ? { ...file, progress: 100, status: 'completed' } : file
-      ));
-
-      toast.success('Upload Complete', {
-        description: `${fileData.title} has been uploaded successfully`
+  const uploadFile = async (fileData: UploadFile): Promise<boolean> => {
+    if (!fileData.title || !fileData.category) return false;
+
+    const controller = new AbortController();
+    controllersRef.current.set(fileData.id, controller);
+    setFileState(fileData.id, { status: 'uploading', progress: 0, uploadedBytes: 0, error: undefined, transfer: undefined });
+
+    // Upload through our API; the hook reports success and failure
+    let uploadError: unknown;
+    const uploaded = await uploadDocument(getDocumentData(fileData), {
+      signal: controller.signal,
+      onError: (error) => {
+        uploadError = error;
+      },
+      onProgress: ({ loaded, percentage }) => {
+        setFileState(fileData.id, { progress: percentage, uploadedBytes: loaded });
+      },
+      onStateChange: (transfer) => {
+        setFileState(fileData.id, { transfer });
+      },
+    });
+    controllersRef.current.delete(fileData.id);
+
+    if (uploaded) {
+      setFileState(fileData.id, {
+        status: 'completed',
+        progress: 100,
+        uploadedBytes: fileData.file.size,
+        transfer: undefined,
+        savedChunks: undefined,
       });
-    } catch (error) {
-      setUploadFiles(prev => prev.map(file => 
-        file.id === fileData.id ? { 
-          ...file, 
-          status: 'error', 
-          error: 'Upload failed. Please try again.' 
-        } : file
-      ));
-
-      toast.error('Upload Failed', {
-        description: `Failed to upload ${fileData.title}`
+    } else if (controller.signal.aborted) {
+      setFileState(fileData.id, {
+        status: 'cancelled',
+        progress: 0,
+        uploadedBytes: 0,
+        transfer: undefined,
+        error: fileData.file.size > config.upload.chunkedUploadThreshold
+          ? 'Upload cancelled. Parts already sent are kept, so retrying continues where it stopped.'
+          : 'Upload cancelled.',
       });
+    } else {
+      setFileState(fileData.id, { status: 'failed', error: getErrorMessage(uploadError, 'Upload failed. Please try again.') });
+    }
+
+    return uploaded;
+  };
+
+  const cancelUpload = (fileData: UploadFile) => {
+    if (fileData.status === 'queued') {
+      // Not started yet, so just take it out of the queue
+      queuedIdsRef.current.delete(fileData.id);
+      setFileState(fileData.id, { status: 'pending' });
+      return;
     }
+    controllersRef.current.get(fileData.id)?.abort();
   };
 
   const uploadAllFiles = async () => {
-    const pendingFiles = uploadFiles.filter(file =>
-      file.status === 'pending' && file.title && file.category
-    );
+    const pendingFiles = uploadFiles.filter(canUploadFile);
 
     if (pendingFiles.length === 0) {
       toast.warning('No Files Ready', {
@@ -224,14 +296,37 @@ export default function TeacherUpload() {
       return;
     }
 
+    if (saveOffline) {
+      for (const file of pendingFiles) {
+        await saveToOutbox(file);
+      }
+      return;
+    }
+
     toast.info('Upload Started', {
       description: `Starting upload of ${pendingFiles.length} file${pendingFiles.length > 1 ? 's' : ''}`
     });
 
-    for (const file of pendingFiles) {
-      await uploadFile(file);
-      // Small delay between uploads
-      await new Promise(resolve => setTimeout(resolve, 100));
+    const queuedIds = new Set(pendingFiles.map(file => file.id));
+    queuedIds.forEach(id => queuedIdsRef.current.add(id));
+    setUploadFiles(prev => prev.map(file =>
+      queuedIds.has(file.id) ? { ...file, status: 'queued' } : file
+    ));
+
+    const results = await runWithConcurrency(pendingFiles, config.upload.maxConcurrentUploads, async (file) => {
+      // Skip files taken out of the queue while waiting for a free slot
+      if (!queuedIdsRef.current.delete(file.id)) return null;
+      return uploadFile(file);
+    });
+
+    const attempted = results.filter(result => result.status === 'fulfilled' && result.value !== null);
+    const succeeded = attempted.filter(result => result.status === 'fulfilled' && result.value).length;
+    const failed = attempted.length - succeeded;
+
+    if (attempted.length > 0) {
+      toast.info('Upload Finished', {
+        description: `${succeeded} of ${attempted.length} file${attempted.length > 1 ? 's' : ''} uploaded${failed > 0 ? `, ${failed} not uploaded` : ''}`
+      });
     }
   };
 
@@ -241,12 +336,13 @@ export default function TeacherUpload() {
 
   const canUploadFile = (file: UploadFile) => {
     const category = getSelectedCategory(file.category);
-    return file.title && file.category && file.status !== 'error' && 
+    return file.title && file.category && file.status === 'pending' && 
                       (!category?.requiresClassSubject || (file.class && file.subject));
   };
 
   const readyToUploadCount = uploadFiles.filter(canUploadFile).length;
   const completedCount = uploadFiles.filter(file => file.status === 'completed').length;
+  const submitFile = saveOffline ? saveToOutbox : uploadFile;
 
   return (
     <Layout>
@@ -269,8 +365,8 @@ export default function TeacherUpload() {
                 disabled={readyToUploadCount === 0}
                 className="gap-2"
               >
-                <Upload className="h-4 w-4" />
-                Upload All ({readyToUploadCount})
+                {saveOffline ? <Inbox className="h-4 w-4" /> : <Upload className="h-4 w-4" />}
+                {saveOffline ? 'Save All to Outbox' : 'Upload All'} ({readyToUploadCount})
               </Button>
             </div>
           )}
@@ -286,6 +382,23 @@ export default function TeacherUpload() {
           </Alert>
         )}
 
+        {/* Offline Notice */}
+        {!isOnline && (
+          <Alert className="bg-warning/10 border-warning/20">
+            <WifiOff className="h-4 w-4" />
+            <AlertDescription>
+              {outboxAvailable ? (
+                <>
+                  You're offline. Documents are saved to your <Link to="/teacher/outbox" className="underline">outbox</Link> and
+                  upload automatically when the connection returns.
+                </>
+              ) : (
+                "You're offline. Uploads will fail until the connection returns."
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* File Type Information */}
         {settings && (
           <Alert className="bg-info/10 border-info/20">
@@ -347,6 +460,7 @@ export default function TeacherUpload() {
             {uploadFiles.map((fileData) => {
               const category = getSelectedCategory(fileData.category);
               const canUpload = canUploadFile(fileData);
+              const isBusy = fileData.status === 'uploading' || fileData.status === 'queued';
 
               return (
                 <Card key={fileData.id}>
@@ -376,17 +490,47 @@ export default function TeacherUpload() {
                               Error
                             </Badge>
                           )}
-                          {fileData.status === 'uploading' && (
+                          {fileData.status === 'failed' && (
+                            <Badge variant="destructive">
+                              <AlertCircle className="h-3 w-3 mr-1" />
+                              Failed
+                            </Badge>
+                          )}
+                          {fileData.status === 'cancelled' && (
+                            <Badge variant="outline">
+                              <XCircle className="h-3 w-3 mr-1" />
+                              Cancelled
+                            </Badge>
+                          )}
+                          {fileData.status === 'saved' && (
+                            <Badge variant="outline">
+                              <Inbox className="h-3 w-3 mr-1" />
+                              In Outbox
+                            </Badge>
+                          )}
+                          {fileData.status === 'queued' && (
                             <Badge variant="outline">
                               <Clock className="h-3 w-3 mr-1" />
-                              Uploading...
+                              Queued
+                            </Badge>
+                          )}
+                          {fileData.status === 'uploading' && fileData.transfer?.phase === 'paused' && (
+                            <Badge className="bg-warning/10 text-warning border-warning/20">
+                              <WifiOff className="h-3 w-3 mr-1" />
+                              Paused
+                            </Badge>
+                          )}
+                          {fileData.status === 'uploading' && fileData.transfer?.phase !== 'paused' && (
+                            <Badge variant="outline">
+                              <Clock className="h-3 w-3 mr-1" />
+                              {fileData.transfer?.phase === 'resuming' ? 'Resuming...' : 'Uploading...'}
                             </Badge>
                           )}
                           <Button 
                             variant="ghost" 
                             size="sm"
                             onClick={() => removeFile(fileData.id)}
-                            disabled={fileData.status === 'uploading'}
+                            disabled={isBusy}
                           >
                             <X className="h-4 w-4" />
                           </Button>
@@ -408,11 +552,27 @@ export default function TeacherUpload() {
                         <div className="space-y-2">
                           <Progress value={fileData.progress} className="h-2" />
                           <p className="text-xs text-muted-foreground">
-                            Uploading... {Math.round(fileData.progress)}%
+                            {fileData.transfer?.phase === 'paused'
+                              ? 'Paused: waiting for the connection to come back. The upload will continue automatically.'
+                              : `Uploading... ${formatFileSize(fileData.uploadedBytes)} of ${formatFileSize(fileData.file.size)} (${Math.round(fileData.progress)}%)`}
                           </p>
+                          {fileData.transfer && (
+                            <p className="text-xs text-muted-foreground">
+                              {fileData.transfer.resumed && 'Resumed from an earlier attempt. '}
+                              Part {Math.min(fileData.transfer.chunksUploaded + 1, fileData.transfer.totalChunks)} of {fileData.transfer.totalChunks}, {formatFileSize(fileData.transfer.bytesRemaining)} remaining
+                            </p>
+                          )}
                         </div>
                       )}
 
+                      {/* Saved progress from an earlier attempt */}
+                      {fileData.savedChunks && fileData.status !== 'uploading' && fileData.status !== 'completed' && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Info className="h-3 w-3" />
+                          {fileData.savedChunks.uploaded} of {fileData.savedChunks.total} parts were uploaded earlier; uploading continues from there.
+                        </p>
+                      )}
+
                       {/* File Details Form */}
                       {fileData.status !== 'error' && (
                         <div className="grid gap-4 md:grid-cols-2">
@@ -422,7 +582,7 @@ export default function TeacherUpload() {
                               value={fileData.title}
                               onChange={(e) => updateFileData(fileData.id, 'title', e.target.value)}
                               placeholder="Enter document title"
-                              disabled={fileData.status === 'uploading' || fileData.status === 'completed'}
+                              disabled={isBusy || fileData.status === 'completed' || fileData.status === 'saved'}
                             />
                           </div>
 
@@ -431,7 +591,7 @@ export default function TeacherUpload() {
                             <Select
                               value={fileData.category}
                               onValueChange={(value) => updateFileData(fileData.id, 'category', value)}
-                              disabled={fileData.status === 'uploading' || fileData.status === 'completed'}
+                              disabled={isBusy || fileData.status === 'completed' || fileData.status === 'saved'}
                             >
                               <SelectTrigger>
                                 <SelectValue placeholder="Select category" />
@@ -453,7 +613,7 @@ export default function TeacherUpload() {
                                 <Select
                                   value={fileData.class}
                                   onValueChange={(value) => updateFileData(fileData.id, 'class', value)}
-                                  disabled={fileData.status === 'uploading' || fileData.status === 'completed'}
+                                  disabled={isBusy || fileData.status === 'completed' || fileData.status === 'saved'}
                                 >
                                   <SelectTrigger>
                                     <SelectValue placeholder="Select class" />
@@ -476,7 +636,7 @@ export default function TeacherUpload() {
                                 <Select
                                   value={fileData.subject}
                                   onValueChange={(value) => updateFileData(fileData.id, 'subject', value)}
-                                  disabled={fileData.status === 'uploading' || fileData.status === 'completed'}
+                                  disabled={isBusy || fileData.status === 'completed' || fileData.status === 'saved'}
                                 >
                                   <SelectTrigger>
                                     <SelectValue placeholder="Select subject" />
@@ -503,22 +663,49 @@ export default function TeacherUpload() {
                               onChange={(e) => updateFileData(fileData.id, 'description', e.target.value)}
                               placeholder="Add a brief description of this document"
                               rows={2}
-                              disabled={fileData.status === 'uploading' || fileData.status === 'completed'}
+                              disabled={isBusy || fileData.status === 'completed' || fileData.status === 'saved'}
                             />
                           </div>
                         </div>
                       )}
 
+                      {/* Cancel Button */}
+                      {isBusy && (
+                        <div className="flex justify-end">
+                          <Button
+                            variant="outline"
+                            onClick={() => cancelUpload(fileData)}
+                            className="gap-2"
+                          >
+                            <XCircle className="h-4 w-4" />
+                            Cancel
+                          </Button>
+                        </div>
+                      )}
+
+                      {/* Retry Button */}
+                      {(fileData.status === 'failed' || fileData.status === 'cancelled') && (
+                        <div className="flex justify-end">
+                          <Button
+                            onClick={() => submitFile(fileData)}
+                            className="gap-2"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                            {saveOffline ? 'Save to Outbox' : 'Retry Upload'}
+                          </Button>
+                        </div>
+                      )}
+
                       {/* Upload Button */}
                       {fileData.status === 'pending' && (
                         <div className="flex justify-end">
                           <Button
-                            onClick={() => uploadFile(fileData)}
+                            onClick={() => submitFile(fileData)}
                             disabled={!canUpload}
                             className="gap-2"
                           >
-                            <Upload className="h-4 w-4" />
-                            Upload Document
+                            {saveOffline ? <Inbox className="h-4 w-4" /> : <Upload className="h-4 w-4" />}
+                            {saveOffline ? 'Save to Outbox' : 'Upload Document'}
                           </Button>
                         </div>
                       )}
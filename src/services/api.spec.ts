@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { apiClient } from "./api";
+import { FileUploadProgress } from "./types";
+
+describe("downloadDocument", () => {
+  let fetchSignal: AbortSignal | undefined;
+
+  beforeEach(() => {
+    vi.stubGlobal("localStorage", { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+    vi.stubGlobal("window", Object.assign(new EventTarget(), { location: { pathname: "/teacher/documents" } }));
+    vi.stubGlobal("BroadcastChannel", class {
+      postMessage() {}
+      close() {}
+    });
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  const encoder = new TextEncoder();
+
+  // Serves the chunks one read at a time and fails the body when the request is aborted, as fetch does
+  const serve = (chunks: string[], headers: Record<string, string> = {}) => {
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+      fetchSignal = init.signal ?? undefined;
+      const pending = chunks.map(chunk => encoder.encode(chunk));
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          fetchSignal?.addEventListener("abort", () => controller.error(fetchSignal!.reason));
+        },
+        pull(controller) {
+          const next = pending.shift();
+          if (next) controller.enqueue(next);
+          else controller.close();
+        },
+      });
+      return new Response(body, {
+        status: 200,
+        headers: { "Content-Type": "application/pdf", "Content-Disposition": 'attachment; filename="scheme.pdf"', ...headers },
+      });
+    }));
+  };
+
+  // A save dialog whose file records what was written to it
+  const pickFile = () => {
+    const file = {
+      written: [] as string[],
+      write: vi.fn(async (chunk: Uint8Array) => {
+        file.written.push(new TextDecoder().decode(chunk));
+      }),
+      close: vi.fn(async () => {}),
+      abort: vi.fn(async () => {}),
+    };
+    const showSaveFilePicker = vi.fn(async () => ({ createWritable: async () => file }));
+    Object.assign(window, { showSaveFilePicker });
+    return { file, showSaveFilePicker };
+  };
+
+  it("should write each chunk to the picked file and report progress", async () => {
+    serve(["Term 2 ", "Mathematics ", "scheme"], { "Content-Length": "25" });
+    const { file, showSaveFilePicker } = pickFile();
+    const progress: FileUploadProgress[] = [];
+
+    await expect(apiClient.downloadDocument("7", "fallback.pdf", {
+      shareToken: "share-token",
+      onProgress: update => progress.push(update),
+    })).resolves.toBe(true);
+
+    expect(showSaveFilePicker).toHaveBeenCalledWith({ suggestedName: "scheme.pdf" });
+    expect(file.written).toEqual(["Term 2 ", "Mathematics ", "scheme"]);
+    expect(file.close).toHaveBeenCalled();
+    expect(progress).toEqual([
+      { loaded: 7, total: 25, percentage: 28 },
+      { loaded: 19, total: 25, percentage: 76 },
+      { loaded: 25, total: 25, percentage: 100 },
+    ]);
+  });
+
+  it("should discard the partial file when the download is cancelled", async () => {
+    serve(["Term 2 ", "Mathematics ", "scheme"]);
+    const { file } = pickFile();
+    const controller = new AbortController();
+
+    await expect(apiClient.downloadDocument("7", undefined, {
+      shareToken: "share-token",
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    })).rejects.toMatchObject({ name: "AbortError" });
+
+    expect(file.written).toEqual(["Term 2 "]);
+    expect(file.abort).toHaveBeenCalled();
+    expect(file.close).not.toHaveBeenCalled();
+  });
+
+  it("should stop before reading the body when a large download is declined", async () => {
+    serve(["never read"], { "Content-Length": String(500 * 1024 * 1024) });
+    const { file, showSaveFilePicker } = pickFile();
+    const confirmLargeDownload = vi.fn(async () => false);
+    const onProgress = vi.fn();
+
+    await expect(apiClient.downloadDocument("7", undefined, {
+      shareToken: "share-token",
+      confirmLargeDownload,
+      onProgress,
+    })).resolves.toBe(false);
+
+    expect(confirmLargeDownload).toHaveBeenCalledWith(500 * 1024 * 1024);
+    expect(showSaveFilePicker).not.toHaveBeenCalled();
+    expect(file.write).not.toHaveBeenCalled();
+    expect(onProgress).not.toHaveBeenCalled();
+  });
+
+  it("should resolve false when the save dialog is closed", async () => {
+    serve(["Term 2 Mathematics"]);
+    Object.assign(window, {
+      showSaveFilePicker: async () => {
+        throw new DOMException("The user aborted a request.", "AbortError");
+      },
+    });
+
+    await expect(apiClient.downloadDocument("7", undefined, { shareToken: "share-token" })).resolves.toBe(false);
+  });
+
+  it("should hold the file in memory and save it through a link without a save dialog", async () => {
+    serve(["Term 2 ", "Mathematics"]);
+    const link = { href: "", download: "", click: vi.fn() };
+    vi.stubGlobal("document", {
+      createElement: () => link,
+      body: { appendChild: () => {}, removeChild: () => {} },
+    });
+    const saved: Blob[] = [];
+    vi.spyOn(URL, "createObjectURL").mockImplementation(blob => {
+      saved.push(blob as Blob);
+      return "blob:download";
+    });
+    vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => {});
+
+    await expect(apiClient.downloadDocument("7", undefined, { shareToken: "share-token" })).resolves.toBe(true);
+
+    expect(link).toMatchObject({ href: "blob:download", download: "scheme.pdf" });
+    expect(link.click).toHaveBeenCalled();
+    expect(await saved[0].text()).toBe("Term 2 Mathematics");
+  });
+});
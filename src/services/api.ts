@@ -3,20 +3,33 @@
  * Integrates with Django REST Framework backend API
  */
 
+import { z } from 'zod';
 import { config } from '../lib/config';
-import { 
-  ApiResponse, 
-  User, 
+import { snakeizeKeys } from '../lib/caseConversion';
+import { createLogger } from '../lib/logger';
+import {
+  ApiResponse,
+  ActiveSession,
+  User,
   UserPreferences,
   ProfileResponse,
   ChangePasswordRequest,
-  LoginRequest, 
-  LoginResponse, 
+  LoginRequest,
+  LoginResponse,
   RegisterRequest,
+  OTPSendRequest,
   OTPVerificationRequest,
+  Passkey,
+  PasskeyLoginRequest,
+  PasskeyRegistrationRequest,
+  PasskeyRenameRequest,
   PasswordResetRequest,
   PasswordResetResponse,
   PasswordResetConfirmRequest,
+  Invitation,
+  InvitationAcceptRequest,
+  InvitationBatch,
+  InvitationPreview,
   Teacher,
   TeacherCreateRequest,
   TeacherUpdateRequest,
@@ -34,20 +47,165 @@ import {
   ReportsData,
   SystemSettings,
   SecuritySettings,
+  PublicSettings,
+  BasicPublicSettings,
   ActivityLog,
-  ActivityAction,
+  ActivityLogFilters,
   PaginatedResponse,
+  PaginationParams,
   SearchFilters,
   SearchResults,
+  UploadOptions,
+  DownloadOptions,
+  RequestOptions,
+  UploadPhase,
+  UploadSession,
+  RecoveryCodeStatus,
+  RecoveryCodes,
+  TotpConfirmRequest,
+  TotpSetup,
   AuthTokens
 } from './types';
 
+import { clearActivity, publishAuthEvent } from './authChannel';
 import API_ENDPOINTS from './endpoints';
+import { ApiError, AuthenticationError, PermissionError, ValidationError } from './errors';
+import { HttpClient, HttpRequestOptions, QueryParams } from './http';
+import {
+  decode,
+  sessionSchema,
+  otpChallengeSchema,
+  totpSetupSchema,
+  passkeySchema,
+  passkeyCreationOptionsSchema,
+  passkeyRequestOptionsSchema,
+  activeSessionSchema,
+  revokedSessionsSchema,
+  recoveryCodeStatusSchema,
+  recoveryCodesSchema,
+  passwordResetSchema,
+  messageSchema,
+  profileSchema,
+  fullProfileSchema,
+  teacherSchema,
+  teacherActionSchema,
+  invitationSchema,
+  invitationBatchSchema,
+  invitationPreviewSchema,
+  documentSchema,
+  uploadSessionSchema,
+  publicDocumentSchema,
+  documentStatusChangeSchema,
+  documentShareSchema,
+  unshareSchema,
+  categorySchema,
+  categoryToggleSchema,
+  activityLogListSchema,
+  backendActionsFor,
+  backendSeveritiesFor,
+  paginatedSchema,
+  settingsEnvelope,
+  systemSettingsSchema,
+  securitySettingsSchema,
+  publicSettingsSchema,
+  basicPublicSettingsSchema,
+  dashboardStatsSchema,
+  teacherDashboardStatsSchema,
+  reportsDataSchema,
+} from './decoders';
+import {
+  createAuthInterceptors,
+  clearAuthState,
+  timeoutInterceptor,
+  snakeCaseRequestInterceptor,
+  camelCaseResponseInterceptor,
+  errorNormalizationInterceptor,
+  loggingRequestInterceptor,
+  loggingResponseInterceptor,
+} from './interceptors';
+import {
+  chunkCount,
+  chunkRange,
+  fileFingerprint,
+  forgetUpload,
+  isConnectionError,
+  loadSavedUpload,
+  saveUpload,
+  sha256Hex,
+  waitToResume,
+} from './resumableUpload';
+
+const log = createLogger('api');
+
+// A chunk that keeps failing its checksum points at something worse than a flaky line
+const MAX_CHECKSUM_RETRIES = 3;
+
+// The File System Access API, in Chromium browsers only; the others have no way to write to disk
+type SaveFilePicker = (options: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+const getSaveFilePicker = (): SaveFilePicker | undefined =>
+  typeof window === 'undefined'
+    ? undefined
+    : (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker?.bind(window);
+
+/**
+ * Open the save dialog for a download. Resolves null when the browser has no
+ * dialog or refuses it (e.g. too long after the click), so the download is
+ * held in memory instead; rejects with an AbortError when the user closes it.
+ */
+const openSaveFile = async (fileName: string): Promise<FileSystemWritableFileStream | null> => {
+  const showSaveFilePicker = getSaveFilePicker();
+  if (!showSaveFilePicker) return null;
+
+  try {
+    const handle = await showSaveFilePicker({ suggestedName: fileName });
+    return await handle.createWritable();
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    log.warn('Could not save the download to disk, keeping it in memory', error);
+    return null;
+  }
+};
+
+/**
+ * Get the filename from the Content-Disposition header, falling back to the
+ * name we already know and keeping its extension if the header drops it
+ */
+const getDownloadFileName = (contentDisposition: string | null, documentFileName?: string): string => {
+  let fileName = documentFileName || 'download'; // Use provided filename as fallback
+
+  if (contentDisposition) {
+    // Try multiple patterns to extract filename
+    const patterns = [
+      /filename\*=UTF-8''(.+)/i,  // RFC 5987 encoded filename
+      /filename="([^"]+)"/i,       // Quoted filename
+      /filename=([^;]+)/i          // Unquoted filename
+    ];
+
+    for (const pattern of patterns) {
+      const match = contentDisposition.match(pattern);
+      if (match && match[1]) {
+        fileName = decodeURIComponent(match[1].trim());
+        break;
+      }
+    }
+  }
+
+  // Ensure filename has proper extension if missing
+  if (documentFileName && !fileName.includes('.') && documentFileName.includes('.')) {
+    const extension = documentFileName.split('.').pop();
+    fileName = `${fileName}.${extension}`;
+  }
+
+  return fileName;
+};
 
 // API Client Class
 export class ApiClient {
   private static instance: ApiClient;
 
+  private http: HttpClient;
+
   public static getInstance(): ApiClient {
     if (!ApiClient.instance) {
       ApiClient.instance = new ApiClient();
@@ -55,25 +213,45 @@ export class ApiClient {
     return ApiClient.instance;
   }
 
-  private getAuthHeader(): Record<string, string> {
-    const token = localStorage.getItem(config.auth.tokenKey);
-    return token ? { Authorization: `Bearer ${token}` } : {};
+  constructor() {
+    this.http = new HttpClient();
+
+    const auth = createAuthInterceptors();
+
+    // Request interceptors run in registration order
+    this.http.interceptors.request.use(loggingRequestInterceptor);
+    this.http.interceptors.request.use(auth.request);
+    this.http.interceptors.request.use(snakeCaseRequestInterceptor);
+    this.http.interceptors.request.use(timeoutInterceptor);
+
+    // Response interceptors: log, refresh on 401, throw on errors, then convert keys
+    this.http.interceptors.response.use(loggingResponseInterceptor);
+    this.http.interceptors.response.use(auth.response);
+    this.http.interceptors.response.use(errorNormalizationInterceptor);
+    this.http.interceptors.response.use(camelCaseResponseInterceptor);
+  }
+
+  /**
+   * Request and response interceptors shared by every API call
+   */
+  get interceptors() {
+    return this.http.interceptors;
   }
 
   private getCurrentUser(): User {
     const userFromStorage = localStorage.getItem(config.auth.userKey);
     let user: User | null = null;
-    
+
     if (userFromStorage) {
       try {
         user = JSON.parse(userFromStorage);
       } catch (error) {
-        console.warn('Failed to parse user from localStorage:', error);
+        log.warn('Failed to parse user from localStorage', error);
       }
     }
-    
+
     if (!user) {
-      throw new ApiError('Authentication required', 401);
+      throw new AuthenticationError('Authentication required');
     }
     return user;
   }
@@ -81,2360 +259,1575 @@ export class ApiClient {
   private requireRole(role: 'admin' | 'teacher'): User {
     const user = this.getCurrentUser();
     if (user.role !== role) {
-      throw new ApiError('Insufficient permissions', 403);
+      throw new PermissionError('Insufficient permissions');
     }
     return user;
   }
 
-  private async makeRequest<T>(url: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
-    try {
-      const accessToken = localStorage.getItem(config.auth.tokenKey);
-      if (!accessToken) {
-        throw new ApiError('Authentication required', 401);
-      }
+  /**
+   * Fetch one page of a paginated list, either by page number or by
+   * following a next/previous link from an earlier page
+   */
+  private async getPage<S extends z.ZodTypeAny>(
+    url: string,
+    list: S,
+    resource: string,
+    query: QueryParams = {},
+    params: PaginationParams = {},
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<z.output<S>[number]>> {
+    const data = params.cursor
+      ? await this.http.get(params.cursor, { signal, errorMessage: `Failed to fetch ${resource}` })
+      : await this.http.get(url, {
+          query: {
+            ...query,
+            page: params.page ?? 1,
+            page_size: params.pageSize ?? config.ui.itemsPerPage,
+          },
+          signal,
+          errorMessage: `Failed to fetch ${resource}`,
+        });
 
-      const defaultHeaders = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${accessToken}`,
-      };
+    return decode(paginatedSchema(list), data, resource);
+  }
 
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          ...defaultHeaders,
-          ...options.headers,
+  // Authentication Methods
+  async login(credentials: LoginRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<LoginResponse>> {
+    const data = await this.http.post(API_ENDPOINTS.AUTH.LOGIN, {
+      email: credentials.email,
+      password: credentials.password,
+    }, { auth: false, signal, errorMessage: 'Login failed' });
+
+    // Check if OTP is required (Django sends user info + requires_otp flag)
+    if (data?.requires_otp) {
+      // For OTP flow, we return the partial user data
+      // Frontend will handle OTP verification separately
+      const challenge = decode(otpChallengeSchema, data, 'login');
+      return {
+        success: true,
+        data: {
+          user: challenge.user,
+          tokens: null, // No tokens until OTP is verified
+          requiresOtp: true,
+          methods: challenge.methods,
         },
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
+        message: challenge.message || 'Verification code sent to your email',
+      };
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Request failed' }));
-        
-        if (response.status === 401) {
-          // Check if it's a session expiry
-          if (errorData.code === 'SESSION_EXPIRED') {
-            // Emit session expired event for the app to handle
-            window.dispatchEvent(new CustomEvent('session-expired', {
-              detail: {
-                message: errorData.detail || 'Your session has expired',
-                timeout: true
-              }
-            }));
-          }
-          
-          // Clear auth state for any 401
-          localStorage.removeItem(config.auth.tokenKey);
-          localStorage.removeItem(config.auth.refreshTokenKey);
-          localStorage.removeItem(config.auth.userKey);
-        }
-        
-        throw new ApiError(errorData.error || `HTTP error! status: ${response.status}`, response.status);
-      }
+    // If no OTP required (direct login when 2FA is disabled)
+    const session = decode(sessionSchema, data, 'login');
+    return {
+      success: true,
+      data: this.startSession(session),
+      message: session.message || 'Login successful',
+    };
+  }
+
+  async register(data: RegisterRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
+    try {
+      const responseData = await this.http.post(API_ENDPOINTS.AUTH.REGISTER, {
+        email: data.email,
+        password: data.password,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        phoneNumber: data.phoneNumber || '',
+      }, { auth: false, snakeCaseRequest: true, signal, errorMessage: 'Registration failed' });
 
-      const data = await response.json();
       return {
         success: true,
-        data,
-        message: 'Request successful',
+        data: {
+          message: responseData.message || 'Registration successful. Your account is pending admin approval.'
+        }
       };
-
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
+      // Label Django validation errors with readable field names
+      if (error instanceof ValidationError) {
+        const labels: Record<string, string> = {
+          email: 'Email',
+          password: 'Password',
+          first_name: 'First Name',
+          last_name: 'Last Name',
+        };
+        const errorMessages = Object.entries(error.errors).map(([field, messages]) =>
+          labels[field] ? `${labels[field]}: ${messages.join(', ')}` : messages.join(', ')
+        );
+        throw new ValidationError(errorMessages.join('; ') || 'Registration failed', error.errors);
       }
-
-      throw new ApiError('An unexpected error occurred', 500);
+      throw error;
     }
   }
 
-  // Authentication Methods
-  async login(credentials: LoginRequest): Promise<ApiResponse<LoginResponse>> {
-    try {
-      const response = await fetch(`${config.api.baseUrl}/accounts/auth/login/`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          email: credentials.email,
-          password: credentials.password,
-        }),
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new ApiError(data.error || 'Login failed', response.status);
-      }
+  async verifyOTP(data: OTPVerificationRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<LoginResponse>> {
+    const responseData = await this.http.post(API_ENDPOINTS.AUTH.VERIFY_OTP, {
+      user_id: data.user_id,
+      otp: data.otp,
+      method: data.method,
+    }, { auth: false, signal, errorMessage: 'OTP verification failed' });
+
+    const session = decode(sessionSchema, responseData, 'OTP verification');
+    return {
+      success: true,
+      data: this.startSession(session),
+      message: session.message || 'OTP verified successfully',
+    };
+  }
 
-      // Check if OTP is required (Django sends user info + requires_otp flag)
-      if (data.requires_otp) {
-        // For OTP flow, we return the partial user data
-        // Frontend will handle OTP verification separately
-        return {
-          success: true,
-          data: {
-            user: {
-              id: data.user_id.toString(), // Convert to string to match interface
-              email: data.email,
-              firstName: data.first_name,
-              lastName: data.last_name,
-              role: data.role,
-              username: data.username,
-              isActive: true,
-              dateJoined: data.date_joined || new Date().toISOString(),
-              profilePicture: data.profile_picture ? `${config.api.baseUrl.replace('/api', '')}${data.profile_picture}?t=${Date.now()}` : undefined,
-              phoneNumber: data.phone_number,
-              bio: data.bio,
-            },
-            tokens: null, // No tokens until OTP is verified
-            requiresOtp: true,
-          },
-          message: data.message || 'Verification code sent to your email',
-        };
-      }
+  // Email a code to a user whose login offered their authenticator app first
+  async sendLoginCode(data: OTPSendRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
+    const responseData = await this.http.post(API_ENDPOINTS.AUTH.SEND_OTP, {
+      user_id: data.user_id,
+    }, { auth: false, signal, errorMessage: 'Failed to send verification code' });
+
+    const { message } = decode(messageSchema, responseData, 'verification code');
+    return {
+      success: true,
+      data: { message },
+      message: message || 'Verification code sent to your email',
+    };
+  }
 
-      // If no OTP required (direct login when 2FA is disabled)
-      if (data.access && data.refresh) {
-        const user: User = {
-          id: data.user.id.toString(), // Convert to string to match interface
-          email: data.user.email,
-          firstName: data.user.first_name,
-          lastName: data.user.last_name,
-          role: data.user.role,
-          username: data.user.username,
-          isActive: true,
-          dateJoined: data.user.date_joined || new Date().toISOString(),
-          lastLogin: new Date().toISOString(),
-          profilePicture: data.user.profile_picture ? `${config.api.baseUrl.replace('/api', '')}${data.user.profile_picture}?t=${Date.now()}` : undefined,
-          phoneNumber: data.user.phone_number,
-          bio: data.user.bio,
-        };
+  // A passkey sign-in is a whole login: no password and no OTP step
+  async getPasskeyLoginOptions({ signal }: RequestOptions = {}): Promise<ApiResponse<PublicKeyCredentialRequestOptionsJSON>> {
+    const responseData = await this.http.post(API_ENDPOINTS.AUTH.PASSKEY_OPTIONS, undefined, {
+      auth: false,
+      signal,
+      errorMessage: 'Failed to start passkey sign-in',
+    });
+
+    return {
+      success: true,
+      data: decode(passkeyRequestOptionsSchema, responseData, 'passkey sign-in options'),
+    };
+  }
 
-        const tokens: AuthTokens = {
-          access: data.access,
-          refresh: data.refresh,
-        };
+  async loginWithPasskey(data: PasskeyLoginRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<LoginResponse>> {
+    const responseData = await this.http.post(API_ENDPOINTS.AUTH.PASSKEY_LOGIN, {
+      credential: data.credential,
+    }, { auth: false, signal, errorMessage: 'Passkey sign-in failed' });
 
-        // Save authentication state
-        localStorage.setItem(config.auth.tokenKey, tokens.access);
-        localStorage.setItem(config.auth.refreshTokenKey, tokens.refresh);
-        localStorage.setItem(config.auth.userKey, JSON.stringify(user));
+    const session = decode(sessionSchema, responseData, 'passkey sign-in');
+    return {
+      success: true,
+      data: this.startSession(session),
+      message: session.message || 'Login successful',
+    };
+  }
 
-        return {
-          success: true,
-          data: { user, tokens },
-          message: data.message || 'Login successful',
-        };
-      }
+  /**
+   * Persist the tokens and user from a completed login
+   */
+  private startSession(session: z.output<typeof sessionSchema>): LoginResponse {
+    const user: User = {
+      ...session.user,
+      isActive: true,
+      lastLogin: new Date().toISOString(),
+    };
 
-      // Fallback error
-      throw new ApiError('Unexpected response format', 500);
+    const tokens: AuthTokens = {
+      access: session.access,
+      refresh: session.refresh,
+    };
 
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      // Handle network errors
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
-      }
+    // Save authentication state
+    localStorage.setItem(config.auth.tokenKey, tokens.access);
+    localStorage.setItem(config.auth.refreshTokenKey, tokens.refresh);
+    localStorage.setItem(config.auth.userKey, JSON.stringify(user));
 
-      throw new ApiError('An unexpected error occurred during login', 500);
-    }
+    return { user, tokens };
   }
 
-  async register(data: RegisterRequest): Promise<ApiResponse<{ message: string }>> {
-    try {
-      const response = await fetch(`${config.api.baseUrl}/accounts/teacher-registration/`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          email: data.email,
-          password: data.password,
-          first_name: data.firstName,
-          last_name: data.lastName,
-          phone_number: data.phoneNumber || '',
-        }),
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
+  async logout({ signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
+    const accessToken = localStorage.getItem(config.auth.tokenKey);
+    const refreshToken = localStorage.getItem(config.auth.refreshTokenKey);
 
-      const responseData = await response.json();
-
-      if (!response.ok) {
-        // Handle validation errors from Django
-        if (response.status === 400) {
-          const errorMessages = [];
-          if (responseData.email) errorMessages.push(`Email: ${Array.isArray(responseData.email) ? responseData.email.join(', ') : responseData.email}`);
-          if (responseData.password) errorMessages.push(`Password: ${Array.isArray(responseData.password) ? responseData.password.join(', ') : responseData.password}`);
-          if (responseData.first_name) errorMessages.push(`First Name: ${Array.isArray(responseData.first_name) ? responseData.first_name.join(', ') : responseData.first_name}`);
-          if (responseData.last_name) errorMessages.push(`Last Name: ${Array.isArray(responseData.last_name) ? responseData.last_name.join(', ') : responseData.last_name}`);
-          if (responseData.non_field_errors) errorMessages.push(Array.isArray(responseData.non_field_errors) ? responseData.non_field_errors.join(', ') : responseData.non_field_errors);
-          
-          const errorMessage = errorMessages.length > 0 ? errorMessages.join('; ') : 'Registration failed';
-          throw new ApiError(errorMessage, 400);
-        }
-        
-        throw new ApiError(
-          responseData.error || 
-          responseData.detail ||
-          'Registration failed',
-          response.status
-        );
-      }
+    // Other tabs sign out straight away rather than after the backend answers
+    publishAuthEvent({ type: 'logout' });
+    clearActivity();
 
-      return {
-        success: true,
-        data: {
-          message: responseData.message || 'Registration successful. Your account is pending admin approval.'
-        }
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      // Handle network errors
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
+    // Call Django logout endpoint if we have tokens
+    if (accessToken && refreshToken) {
+      try {
+        await this.http.post(API_ENDPOINTS.AUTH.LOGOUT, {
+          refresh_token: refreshToken,
+        }, { signal });
+      } catch (error) {
+        log.warn('Logout API call error', error);
+        // Continue with local logout even if API call fails
       }
-
-      throw new ApiError('An unexpected error occurred during registration', 500);
     }
-  }
-
-  async verifyOTP(data: OTPVerificationRequest): Promise<ApiResponse<LoginResponse>> {
-    try {
-      const response = await fetch(`${config.api.baseUrl}/accounts/auth/verify-otp/`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          user_id: data.user_id,
-          otp: data.otp,
-        }),
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
 
-      const responseData = await response.json();
+    // Always clear local authentication state
+    clearAuthState();
 
-      if (!response.ok) {
-        throw new ApiError(responseData.error || 'OTP verification failed', response.status);
-      }
+    return {
+      success: true,
+      data: { message: 'Logout successful' },
+      message: 'Logout successful',
+    };
+  }
 
-      // Success - create user and tokens from response
-      const user: User = {
-        id: responseData.user.id.toString(), // Convert to string to match interface
-        email: responseData.user.email,
-        firstName: responseData.user.first_name,
-        lastName: responseData.user.last_name,
-        role: responseData.user.role,
-        username: responseData.user.username,
-        isActive: true,
-        dateJoined: responseData.user.date_joined || new Date().toISOString(),
-        lastLogin: new Date().toISOString(),
-        profilePicture: responseData.user.profile_picture ? `${config.api.baseUrl.replace('/api', '')}${responseData.user.profile_picture}?t=${Date.now()}` : undefined,
-        phoneNumber: responseData.user.phone_number,
-        bio: responseData.user.bio,
-      };
+  async forgotPassword(data: PasswordResetRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<PasswordResetResponse>> {
+    const responseData = await this.http.post(API_ENDPOINTS.AUTH.FORGOT_PASSWORD, {
+      email: data.email,
+    }, { auth: false, signal, errorMessage: 'Failed to send password reset email' });
 
-      const tokens: AuthTokens = {
-        access: responseData.access,
-        refresh: responseData.refresh,
-      };
+    const reset = decode(passwordResetSchema, responseData, 'password reset');
+    return {
+      success: true,
+      data: reset,
+      message: reset.message || 'Password reset email sent',
+    };
+  }
 
-      // Save authentication state
-      localStorage.setItem(config.auth.tokenKey, tokens.access);
-      localStorage.setItem(config.auth.refreshTokenKey, tokens.refresh);
-      localStorage.setItem(config.auth.userKey, JSON.stringify(user));
+  async resetPassword(data: PasswordResetConfirmRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
+    const responseData = await this.http.post(API_ENDPOINTS.AUTH.RESET_PASSWORD, {
+      user_id: data.user_id,
+      otp: data.otp,
+      password: data.password,
+    }, { auth: false, signal, errorMessage: 'Failed to reset password' });
+
+    const { message } = decode(messageSchema, responseData, 'password reset');
+    return {
+      success: true,
+      data: { message },
+      message: message || 'Password reset successfully',
+    };
+  }
 
-      return {
-        success: true,
-        data: { user, tokens },
-        message: responseData.message || 'OTP verified successfully',
-      };
+  // Authenticator App Methods
+
+  /**
+   * Start enrolling an authenticator app. The secret only takes effect once
+   * confirmTotp() accepts a code generated from it.
+   */
+  async startTotpSetup({ signal }: RequestOptions = {}): Promise<ApiResponse<TotpSetup>> {
+    const responseData = await this.http.post(API_ENDPOINTS.TWO_FACTOR.TOTP_SETUP, undefined, {
+      signal,
+      errorMessage: 'Failed to start authenticator setup',
+    });
+
+    return {
+      success: true,
+      data: decode(totpSetupSchema, responseData, 'authenticator setup'),
+    };
+  }
 
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      // Handle network errors
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
-      }
+  async confirmTotp(data: TotpConfirmRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
+    const responseData = await this.http.post(API_ENDPOINTS.TWO_FACTOR.TOTP_CONFIRM, {
+      code: data.code,
+    }, { signal, errorMessage: 'Failed to verify authenticator code' });
 
-      throw new ApiError('An unexpected error occurred during OTP verification', 500);
-    }
+    const { message } = decode(messageSchema, responseData, 'authenticator setup');
+    return {
+      success: true,
+      data: { message },
+      message: message || 'Authenticator app enabled',
+    };
   }
 
-  async logout(): Promise<ApiResponse<{ message: string }>> {
-    try {
-      // Try to get tokens from localStorage
-      const accessToken = localStorage.getItem(config.auth.tokenKey);
-      const refreshToken = localStorage.getItem(config.auth.refreshTokenKey);
-      
-      // Call Django logout endpoint if we have tokens
-      if (accessToken && refreshToken) {
-        try {
-          const response = await fetch(`${config.api.baseUrl}/accounts/auth/logout/`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${accessToken}`,
-            },
-            body: JSON.stringify({
-              refresh_token: refreshToken,
-            }),
-            signal: AbortSignal.timeout(config.api.timeout),
-          });
+  async disableTotp({ signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
+    const responseData = await this.http.delete(API_ENDPOINTS.TWO_FACTOR.TOTP, {
+      signal,
+      errorMessage: 'Failed to remove authenticator app',
+    });
+
+    const { message } = decode(messageSchema, responseData ?? {}, 'authenticator removal');
+    return {
+      success: true,
+      data: { message },
+      message: message || 'Authenticator app removed',
+    };
+  }
 
-          const data = await response.json();
-          
-          if (!response.ok) {
-            console.warn('Logout API call failed:', data.error);
-            // Continue with local logout even if API call fails
-          }
-        } catch (error) {
-          console.warn('Logout API call error:', error);
-          // Continue with local logout even if API call fails
-        }
-      }
+  async getRecoveryCodeStatus({ signal }: RequestOptions = {}): Promise<ApiResponse<RecoveryCodeStatus>> {
+    const responseData = await this.http.get(API_ENDPOINTS.TWO_FACTOR.RECOVERY_CODES, {
+      signal,
+      errorMessage: 'Failed to load recovery codes',
+    });
 
-      // Always clear local authentication state
-      localStorage.removeItem(config.auth.tokenKey);
-      localStorage.removeItem(config.auth.refreshTokenKey);
-      localStorage.removeItem(config.auth.userKey);
+    return {
+      success: true,
+      data: decode(recoveryCodeStatusSchema, responseData, 'recovery codes'),
+    };
+  }
 
-      return {
-        success: true,
-        data: { message: 'Logout successful' },
-        message: 'Logout successful',
-      };
+  /**
+   * Generate a new set of recovery codes; any earlier set stops working.
+   * The codes are only ever returned here, so the caller must show them now.
+   */
+  async generateRecoveryCodes({ signal }: RequestOptions = {}): Promise<ApiResponse<RecoveryCodes>> {
+    const responseData = await this.http.post(API_ENDPOINTS.TWO_FACTOR.RECOVERY_CODES, undefined, {
+      signal,
+      errorMessage: 'Failed to generate recovery codes',
+    });
+
+    return {
+      success: true,
+      data: decode(recoveryCodesSchema, responseData, 'recovery codes'),
+      message: 'Recovery codes generated',
+    };
+  }
 
-    } catch (error) {
-      // Even if logout fails, clear local state
-      localStorage.removeItem(config.auth.tokenKey);
-      localStorage.removeItem(config.auth.refreshTokenKey);
-      localStorage.removeItem(config.auth.userKey);
+  // Passkey Methods
+  async getPasskeys({ signal }: RequestOptions = {}): Promise<ApiResponse<Passkey[]>> {
+    const data = await this.http.get(API_ENDPOINTS.PASSKEYS.LIST, {
+      signal,
+      errorMessage: 'Failed to load passkeys',
+    });
 
-      return {
-        success: true,
-        data: { message: 'Logout successful' },
-        message: 'Logout successful',
-      };
-    }
+    return {
+      success: true,
+      data: decode(z.array(passkeySchema), data, 'passkeys'),
+    };
   }
 
-  async forgotPassword(data: PasswordResetRequest): Promise<ApiResponse<PasswordResetResponse>> {
-    try {
-      const response = await fetch(`${config.api.baseUrl}/accounts/auth/forgot-password/`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          email: data.email,
-        }),
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
+  async getPasskeyRegistrationOptions({ signal }: RequestOptions = {}): Promise<ApiResponse<PublicKeyCredentialCreationOptionsJSON>> {
+    const data = await this.http.post(API_ENDPOINTS.PASSKEYS.REGISTER_OPTIONS, undefined, {
+      signal,
+      errorMessage: 'Failed to start passkey registration',
+    });
 
-      const responseData = await response.json();
+    return {
+      success: true,
+      data: decode(passkeyCreationOptionsSchema, data, 'passkey registration options'),
+    };
+  }
 
-      if (!response.ok) {
-        throw new ApiError(responseData.error || 'Failed to send password reset email', response.status);
-      }
+  async registerPasskey(data: PasskeyRegistrationRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<Passkey>> {
+    const responseData = await this.http.post(API_ENDPOINTS.PASSKEYS.REGISTER, {
+      name: data.name,
+      credential: data.credential,
+    }, { signal, errorMessage: 'Failed to register passkey' });
 
-      return {
-        success: true,
-        data: {
-          user_id: responseData.user_id,
-          message: responseData.message,
-        },
-        message: responseData.message || 'Password reset email sent',
-      };
+    return {
+      success: true,
+      data: decode(passkeySchema, responseData, 'passkey'),
+      message: 'Passkey registered',
+    };
+  }
 
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
-      }
+  async renamePasskey(passkeyId: string, data: PasskeyRenameRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<Passkey>> {
+    const responseData = await this.http.patch(API_ENDPOINTS.PASSKEYS.DETAIL(passkeyId), {
+      name: data.name,
+    }, { signal, errorMessage: 'Failed to rename passkey' });
 
-      throw new ApiError('An unexpected error occurred while sending password reset email', 500);
-    }
+    return {
+      success: true,
+      data: decode(passkeySchema, responseData, 'passkey'),
+      message: 'Passkey renamed',
+    };
   }
 
-  async resetPassword(data: PasswordResetConfirmRequest): Promise<ApiResponse<{ message: string }>> {
-    try {
-      const response = await fetch(`${config.api.baseUrl}/accounts/auth/reset-password/`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          user_id: data.user_id,
-          otp: data.otp,
-          password: data.password,
-        }),
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
+  async deletePasskey(passkeyId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<void>> {
+    await this.http.delete(API_ENDPOINTS.PASSKEYS.DETAIL(passkeyId), {
+      signal,
+      errorMessage: 'Failed to revoke passkey',
+    });
 
-      const responseData = await response.json();
+    return {
+      success: true,
+      message: 'Passkey revoked',
+    };
+  }
 
-      if (!response.ok) {
-        throw new ApiError(responseData.error || 'Failed to reset password', response.status);
-      }
+  // Session Methods
+  async getSessions({ signal }: RequestOptions = {}): Promise<ApiResponse<ActiveSession[]>> {
+    const data = await this.http.get(API_ENDPOINTS.SESSIONS.LIST, {
+      signal,
+      errorMessage: 'Failed to load sessions',
+    });
 
-      return {
-        success: true,
-        data: { message: responseData.message },
-        message: responseData.message || 'Password reset successfully',
-      };
+    return {
+      success: true,
+      data: decode(z.array(activeSessionSchema), data, 'sessions'),
+    };
+  }
 
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
-      }
+  async revokeSession(sessionId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<void>> {
+    await this.http.delete(API_ENDPOINTS.SESSIONS.DETAIL(sessionId), {
+      signal,
+      errorMessage: 'Failed to sign out the session',
+    });
 
-      throw new ApiError('An unexpected error occurred while resetting password', 500);
-    }
+    return {
+      success: true,
+      message: 'Session signed out',
+    };
   }
 
-  // Profile Methods
-  async getProfile(): Promise<ApiResponse<ProfileResponse>> {
-    try {
-      const accessToken = localStorage.getItem(config.auth.tokenKey);
-      if (!accessToken) {
-        throw new ApiError('Authentication required', 401);
-      }
-
-      const response = await fetch(`${config.api.baseUrl}/accounts/profile/`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
+  // Every session but the one making the request
+  async revokeOtherSessions({ signal }: RequestOptions = {}): Promise<ApiResponse<{ revoked: number }>> {
+    const data = await this.http.post(API_ENDPOINTS.SESSIONS.REVOKE_OTHERS, undefined, {
+      signal,
+      errorMessage: 'Failed to sign out other sessions',
+    });
+
+    const { revoked } = decode(revokedSessionsSchema, data, 'session sign-out');
+    return {
+      success: true,
+      data: { revoked },
+    };
+  }
 
-      const data = await response.json();
+  // Profile Methods
+  async getProfile({ signal }: RequestOptions = {}): Promise<ApiResponse<ProfileResponse>> {
+    const data = await this.http.get(API_ENDPOINTS.PROFILE.GET, {
+      signal,
+      errorMessage: 'Failed to get profile',
+    });
+
+    const profile = decode(profileSchema, data, 'profile');
+
+    const profileResponse: ProfileResponse = {
+      user: profile.user,
+      // Default preferences for backends that only return the user
+      preferences: profile.preferences ?? {
+        id: '0',
+        two_factor_enabled: true,
+        session_timeout_override: undefined,
+        email_notifications: true,
+        document_shared_notifications: true,
+        system_notifications: true,
+        security_notifications: true,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+        is_2fa_user_controllable: true,
+        effective_2fa_setting: true,
+        effective_session_timeout: 30,
+        max_allowed_session_timeout: 30,
+      },
+    };
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          // Token might be expired, clear auth state
-          localStorage.removeItem(config.auth.tokenKey);
-          localStorage.removeItem(config.auth.refreshTokenKey);
-          localStorage.removeItem(config.auth.userKey);
-        }
-        throw new ApiError(data.error || 'Failed to get profile', response.status);
-      }
+    // Update cached user data
+    localStorage.setItem(config.auth.userKey, JSON.stringify(profileResponse.user));
 
-      // Handle both old and new API response formats
-      let user: User;
-      let preferences: UserPreferences;
-
-      if (data.user && data.preferences) {
-        // New format with user and preferences
-        user = {
-          id: data.user.id,
-          email: data.user.email,
-          firstName: data.user.first_name,
-          lastName: data.user.last_name,
-          role: data.user.role,
-          username: data.user.username,
-          isActive: data.user.is_active,
-          dateJoined: data.user.date_joined,
-          lastLogin: data.user.last_login,
-          profilePicture: data.user.profile_picture ? `${config.api.baseUrl.replace('/api', '')}${data.user.profile_picture}?t=${Date.now()}` : undefined,
-          phoneNumber: data.user.phone_number,
-          bio: data.user.bio,
-          teacherProfileId: data.user.teacher_profile_id,
-        };
+    return {
+      success: true,
+      data: profileResponse,
+      message: 'Profile retrieved successfully',
+    };
+  }
 
-        preferences = {
-          id: data.preferences.id,
-          two_factor_enabled: data.preferences.two_factor_enabled,
-          session_timeout_override: data.preferences.session_timeout_override,
-          email_notifications: data.preferences.email_notifications,
-          document_shared_notifications: data.preferences.document_shared_notifications,
-          system_notifications: data.preferences.system_notifications,
-          security_notifications: data.preferences.security_notifications,
-          created_at: data.preferences.created_at,
-          updated_at: data.preferences.updated_at,
-          is_2fa_user_controllable: data.preferences.is_2fa_user_controllable,
-          effective_2fa_setting: data.preferences.effective_2fa_setting,
-          effective_session_timeout: data.preferences.effective_session_timeout,
-          max_allowed_session_timeout: data.preferences.max_allowed_session_timeout,
-        };
-      } else {
-        // Old format - just user data
-        user = {
-          id: data.id,
-          email: data.email,
-          firstName: data.first_name,
-          lastName: data.last_name,
-          role: data.role,
-          username: data.username,
-          isActive: data.is_active,
-          dateJoined: data.date_joined,
-          lastLogin: data.last_login,
-          profilePicture: data.profile_picture ? `${config.api.baseUrl.replace('/api', '')}${data.profile_picture}?t=${Date.now()}` : undefined,
-          phoneNumber: data.phone_number,
-          bio: data.bio,
-          teacherProfileId: data.teacher_profile_id,
-        };
+  async updateProfile(
+    data: {
+      user?: Partial<User> & { profilePictureFile?: File; removeProfilePicture?: boolean };
+      preferences?: Partial<UserPreferences>;
+    },
+    { signal }: RequestOptions = {}
+  ): Promise<ApiResponse<ProfileResponse>> {
+    // Prepare request data for new API format
+    const requestData: any = {};
+
+    // Handle user data
+    if (data.user) {
+      const userData: any = {};
+      if (data.user.firstName !== undefined) userData.first_name = data.user.firstName;
+      if (data.user.lastName !== undefined) userData.last_name = data.user.lastName;
+      if (data.user.email !== undefined) userData.email = data.user.email;
+      if (data.user.phoneNumber !== undefined) userData.phone_number = data.user.phoneNumber;
+      if (data.user.bio !== undefined) userData.bio = data.user.bio;
+
+      requestData.user = userData;
+    }
 
-        // Default preferences for backwards compatibility
-        preferences = {
-          id: '0',
-          two_factor_enabled: true,
-          session_timeout_override: undefined,
-          email_notifications: true,
-          document_shared_notifications: true,
-          system_notifications: true,
-          security_notifications: true,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          is_2fa_user_controllable: true,
-          effective_2fa_setting: true,
-          effective_session_timeout: 30,
-          max_allowed_session_timeout: 30,
-        };
-      }
+    // Handle preferences data
+    if (data.preferences) {
+      const preferencesData: any = {};
+      if (data.preferences.two_factor_enabled !== undefined) preferencesData.two_factor_enabled = data.preferences.two_factor_enabled;
+      if (data.preferences.session_timeout_override !== undefined) preferencesData.session_timeout_override = data.preferences.session_timeout_override;
+      if (data.preferences.email_notifications !== undefined) preferencesData.email_notifications = data.preferences.email_notifications;
+      if (data.preferences.document_shared_notifications !== undefined) preferencesData.document_shared_notifications = data.preferences.document_shared_notifications;
+      if (data.preferences.system_notifications !== undefined) preferencesData.system_notifications = data.preferences.system_notifications;
+      if (data.preferences.security_notifications !== undefined) preferencesData.security_notifications = data.preferences.security_notifications;
+
+      requestData.preferences = preferencesData;
+    }
 
-      const profileResponse: ProfileResponse = { user, preferences };
+    // Check if we need FormData for file upload
+    const hasFileUpload = data.user?.profilePictureFile instanceof File || data.user?.removeProfilePicture;
 
-      // Update cached user data
-      localStorage.setItem(config.auth.userKey, JSON.stringify(user));
+    let requestBody: FormData | object;
 
-      return {
-        success: true,
-        data: profileResponse,
-        message: 'Profile retrieved successfully',
-      };
+    if (hasFileUpload) {
+      // Use FormData for file uploads
+      const formData = new FormData();
 
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
+      // Add user data to FormData
+      if (requestData.user) {
+        Object.keys(requestData.user).forEach(key => {
+          formData.append(`user.${key}`, requestData.user[key]);
+        });
       }
-      
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
+
+      // Add preferences data to FormData
+      if (requestData.preferences) {
+        Object.keys(requestData.preferences).forEach(key => {
+          formData.append(`preferences.${key}`, requestData.preferences[key]);
+        });
       }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
+
+      if (data.user?.profilePictureFile) {
+        formData.append('user.profile_picture', data.user.profilePictureFile);
+      } else if (data.user?.removeProfilePicture) {
+        formData.append('user.remove_profile_picture', 'true');
       }
 
-      throw new ApiError('An unexpected error occurred while getting profile', 500);
+      requestBody = formData;
+    } else {
+      requestBody = requestData;
     }
-  }
 
-  async updateProfile(data: { 
-    user?: Partial<User> & { profilePictureFile?: File; removeProfilePicture?: boolean }; 
-    preferences?: Partial<UserPreferences>;
-  }): Promise<ApiResponse<ProfileResponse>> {
+    let responseData: unknown;
     try {
-      const accessToken = localStorage.getItem(config.auth.tokenKey);
-      if (!accessToken) {
-        throw new ApiError('Authentication required', 401);
+      responseData = await this.http.put(API_ENDPOINTS.PROFILE.UPDATE, requestBody, {
+        signal,
+        errorMessage: 'Failed to update profile',
+      });
+    } catch (error) {
+      // The picture travels as a separate field rather than the user's profilePicture URL
+      if (error instanceof ValidationError) {
+        throw error.withFieldNames({ 'user.profile_picture': 'user.profilePictureFile' });
       }
+      throw error;
+    }
 
-      // Prepare request data for new API format
-      const requestData: any = {};
-
-      // Handle user data
-      if (data.user) {
-        const userData: any = {};
-        if (data.user.firstName !== undefined) userData.first_name = data.user.firstName;
-        if (data.user.lastName !== undefined) userData.last_name = data.user.lastName;
-        if (data.user.email !== undefined) userData.email = data.user.email;
-        if (data.user.phoneNumber !== undefined) userData.phone_number = data.user.phoneNumber;
-        if (data.user.bio !== undefined) userData.bio = data.user.bio;
-        
-        requestData.user = userData;
-      }
+    const profileResponse: ProfileResponse = decode(fullProfileSchema, responseData, 'profile');
 
-      // Handle preferences data
-      if (data.preferences) {
-        const preferencesData: any = {};
-        if (data.preferences.two_factor_enabled !== undefined) preferencesData.two_factor_enabled = data.preferences.two_factor_enabled;
-        if (data.preferences.session_timeout_override !== undefined) preferencesData.session_timeout_override = data.preferences.session_timeout_override;
-        if (data.preferences.email_notifications !== undefined) preferencesData.email_notifications = data.preferences.email_notifications;
-        if (data.preferences.document_shared_notifications !== undefined) preferencesData.document_shared_notifications = data.preferences.document_shared_notifications;
-        if (data.preferences.system_notifications !== undefined) preferencesData.system_notifications = data.preferences.system_notifications;
-        if (data.preferences.security_notifications !== undefined) preferencesData.security_notifications = data.preferences.security_notifications;
-        
-        requestData.preferences = preferencesData;
-      }
+    // Update cached user data
+    localStorage.setItem(config.auth.userKey, JSON.stringify(profileResponse.user));
 
-      // Check if we need FormData for file upload
-      const hasFileUpload = data.user?.profilePictureFile instanceof File || data.user?.removeProfilePicture;
-      
-      let requestBody: FormData | string;
-      let headers: Record<string, string> = {
-        'Authorization': `Bearer ${accessToken}`,
-      };
+    return {
+      success: true,
+      data: profileResponse,
+      message: 'Profile updated successfully',
+    };
+  }
 
-      if (hasFileUpload) {
-        // Use FormData for file uploads
-        const formData = new FormData();
-        
-        // Add user data to FormData
-        if (requestData.user) {
-          Object.keys(requestData.user).forEach(key => {
-            formData.append(`user.${key}`, requestData.user[key]);
-          });
-        }
-        
-        // Add preferences data to FormData
-        if (requestData.preferences) {
-          Object.keys(requestData.preferences).forEach(key => {
-            formData.append(`preferences.${key}`, requestData.preferences[key]);
-          });
-        }
-        
-        if (data.user?.profilePictureFile) {
-          formData.append('user.profile_picture', data.user.profilePictureFile);
-        } else if (data.user?.removeProfilePicture) {
-          formData.append('user.remove_profile_picture', 'true');
-        }
-        
-        requestBody = formData;
-        // Don't set Content-Type for FormData
-      } else {
-        // Use JSON
-        requestBody = JSON.stringify(requestData);
-        headers['Content-Type'] = 'application/json';
-      }
+  async changePassword(data: ChangePasswordRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
+    const responseData = await this.http.post(API_ENDPOINTS.AUTH.CHANGE_PASSWORD, data, {
+      signal,
+      errorMessage: 'Failed to change password',
+    });
+
+    const { message } = decode(messageSchema, responseData, 'change password');
+    return {
+      success: true,
+      data: { message: message || 'Password changed successfully' },
+      message: message || 'Password changed successfully',
+    };
+  }
 
-      const response = await fetch(`${config.api.baseUrl}/accounts/profile/`, {
-        method: 'PUT',
-        headers,
-        body: requestBody,
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
+  // Teacher Methods
+  async getTeachers({ signal }: RequestOptions = {}): Promise<ApiResponse<Teacher[]>> {
+    this.requireRole('admin');
 
-      const responseData = await response.json();
+    const data = await this.http.get(API_ENDPOINTS.TEACHERS.LIST, {
+      signal,
+      errorMessage: 'Failed to fetch teachers',
+    });
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          localStorage.removeItem(config.auth.tokenKey);
-          localStorage.removeItem(config.auth.refreshTokenKey);
-          localStorage.removeItem(config.auth.userKey);
-        }
-        throw new ApiError(responseData.error || responseData.detail || 'Failed to update profile', response.status);
-      }
+    return {
+      success: true,
+      data: decode(z.array(teacherSchema), data, 'teacher list'),
+      message: 'Teachers retrieved successfully',
+    };
+  }
 
-      // Parse response - should match ProfileResponse format
-      const user: User = {
-        id: responseData.user.id,
-        email: responseData.user.email,
-        firstName: responseData.user.first_name,
-        lastName: responseData.user.last_name,
-        role: responseData.user.role,
-        username: responseData.user.username,
-        isActive: responseData.user.is_active,
-        dateJoined: responseData.user.date_joined,
-        lastLogin: responseData.user.last_login,
-        profilePicture: responseData.user.profile_picture ? `${config.api.baseUrl.replace('/api', '')}${responseData.user.profile_picture}?t=${Date.now()}` : undefined,
-        phoneNumber: responseData.user.phone_number,
-        bio: responseData.user.bio,
-      };
+  async getTeachersPage(
+    filters: { status?: string; query?: string } = {},
+    params?: PaginationParams,
+    { signal }: RequestOptions = {}
+  ): Promise<ApiResponse<PaginatedResponse<Teacher>>> {
+    this.requireRole('admin');
 
-      const preferences: UserPreferences = {
-        id: responseData.preferences.id,
-        two_factor_enabled: responseData.preferences.two_factor_enabled,
-        session_timeout_override: responseData.preferences.session_timeout_override,
-        email_notifications: responseData.preferences.email_notifications,
-        document_shared_notifications: responseData.preferences.document_shared_notifications,
-        system_notifications: responseData.preferences.system_notifications,
-        security_notifications: responseData.preferences.security_notifications,
-        created_at: responseData.preferences.created_at,
-        updated_at: responseData.preferences.updated_at,
-        is_2fa_user_controllable: responseData.preferences.is_2fa_user_controllable,
-        effective_2fa_setting: responseData.preferences.effective_2fa_setting,
-        effective_session_timeout: responseData.preferences.effective_session_timeout,
-        max_allowed_session_timeout: responseData.preferences.max_allowed_session_timeout,
-      };
+    const page = await this.getPage(API_ENDPOINTS.TEACHERS.LIST, z.array(teacherSchema), 'teachers', {
+      status: filters.status,
+      search: filters.query,
+    }, params, signal);
+
+    return {
+      success: true,
+      data: page,
+      message: 'Teachers retrieved successfully',
+    };
+  }
 
-      const profileResponse: ProfileResponse = { user, preferences };
+  async approveTeacher(teacherId: string, data: TeacherApprovalRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<Teacher>> {
+    this.requireRole('admin');
 
-      // Update cached user data
-      localStorage.setItem(config.auth.userKey, JSON.stringify(user));
+    const url = data.approved
+      ? API_ENDPOINTS.TEACHERS.APPROVE(teacherId)
+      : API_ENDPOINTS.TEACHERS.REJECT(teacherId);
 
-      return {
-        success: true,
-        data: profileResponse,
-        message: 'Profile updated successfully',
-      };
+    const requestBody = data.approved ? {} : { rejection_reason: data.rejectionReason };
 
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
-      }
+    const responseData = await this.http.post(url, requestBody, {
+      signal,
+      errorMessage: `Failed to ${data.approved ? 'approve' : 'reject'} teacher`,
+    });
 
-      throw new ApiError('An unexpected error occurred while updating profile', 500);
-    }
+    const { teacher, message } = decode(teacherActionSchema, responseData, 'teacher approval');
+    return {
+      success: true,
+      data: teacher,
+      message,
+    };
   }
 
-  async changePassword(data: ChangePasswordRequest): Promise<ApiResponse<{ message: string }>> {
-    try {
-      const accessToken = localStorage.getItem(config.auth.tokenKey);
-      if (!accessToken) {
-        throw new ApiError('Authentication required', 401);
-      }
+  async createTeacher(data: TeacherCreateRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<Teacher>> {
+    this.requireRole('admin');
 
-      const response = await fetch(`${config.api.baseUrl}/accounts/auth/change-password/`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify(data),
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
-
-      const responseData = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          localStorage.removeItem(config.auth.tokenKey);
-          localStorage.removeItem(config.auth.refreshTokenKey);
-          localStorage.removeItem(config.auth.userKey);
-        }
-        throw new ApiError(responseData.error || responseData.detail || 'Failed to change password', response.status);
-      }
-
-      return {
-        success: true,
-        data: { message: responseData.message || 'Password changed successfully' },
-        message: responseData.message || 'Password changed successfully',
-      };
+    // Convert frontend request to backend format
+    const requestData = {
+      email: data.user.email,
+      firstName: data.user.firstName,
+      lastName: data.user.lastName,
+      password: data.user.password,
+      phoneNumber: data.phoneNumber || '',
+      bio: data.bio || '',
+    };
 
+    let responseData: unknown;
+    try {
+      responseData = await this.http.post(API_ENDPOINTS.TEACHERS.CREATE, requestData, {
+        snakeCaseRequest: true,
+        signal,
+        errorMessage: 'Failed to create teacher',
+      });
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
+      // The backend takes the account fields flat; the request nests them under user
+      if (error instanceof ValidationError) {
+        throw error.withFieldNames({
+          email: 'user.email',
+          first_name: 'user.firstName',
+          last_name: 'user.lastName',
+          password: 'user.password',
+        });
       }
-
-      throw new ApiError('An unexpected error occurred while changing password', 500);
+      throw error;
     }
+
+    return {
+      success: true,
+      data: decode(teacherSchema, responseData, 'teacher'),
+      message: 'Teacher created successfully',
+    };
   }
 
-  // Teacher Methods
-  async getTeachers(): Promise<ApiResponse<Teacher[]>> {
+  async updateTeacher(teacherId: string, data: TeacherUpdateRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<Teacher>> {
     this.requireRole('admin');
-    
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
 
-      const response = await fetch(`${config.api.baseUrl}/accounts/teachers/`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
+    // For status changes, use the suspend endpoint
+    if (data.status !== undefined) {
+      const responseData = await this.http.post(API_ENDPOINTS.TEACHERS.SUSPEND(teacherId), undefined, {
+        signal,
+        errorMessage: 'Failed to update teacher status',
       });
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
-
-      const data = await response.json();
-      
-      // Convert backend response to frontend Teacher interface
-      const teachers: Teacher[] = data.map((teacher: any) => ({
-        id: teacher.id,
-        user: {
-          id: teacher.user.id,
-          email: teacher.user.email,
-          firstName: teacher.user.first_name,
-          lastName: teacher.user.last_name,
-          
-          role: teacher.user.role,
-          phoneNumber: teacher.user.phone_number,
-          bio: teacher.user.bio,
-          profilePicture: teacher.user.profile_picture,
-          isActive: teacher.user.is_active,
-          dateJoined: teacher.user.date_joined,
-          lastLogin: teacher.user.last_login,
-        },
-        phoneNumber: teacher.user.phone_number,
-        bio: teacher.user.bio,
-        status: teacher.status,
-        approvedBy: teacher.approved_by,
-        approvedAt: teacher.approved_at,
-        rejectedBy: teacher.rejected_by,
-        rejectedAt: teacher.rejected_at,
-        rejectionReason: teacher.rejection_reason,
-        documentsCount: teacher.documents_count || 0,
-        sharedDocumentsCount: teacher.shared_documents_count || 0,
-        totalDownloads: teacher.total_downloads || 0,
-        createdAt: teacher.created_at,
-        updatedAt: teacher.updated_at,
-      }));
-
+      const { teacher, message } = decode(teacherActionSchema, responseData, 'teacher status');
       return {
         success: true,
-        data: teachers,
-        message: 'Teachers retrieved successfully',
+        data: teacher,
+        message,
       };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to fetch teachers', 500);
     }
+
+    // For other updates, use the regular PATCH endpoint
+    const requestData: Pick<TeacherUpdateRequest, 'phoneNumber' | 'bio'> = {};
+    if (data.phoneNumber !== undefined) requestData.phoneNumber = data.phoneNumber;
+    if (data.bio !== undefined) requestData.bio = data.bio;
+
+    const responseData = await this.http.patch(API_ENDPOINTS.TEACHERS.UPDATE(teacherId), requestData, {
+      snakeCaseRequest: true,
+      signal,
+      errorMessage: 'Failed to update teacher',
+    });
+
+    return {
+      success: true,
+      data: decode(teacherSchema, responseData, 'teacher'),
+      message: 'Teacher updated successfully',
+    };
   }
 
-  async approveTeacher(teacherId: string, data: TeacherApprovalRequest): Promise<ApiResponse<Teacher>> {
+  async deleteTeacher(teacherId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<void>> {
     this.requireRole('admin');
-    
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      const endpoint = data.approved ? 'approve' : 'reject';
-      const url = `${config.api.baseUrl}/accounts/teachers/${teacherId}/${endpoint}/`;
 
-      const requestBody = data.approved ? {} : { rejection_reason: data.rejectionReason };
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
+    try {
+      await this.http.delete(API_ENDPOINTS.TEACHERS.DELETE(teacherId), {
+        signal,
+        errorMessage: 'Failed to delete teacher',
       });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new ApiError(errorData.error || `Failed to ${data.approved ? 'approve' : 'reject'} teacher`, response.status);
-      }
-
-      const responseData = await response.json();
-      const teacher = responseData.teacher;
-      
-      // Convert backend response to frontend Teacher interface
-      const convertedTeacher: Teacher = {
-        id: teacher.id,
-        user: {
-          id: teacher.user.id,
-          email: teacher.user.email,
-          firstName: teacher.user.first_name,
-          lastName: teacher.user.last_name,
-          
-          role: teacher.user.role,
-          phoneNumber: teacher.user.phone_number,
-          bio: teacher.user.bio,
-          profilePicture: teacher.user.profile_picture,
-          isActive: teacher.user.is_active,
-          dateJoined: teacher.user.date_joined,
-          lastLogin: teacher.user.last_login,
-        },
-        phoneNumber: teacher.user.phone_number,
-        bio: teacher.user.bio,
-        status: teacher.status,
-        approvedBy: teacher.approved_by,
-        approvedAt: teacher.approved_at,
-        rejectedBy: teacher.rejected_by,
-        rejectedAt: teacher.rejected_at,
-        rejectionReason: teacher.rejection_reason,
-        documentsCount: teacher.documents_count || 0,
-        sharedDocumentsCount: teacher.shared_documents_count || 0,
-        totalDownloads: teacher.total_downloads || 0,
-        createdAt: teacher.created_at,
-        updatedAt: teacher.updated_at,
-      };
-
-      return {
-        success: true,
-        data: convertedTeacher,
-        message: responseData.message,
-      };
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
+      if (error instanceof ApiError && error.status === 404) {
+        throw new ApiError('Teacher not found', 404);
       }
-      throw new ApiError(`Failed to ${data.approved ? 'approve' : 'reject'} teacher`, 500);
+      throw error;
     }
+
+    return {
+      success: true,
+      message: 'Teacher deleted successfully',
+    };
   }
 
-  async createTeacher(data: TeacherCreateRequest): Promise<ApiResponse<Teacher>> {
+  async getTeacherSessions(teacherId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<ActiveSession[]>> {
     this.requireRole('admin');
-    
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
 
-      // Convert frontend request to backend format
-      const requestData = {
-        email: data.user.email,
-        first_name: data.user.firstName,
-        last_name: data.user.lastName,
-        password: data.user.password,
-        phone_number: data.phoneNumber || '',
-        bio: data.bio || '',
-      };
+    const data = await this.http.get(API_ENDPOINTS.TEACHERS.SESSIONS(teacherId), {
+      signal,
+      errorMessage: 'Failed to load teacher sessions',
+    });
 
-      const response = await fetch(`${config.api.baseUrl}/accounts/teachers/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestData),
-      });
+    return {
+      success: true,
+      data: decode(z.array(activeSessionSchema), data, 'teacher sessions'),
+    };
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        
-        // Handle validation errors
-        if (response.status === 400) {
-          const errorMessage = Object.entries(errorData)
-            .map(([field, errors]) => `${field}: ${Array.isArray(errors) ? errors.join(', ') : errors}`)
-            .join('; ');
-          throw new ApiError(errorMessage, 400);
-        }
-        
-        throw new ApiError('Failed to create teacher', response.status);
-      }
+  async revokeTeacherSessions(teacherId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<{ revoked: number }>> {
+    this.requireRole('admin');
 
-      const teacher = await response.json();
-      
-      // Convert backend response to frontend Teacher interface
-      const convertedTeacher: Teacher = {
-        id: teacher.id,
-        user: {
-          id: teacher.user.id,
-          email: teacher.user.email,
-          firstName: teacher.user.first_name,
-          lastName: teacher.user.last_name,
-          
-          role: teacher.user.role,
-          phoneNumber: teacher.user.phone_number,
-          bio: teacher.user.bio,
-          profilePicture: teacher.user.profile_picture,
-          isActive: teacher.user.is_active,
-          dateJoined: teacher.user.date_joined,
-          lastLogin: teacher.user.last_login,
-        },
-        phoneNumber: teacher.user.phone_number,
-        bio: teacher.user.bio,
-        status: teacher.status,
-        approvedBy: teacher.approved_by,
-        approvedAt: teacher.approved_at,
-        rejectedBy: teacher.rejected_by,
-        rejectedAt: teacher.rejected_at,
-        rejectionReason: teacher.rejection_reason,
-        documentsCount: teacher.documents_count || 0,
-        sharedDocumentsCount: teacher.shared_documents_count || 0,
-        totalDownloads: teacher.total_downloads || 0,
-        createdAt: teacher.created_at,
-        updatedAt: teacher.updated_at,
-      };
+    const data = await this.http.post(API_ENDPOINTS.TEACHERS.REVOKE_SESSIONS(teacherId), undefined, {
+      signal,
+      errorMessage: 'Failed to sign out the teacher',
+    });
 
-      return {
-        success: true,
-        data: convertedTeacher,
-        message: 'Teacher created successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to create teacher', 500);
-    }
+    const { revoked } = decode(revokedSessionsSchema, data, 'teacher sign-out');
+    return {
+      success: true,
+      data: { revoked },
+    };
   }
 
-  async updateTeacher(teacherId: string, data: TeacherUpdateRequest): Promise<ApiResponse<Teacher>> {
+  // Clears the failed sign-ins that locked a teacher's account
+  async unlockTeacher(teacherId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<Teacher>> {
     this.requireRole('admin');
-    
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
 
-      // For status changes, use the suspend endpoint
-      if (data.status !== undefined) {
-        const response = await fetch(`${config.api.baseUrl}/accounts/teachers/${teacherId}/suspend/`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new ApiError(errorData.error || 'Failed to update teacher status', response.status);
-        }
+    const data = await this.http.post(API_ENDPOINTS.TEACHERS.UNLOCK(teacherId), undefined, {
+      signal,
+      errorMessage: 'Failed to clear the lockout',
+    });
 
-        const responseData = await response.json();
-        const teacher = responseData.teacher;
-        
-        // Convert backend response to frontend Teacher interface
-        const convertedTeacher: Teacher = {
-          id: teacher.id,
-          user: {
-            id: teacher.user.id,
-            email: teacher.user.email,
-            firstName: teacher.user.first_name,
-            lastName: teacher.user.last_name,
-            role: teacher.user.role,
-            phoneNumber: teacher.user.phone_number,
-            bio: teacher.user.bio,
-            profilePicture: teacher.user.profile_picture,
-            isActive: teacher.user.is_active,
-            dateJoined: teacher.user.date_joined,
-            lastLogin: teacher.user.last_login,
-          },
-          phoneNumber: teacher.user.phone_number,
-          bio: teacher.user.bio,
-          status: teacher.status,
-          approvedBy: teacher.approved_by,
-          approvedAt: teacher.approved_at,
-          rejectedBy: teacher.rejected_by,
-          rejectedAt: teacher.rejected_at,
-          rejectionReason: teacher.rejection_reason,
-          documentsCount: teacher.documents_count || 0,
-          sharedDocumentsCount: teacher.shared_documents_count || 0,
-          totalDownloads: teacher.total_downloads || 0,
-          createdAt: teacher.created_at,
-          updatedAt: teacher.updated_at,
-        };
+    const { teacher, message } = decode(teacherActionSchema, data, 'teacher unlock');
+    return {
+      success: true,
+      data: teacher,
+      message,
+    };
+  }
 
-        return {
-          success: true,
-          data: convertedTeacher,
-          message: responseData.message,
-        };
-      }
+  // Invitation Methods
+  async getInvitations({ signal }: RequestOptions = {}): Promise<ApiResponse<Invitation[]>> {
+    this.requireRole('admin');
 
-      // For other updates, use the regular PATCH endpoint
-      const requestData: any = {};
-      if (data.phoneNumber !== undefined) requestData.phone_number = data.phoneNumber;
-      if (data.bio !== undefined) requestData.bio = data.bio;
+    const data = await this.http.get(API_ENDPOINTS.INVITATIONS.LIST, {
+      signal,
+      errorMessage: 'Failed to load invitations',
+    });
 
-      const response = await fetch(`${config.api.baseUrl}/accounts/teachers/${teacherId}/`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestData),
-      });
+    return {
+      success: true,
+      data: decode(z.array(invitationSchema), data, 'invitations'),
+    };
+  }
 
-      if (!response.ok) {
-        throw new ApiError('Failed to update teacher', response.status);
-      }
+  // Addresses that already have an account or a pending invitation come back as skipped
+  async sendInvitations(emails: string[], { signal }: RequestOptions = {}): Promise<ApiResponse<InvitationBatch>> {
+    this.requireRole('admin');
 
-      const teacher = await response.json();
-      
-      // Convert backend response to frontend Teacher interface
-      const convertedTeacher: Teacher = {
-        id: teacher.id,
-        user: {
-          id: teacher.user.id,
-          email: teacher.user.email,
-          firstName: teacher.user.first_name,
-          lastName: teacher.user.last_name,
-          
-          role: teacher.user.role,
-          phoneNumber: teacher.user.phone_number,
-          bio: teacher.user.bio,
-          profilePicture: teacher.user.profile_picture,
-          isActive: teacher.user.is_active,
-          dateJoined: teacher.user.date_joined,
-          lastLogin: teacher.user.last_login,
-        },
-        phoneNumber: teacher.user.phone_number,
-        bio: teacher.user.bio,
-        status: teacher.status,
-        approvedBy: teacher.approved_by,
-        approvedAt: teacher.approved_at,
-        rejectedBy: teacher.rejected_by,
-        rejectedAt: teacher.rejected_at,
-        rejectionReason: teacher.rejection_reason,
-        documentsCount: teacher.documents_count || 0,
-        sharedDocumentsCount: teacher.shared_documents_count || 0,
-        totalDownloads: teacher.total_downloads || 0,
-        createdAt: teacher.created_at,
-        updatedAt: teacher.updated_at,
-      };
+    const data = await this.http.post(API_ENDPOINTS.INVITATIONS.CREATE, { emails }, {
+      signal,
+      errorMessage: 'Failed to send invitations',
+    });
 
-      return {
-        success: true,
-        data: convertedTeacher,
-        message: 'Teacher updated successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to update teacher', 500);
-    }
+    const batch = decode(invitationBatchSchema, data, 'invitations');
+    return {
+      success: true,
+      data: batch,
+      message: `${batch.invitations.length} invitation${batch.invitations.length === 1 ? '' : 's'} sent`,
+    };
   }
 
-  async deleteTeacher(teacherId: string): Promise<ApiResponse<void>> {
+  // Emails a fresh link; the old one stops working
+  async resendInvitation(invitationId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<Invitation>> {
     this.requireRole('admin');
-    
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
 
-      const response = await fetch(`${config.api.baseUrl}/accounts/teachers/${teacherId}/`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new ApiError('Teacher not found', 404);
-        }
-        throw new ApiError('Failed to delete teacher', response.status);
-      }
+    const data = await this.http.post(API_ENDPOINTS.INVITATIONS.RESEND(invitationId), undefined, {
+      signal,
+      errorMessage: 'Failed to resend the invitation',
+    });
 
-      return {
-        success: true,
-        message: 'Teacher deleted successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to delete teacher', 500);
-    }
+    return {
+      success: true,
+      data: decode(invitationSchema, data, 'invitation'),
+      message: 'Invitation resent',
+    };
   }
 
-  // Document Methods
-  async getDocuments(filters?: SearchFilters): Promise<ApiResponse<Document[]>> {
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      // Build query parameters
-      const params = new URLSearchParams();
-      if (filters?.category) {
-        params.append('category', filters.category);
-      }
-      if (filters?.status) {
-        params.append('status', filters.status);
-      }
-      if (filters?.teacher) {
-        params.append('teacher', filters.teacher);
-      }
-      if (filters?.fileType) {
-        params.append('file_type', filters.fileType);
-      }
-      if (filters?.query) {
-        params.append('search', filters.query);
-      }
+  async revokeInvitation(invitationId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<void>> {
+    this.requireRole('admin');
 
-      const queryString = params.toString();
-      const url = queryString 
-        ? `${config.api.baseUrl}/documents/documents/?${queryString}`
-        : `${config.api.baseUrl}/documents/documents/`;
+    await this.http.delete(API_ENDPOINTS.INVITATIONS.DELETE(invitationId), {
+      signal,
+      errorMessage: 'Failed to revoke the invitation',
+    });
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+    return {
+      success: true,
+      message: 'Invitation revoked',
+    };
+  }
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
+  // What the accept page shows before the form; fails once the link has expired or been used
+  async getInvitationPreview(token: string, { signal }: RequestOptions = {}): Promise<ApiResponse<InvitationPreview>> {
+    const data = await this.http.get(API_ENDPOINTS.INVITATIONS.ACCEPT(token), {
+      auth: false,
+      signal,
+      errorMessage: 'This invitation link is invalid or has expired',
+    });
+
+    return {
+      success: true,
+      data: decode(invitationPreviewSchema, data, 'invitation'),
+    };
+  }
 
-      const data = await response.json();
-      
-      // Convert backend response to frontend Document interface
-      const documents: Document[] = data.map((doc: any) => ({
-        id: doc.id,
-        title: doc.title,
-        description: doc.description,
-        fileName: doc.file_name,
-        fileSize: doc.file_size,
-        fileType: doc.file_type,
-        filePath: doc.file,
-        category: {
-          id: doc.category,
-          name: doc.category_name,
-          description: '',
-          requiresClassSubject: false,
-          isActive: true,
-          documentsCount: 0,
-          createdAt: '',
-          updatedAt: '',
-        },
-        teacher: {
-          id: doc.teacher,
-          user: {
-            id: doc.teacher,
-            email: '',
-            firstName: doc.teacher_name.split(' ')[0] || '',
-            lastName: doc.teacher_name.split(' ').slice(1).join(' ') || '',
-            role: 'teacher',
-            phoneNumber: '',
-            bio: '',
-            profilePicture: undefined,
-            isActive: true,
-            dateJoined: '',
-          },
-          specialization: '',
-          employeeId: '',
-          department: '',
-          qualifications: [],
-          yearsOfExperience: 0,
-          classesTeaching: [],
-          subjectsTeaching: [],
-          documentsCount: 0,
-          sharedDocumentsCount: 0,
-          approvalStatus: 'approved',
-          experience: '',
-          isApproved: true,
-          isSuspended: false,
-          rejectionReason: null,
-          approvalDate: null,
-          createdAt: '',
-          updatedAt: '',
-        },
-        classLevel: doc.class_level,
-        subject: doc.subject,
-        isShared: doc.is_shared,
-        sharedAt: doc.shared_at,
-        downloadCount: doc.download_count,
-        status: doc.status,
-        sharedWith: doc.shared_with_users || [],
-        tags: [],
-        createdAt: doc.created_at,
-        updatedAt: doc.updated_at,
-        public_share_url: doc.public_share_url || undefined,
-        shared_with_emails: doc.shared_with_emails || [],
-      }));
+  // Creates the invited teacher's account, already approved, so they can sign in straight away
+  async acceptInvitation(token: string, data: InvitationAcceptRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
+    const responseData = await this.http.post(API_ENDPOINTS.INVITATIONS.ACCEPT(token), {
+      firstName: data.firstName,
+      lastName: data.lastName,
+      password: data.password,
+      phoneNumber: data.phoneNumber || '',
+    }, { auth: false, snakeCaseRequest: true, signal, errorMessage: 'Failed to accept the invitation' });
+
+    const { message } = decode(messageSchema, responseData, 'invitation');
+    return {
+      success: true,
+      data: { message },
+      message: message || 'Your account is ready. You can now sign in.',
+    };
+  }
 
-      return {
-        success: true,
-        data: documents,
-        message: 'Documents retrieved successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to fetch documents', 500);
-    }
+  // Document Methods
+  private documentQuery(filters?: SearchFilters): QueryParams {
+    return {
+      category: filters?.category,
+      status: filters?.status,
+      teacher: filters?.teacher,
+      file_type: filters?.fileType,
+      search: filters?.query,
+    };
   }
 
-  async createDocument(data: DocumentCreateRequest): Promise<ApiResponse<Document>> {
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('Authentication required', 401);
-      }
+  async getDocuments(filters?: SearchFilters, { signal }: RequestOptions = {}): Promise<ApiResponse<Document[]>> {
+    const data = await this.http.get(API_ENDPOINTS.DOCUMENTS.LIST, {
+      query: this.documentQuery(filters),
+      signal,
+      errorMessage: 'Failed to fetch documents',
+    });
+
+    return {
+      success: true,
+      data: decode(z.array(documentSchema), data, 'document list'),
+      message: 'Documents retrieved successfully',
+    };
+  }
 
-      // Create FormData for file upload
-      const formData = new FormData();
-      formData.append('title', data.title);
-      formData.append('file', data.file);
-      formData.append('category', data.categoryId);
-      
-      if (data.description) {
-        formData.append('description', data.description);
-      }
-      
-      if (data.classLevel) {
-        formData.append('class_level', data.classLevel);
-      }
-      
-      if (data.subject) {
-        formData.append('subject', data.subject);
-      }
-      
-      if (data.tags && data.tags.length > 0) {
-        formData.append('tags', data.tags.join(','));
-      }
+  async getDocumentsPage(filters?: SearchFilters, params?: PaginationParams, { signal }: RequestOptions = {}): Promise<ApiResponse<PaginatedResponse<Document>>> {
+    const page = await this.getPage(
+      API_ENDPOINTS.DOCUMENTS.LIST,
+      z.array(documentSchema),
+      'documents',
+      this.documentQuery(filters),
+      params,
+      signal
+    );
+
+    return {
+      success: true,
+      data: page,
+      message: 'Documents retrieved successfully',
+    };
+  }
 
-      const response = await fetch(`${config.api.baseUrl}/documents/documents/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          // Don't set Content-Type for FormData, let browser set it
-        },
-        body: formData,
-        signal: AbortSignal.timeout(config.api.timeout),
+  async getPublicDocument(documentId: string, shareToken: string, { signal }: RequestOptions = {}): Promise<ApiResponse<Document>> {
+    let data: unknown;
+    try {
+      data = await this.http.get(API_ENDPOINTS.DOCUMENTS.PUBLIC_VIEW(documentId), {
+        auth: false,
+        query: { token: shareToken },
+        signal,
+        errorMessage: 'Failed to load document',
       });
-
-      const responseData = await response.json();
-
-      if (!response.ok) {
-        const errorMessage = responseData.detail || 
-                            responseData.error || 
-                            responseData.message ||
-                            'Failed to create document';
-        throw new ApiError(errorMessage, response.status);
-      }
-
-      return {
-        success: true,
-        data: responseData,
-        message: 'Document uploaded successfully',
-      };
-
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      // Handle network errors
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
+      if (error instanceof PermissionError) {
+        throw new PermissionError('This share link is invalid or has expired');
       }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
+      if (error instanceof ApiError && error.status === 404) {
+        throw new ApiError('Document not found', 404);
       }
-
-      throw new ApiError('An unexpected error occurred during document upload', 500);
+      throw error;
     }
+
+    return {
+      success: true,
+      data: decode(publicDocumentSchema, data, 'shared document'),
+      message: 'Document retrieved successfully',
+    };
   }
 
-  async shareDocument(documentId: string, shareData: DocumentShareRequest): Promise<ApiResponse<DocumentShare>> {
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
+  async createDocument(data: DocumentCreateRequest, options: UploadOptions = {}): Promise<ApiResponse<Document>> {
+    const fields: Record<string, string> = {
+      title: data.title,
+      category: data.categoryId,
+    };
 
-      const response = await fetch(`${config.api.baseUrl}/documents/documents/${documentId}/share/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(shareData),
-      });
+    if (data.description) {
+      fields.description = data.description;
+    }
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
+    if (data.classLevel) {
+      fields.class_level = data.classLevel;
+    }
 
-      const responseData = await response.json();
-
-      // Transform snake_case to camelCase
-      const transformedData: DocumentShare = {
-        id: responseData.id,
-        document: responseData.document,
-        shared_by: responseData.shared_by,
-        shared_with: responseData.shared_with,
-        share_type: responseData.share_type,
-        share_token: responseData.share_token,
-        can_download: responseData.can_download,
-        can_view: responseData.can_view,
-        is_active: responseData.is_active,
-        expires_at: responseData.expires_at,
-        shared_at: responseData.shared_at,
-        public_url: responseData.public_url,
-      };
+    if (data.subject) {
+      fields.subject = data.subject;
+    }
 
-      return {
-        success: true,
-        data: transformedData,
-        message: 'Document shared successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to share document', 500);
+    if (data.tags && data.tags.length > 0) {
+      fields.tags = data.tags.join(',');
     }
-  }
 
-  async unshareDocument(documentId: string): Promise<ApiResponse<{ message: string; shares_revoked: number }>> {
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
+    let responseData: unknown;
+    if (data.file.size > config.upload.chunkedUploadThreshold) {
+      responseData = await this.uploadInChunks(data.file, fields, options);
+    } else {
+      // Create FormData for file upload
+      const formData = new FormData();
+      Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+      formData.append('file', data.file);
 
-      const response = await fetch(`${config.api.baseUrl}/documents/documents/${documentId}/unshare/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
+      responseData = await this.http.post(API_ENDPOINTS.DOCUMENTS.CREATE, formData, {
+        errorMessage: 'Failed to create document',
+        onUploadProgress: options.onProgress,
+        signal: options.signal,
+        // Large files on slow school connections outlast the API timeout; callers cancel instead
+        timeout: 0,
       });
-
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
-
-      const responseData = await response.json();
-
-      return {
-        success: true,
-        data: {
-          message: responseData.message,
-          shares_revoked: responseData.shares_revoked,
-        },
-        message: 'Document unshared successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to unshare document', 500);
     }
+
+    return {
+      success: true,
+      data: decode(documentSchema, responseData, 'document'),
+      message: 'Document uploaded successfully',
+    };
   }
 
-  async getDocumentShares(): Promise<ApiResponse<DocumentShare[]>> {
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
+  /**
+   * Send a large file as numbered, checksummed chunks. A dropped connection
+   * pauses the upload until it comes back, and the saved progress lets a
+   * reload pick up from the last chunk the server confirmed.
+   */
+  private async uploadInChunks(file: File, fields: Record<string, string>, options: UploadOptions): Promise<unknown> {
+    const { signal, onProgress, onStateChange } = options;
+    const session = await this.openUploadSession(file, signal);
+    const received = new Set(session.receivedChunks);
+    const resumed = received.size > 0;
+    const chunkBytes = (index: number) => {
+      const { start, end } = chunkRange(index, session.chunkSize, file.size);
+      return end - start;
+    };
 
-      const response = await fetch(`${config.api.baseUrl}/documents/shares/`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
+    const report = (phase: UploadPhase, inFlightBytes = 0) => {
+      let loaded = inFlightBytes;
+      received.forEach(index => {
+        loaded += chunkBytes(index);
       });
+      onProgress?.({
+        loaded,
+        total: file.size,
+        percentage: Math.round((loaded / file.size) * 100),
+      });
+      onStateChange?.({
+        phase,
+        chunksUploaded: received.size,
+        totalChunks: session.totalChunks,
+        bytesRemaining: file.size - loaded,
+        resumed,
+      });
+    };
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
+    const pending = Array.from({ length: session.totalChunks }, (_, index) => index)
+      .filter(index => !received.has(index));
+    let connectionFailures = 0;
+    let checksumFailures = 0;
 
-      const data = await response.json();
-      
-      // Convert backend response to frontend DocumentShare interface
-      const shares: DocumentShare[] = data.map((share: any) => ({
-        id: share.id,
-        document: share.document,
-        shared_by: share.shared_by,
-        shared_with: share.shared_with,
-        share_type: share.share_type,
-        share_token: share.share_token,
-        can_download: share.can_download,
-        can_view: share.can_view,
-        is_active: share.is_active,
-        expires_at: share.expires_at,
-        shared_at: share.shared_at,
-        public_url: share.public_url,
-        // Additional fields from serializer
-        shared_by_name: share.shared_by_name,
-        shared_with_name: share.shared_with_name,
-        document_title: share.document_title,
-        document_file_name: share.document_file_name,
-        document_file_type: share.document_file_type,
-        document_file_size: share.document_file_size,
-        document_file_size_mb: share.document_file_size_mb,
-        document_download_count: share.document_download_count,
-        document_category_id: share.document_category_id,
-        document_category_name: share.document_category_name,
-        document_description: share.document_description,
-        document_class_level: share.document_class_level,
-        document_subject: share.document_subject,
-        document_status: share.document_status,
-        document_created_at: share.document_created_at,
-        is_expired: share.is_expired,
-      }));
+    report(resumed ? 'resuming' : 'uploading');
 
-      return {
-        success: true,
-        data: shares,
-        message: 'Document shares retrieved successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to fetch document shares', 500);
+    while (pending.length > 0) {
+      const index = pending[0];
+      try {
+        await this.uploadChunk(session.uploadId, index, file, session.chunkSize, {
+          signal,
+          onUploadProgress: progress => report('uploading', progress.loaded),
+        });
+      } catch (error) {
+        // The chunk was corrupted on the way; send it again
+        if (error instanceof ApiError && error.status === 409 && checksumFailures < MAX_CHECKSUM_RETRIES) {
+          checksumFailures++;
+          continue;
+        }
+        if (!isConnectionError(error)) throw error;
+
+        connectionFailures++;
+        report('paused');
+        await waitToResume(connectionFailures, signal);
+        report('resuming');
+        continue;
+      }
+
+      pending.shift();
+      received.add(index);
+      connectionFailures = 0;
+      checksumFailures = 0;
+      await saveUpload({
+        fingerprint: fileFingerprint(file),
+        uploadId: session.uploadId,
+        fileName: file.name,
+        fileSize: file.size,
+        chunkSize: session.chunkSize,
+        totalChunks: session.totalChunks,
+        chunksUploaded: received.size,
+        updatedAt: Date.now(),
+      });
+      report('uploading');
     }
-  }
 
-  async deleteDocument(documentId: string): Promise<ApiResponse<{ message: string }>> {
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      const response = await fetch(`${config.api.baseUrl}/documents/documents/${documentId}/`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+    const responseData = await this.http.post(API_ENDPOINTS.UPLOADS.COMPLETE(session.uploadId), fields, {
+      errorMessage: 'Failed to create document',
+      signal,
+    });
+    await forgetUpload(file);
+    return responseData;
+  }
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
+  /**
+   * Continue the saved upload for this file when the server still has it,
+   * otherwise start a new one
+   */
+  private async openUploadSession(file: File, signal?: AbortSignal): Promise<UploadSession> {
+    const saved = await loadSavedUpload(file);
 
-      return {
-        success: true,
-        data: { message: 'Document deleted successfully' },
-        message: 'Document deleted successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
+    if (saved) {
+      try {
+        const responseData = await this.http.get(API_ENDPOINTS.UPLOADS.DETAIL(saved.uploadId), {
+          errorMessage: 'Failed to resume upload',
+          signal,
+        });
+        const session = decode(uploadSessionSchema, responseData, 'upload session');
+        if (session.totalChunks === chunkCount(file.size, session.chunkSize)) {
+          return session;
+        }
+      } catch (error) {
+        // Expired or finished uploads are gone from the server; anything else is a real failure
+        if (!(error instanceof ApiError && [404, 410].includes(error.status))) throw error;
       }
-      throw new ApiError('Failed to delete document', 500);
+      await forgetUpload(file);
     }
+
+    const chunkSize = config.upload.chunkSize;
+    const responseData = await this.http.post(API_ENDPOINTS.UPLOADS.START, {
+      file_name: file.name,
+      file_size: file.size,
+      content_type: file.type,
+      chunk_size: chunkSize,
+      total_chunks: chunkCount(file.size, chunkSize),
+    }, {
+      errorMessage: 'Failed to start upload',
+      signal,
+    });
+    const session = decode(uploadSessionSchema, responseData, 'upload session');
+
+    await saveUpload({
+      fingerprint: fileFingerprint(file),
+      uploadId: session.uploadId,
+      fileName: file.name,
+      fileSize: file.size,
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      chunksUploaded: session.receivedChunks.length,
+      updatedAt: Date.now(),
+    });
+    return session;
   }
 
-  async adminDeleteDocument(documentId: string): Promise<ApiResponse<{ message: string }>> {
-    // This method requires admin role
-    this.requireRole('admin');
+  private async uploadChunk(
+    uploadId: string,
+    index: number,
+    file: File,
+    chunkSize: number,
+    options: Pick<HttpRequestOptions, 'signal' | 'onUploadProgress'>
+  ): Promise<void> {
+    const { start, end } = chunkRange(index, chunkSize, file.size);
+    const chunk = file.slice(start, end);
+    const checksum = await sha256Hex(chunk);
+
+    await this.http.put(API_ENDPOINTS.UPLOADS.CHUNK(uploadId, index), chunk, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Range': `bytes ${start}-${end - 1}/${file.size}`,
+        'X-Chunk-Checksum': `sha256=${checksum}`,
+      },
+      timeout: config.upload.chunkTimeout,
+      errorMessage: `Failed to upload part ${index + 1} of ${file.name}`,
+    });
+  }
 
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
+  async shareDocument(documentId: string, shareData: DocumentShareRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<DocumentShare>> {
+    const responseData = await this.http.post(API_ENDPOINTS.DOCUMENTS.SHARE(documentId), shareData, {
+      signal,
+      errorMessage: 'Failed to share document',
+    });
 
-      const response = await fetch(`${config.api.baseUrl}/documents/documents/${documentId}/admin-delete/`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+    return {
+      success: true,
+      data: decode(documentShareSchema, responseData, 'document share'),
+      message: 'Document shared successfully',
+    };
+  }
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
+  async unshareDocument(documentId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string; shares_revoked: number }>> {
+    const responseData = await this.http.post(API_ENDPOINTS.DOCUMENTS.UNSHARE(documentId), undefined, {
+      signal,
+      errorMessage: 'Failed to unshare document',
+    });
 
-      return {
-        success: true,
-        data: { message: 'Document deleted by admin successfully' },
-        message: 'Document deleted by admin successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to delete document', 500);
-    }
+    return {
+      success: true,
+      data: decode(unshareSchema, responseData, 'unshare'),
+      message: 'Document unshared successfully',
+    };
   }
 
-  async previewDocument(documentId: string, shareToken?: string): Promise<string> {
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      const url = new URL(`${config.api.baseUrl}/documents/documents/${documentId}/preview/`);
-      if (shareToken) {
-        url.searchParams.append('token', shareToken);
-      }
+  async getDocumentShares({ signal }: RequestOptions = {}): Promise<ApiResponse<DocumentShare[]>> {
+    const data = await this.http.get(API_ENDPOINTS.SHARES.LIST, {
+      signal,
+      errorMessage: 'Failed to fetch document shares',
+    });
 
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+    return {
+      success: true,
+      data: decode(z.array(documentShareSchema), data, 'document share list'),
+      message: 'Document shares retrieved successfully',
+    };
+  }
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
+  async deleteDocument(documentId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
+    await this.http.delete(API_ENDPOINTS.DOCUMENTS.DELETE(documentId), {
+      signal,
+      errorMessage: 'Failed to delete document',
+    });
 
-      // Create blob URL for preview
-      const blob = await response.blob();
-      return URL.createObjectURL(blob);
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to preview document', 500);
-    }
+    return {
+      success: true,
+      data: { message: 'Document deleted successfully' },
+      message: 'Document deleted successfully',
+    };
   }
 
-  async downloadDocument(documentId: string, shareToken?: string, documentFileName?: string): Promise<void> {
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      const url = new URL(`${config.api.baseUrl}/documents/documents/${documentId}/download/`);
-      if (shareToken) {
-        url.searchParams.append('token', shareToken);
-      }
+  async adminDeleteDocument(documentId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
+    // This method requires admin role
+    this.requireRole('admin');
 
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+    await this.http.delete(API_ENDPOINTS.DOCUMENTS.ADMIN_DELETE(documentId), {
+      signal,
+      errorMessage: 'Failed to delete document',
+    });
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
+    return {
+      success: true,
+      data: { message: 'Document deleted by admin successfully' },
+      message: 'Document deleted by admin successfully',
+    };
+  }
 
-      // Get filename from Content-Disposition header with improved parsing
-      const contentDisposition = response.headers.get('Content-Disposition');
-      let fileName = documentFileName || 'download'; // Use provided filename as fallback
-      
-      if (contentDisposition) {
-        // Try multiple patterns to extract filename
-        const patterns = [
-          /filename\*=UTF-8''(.+)/i,  // RFC 5987 encoded filename
-          /filename="([^"]+)"/i,       // Quoted filename
-          /filename=([^;]+)/i          // Unquoted filename
-        ];
-        
-        for (const pattern of patterns) {
-          const match = contentDisposition.match(pattern);
-          if (match && match[1]) {
-            fileName = decodeURIComponent(match[1].trim());
-            break;
-          }
-        }
-      }
-      
-      // Ensure filename has proper extension if missing
-      if (documentFileName && !fileName.includes('.') && documentFileName.includes('.')) {
-        const extension = documentFileName.split('.').pop();
-        fileName = `${fileName}.${extension}`;
-      }
+  async previewDocument(documentId: string, shareToken?: string, { signal }: RequestOptions = {}): Promise<string> {
+    const blob = await this.http.get<Blob>(API_ENDPOINTS.DOCUMENTS.PREVIEW(documentId), {
+      query: { token: shareToken },
+      // The share token grants access on its own
+      auth: !shareToken,
+      responseType: 'blob',
+      signal,
+      errorMessage: 'Failed to preview document',
+    });
+
+    // Create blob URL for preview
+    return URL.createObjectURL(blob);
+  }
 
-      // Create blob and download
-      const blob = await response.blob();
-      const downloadUrl = URL.createObjectURL(blob);
-      
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      // Clean up the blob URL
-      URL.revokeObjectURL(downloadUrl);
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to download document', 500);
+  /**
+   * Stream a document to the browser's downloads. Resolves false when the
+   * caller declines a large file or closes the save dialog; rejects with an
+   * AbortError when cancelled.
+   *
+   * Chromium browsers write each chunk straight to the file the user picks.
+   * Elsewhere the whole file is held in memory (as Blobs the browser may page
+   * out) until it is saved, so a file larger than the device can hold fails
+   * there; the large-download confirmation is the only guard against that.
+   */
+  async downloadDocument(
+    documentId: string,
+    documentFileName?: string,
+    options: DownloadOptions = {}
+  ): Promise<boolean> {
+    const { shareToken, onProgress, confirmLargeDownload, signal } = options;
+
+    const response = await this.http.send<ReadableStream<Uint8Array<ArrayBuffer>> | null>(
+      this.http.createRequest('GET', API_ENDPOINTS.DOCUMENTS.DOWNLOAD(documentId), {
+        query: { token: shareToken },
+        // The share token grants access on its own
+        auth: !shareToken,
+        responseType: 'stream',
+        signal,
+        // Large files on slow connections outlast the API timeout; callers cancel instead
+        timeout: 0,
+        errorMessage: 'Failed to download document',
+      })
+    );
+
+    const fileName = getDownloadFileName(response.headers.get('Content-Disposition'), documentFileName);
+    const total = Number(response.headers.get('Content-Length')) || 0;
+
+    if (total > config.download.confirmSizeThreshold && confirmLargeDownload && !(await confirmLargeDownload(total))) {
+      await response.data?.cancel();
+      return false;
     }
-  }
 
-  async updateDocument(documentId: string, data: DocumentUpdateRequest): Promise<ApiResponse<Document>> {
+    let file: FileSystemWritableFileStream | null;
     try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      // Convert camelCase to snake_case for backend
-      const backendData: any = {};
-      if (data.title !== undefined) backendData.title = data.title;
-      if (data.description !== undefined) backendData.description = data.description;
-      if (data.status !== undefined) backendData.status = data.status;
-      if (data.classLevel !== undefined) backendData.class_level = data.classLevel;
-      if (data.subject !== undefined) backendData.subject = data.subject;
-      if (data.categoryId !== undefined) backendData.category = data.categoryId;
-
-      const response = await fetch(`${config.api.baseUrl}/documents/documents/${documentId}/`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(backendData),
-      });
-
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
-
-      const responseData = await response.json();
-      
-      // Convert backend response to frontend Document interface
-      const document: Document = {
-        id: responseData.id,
-        title: responseData.title,
-        description: responseData.description,
-        fileName: responseData.file_name,
-        fileSize: responseData.file_size,
-        fileType: responseData.file_type,
-        filePath: responseData.file,
-        category: {
-          id: responseData.category,
-          name: responseData.category_name,
-          description: '',
-          requiresClassSubject: false,
-          isActive: true,
-          documentsCount: 0,
-          createdAt: '',
-          updatedAt: '',
-        },
-        teacher: {
-          id: responseData.teacher,
-          user: {
-            id: responseData.teacher,
-            email: '',
-            firstName: responseData.teacher_name.split(' ')[0] || '',
-            lastName: responseData.teacher_name.split(' ').slice(1).join(' ') || '',
-            role: 'teacher',
-            phoneNumber: '',
-            bio: '',
-            profilePicture: undefined,
-            isActive: true,
-            dateJoined: responseData.created_at,
-          },
-          status: 'active',
-          documentsCount: 0,
-          sharedDocumentsCount: 0,
-          totalDownloads: 0,
-          createdAt: responseData.created_at,
-          updatedAt: responseData.updated_at,
-        },
-        classLevel: responseData.class_level,
-        subject: responseData.subject,
-        isShared: responseData.is_shared,
-        sharedAt: responseData.shared_at,
-        downloadCount: responseData.download_count,
-        status: responseData.status,
-        sharedWith: responseData.shared_with_users || [],
-        tags: [],
-        createdAt: responseData.created_at,
-        updatedAt: responseData.updated_at,
-        public_share_url: responseData.public_share_url || undefined,
-        shared_with_emails: responseData.shared_with_emails || [],
-      };
-
-      return {
-        success: true,
-        data: document,
-        message: 'Document updated successfully',
-      };
+      file = await openSaveFile(fileName);
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to update document', 500);
+      await response.data?.cancel();
+      // The user closed the save dialog
+      if (error instanceof DOMException && error.name === 'AbortError' && !signal?.aborted) return false;
+      throw error;
     }
-  }
 
-  async flagDocument(documentId: string): Promise<ApiResponse<{ message: string; document_status: string }>> {
-    this.requireRole('admin');
-    
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
+    const type = response.headers.get('Content-Type') ?? undefined;
+    let parts: BlobPart[] = [];
+    let unflushed = 0;
+    let loaded = 0;
 
-      const response = await fetch(`${config.api.baseUrl}/documents/documents/${documentId}/flag/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+    try {
+      if (response.data) {
+        const reader = response.data.getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          loaded += value.byteLength;
+          if (file) {
+            await file.write(value);
+          } else {
+            parts.push(value);
+            unflushed += value.byteLength;
+
+            // Folding chunks into a Blob lets the browser move them out of the JS heap
+            if (unflushed >= config.download.flushSize) {
+              parts = [new Blob(parts, { type })];
+              unflushed = 0;
+            }
+          }
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
+          onProgress?.({
+            loaded,
+            total,
+            percentage: total ? Math.round((loaded / total) * 100) : 0,
+          });
+        }
       }
-
-      const data = await response.json();
-      return {
-        success: true,
-        data: data,
-        message: data.message,
-      };
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to flag document', 500);
+      // Discards what was written so a cancelled download leaves no partial file
+      await file?.abort().catch(() => undefined);
+      throw error;
     }
+
+    if (file) {
+      await file.close();
+      return true;
+    }
+
+    // Create blob and download
+    const downloadUrl = URL.createObjectURL(new Blob(parts, { type }));
+
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Clean up the blob URL
+    URL.revokeObjectURL(downloadUrl);
+    return true;
+  }
+
+  async updateDocument(documentId: string, data: DocumentUpdateRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<Document>> {
+    // Convert camelCase to snake_case for backend
+    const backendData: any = {};
+    if (data.title !== undefined) backendData.title = data.title;
+    if (data.description !== undefined) backendData.description = data.description;
+    if (data.status !== undefined) backendData.status = data.status;
+    if (data.classLevel !== undefined) backendData.class_level = data.classLevel;
+    if (data.subject !== undefined) backendData.subject = data.subject;
+    if (data.categoryId !== undefined) backendData.category = data.categoryId;
+
+    const responseData = await this.http.patch(API_ENDPOINTS.DOCUMENTS.UPDATE(documentId), backendData, {
+      signal,
+      errorMessage: 'Failed to update document',
+    });
+
+    return {
+      success: true,
+      data: decode(documentSchema, responseData, 'document'),
+      message: 'Document updated successfully',
+    };
   }
 
-  async archiveDocument(documentId: string): Promise<ApiResponse<{ message: string; document_status: string }>> {
+  async flagDocument(documentId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string; document_status: string }>> {
     this.requireRole('admin');
-    
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
 
-      const response = await fetch(`${config.api.baseUrl}/documents/documents/${documentId}/archive/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+    const responseData = await this.http.post(API_ENDPOINTS.DOCUMENTS.FLAG(documentId), undefined, {
+      signal,
+      errorMessage: 'Failed to flag document',
+    });
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
+    const data = decode(documentStatusChangeSchema, responseData, 'flag document');
+    return {
+      success: true,
+      data: data,
+      message: data.message,
+    };
+  }
 
-      const data = await response.json();
-      return {
-        success: true,
-        data: data,
-        message: data.message,
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to archive document', 500);
-    }
+  async archiveDocument(documentId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string; document_status: string }>> {
+    this.requireRole('admin');
+
+    const responseData = await this.http.post(API_ENDPOINTS.DOCUMENTS.ARCHIVE(documentId), undefined, {
+      signal,
+      errorMessage: 'Failed to archive document',
+    });
+
+    const data = decode(documentStatusChangeSchema, responseData, 'archive document');
+    return {
+      success: true,
+      data: data,
+      message: data.message,
+    };
   }
 
   // Category Methods
-  async getCategories(): Promise<ApiResponse<DocumentCategory[]>> {
+  async getCategories({ signal }: RequestOptions = {}): Promise<ApiResponse<DocumentCategory[]>> {
     this.getCurrentUser(); // Just ensure user is authenticated
-    
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      const response = await fetch(`${config.api.baseUrl}/documents/categories/`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
 
-      const data = await response.json();
-      
-      // Convert backend response to frontend DocumentCategory interface
-      const categories: DocumentCategory[] = data.map((category: any) => ({
-        id: category.id.toString(), // Convert to string to match form state
-        name: category.name,
-        description: category.description,
-        requiresClassSubject: category.requires_class_subject,
-        isActive: category.is_active,
-        documentsCount: category.documents_count,
-        createdAt: category.created_at,
-        updatedAt: category.updated_at,
-      }));
+    const data = await this.http.get(API_ENDPOINTS.CATEGORIES.LIST, {
+      signal,
+      errorMessage: 'Failed to fetch categories',
+    });
 
-      return {
-        success: true,
-        data: categories,
-        message: 'Categories retrieved successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to fetch categories', 500);
-    }
+    return {
+      success: true,
+      data: decode(z.array(categorySchema), data, 'category list'),
+      message: 'Categories retrieved successfully',
+    };
   }
 
-  async createCategory(data: CategoryCreateRequest): Promise<ApiResponse<DocumentCategory>> {
+  async createCategory(data: CategoryCreateRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<DocumentCategory>> {
     this.requireRole('admin');
 
+    let responseData: unknown;
     try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      // Convert frontend data to backend format
-      const payload = {
+      responseData = await this.http.post(API_ENDPOINTS.CATEGORIES.CREATE, {
         name: data.name,
         description: data.description || '',
-        requires_class_subject: data.requiresClassSubject,
-      };
-
-      const response = await fetch(`${config.api.baseUrl}/documents/categories/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        if (response.status === 400 && errorData.name?.[0]?.includes('already exists')) {
-          throw new ApiError('Category name already exists', 400);
-        }
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
-
-      const category = await response.json();
-      
-      // Convert backend response to frontend format
-      const newCategory: DocumentCategory = {
-        id: category.id,
-        name: category.name,
-        description: category.description,
-        requiresClassSubject: category.requires_class_subject,
-        isActive: category.is_active,
-        documentsCount: category.documents_count,
-        createdAt: category.created_at,
-        updatedAt: category.updated_at,
-      };
-
-      return {
-        success: true,
-        data: newCategory,
-        message: 'Category created successfully',
-      };
+        requiresClassSubject: data.requiresClassSubject,
+      }, { snakeCaseRequest: true, signal, errorMessage: 'Failed to create category' });
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
+      if (error instanceof ValidationError && error.errors.name?.[0]?.includes('already exists')) {
+        throw new ValidationError('Category name already exists', error.errors);
       }
-      throw new ApiError('Failed to create category', 500);
+      throw error;
     }
+
+    return {
+      success: true,
+      data: decode(categorySchema, responseData, 'category'),
+      message: 'Category created successfully',
+    };
   }
 
-  async deleteCategory(categoryId: string): Promise<ApiResponse<{ message: string }>> {
+  async deleteCategory(categoryId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<{ message: string }>> {
     this.requireRole('admin');
 
     try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      const response = await fetch(`${config.api.baseUrl}/documents/categories/${categoryId}/`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
+      await this.http.delete(API_ENDPOINTS.CATEGORIES.DELETE(categoryId), {
+        signal,
+        errorMessage: 'Failed to delete category',
       });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        if (response.status === 404) {
-          throw new ApiError('Category not found', 404);
-        }
-        if (response.status === 400 && errorData.detail?.includes('existing documents')) {
-          throw new ApiError('Cannot delete category with existing documents', 400);
-        }
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
-
-      return {
-        success: true,
-        data: { message: 'Category deleted successfully' },
-        message: 'Category deleted successfully',
-      };
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
+      if (error instanceof ApiError && error.status === 404) {
+        throw new ApiError('Category not found', 404);
       }
-      throw new ApiError('Failed to delete category', 500);
+      if (error instanceof ApiError && error.status === 400 && error.message.includes('existing documents')) {
+        throw new ApiError('Cannot delete category with existing documents', 400);
+      }
+      throw error;
     }
+
+    return {
+      success: true,
+      data: { message: 'Category deleted successfully' },
+      message: 'Category deleted successfully',
+    };
   }
 
-  async updateCategory(categoryId: string, data: CategoryUpdateRequest): Promise<ApiResponse<DocumentCategory>> {
+  async updateCategory(categoryId: string, data: CategoryUpdateRequest, { signal }: RequestOptions = {}): Promise<ApiResponse<DocumentCategory>> {
     this.requireRole('admin');
 
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
+    // Only send the fields that were provided
+    const payload: CategoryUpdateRequest = {};
+    if (data.name !== undefined) payload.name = data.name;
+    if (data.description !== undefined) payload.description = data.description;
+    if (data.requiresClassSubject !== undefined) payload.requiresClassSubject = data.requiresClassSubject;
+    if (data.isActive !== undefined) payload.isActive = data.isActive;
 
-      // Convert frontend data to backend format
-      const payload: any = {};
-      if (data.name !== undefined) payload.name = data.name;
-      if (data.description !== undefined) payload.description = data.description;
-      if (data.requiresClassSubject !== undefined) payload.requires_class_subject = data.requiresClassSubject;
-      if (data.isActive !== undefined) payload.is_active = data.isActive;
-
-      const response = await fetch(`${config.api.baseUrl}/documents/categories/${categoryId}/`, {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
+    let responseData: unknown;
+    try {
+      responseData = await this.http.patch(API_ENDPOINTS.CATEGORIES.UPDATE(categoryId), payload, {
+        snakeCaseRequest: true,
+        signal,
+        errorMessage: 'Failed to update category',
       });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        if (response.status === 404) {
-          throw new ApiError('Category not found', 404);
-        }
-        if (response.status === 400 && errorData.name?.[0]?.includes('already exists')) {
-          throw new ApiError('Category name already exists', 400);
-        }
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
-
-      const category = await response.json();
-      
-      // Convert backend response to frontend format
-      const updatedCategory: DocumentCategory = {
-        id: category.id,
-        name: category.name,
-        description: category.description,
-        requiresClassSubject: category.requires_class_subject,
-        isActive: category.is_active,
-        documentsCount: category.documents_count,
-        createdAt: category.created_at,
-        updatedAt: category.updated_at,
-      };
-
-      return {
-        success: true,
-        data: updatedCategory,
-        message: 'Category updated successfully',
-      };
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
+      if (error instanceof ApiError && error.status === 404) {
+        throw new ApiError('Category not found', 404);
       }
-      throw new ApiError('Failed to update category', 500);
+      if (error instanceof ValidationError && error.errors.name?.[0]?.includes('already exists')) {
+        throw new ValidationError('Category name already exists', error.errors);
+      }
+      throw error;
     }
+
+    return {
+      success: true,
+      data: decode(categorySchema, responseData, 'category'),
+      message: 'Category updated successfully',
+    };
   }
 
-  async toggleCategoryActive(categoryId: string): Promise<ApiResponse<DocumentCategory>> {
+  async toggleCategoryActive(categoryId: string, { signal }: RequestOptions = {}): Promise<ApiResponse<DocumentCategory>> {
     this.requireRole('admin');
 
+    let toggleData: unknown;
     try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      const response = await fetch(`${config.api.baseUrl}/documents/categories/${categoryId}/toggle_active/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        if (response.status === 404) {
-          throw new ApiError('Category not found', 404);
-        }
-        if (response.status === 403) {
-          throw new ApiError('You do not have permission to manage categories', 403);
-        }
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
-
-      const data = await response.json();
-      
-      // We need to fetch the updated category to get the full data
-      const categoryResponse = await fetch(`${config.api.baseUrl}/documents/categories/${categoryId}/`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
+      toggleData = await this.http.post(API_ENDPOINTS.CATEGORIES.TOGGLE_ACTIVE(categoryId), undefined, {
+        signal,
+        errorMessage: 'Failed to toggle category status',
       });
-
-      if (!categoryResponse.ok) {
-        throw new ApiError('Failed to fetch updated category', 500);
-      }
-
-      const category = await categoryResponse.json();
-      
-      // Convert backend response to frontend format
-      const updatedCategory: DocumentCategory = {
-        id: category.id,
-        name: category.name,
-        description: category.description,
-        requiresClassSubject: category.requires_class_subject,
-        isActive: category.is_active,
-        documentsCount: category.documents_count,
-        createdAt: category.created_at,
-        updatedAt: category.updated_at,
-      };
-
-      return {
-        success: true,
-        data: updatedCategory,
-        message: `Category ${data.is_active ? 'activated' : 'deactivated'} successfully`,
-      };
     } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
+      if (error instanceof ApiError && error.status === 404) {
+        throw new ApiError('Category not found', 404);
       }
-      throw new ApiError('Failed to toggle category status', 500);
+      if (error instanceof PermissionError) {
+        throw new PermissionError('You do not have permission to manage categories');
+      }
+      throw error;
     }
+    const { is_active } = decode(categoryToggleSchema, toggleData, 'category toggle');
+
+    // We need to fetch the updated category to get the full data
+    const category = await this.http.get(API_ENDPOINTS.CATEGORIES.DETAIL(categoryId), {
+      signal,
+      errorMessage: 'Failed to fetch updated category',
+    });
+
+    return {
+      success: true,
+      data: decode(categorySchema, category, 'category'),
+      message: `Category ${is_active ? 'activated' : 'deactivated'} successfully`,
+    };
   }
 
   // Dashboard Methods
-  async getDashboardStats(): Promise<ApiResponse<DashboardStats>> {
+  async getDashboardStats({ signal }: RequestOptions = {}): Promise<ApiResponse<DashboardStats>> {
     this.requireRole('admin');
-    
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      const response = await fetch(`${config.api.baseUrl}/accounts/admin/dashboard/stats/`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
-
-      const data = await response.json();
-
-      return {
-        success: true,
-        data: data,
-        message: 'Dashboard stats retrieved successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
-      }
+    const responseData = await this.http.get(API_ENDPOINTS.DASHBOARD.ADMIN_STATS, {
+      signal,
+      errorMessage: 'Failed to fetch dashboard stats',
+    });
 
-      throw new ApiError('Failed to fetch dashboard stats', 500);
-    }
+    return {
+      success: true,
+      data: decode(dashboardStatsSchema, responseData, 'dashboard stats'),
+      message: 'Dashboard stats retrieved successfully',
+    };
   }
 
-  async getTeacherDashboardStats(): Promise<ApiResponse<TeacherDashboardStats>> {
+  async getTeacherDashboardStats({ signal }: RequestOptions = {}): Promise<ApiResponse<TeacherDashboardStats>> {
     const user = this.getCurrentUser();
     if (user.role !== 'teacher') {
-      throw new ApiError('Only teachers can access teacher dashboard stats', 403);
+      throw new PermissionError('Only teachers can access teacher dashboard stats');
     }
 
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      const response = await fetch(`${config.api.baseUrl}/accounts/teacher/dashboard/stats/`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
-
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
-
-      const data = await response.json();
-
-      return {
-        success: true,
-        data: data,
-        message: 'Teacher dashboard stats retrieved successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
-      }
+    const responseData = await this.http.get(API_ENDPOINTS.DASHBOARD.TEACHER_STATS, {
+      signal,
+      errorMessage: 'Failed to fetch teacher dashboard stats',
+    });
 
-      throw new ApiError('Failed to fetch teacher dashboard stats', 500);
-    }
+    return {
+      success: true,
+      data: decode(teacherDashboardStatsSchema, responseData, 'teacher dashboard stats'),
+      message: 'Teacher dashboard stats retrieved successfully',
+    };
   }
 
   // Reports Methods
-  async getReportsData(timeRange: string = '30'): Promise<ApiResponse<ReportsData>> {
+  async getReportsData(timeRange: string = '30', { signal }: RequestOptions = {}): Promise<ApiResponse<ReportsData>> {
     this.requireRole('admin');
-    
-    try {
-      const token = localStorage.getItem(config.auth.tokenKey);
-      if (!token) {
-        throw new ApiError('No authentication token found', 401);
-      }
-
-      const response = await fetch(`${config.api.baseUrl}/accounts/admin/reports/?time_range=${timeRange}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        signal: AbortSignal.timeout(config.api.timeout),
-      });
-
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
-
-      const data = await response.json();
 
-      return {
-        success: true,
-        data: data,
-        message: 'Reports data retrieved successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        throw new ApiError('Unable to connect to server. Please check your connection.', 503);
-      }
-      
-      if (error instanceof DOMException && error.name === 'TimeoutError') {
-        throw new ApiError('Request timeout. Please try again.', 408);
-      }
+    const responseData = await this.http.get(API_ENDPOINTS.DASHBOARD.REPORTS, {
+      query: { time_range: timeRange },
+      signal,
+      errorMessage: 'Failed to fetch reports data',
+    });
 
-      throw new ApiError('Failed to fetch reports data', 500);
-    }
+    return {
+      success: true,
+      data: decode(reportsDataSchema, responseData, 'reports'),
+      message: 'Reports data retrieved successfully',
+    };
   }
 
   // Settings Methods
-  async getSystemSettings(): Promise<ApiResponse<SystemSettings>> {
+  async getSystemSettings({ signal }: RequestOptions = {}): Promise<ApiResponse<SystemSettings>> {
     this.requireRole('admin');
-    
-    try {
-      const accessToken = localStorage.getItem(config.auth.tokenKey);
-      if (!accessToken) {
-        throw new Error('No access token found');
-      }
 
-      const response = await fetch(`${config.api.baseUrl}/settings/system/`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
+    try {
+      const responseData = await this.http.get(API_ENDPOINTS.SETTINGS.SYSTEM, {
+        signal,
+        errorMessage: 'Failed to fetch system settings',
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const responseData = await response.json();
-      const data = responseData.data;
-      
-      // Convert snake_case to camelCase for frontend
-      const settings: SystemSettings = {
-        siteName: data.site_name,
-        siteDescription: data.site_description,
-        maxFileSize: data.max_file_size,
-        allowedFileTypes: data.allowed_file_types,
-        sessionTimeout: data.session_timeout,
-        maintenanceMode: data.maintenance_mode,
-        registrationEnabled: data.registration_enabled,
-        requireAdminApproval: data.require_admin_approval,
-      };
+      const { data, message } = decode(settingsEnvelope(systemSettingsSchema), responseData, 'system settings');
 
       return {
         success: true,
-        data: settings,
-        message: responseData.message,
+        data,
+        message,
       };
     } catch (error) {
       return {
@@ -2444,62 +1837,28 @@ export class ApiClient {
     }
   }
 
-  async updateSystemSettings(settings: Partial<SystemSettings>): Promise<ApiResponse<SystemSettings>> {
+  async updateSystemSettings(settings: Partial<SystemSettings>, { signal }: RequestOptions = {}): Promise<ApiResponse<SystemSettings>> {
     this.requireRole('admin');
-    
-    try {
-      const accessToken = localStorage.getItem(config.auth.tokenKey);
-      if (!accessToken) {
-        throw new Error('No access token found');
-      }
-
-      // Convert camelCase to snake_case for backend
-      const backendData: any = {};
-      if (settings.siteName !== undefined) backendData.site_name = settings.siteName;
-      if (settings.siteDescription !== undefined) backendData.site_description = settings.siteDescription;
-      if (settings.maxFileSize !== undefined) backendData.max_file_size = settings.maxFileSize;
-      if (settings.allowedFileTypes !== undefined) {
-        // allowedFileTypes should already be an array from AdminSettings component
-        backendData.allowed_file_types = settings.allowedFileTypes;
-      }
-      if (settings.sessionTimeout !== undefined) backendData.session_timeout = settings.sessionTimeout;
-      if (settings.maintenanceMode !== undefined) backendData.maintenance_mode = settings.maintenanceMode;
-      if (settings.registrationEnabled !== undefined) backendData.registration_enabled = settings.registrationEnabled;
-      if (settings.requireAdminApproval !== undefined) backendData.require_admin_approval = settings.requireAdminApproval;
-
-      const response = await fetch(`${config.api.baseUrl}/settings/system/`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(backendData),
-      });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || `HTTP error! status: ${response.status}`);
-      }
-
-      const responseData = await response.json();
-      const responseSettings = responseData.data;
-      
-      // Convert snake_case to camelCase for frontend
-      const updatedSettings: SystemSettings = {
-        siteName: responseSettings.site_name,
-        siteDescription: responseSettings.site_description,
-        maxFileSize: responseSettings.max_file_size,
-        allowedFileTypes: responseSettings.allowed_file_types,
-        sessionTimeout: responseSettings.session_timeout,
-        maintenanceMode: responseSettings.maintenance_mode,
-        registrationEnabled: responseSettings.registration_enabled,
-        requireAdminApproval: responseSettings.require_admin_approval,
-      };
+    try {
+      // Undefined fields are dropped when the body is serialized
+      // allowedFileTypes should already be an array from AdminSettings component
+      const responseData = await this.http.put(API_ENDPOINTS.SETTINGS.SYSTEM, {
+        siteName: settings.siteName,
+        siteDescription: settings.siteDescription,
+        maxFileSize: settings.maxFileSize,
+        allowedFileTypes: settings.allowedFileTypes,
+        sessionTimeout: settings.sessionTimeout,
+        maintenanceMode: settings.maintenanceMode,
+        registrationEnabled: settings.registrationEnabled,
+        requireAdminApproval: settings.requireAdminApproval,
+      }, { snakeCaseRequest: true, signal, errorMessage: 'Failed to update system settings' });
+      const { data, message } = decode(settingsEnvelope(systemSettingsSchema), responseData, 'system settings');
 
       return {
         success: true,
-        data: updatedSettings,
-        message: responseData.message,
+        data,
+        message,
       };
     } catch (error) {
       return {
@@ -2509,40 +1868,20 @@ export class ApiClient {
     }
   }
 
-  async getSecuritySettings(): Promise<ApiResponse<SecuritySettings>> {
+  async getSecuritySettings({ signal }: RequestOptions = {}): Promise<ApiResponse<SecuritySettings>> {
     this.requireRole('admin');
-    
-    try {
-      const accessToken = localStorage.getItem(config.auth.tokenKey);
-      if (!accessToken) {
-        throw new Error('No access token found');
-      }
 
-      const response = await fetch(`${config.api.baseUrl}/settings/security/`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
+    try {
+      const responseData = await this.http.get(API_ENDPOINTS.SETTINGS.SECURITY, {
+        signal,
+        errorMessage: 'Failed to fetch security settings',
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const responseData = await response.json();
-      const data = responseData.data;
-      
-      // Convert snake_case to camelCase for frontend
-      const settings: SecuritySettings = {
-        twoFactorRequired: data.two_factor_required,
-        enableAuditLogs: false, // This field doesn't exist in backend yet, defaulting to false
-      };
+      const { data, message } = decode(settingsEnvelope(securitySettingsSchema), responseData, 'security settings');
 
       return {
         success: true,
-        data: settings,
-        message: responseData.message,
+        data,
+        message,
       };
     } catch (error) {
       return {
@@ -2552,47 +1891,30 @@ export class ApiClient {
     }
   }
 
-  async updateSecuritySettings(settings: Partial<SecuritySettings>): Promise<ApiResponse<SecuritySettings>> {
+  async updateSecuritySettings(settings: Partial<SecuritySettings>, { signal }: RequestOptions = {}): Promise<ApiResponse<SecuritySettings>> {
     this.requireRole('admin');
-    
-    try {
-      const accessToken = localStorage.getItem(config.auth.tokenKey);
-      if (!accessToken) {
-        throw new Error('No access token found');
-      }
 
+    try {
       // Convert camelCase to snake_case for backend
       const backendData: any = {};
       if (settings.twoFactorRequired !== undefined) backendData.two_factor_required = settings.twoFactorRequired;
+      if (settings.adminTotpRequired !== undefined) backendData.require_totp_for_admins = settings.adminTotpRequired;
+      if (settings.adminPasskeyRequired !== undefined) backendData.require_passkeys_for_admins = settings.adminPasskeyRequired;
+      if (settings.passwordPolicy !== undefined) backendData.password_policy = snakeizeKeys(settings.passwordPolicy);
+      if (settings.lockoutThreshold !== undefined) backendData.lockout_threshold = settings.lockoutThreshold;
+      if (settings.lockoutMinutes !== undefined) backendData.lockout_minutes = settings.lockoutMinutes;
       // Note: enableAuditLogs is not implemented in backend yet
 
-      const response = await fetch(`${config.api.baseUrl}/settings/security/`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(backendData),
+      const responseData = await this.http.put(API_ENDPOINTS.SETTINGS.SECURITY, backendData, {
+        signal,
+        errorMessage: 'Failed to update security settings',
       });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || `HTTP error! status: ${response.status}`);
-      }
-
-      const responseData = await response.json();
-      const responseSettings = responseData.data;
-      
-      // Convert snake_case to camelCase for frontend
-      const updatedSettings: SecuritySettings = {
-        twoFactorRequired: responseSettings.two_factor_required,
-        enableAuditLogs: false, // This field doesn't exist in backend yet, defaulting to false
-      };
+      const { data, message } = decode(settingsEnvelope(securitySettingsSchema), responseData, 'security settings');
 
       return {
         success: true,
-        data: updatedSettings,
-        message: responseData.message,
+        data,
+        message,
       };
     } catch (error) {
       return {
@@ -2603,183 +1925,112 @@ export class ApiClient {
   }
 
   // Activity Methods
-  async getActivityLogs(): Promise<ApiResponse<ActivityLog[]>> {
+  async getActivityLogs({ signal }: RequestOptions = {}): Promise<ApiResponse<ActivityLog[]>> {
     this.requireRole('admin');
-    
+
     try {
-      const response = await this.makeRequest<any[]>(API_ENDPOINTS.AUDIT.LOGS, {
-        method: 'GET',
+      const data = await this.http.get(API_ENDPOINTS.AUDIT.LOGS, {
+        signal,
+        errorMessage: 'Failed to fetch activity logs',
       });
 
-      // Transform backend data to frontend format, filtering out invalid entries
-      const transformedLogs: ActivityLog[] = response.data
-        .filter((log: any) => log && log.user_id && log.id) // Filter out logs without valid user_id or id
-        .map((log: any) => ({
-          id: log.id.toString(),
-          user: {
-            id: log.user_id.toString(),
-            email: log.user_email || '',
-            firstName: log.user_name?.split(' ')[0] || 'Unknown',
-            lastName: log.user_name?.split(' ').slice(1).join(' ') || '',
-            role: log.user_role || 'teacher',
-            isActive: true,
-            dateJoined: log.created_at || new Date().toISOString(),
-          },
-          action: this.mapBackendActionToFrontend(log.action || ''),
-          targetType: log.target_type || undefined,
-          targetId: log.target_id ? log.target_id.toString() : undefined,
-          targetName: log.target_name || undefined,
-          description: log.description || '',
-          ipAddress: log.ip_address || undefined,
-          userAgent: log.user_agent || undefined,
-          severity: this.mapBackendSeverityToFrontend(log.severity || 'LOW'),
-          metadata: log.metadata || undefined,
-          createdAt: log.created_at || new Date().toISOString(),
-        }));
-
       return {
         success: true,
-        data: transformedLogs,
+        data: decode(activityLogListSchema, data, 'activity log'),
         message: 'Activity logs retrieved successfully',
       };
     } catch (error) {
-      console.error('Failed to fetch activity logs:', error);
+      log.error('Failed to fetch activity logs', error);
       throw error;
     }
   }
 
-  private mapBackendActionToFrontend(backendAction: string): ActivityAction {
-    if (!backendAction || typeof backendAction !== 'string') {
-      return 'view'; // Default fallback action
-    }
-    
-    // Convert to uppercase for consistent mapping
-    const upperAction = backendAction.toUpperCase();
-    
-    const actionMapping: Record<string, ActivityAction> = {
-      // Document actions
-      'CREATE_DOCUMENT': 'create',
-      'UPLOAD_DOCUMENT': 'create',
-      'DOCUMENT_UPLOADED': 'create',
-      'UPDATE_DOCUMENT': 'update',
-      'MODIFY_DOCUMENT': 'update',
-      'EDIT_DOCUMENT': 'update',
-      'DELETE_DOCUMENT': 'delete',
-      'REMOVE_DOCUMENT': 'delete',
-      'VIEW_DOCUMENT': 'view',
-      'ACCESS_DOCUMENT': 'view',
-      'PREVIEW_DOCUMENT': 'preview',
-      'DOWNLOAD_DOCUMENT': 'download',
-      'SHARE_DOCUMENT': 'share',
-      'FLAG_DOCUMENT': 'flag',
-      'UNFLAG_DOCUMENT': 'flag',
-      'ARCHIVE_DOCUMENT': 'archive',
-      
-      // Auth actions
-      'LOGIN': 'login',
-      'LOGIN_SUCCESS': 'login',
-      'LOGOUT': 'logout',
-      
-      // User actions
-      'CREATE_USER': 'create',
-      'UPDATE_USER': 'update',
-      'DELETE_USER': 'delete',
-      'APPROVE_USER': 'approve',
-      'REJECT_USER': 'reject',
-    };
-
-    return actionMapping[upperAction] || 'view';
-  }
-
-  private mapBackendSeverityToFrontend(backendSeverity: string): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
-    if (!backendSeverity || typeof backendSeverity !== 'string') {
-      return 'LOW'; // Default fallback severity
-    }
-    
-    // Convert to uppercase for consistent mapping
-    const upperSeverity = backendSeverity.toUpperCase();
-    
-    const severityMapping: Record<string, 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'> = {
-      'INFO': 'LOW',
-      'WARNING': 'MEDIUM',
-      'ERROR': 'HIGH',
-      'CRITICAL': 'CRITICAL',
-      'LOW': 'LOW',
-      'MEDIUM': 'MEDIUM',
-      'HIGH': 'HIGH',
+  private activityQuery(filters: ActivityLogFilters): QueryParams {
+    const severities = { low: ['LOW'], medium: ['MEDIUM'], high: ['HIGH', 'CRITICAL'] } as const;
+    return {
+      search: filters.query,
+      action__in: filters.action ? backendActionsFor(filters.action).join(',') : undefined,
+      user: filters.userId,
+      severity__in: filters.severity ? backendSeveritiesFor([...severities[filters.severity]]).join(',') : undefined,
+      created_after: filters.days ? new Date(Date.now() - filters.days * 24 * 60 * 60 * 1000).toISOString() : undefined,
     };
-
-    return severityMapping[upperSeverity] || 'LOW';
   }
 
-  // System Settings Methods
-  async getBasicPublicSettings(): Promise<ApiResponse<any>> {
-    try {
-      const response = await fetch(`${config.api.baseUrl}/settings/public/basic/`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+  async getActivityLogsPage(
+    filters: ActivityLogFilters = {},
+    params?: PaginationParams,
+    { signal }: RequestOptions = {}
+  ): Promise<ApiResponse<PaginatedResponse<ActivityLog>>> {
+    this.requireRole('admin');
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
+    const page = await this.getPage(API_ENDPOINTS.AUDIT.LOGS, activityLogListSchema, 'activity logs', this.activityQuery(filters), params, signal);
 
-      const data = await response.json();
-      return {
-        success: true,
-        data: data.data,
-        message: 'Basic public settings retrieved successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to fetch basic public settings', 500);
-    }
+    return {
+      success: true,
+      data: page,
+      message: 'Activity logs retrieved successfully',
+    };
   }
 
-  async getPublicSettings(): Promise<ApiResponse<any>> {
-    try {
-      const response = await fetch(`${config.api.baseUrl}/settings/public/`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+  // Every page matching the filters, for exports; follows the server's page links to the end
+  async getAllActivityLogs(filters: ActivityLogFilters = {}, { signal }: RequestOptions = {}): Promise<ApiResponse<ActivityLog[]>> {
+    const logs: ActivityLog[] = [];
+    let params: PaginationParams = { page: 1, pageSize: 100 };
+    for (;;) {
+      const { data: page } = await this.getActivityLogsPage(filters, params, { signal });
+      logs.push(...page.results);
+      if (!page.next) break;
+      params = { cursor: page.next };
+    }
 
-      if (!response.ok) {
-        throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
-      }
+    return {
+      success: true,
+      data: logs,
+      message: 'Activity logs retrieved successfully',
+    };
+  }
 
-      const data = await response.json();
-      return {
-        success: true,
-        data: data.data,
-        message: 'Public settings retrieved successfully',
-      };
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
-      throw new ApiError('Failed to fetch public settings', 500);
-    }
+  // System Settings Methods
+  async getBasicPublicSettings({ signal }: RequestOptions = {}): Promise<ApiResponse<BasicPublicSettings>> {
+    const responseData = await this.http.get(API_ENDPOINTS.SETTINGS.PUBLIC_BASIC, {
+      auth: false,
+      signal,
+      errorMessage: 'Failed to fetch basic public settings',
+    });
+
+    return {
+      success: true,
+      data: decode(settingsEnvelope(basicPublicSettingsSchema), responseData, 'basic public settings').data,
+      message: 'Basic public settings retrieved successfully',
+    };
   }
-}
 
-// Custom Error class
-export class ApiError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public errors?: Record<string, string[]>
-  ) {
-    super(message);
-    this.name = 'ApiError';
+  async getPublicSettings({ signal }: RequestOptions = {}): Promise<ApiResponse<PublicSettings>> {
+    const responseData = await this.http.get(API_ENDPOINTS.SETTINGS.PUBLIC, {
+      auth: false,
+      signal,
+      errorMessage: 'Failed to fetch public settings',
+    });
+
+    return {
+      success: true,
+      data: decode(settingsEnvelope(publicSettingsSchema), responseData, 'public settings').data,
+      message: 'Public settings retrieved successfully',
+    };
   }
 }
 
+export {
+  ApiError,
+  AuthenticationError,
+  ConflictError,
+  NetworkError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from './errors';
+
 // Export singleton instance
 export const apiClient = ApiClient.getInstance();
 export default apiClient;
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { config } from "../lib/config";
+import type { AuthEvent } from "./authChannel";
+
+// Delivers to every other open channel of the same name, as browsers do between tabs
+class FakeBroadcastChannel {
+  static open = new Set<FakeBroadcastChannel>();
+  onmessage: ((message: MessageEvent) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.open.add(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.open.forEach(other => {
+      if (other !== this && other.name === this.name) other.onmessage?.({ data } as MessageEvent);
+    });
+  }
+
+  close() {
+    FakeBroadcastChannel.open.delete(this);
+  }
+}
+
+// Each tab loads its own copy of the modules; localStorage is shared between them
+const openTab = async () => {
+  vi.resetModules();
+  return {
+    channel: await import("./authChannel"),
+    api: (await import("./api")).apiClient,
+  };
+};
+
+describe("auth channel", () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    vi.stubGlobal("window", Object.assign(new EventTarget(), { location: { pathname: "/teacher/documents" } }));
+    vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+    vi.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    FakeBroadcastChannel.open.clear();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("should deliver every auth event to the other tabs but not back to the sender", async () => {
+    const first = await openTab();
+    const second = await openTab();
+    const sent: AuthEvent[] = [];
+    const received: AuthEvent[] = [];
+    first.channel.subscribeAuthEvents(event => sent.push(event));
+    second.channel.subscribeAuthEvents(event => received.push(event));
+
+    const events: AuthEvent[] = [
+      { type: "login" },
+      { type: "activity", at: 1000 },
+      { type: "session-extended", at: 2000 },
+      { type: "session-expired" },
+      { type: "logout" },
+    ];
+    events.forEach(first.channel.publishAuthEvent);
+
+    expect(received).toEqual(events);
+    expect(sent).toEqual([]);
+  });
+
+  it("should record activity where every tab can read it, never moving it back", async () => {
+    const first = await openTab();
+    const second = await openTab();
+
+    first.channel.publishAuthEvent({ type: "session-extended", at: 2000 });
+    first.channel.publishAuthEvent({ type: "activity", at: 1000 });
+    expect(second.channel.getLastActivity()).toBe(2000);
+
+    second.channel.clearActivity();
+    expect(first.channel.getLastActivity()).toBe(0);
+  });
+
+  it("should close the channel once the last handler unsubscribes", async () => {
+    const { channel } = await openTab();
+    const unsubscribe = [channel.subscribeAuthEvents(() => {}), channel.subscribeAuthEvents(() => {})];
+    expect(FakeBroadcastChannel.open.size).toBe(1);
+
+    unsubscribe[0]();
+    expect(FakeBroadcastChannel.open.size).toBe(1);
+    unsubscribe[1]();
+    expect(FakeBroadcastChannel.open.size).toBe(0);
+  });
+
+  it("should tell the other tabs about a logout before calling the backend", async () => {
+    storage.set(config.auth.tokenKey, "access");
+    storage.set(config.auth.refreshTokenKey, "refresh");
+    storage.set(config.auth.userKey, JSON.stringify({ id: "12" }));
+    const first = await openTab();
+    const second = await openTab();
+    const order: string[] = [];
+    second.channel.subscribeAuthEvents(event => order.push(event.type));
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      order.push("request");
+      return new Response(null, { status: 205 });
+    }));
+    second.channel.recordActivity(1000);
+
+    await first.api.logout();
+
+    expect(order).toEqual(["logout", "request"]);
+    // The session lives in shared storage, so the other tab is signed out as well
+    expect(storage.has(config.auth.tokenKey)).toBe(false);
+    expect(storage.has(config.auth.refreshTokenKey)).toBe(false);
+    expect(storage.has(config.auth.userKey)).toBe(false);
+    expect(second.channel.getLastActivity()).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Cross-tab auth coordination
+ * Tabs share tokens through localStorage; this channel tells them when the
+ * session starts, ends or is kept alive so they all act on it together
+ */
+
+import { config } from '../lib/config';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('auth');
+
+export type AuthEvent =
+  | { type: 'login' }
+  | { type: 'logout' }
+  | { type: 'session-expired' }
+  | { type: 'token-refreshed' }
+  | { type: 'activity'; at: number }
+  | { type: 'session-extended'; at: number };
+
+type AuthEventHandler = (event: AuthEvent) => void;
+
+// Browsers without BroadcastChannel fall back to storage events on this key
+const FALLBACK_KEY = `${config.auth.syncChannel}:event`;
+
+let channel: BroadcastChannel | null = null;
+const handlers = new Set<AuthEventHandler>();
+
+const dispatch = (event: AuthEvent) => {
+  handlers.forEach(handler => handler(event));
+};
+
+const handleStorage = (event: StorageEvent) => {
+  if (event.key !== FALLBACK_KEY || !event.newValue) return;
+  try {
+    dispatch(JSON.parse(event.newValue).event as AuthEvent);
+  } catch (error) {
+    log.warn('Ignoring malformed auth event', error);
+  }
+};
+
+const connect = () => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(config.auth.syncChannel);
+    channel.onmessage = (message: MessageEvent<AuthEvent>) => dispatch(message.data);
+  } else {
+    window.addEventListener('storage', handleStorage);
+  }
+};
+
+const disconnect = () => {
+  channel?.close();
+  channel = null;
+  window.removeEventListener('storage', handleStorage);
+};
+
+/**
+ * Tell the other tabs about an auth event. The sending tab is not notified.
+ */
+export const publishAuthEvent = (event: AuthEvent): void => {
+  if (event.type === 'activity' || event.type === 'session-extended') {
+    recordActivity(event.at);
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const sender = channel ?? new BroadcastChannel(config.auth.syncChannel);
+    sender.postMessage(event);
+    if (sender !== channel) sender.close();
+    return;
+  }
+
+  // A nonce makes repeated events change the value so the storage event fires
+  localStorage.setItem(FALLBACK_KEY, JSON.stringify({ event, nonce: Math.random() }));
+};
+
+/**
+ * Listen for auth events from other tabs
+ */
+export const subscribeAuthEvents = (handler: AuthEventHandler): (() => void) => {
+  if (handlers.size === 0) connect();
+  handlers.add(handler);
+
+  return () => {
+    handlers.delete(handler);
+    if (handlers.size === 0) disconnect();
+  };
+};
+
+// The most recent activity in any tab; a tab that missed a message still sees it here
+export const getLastActivity = (): number =>
+  Number(localStorage.getItem(config.auth.lastActivityKey)) || 0;
+
+export const recordActivity = (at: number): void => {
+  if (at > getLastActivity()) {
+    localStorage.setItem(config.auth.lastActivityKey, String(at));
+  }
+};
+
+export const clearActivity = (): void => {
+  localStorage.removeItem(config.auth.lastActivityKey);
+};
@@ -0,0 +1,80 @@
+/**
+ * Connectivity state
+ * Offline comes from the browser; reconnecting means requests are waiting to
+ * be retried after the connection dropped. The HTTP client reports retries
+ * here and the layout shows the result.
+ */
+
+export type Connectivity = 'online' | 'offline' | 'reconnecting';
+
+const listeners = new Set<() => void>();
+let reconnectingRequests = 0;
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Browsers that cannot tell are assumed to be online
+export const isOffline = (): boolean =>
+  typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export const getConnectivity = (): Connectivity => {
+  if (isOffline()) return 'offline';
+  return reconnectingRequests > 0 ? 'reconnecting' : 'online';
+};
+
+export const subscribeConnectivity = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+/**
+ * Count a request as reconnecting until the returned function is called
+ */
+export const markReconnecting = (): (() => void) => {
+  reconnectingRequests += 1;
+  notify();
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    reconnectingRequests -= 1;
+    notify();
+  };
+};
+
+/**
+ * Resolve as soon as the browser reports a connection
+ */
+export const waitUntilOnline = (signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('The request was aborted', 'AbortError'));
+      return;
+    }
+    if (!isOffline()) {
+      resolve();
+      return;
+    }
+
+    const cleanup = () => {
+      window.removeEventListener('online', onOnline);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onOnline = () => {
+      cleanup();
+      resolve();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal?.reason ?? new DOMException('The request was aborted', 'AbortError'));
+    };
+
+    window.addEventListener('online', onOnline);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import { decode, documentSchema, categorySchema } from "./decoders";
+import { ResponseContractError } from "./errors";
+
+const rawDocument = {
+  id: 12,
+  title: "Term 1 Scheme of Work",
+  description: null,
+  file: "/media/documents/scheme.pdf",
+  file_name: "scheme.pdf",
+  file_size: 2048,
+  file_type: "pdf",
+  category: 3,
+  category_name: "Schemes of Work",
+  teacher: 7,
+  teacher_name: "Amina Wanjiru",
+  class_level: "Grade 4",
+  subject: null,
+  is_shared: false,
+  shared_at: null,
+  download_count: 5,
+  status: "active",
+  created_at: "2024-01-10T08:00:00Z",
+  updated_at: "2024-01-10T08:00:00Z",
+};
+
+describe("response decoders", () => {
+  it("should convert documents into the client shape", () => {
+    const document = decode(documentSchema, rawDocument, "document");
+
+    expect(document.id).toBe("12");
+    expect(document.fileName).toBe("scheme.pdf");
+    expect(document.category).toEqual({ id: "3", name: "Schemes of Work" });
+    expect(document.teacher).toEqual({ id: "7", name: "Amina Wanjiru" });
+    expect(document.description).toBeUndefined();
+    expect(document.shared_with_emails).toEqual([]);
+  });
+
+  it("should report every field that violates the contract", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const payload = [{ ...rawDocument, status: "deleted", file_size: "2KB" }];
+
+    try {
+      decode(z.array(documentSchema), payload, "document list");
+      expect.fail("decode should throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ResponseContractError);
+      const contractError = error as ResponseContractError;
+      expect(contractError.status).toBe(502);
+      expect(Object.keys(contractError.errors ?? {})).toEqual(["[0].file_size", "[0].status"]);
+    }
+  });
+
+  it("should fill in counts the backend leaves out", () => {
+    const category = decode(categorySchema, {
+      id: 1,
+      name: "Lesson Plans",
+      requires_class_subject: true,
+      is_active: true,
+      created_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    }, "category");
+
+    expect(category).toMatchObject({ id: "1", description: "", documentsCount: 0 });
+  });
+});
@@ -0,0 +1,796 @@
+/**
+ * Response decoders
+ * Zod schemas that validate Django payloads and convert them into the client
+ * types, then check the result against the shared contracts in @shared/api
+ */
+
+import { z } from 'zod';
+import * as contracts from '@shared/api';
+import { DEFAULT_PASSWORD_POLICY } from '@shared/passwordPolicy';
+import { config } from '../lib/config';
+import { toCamelCaseKey } from '../lib/caseConversion';
+import { createLogger } from '../lib/logger';
+import { ResponseContractError } from './errors';
+import {
+  ActiveSession,
+  ActivityAction,
+  ActivityLog,
+  BasicPublicSettings,
+  Document,
+  DocumentCategory,
+  DocumentShare,
+  FeatureFlag,
+  FeatureFlagRules,
+  Invitation,
+  InvitationBatch,
+  InvitationPreview,
+  PaginatedResponse,
+  Passkey,
+  PasswordPolicy,
+  PasswordResetResponse,
+  ProfileResponse,
+  PublicSettings,
+  RecoveryCodeStatus,
+  RecoveryCodes,
+  SecuritySettings,
+  SystemSettings,
+  Teacher,
+  TotpSetup,
+  UploadSession,
+  User,
+  UserPreferences,
+} from './types';
+
+const log = createLogger('api');
+
+// Shared primitives
+
+// Django serializes primary keys as numbers and UUIDs as strings
+const id = z.union([z.string(), z.number()]).transform(String);
+
+// Optional backend fields arrive as null, missing or a value
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+
+// Checks decoded output against its shared contract, typed as the contract's declared fields
+const conformsTo = <T extends z.ZodTypeAny>(contract: T) =>
+  contract as unknown as z.ZodType<contracts.Infer<T>, z.ZodTypeDef, unknown>;
+
+// Flags arrive by snake_case name; flags this client does not know are left out
+const knownFlags = <T>(raw: Record<string, T>): Partial<Record<FeatureFlag, T>> =>
+  Object.fromEntries(Object.entries(raw)
+    .map(([name, value]) => [toCamelCaseKey(name), value] as const)
+    .filter(([name]) => contracts.featureFlagSchema.safeParse(name).success));
+
+const resolveMediaUrl = (path: string) =>
+  `${config.api.baseUrl.replace('/api', '')}${path}?t=${Date.now()}`;
+
+/**
+ * Validate a payload against a schema, throwing a ResponseContractError
+ * that lists every field which did not match
+ */
+export const decode = <S extends z.ZodTypeAny>(schema: S, data: unknown, resource: string): z.output<S> => {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const errors: Record<string, string[]> = {};
+  result.error.issues.forEach(issue => {
+    const path = issue.path.reduce<string>((acc, segment) =>
+      typeof segment === 'number' ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment, '') || '(root)';
+    (errors[path] ??= []).push(issue.message);
+  });
+
+  log.error(`${resource} response does not match the expected contract`, errors);
+  throw new ResponseContractError(resource, errors);
+};
+
+// DRF page number pagination wraps list results with the total and page links
+export const paginatedSchema = <S extends z.ZodTypeAny>(list: S) => z.object({
+  count: z.number(),
+  next: optional(z.string()),
+  previous: optional(z.string()),
+  results: list,
+}).transform(raw => raw as PaginatedResponse<z.output<S>[number]>);
+
+// Users
+
+export const userSchema = z.object({
+  id,
+  email: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  role: contracts.userRoleSchema,
+  username: optional(z.string()),
+  is_active: z.boolean().default(true),
+  date_joined: optional(z.string()),
+  last_login: optional(z.string()),
+  profile_picture: optional(z.string()),
+  phone_number: optional(z.string()),
+  bio: optional(z.string()),
+  teacher_profile_id: optional(z.number()),
+  password_expired: optional(z.boolean()),
+  feature_flags: optional(z.record(z.boolean())),
+}).transform((raw): User => ({
+  id: raw.id,
+  email: raw.email,
+  firstName: raw.first_name,
+  lastName: raw.last_name,
+  role: raw.role,
+  username: raw.username,
+  isActive: raw.is_active,
+  dateJoined: raw.date_joined ?? new Date().toISOString(),
+  lastLogin: raw.last_login,
+  profilePicture: raw.profile_picture,
+  phoneNumber: raw.phone_number,
+  bio: raw.bio,
+  teacherProfileId: raw.teacher_profile_id,
+  passwordExpired: raw.password_expired,
+  featureFlags: raw.feature_flags && knownFlags(raw.feature_flags),
+})).pipe(conformsTo(contracts.userSchema));
+
+// The signed-in user's own record serves the picture as a relative media path
+export const accountUserSchema = userSchema.transform((user): User => ({
+  ...user,
+  profilePicture: user.profilePicture ? resolveMediaUrl(user.profilePicture) : undefined,
+}));
+
+export const preferencesSchema = z.object({
+  id,
+  two_factor_enabled: z.boolean(),
+  session_timeout_override: optional(z.number()),
+  email_notifications: z.boolean(),
+  document_shared_notifications: z.boolean(),
+  system_notifications: z.boolean(),
+  security_notifications: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  is_2fa_user_controllable: z.boolean(),
+  effective_2fa_setting: z.boolean(),
+  effective_session_timeout: z.number(),
+  max_allowed_session_timeout: z.number(),
+  totp_enabled: optional(z.boolean()),
+  totp_required: optional(z.boolean()),
+  passkey_required: optional(z.boolean()),
+}).transform(raw => raw as UserPreferences);
+
+export const fullProfileSchema = z.object({
+  user: accountUserSchema,
+  preferences: preferencesSchema,
+}).transform((raw): ProfileResponse => ({
+  user: raw.user,
+  preferences: raw.preferences,
+}));
+
+// Older backends return the bare user without preferences
+export const profileSchema = z.union([
+  fullProfileSchema,
+  accountUserSchema.transform(user => ({ user, preferences: undefined })),
+]);
+
+// Authentication
+
+export const sessionSchema = z.object({
+  access: z.string(),
+  refresh: z.string(),
+  user: accountUserSchema,
+  message: optional(z.string()),
+});
+
+// Login with 2FA enabled returns the user's details flattened next to the challenge.
+// Backends without authenticator apps leave out methods and always email a code.
+export const otpChallengeSchema = z.object({
+  requires_otp: z.literal(true),
+  methods: optional(z.array(contracts.twoFactorMethodSchema).min(1)),
+  user_id: id,
+  email: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  role: contracts.userRoleSchema,
+  username: optional(z.string()),
+  date_joined: optional(z.string()),
+  profile_picture: optional(z.string()),
+  phone_number: optional(z.string()),
+  bio: optional(z.string()),
+  message: optional(z.string()),
+}).transform(raw => ({
+  user: {
+    id: raw.user_id,
+    email: raw.email,
+    firstName: raw.first_name,
+    lastName: raw.last_name,
+    role: raw.role,
+    username: raw.username,
+    isActive: true,
+    dateJoined: raw.date_joined ?? new Date().toISOString(),
+    profilePicture: raw.profile_picture ? resolveMediaUrl(raw.profile_picture) : undefined,
+    phoneNumber: raw.phone_number,
+    bio: raw.bio,
+  } satisfies User,
+  methods: raw.methods ?? ['email' as const],
+  message: raw.message,
+}));
+
+export const recoveryCodeStatusSchema = z.object({
+  remaining: z.number(),
+  generated_at: optional(z.string()),
+}).transform((raw): RecoveryCodeStatus => ({
+  remaining: raw.remaining,
+  generatedAt: raw.generated_at,
+}));
+
+export const recoveryCodesSchema = z.object({
+  codes: z.array(z.string()).min(1),
+  generated_at: z.string(),
+}).transform((raw): RecoveryCodes => ({
+  codes: raw.codes,
+  generatedAt: raw.generated_at,
+}));
+
+export const passkeySchema = z.object({
+  id,
+  name: z.string(),
+  created_at: z.string(),
+  last_used_at: optional(z.string()),
+}).transform((raw): Passkey => ({
+  id: raw.id,
+  name: raw.name,
+  createdAt: raw.created_at,
+  lastUsedAt: raw.last_used_at,
+})).pipe(conformsTo(contracts.passkeySchema));
+
+export const activeSessionSchema = z.object({
+  id,
+  ip_address: optional(z.string()),
+  user_agent: optional(z.string()),
+  location: optional(z.string()),
+  created_at: z.string(),
+  last_activity_at: z.string(),
+  is_current: optional(z.boolean()),
+}).transform((raw): ActiveSession => ({
+  id: raw.id,
+  ipAddress: raw.ip_address,
+  userAgent: raw.user_agent,
+  location: raw.location,
+  createdAt: raw.created_at,
+  lastActivityAt: raw.last_activity_at,
+  isCurrent: raw.is_current ?? false,
+})).pipe(conformsTo(contracts.activeSessionSchema));
+
+// Sign-outs answer with how many sessions ended
+export const revokedSessionsSchema = z.object({
+  revoked: z.number(),
+});
+
+export const invitationSchema = z.object({
+  id,
+  email: z.string(),
+  status: contracts.invitationStatusSchema,
+  invited_by: optional(z.string()),
+  created_at: z.string(),
+  expires_at: z.string(),
+  accepted_at: optional(z.string()),
+}).transform((raw): Invitation => ({
+  id: raw.id,
+  email: raw.email,
+  status: raw.status,
+  invitedBy: raw.invited_by,
+  createdAt: raw.created_at,
+  expiresAt: raw.expires_at,
+  acceptedAt: raw.accepted_at,
+})).pipe(conformsTo(contracts.invitationSchema));
+
+// Bulk invites answer with the new invitations and the addresses left out
+export const invitationBatchSchema = z.object({
+  invitations: z.array(invitationSchema),
+  skipped: z.array(z.object({ email: z.string(), reason: z.string() })).default([]),
+}).transform((raw): InvitationBatch => ({
+  invitations: raw.invitations,
+  skipped: raw.skipped.map(({ email, reason }) => ({ email, reason })),
+})).pipe(conformsTo(contracts.invitationBatchSchema));
+
+export const invitationPreviewSchema = z.object({
+  email: z.string(),
+  expires_at: z.string(),
+}).transform((raw): InvitationPreview => ({
+  email: raw.email,
+  expiresAt: raw.expires_at,
+})).pipe(conformsTo(contracts.invitationPreviewSchema));
+
+// Ceremony options are WebAuthn JSON already and go to the browser unchanged
+export const passkeyCreationOptionsSchema = z.object({
+  challenge: z.string(),
+  rp: z.object({ name: z.string() }).passthrough(),
+  user: z.object({ id: z.string(), name: z.string(), displayName: z.string() }),
+  pubKeyCredParams: z.array(z.object({ type: z.literal('public-key'), alg: z.number() })).min(1),
+}).passthrough().transform(raw => raw as PublicKeyCredentialCreationOptionsJSON);
+
+export const passkeyRequestOptionsSchema = z.object({
+  challenge: z.string(),
+}).passthrough().transform(raw => raw as PublicKeyCredentialRequestOptionsJSON);
+
+export const totpSetupSchema = z.object({
+  secret: z.string(),
+  otpauth_url: z.string(),
+  qr_code: optional(z.string()),
+}).transform((raw): TotpSetup => ({
+  secret: raw.secret,
+  otpauthUrl: raw.otpauth_url,
+  qrCode: raw.qr_code,
+}));
+
+export const passwordResetSchema = z.object({
+  user_id: id,
+  message: z.string(),
+}).transform((raw): PasswordResetResponse => ({
+  user_id: raw.user_id,
+  message: raw.message,
+}));
+
+export const messageSchema = z.object({
+  message: optional(z.string()),
+});
+
+// Teachers
+
+export const teacherSchema = z.object({
+  id,
+  user: userSchema,
+  status: contracts.teacherStatusSchema,
+  approved_by: optional(id),
+  approved_at: optional(z.string()),
+  rejected_by: optional(id),
+  rejected_at: optional(z.string()),
+  rejection_reason: optional(z.string()),
+  documents_count: optional(z.number()),
+  shared_documents_count: optional(z.number()),
+  total_downloads: optional(z.number()),
+  locked_until: optional(z.string()),
+  created_at: z.string(),
+  updated_at: z.string(),
+}).transform((raw): Teacher => ({
+  id: raw.id,
+  user: raw.user,
+  phoneNumber: raw.user.phoneNumber,
+  bio: raw.user.bio,
+  status: raw.status,
+  approvedBy: raw.approved_by,
+  approvedAt: raw.approved_at,
+  rejectedBy: raw.rejected_by,
+  rejectedAt: raw.rejected_at,
+  rejectionReason: raw.rejection_reason,
+  documentsCount: raw.documents_count ?? 0,
+  sharedDocumentsCount: raw.shared_documents_count ?? 0,
+  totalDownloads: raw.total_downloads ?? 0,
+  lockedUntil: raw.locked_until,
+  createdAt: raw.created_at,
+  updatedAt: raw.updated_at,
+})).pipe(conformsTo(contracts.teacherSchema));
+
+// Approve, reject and suspend wrap the teacher with a status message
+export const teacherActionSchema = z.object({
+  teacher: teacherSchema,
+  message: optional(z.string()),
+});
+
+// Categories
+
+export const categorySchema = z.object({
+  id,
+  name: z.string(),
+  description: optional(z.string()),
+  requires_class_subject: z.boolean(),
+  is_active: z.boolean(),
+  documents_count: optional(z.number()),
+  created_at: z.string(),
+  updated_at: z.string(),
+}).transform((raw): DocumentCategory => ({
+  id: raw.id,
+  name: raw.name,
+  description: raw.description ?? '',
+  requiresClassSubject: raw.requires_class_subject,
+  isActive: raw.is_active,
+  documentsCount: raw.documents_count ?? 0,
+  createdAt: raw.created_at,
+  updatedAt: raw.updated_at,
+})).pipe(conformsTo(contracts.documentCategorySchema));
+
+export const categoryToggleSchema = z.object({
+  is_active: z.boolean(),
+});
+
+// Documents
+
+const documentFields = {
+  id,
+  title: z.string(),
+  description: optional(z.string()),
+  file: optional(z.string()),
+  file_name: z.string(),
+  file_size: z.number(),
+  file_type: z.string(),
+  teacher: id,
+  teacher_name: optional(z.string()),
+  class_level: optional(z.string()),
+  subject: optional(z.string()),
+  is_shared: z.boolean().default(false),
+  shared_at: optional(z.string()),
+  download_count: z.number(),
+  status: contracts.documentStatusSchema,
+  shared_with_users: optional(z.array(id)),
+  public_share_url: optional(z.string()),
+  shared_with_emails: optional(z.array(z.object({
+    email: z.string(),
+    name: z.string(),
+    shared_at: z.string(),
+  }).transform((raw): Document['shared_with_emails'][number] => ({
+    email: raw.email,
+    name: raw.name,
+    shared_at: raw.shared_at,
+  })))),
+  created_at: z.string(),
+  updated_at: z.string(),
+};
+
+type RawDocument = z.output<z.ZodObject<typeof documentFields>>;
+
+const toDocument = (raw: RawDocument, category: Document['category']): Document => ({
+  id: raw.id,
+  title: raw.title,
+  description: raw.description,
+  fileName: raw.file_name,
+  fileSize: raw.file_size,
+  fileType: raw.file_type,
+  filePath: raw.file ?? '',
+  category,
+  teacher: {
+    id: raw.teacher,
+    name: raw.teacher_name ?? '',
+  },
+  classLevel: raw.class_level,
+  subject: raw.subject,
+  isShared: raw.is_shared,
+  sharedAt: raw.shared_at,
+  downloadCount: raw.download_count,
+  status: raw.status,
+  sharedWith: raw.shared_with_users ?? [],
+  tags: [],
+  createdAt: raw.created_at,
+  updatedAt: raw.updated_at,
+  public_share_url: raw.public_share_url,
+  shared_with_emails: raw.shared_with_emails ?? [],
+});
+
+export const documentSchema = z.object({
+  ...documentFields,
+  category: optional(id),
+  category_name: optional(z.string()),
+}).transform(raw => toDocument(raw, raw.category
+  ? { id: raw.category, name: raw.category_name ?? '' }
+  : null)).pipe(conformsTo(contracts.documentSchema));
+
+// The public view nests the category instead of sending its id and name
+export const publicDocumentSchema = z.object({
+  ...documentFields,
+  category: optional(z.object({ id, name: z.string() })),
+}).transform(raw => toDocument(raw, raw.category
+  ? { id: raw.category.id, name: raw.category.name }
+  : null)).pipe(conformsTo(contracts.documentSchema));
+
+export const documentStatusChangeSchema = z.object({
+  message: z.string(),
+  document_status: z.string(),
+}).transform((raw): { message: string; document_status: string } => ({
+  message: raw.message,
+  document_status: raw.document_status,
+}));
+
+export const uploadSessionSchema = z.object({
+  upload_id: id,
+  chunk_size: z.number(),
+  total_chunks: z.number(),
+  received_chunks: z.array(z.number()).default([]),
+  expires_at: optional(z.string()),
+}).transform((raw): UploadSession => ({
+  uploadId: raw.upload_id,
+  chunkSize: raw.chunk_size,
+  totalChunks: raw.total_chunks,
+  receivedChunks: raw.received_chunks,
+  expiresAt: raw.expires_at,
+}));
+
+// Shares
+
+export const documentShareSchema = z.object({
+  id,
+  document: id,
+  shared_by: z.number(),
+  shared_with: optional(z.number()),
+  share_type: contracts.shareTypeSchema,
+  share_token: optional(z.string()),
+  can_download: z.boolean(),
+  can_view: z.boolean(),
+  is_active: z.boolean(),
+  expires_at: optional(z.string()),
+  shared_at: z.string(),
+  public_url: optional(z.string()),
+  shared_by_name: optional(z.string()),
+  shared_with_name: optional(z.string()),
+  document_title: optional(z.string()),
+  document_file_name: optional(z.string()),
+  document_file_type: optional(z.string()),
+  document_file_size: optional(z.number()),
+  document_file_size_mb: optional(z.number()),
+  document_download_count: optional(z.number()),
+  document_category_id: optional(id),
+  document_category_name: optional(z.string()),
+  document_description: optional(z.string()),
+  document_class_level: optional(z.string()),
+  document_subject: optional(z.string()),
+  document_status: optional(z.string()),
+  document_created_at: optional(z.string()),
+  is_expired: optional(z.boolean()),
+}).transform(raw => ({
+  ...raw,
+  share_token: raw.share_token ?? '',
+}) as DocumentShare).pipe(conformsTo(contracts.documentShareSchema));
+
+export const unshareSchema = z.object({
+  message: z.string(),
+  shares_revoked: z.number(),
+}).transform((raw): { message: string; shares_revoked: number } => ({
+  message: raw.message,
+  shares_revoked: raw.shares_revoked,
+}));
+
+// Activity logs
+
+const BACKEND_ACTIONS: Record<string, ActivityAction> = {
+  // Document actions
+  'CREATE_DOCUMENT': 'create',
+  'UPLOAD_DOCUMENT': 'create',
+  'DOCUMENT_UPLOADED': 'create',
+  'UPDATE_DOCUMENT': 'update',
+  'MODIFY_DOCUMENT': 'update',
+  'EDIT_DOCUMENT': 'update',
+  'DELETE_DOCUMENT': 'delete',
+  'REMOVE_DOCUMENT': 'delete',
+  'VIEW_DOCUMENT': 'view',
+  'ACCESS_DOCUMENT': 'view',
+  'PREVIEW_DOCUMENT': 'preview',
+  'DOWNLOAD_DOCUMENT': 'download',
+  'SHARE_DOCUMENT': 'share',
+  'FLAG_DOCUMENT': 'flag',
+  'UNFLAG_DOCUMENT': 'flag',
+  'ARCHIVE_DOCUMENT': 'archive',
+
+  // Auth actions
+  'LOGIN': 'login',
+  'LOGIN_SUCCESS': 'login',
+  'LOGOUT': 'logout',
+  'RECOVERY_CODE_USED': 'login',
+  'GENERATE_RECOVERY_CODES': 'update',
+  'REVOKE_SESSION': 'logout',
+  'ACCOUNT_LOCKED': 'login',
+
+  // User actions
+  'CREATE_USER': 'create',
+  'UPDATE_USER': 'update',
+  'DELETE_USER': 'delete',
+  'APPROVE_USER': 'approve',
+  'REJECT_USER': 'reject',
+  'UNLOCK_ACCOUNT': 'update',
+  'INVITE_USER': 'create',
+  'REVOKE_INVITATION': 'delete',
+  'ACCEPT_INVITATION': 'create',
+};
+
+const BACKEND_SEVERITIES: Record<string, ActivityLog['severity']> = {
+  'INFO': 'LOW',
+  'WARNING': 'MEDIUM',
+  'ERROR': 'HIGH',
+  'CRITICAL': 'CRITICAL',
+  'LOW': 'LOW',
+  'MEDIUM': 'MEDIUM',
+  'HIGH': 'HIGH',
+};
+
+const mapBackendActionToFrontend = (backendAction: string): ActivityAction => {
+  if (!backendAction || typeof backendAction !== 'string') {
+    return 'view'; // Default fallback action
+  }
+
+  // Convert to uppercase for consistent mapping
+  return BACKEND_ACTIONS[backendAction.toUpperCase()] || 'view';
+};
+
+const mapBackendSeverityToFrontend = (backendSeverity: string): ActivityLog['severity'] => {
+  if (!backendSeverity || typeof backendSeverity !== 'string') {
+    return 'LOW'; // Default fallback severity
+  }
+
+  return BACKEND_SEVERITIES[backendSeverity.toUpperCase()] || 'LOW';
+};
+
+// The backend names behind client actions and severities, so the server can filter on them
+export const backendActionsFor = (action: ActivityAction): string[] =>
+  Object.keys(BACKEND_ACTIONS).filter(name => BACKEND_ACTIONS[name] === action);
+
+export const backendSeveritiesFor = (severities: ActivityLog['severity'][]): string[] =>
+  Object.keys(BACKEND_SEVERITIES).filter(name => severities.includes(BACKEND_SEVERITIES[name]));
+
+export const activityLogSchema = z.object({
+  id,
+  user_id: id,
+  user_email: optional(z.string()),
+  user_name: optional(z.string()),
+  user_role: optional(contracts.userRoleSchema),
+  action: optional(z.string()),
+  target_type: optional(z.string()),
+  target_id: optional(id),
+  target_name: optional(z.string()),
+  description: optional(z.string()),
+  ip_address: optional(z.string()),
+  user_agent: optional(z.string()),
+  severity: optional(z.string()),
+  metadata: optional(z.record(z.any())),
+  created_at: optional(z.string()),
+}).transform((raw): ActivityLog => ({
+  id: raw.id,
+  user: {
+    id: raw.user_id,
+    email: raw.user_email ?? '',
+    firstName: raw.user_name?.split(' ')[0] || 'Unknown',
+    lastName: raw.user_name?.split(' ').slice(1).join(' ') || '',
+    role: raw.user_role ?? 'teacher',
+    isActive: true,
+    dateJoined: raw.created_at ?? new Date().toISOString(),
+  },
+  action: mapBackendActionToFrontend(raw.action ?? ''),
+  targetType: raw.target_type,
+  targetId: raw.target_id,
+  targetName: raw.target_name,
+  description: raw.description ?? '',
+  ipAddress: raw.ip_address,
+  userAgent: raw.user_agent,
+  severity: mapBackendSeverityToFrontend(raw.severity ?? 'LOW'),
+  metadata: raw.metadata,
+  createdAt: raw.created_at ?? new Date().toISOString(),
+})).pipe(conformsTo(contracts.activityLogSchema));
+
+// System entries that are not tied to a user are left out of the activity feed
+export const activityLogListSchema = z.preprocess(
+  data => Array.isArray(data) ? data.filter(log => log && log.user_id && log.id) : data,
+  z.array(activityLogSchema)
+);
+
+// Dashboards and reports
+
+// Dashboards send camelCase activity entries ready to render; system entries without a user are left out
+const dashboardActivitySchema = z.preprocess(
+  data => Array.isArray(data) ? data.filter(entry => entry && entry.user) : data,
+  z.array(conformsTo(contracts.activityLogSchema))
+);
+
+export const dashboardStatsSchema = contracts.dashboardStatsSchema
+  .extend({ recentActivity: dashboardActivitySchema })
+  .pipe(conformsTo(contracts.dashboardStatsSchema));
+
+// Recent documents come from the document serializer, in snake_case like everywhere else
+export const teacherDashboardStatsSchema = contracts.teacherDashboardStatsSchema
+  .extend({ recentDocuments: z.array(documentSchema), recentActivity: dashboardActivitySchema })
+  .pipe(conformsTo(contracts.teacherDashboardStatsSchema));
+
+export const reportsDataSchema = conformsTo(contracts.reportsDataSchema);
+
+// Settings
+
+// Settings endpoints wrap their payload as { data, message }
+export const settingsEnvelope = <S extends z.ZodTypeAny>(schema: S) => z.object({
+  data: schema,
+  message: optional(z.string()),
+});
+
+export const systemSettingsSchema = z.object({
+  site_name: z.string(),
+  site_description: optional(z.string()),
+  max_file_size: z.number(),
+  allowed_file_types: z.array(z.string()),
+  session_timeout: z.number(),
+  maintenance_mode: z.boolean(),
+  registration_enabled: z.boolean(),
+  require_admin_approval: z.boolean(),
+}).transform((raw): SystemSettings => ({
+  siteName: raw.site_name,
+  siteDescription: raw.site_description ?? '',
+  maxFileSize: raw.max_file_size,
+  allowedFileTypes: raw.allowed_file_types,
+  sessionTimeout: raw.session_timeout,
+  maintenanceMode: raw.maintenance_mode,
+  registrationEnabled: raw.registration_enabled,
+  requireAdminApproval: raw.require_admin_approval,
+})).pipe(conformsTo(contracts.systemSettingsSchema));
+
+// Sent with the security settings and, for the sign-up and reset forms, the public settings
+export const passwordPolicySchema = z.object({
+  min_length: z.number(),
+  require_uppercase: z.boolean(),
+  require_lowercase: z.boolean(),
+  require_digit: z.boolean(),
+  require_symbol: z.boolean(),
+  disallow_personal_info: z.boolean(),
+  disallow_common_passwords: z.boolean(),
+  history_count: z.number(),
+  max_age_days: z.number(),
+}).transform((raw): PasswordPolicy => ({
+  minLength: raw.min_length,
+  requireUppercase: raw.require_uppercase,
+  requireLowercase: raw.require_lowercase,
+  requireDigit: raw.require_digit,
+  requireSymbol: raw.require_symbol,
+  disallowPersonalInfo: raw.disallow_personal_info,
+  disallowCommonPasswords: raw.disallow_common_passwords,
+  historyCount: raw.history_count,
+  maxAgeDays: raw.max_age_days,
+})).pipe(conformsTo(contracts.passwordPolicySchema));
+
+export const securitySettingsSchema = z.object({
+  two_factor_required: z.boolean(),
+  require_totp_for_admins: optional(z.boolean()),
+  require_passkeys_for_admins: optional(z.boolean()),
+  password_policy: optional(passwordPolicySchema),
+  lockout_threshold: optional(z.number()),
+  lockout_minutes: optional(z.number()),
+}).transform((raw): SecuritySettings => ({
+  twoFactorRequired: raw.two_factor_required,
+  adminTotpRequired: raw.require_totp_for_admins ?? false,
+  adminPasskeyRequired: raw.require_passkeys_for_admins ?? false,
+  enableAuditLogs: false, // This field doesn't exist in backend yet, defaulting to false
+  passwordPolicy: raw.password_policy ?? DEFAULT_PASSWORD_POLICY,
+  // Defaults for backends that do not send lockout settings
+  lockoutThreshold: raw.lockout_threshold ?? 5,
+  lockoutMinutes: raw.lockout_minutes ?? 15,
+})).pipe(conformsTo(contracts.securitySettingsSchema));
+
+export const featureFlagRulesSchema = z.record(conformsTo(contracts.featureFlagRuleSchema))
+  .transform((raw): FeatureFlagRules => knownFlags(raw));
+
+// Sign-up, upload and branding settings anyone can read. A malformed flag set
+// or policy keeps the defaults rather than losing the other settings.
+export const publicSettingsSchema = z.object({
+  site_name: z.string(),
+  site_description: optional(z.string()),
+  max_file_size: z.number(),
+  allowed_file_types: z.array(z.string()),
+  maintenance_mode: z.boolean(),
+  registration_enabled: z.boolean(),
+  feature_flags: optional(featureFlagRulesSchema).catch(({ error }) => {
+    log.warn('Failed to read feature flags, using defaults', error.flatten());
+    return undefined;
+  }),
+  password_policy: optional(passwordPolicySchema).catch(({ error }) => {
+    log.warn('Failed to read password policy, using defaults', error.flatten());
+    return undefined;
+  }),
+}).transform((raw): PublicSettings => ({
+  siteName: raw.site_name,
+  siteDescription: raw.site_description,
+  maxFileSize: raw.max_file_size,
+  allowedFileTypes: raw.allowed_file_types,
+  maintenanceMode: raw.maintenance_mode,
+  registrationEnabled: raw.registration_enabled,
+  featureFlags: raw.feature_flags ?? {},
+  // Backends without a policy get the defaults; the server still has the final say on each password
+  passwordPolicy: raw.password_policy ?? DEFAULT_PASSWORD_POLICY,
+})).pipe(conformsTo(contracts.publicSettingsSchema));
+
+export const basicPublicSettingsSchema = z.object({
+  site_name: z.string(),
+  maintenance_mode: z.boolean(),
+  registration_enabled: z.boolean(),
+}).transform((raw): BasicPublicSettings => ({
+  siteName: raw.site_name,
+  maintenanceMode: raw.maintenance_mode,
+  registrationEnabled: raw.registration_enabled,
+})).pipe(conformsTo(contracts.basicPublicSettingsSchema));
@@ -3,40 +3,77 @@
  * Matches Django REST Framework URL patterns
  */
 
-const API_BASE_URL = process.env.NODE_ENV === 'development' 
-  ? 'http://localhost:8000/api' 
-  : '/api';
+import { config } from '../lib/config';
+
+const API_BASE_URL = config.api.baseUrl;
 
 export const API_ENDPOINTS = {
   // Authentication endpoints
   AUTH: {
-    LOGIN: `${API_BASE_URL}/auth/login/`,
-    REGISTER: `${API_BASE_URL}/auth/register/`,
-    LOGOUT: `${API_BASE_URL}/auth/logout/`,
-    REFRESH: `${API_BASE_URL}/auth/refresh/`,
-    VERIFY_OTP: `${API_BASE_URL}/auth/verify-otp/`,
-    FORGOT_PASSWORD: `${API_BASE_URL}/auth/forgot-password/`,
-    RESET_PASSWORD: `${API_BASE_URL}/auth/reset-password/`,
+    LOGIN: `${API_BASE_URL}/accounts/auth/login/`,
+    REGISTER: `${API_BASE_URL}/accounts/teacher-registration/`,
+    LOGOUT: `${API_BASE_URL}/accounts/auth/logout/`,
+    REFRESH: `${API_BASE_URL}/accounts/auth/refresh/`,
+    VERIFY_OTP: `${API_BASE_URL}/accounts/auth/verify-otp/`,
+    SEND_OTP: `${API_BASE_URL}/accounts/auth/send-otp/`,
+    PASSKEY_OPTIONS: `${API_BASE_URL}/accounts/auth/passkey/options/`,
+    PASSKEY_LOGIN: `${API_BASE_URL}/accounts/auth/passkey/`,
+    FORGOT_PASSWORD: `${API_BASE_URL}/accounts/auth/forgot-password/`,
+    RESET_PASSWORD: `${API_BASE_URL}/accounts/auth/reset-password/`,
+    CHANGE_PASSWORD: `${API_BASE_URL}/accounts/auth/change-password/`,
   },
 
   // User profile endpoints
   PROFILE: {
-    GET: `${API_BASE_URL}/profile/`,
-    UPDATE: `${API_BASE_URL}/profile/`,
-    UPLOAD_PHOTO: `${API_BASE_URL}/profile/photo/`,
-    DELETE_PHOTO: `${API_BASE_URL}/profile/photo/`,
+    GET: `${API_BASE_URL}/accounts/profile/`,
+    UPDATE: `${API_BASE_URL}/accounts/profile/`,
+  },
+
+  // Authenticator app (TOTP) enrollment for the signed-in user
+  TWO_FACTOR: {
+    TOTP: `${API_BASE_URL}/accounts/2fa/totp/`,
+    TOTP_SETUP: `${API_BASE_URL}/accounts/2fa/totp/setup/`,
+    TOTP_CONFIRM: `${API_BASE_URL}/accounts/2fa/totp/confirm/`,
+    RECOVERY_CODES: `${API_BASE_URL}/accounts/2fa/recovery-codes/`,
+  },
+
+  // Passkeys registered to the signed-in user
+  PASSKEYS: {
+    LIST: `${API_BASE_URL}/accounts/passkeys/`,
+    DETAIL: (id: string) => `${API_BASE_URL}/accounts/passkeys/${id}/`,
+    REGISTER_OPTIONS: `${API_BASE_URL}/accounts/passkeys/register/options/`,
+    REGISTER: `${API_BASE_URL}/accounts/passkeys/register/`,
+  },
+
+  // Where the signed-in user is signed in; admins may end any session
+  SESSIONS: {
+    LIST: `${API_BASE_URL}/accounts/sessions/`,
+    DETAIL: (id: string) => `${API_BASE_URL}/accounts/sessions/${id}/`,
+    REVOKE_OTHERS: `${API_BASE_URL}/accounts/sessions/revoke-others/`,
   },
 
   // Teacher management endpoints
   TEACHERS: {
-    LIST: `${API_BASE_URL}/teachers/`,
-    CREATE: `${API_BASE_URL}/teachers/`,
-    DETAIL: (id: string) => `${API_BASE_URL}/teachers/${id}/`,
-    UPDATE: (id: string) => `${API_BASE_URL}/teachers/${id}/`,
-    DELETE: (id: string) => `${API_BASE_URL}/teachers/${id}/`,
-    APPROVE: (id: string) => `${API_BASE_URL}/teachers/${id}/approve/`,
-    REJECT: (id: string) => `${API_BASE_URL}/teachers/${id}/reject/`,
-    SUSPEND: (id: string) => `${API_BASE_URL}/teachers/${id}/suspend/`,
+    LIST: `${API_BASE_URL}/accounts/teachers/`,
+    CREATE: `${API_BASE_URL}/accounts/teachers/`,
+    DETAIL: (id: string) => `${API_BASE_URL}/accounts/teachers/${id}/`,
+    UPDATE: (id: string) => `${API_BASE_URL}/accounts/teachers/${id}/`,
+    DELETE: (id: string) => `${API_BASE_URL}/accounts/teachers/${id}/`,
+    APPROVE: (id: string) => `${API_BASE_URL}/accounts/teachers/${id}/approve/`,
+    REJECT: (id: string) => `${API_BASE_URL}/accounts/teachers/${id}/reject/`,
+    SUSPEND: (id: string) => `${API_BASE_URL}/accounts/teachers/${id}/suspend/`,
+    SESSIONS: (id: string) => `${API_BASE_URL}/accounts/teachers/${id}/sessions/`,
+    REVOKE_SESSIONS: (id: string) => `${API_BASE_URL}/accounts/teachers/${id}/sessions/revoke/`,
+    UNLOCK: (id: string) => `${API_BASE_URL}/accounts/teachers/${id}/unlock/`,
+  },
+
+  // Teacher invitations; the accept endpoints are public and keyed by the emailed token
+  INVITATIONS: {
+    LIST: `${API_BASE_URL}/accounts/invitations/`,
+    CREATE: `${API_BASE_URL}/accounts/invitations/`,
+    RESEND: (id: string) => `${API_BASE_URL}/accounts/invitations/${id}/resend/`,
+    DELETE: (id: string) => `${API_BASE_URL}/accounts/invitations/${id}/`,
+    ACCEPT: (token: string) => `${API_BASE_URL}/accounts/invitations/accept/${token}/`,
   },
 
   // Document management endpoints
@@ -46,11 +83,27 @@ export const API_ENDPOINTS = {
     DETAIL: (id: string) => `${API_BASE_URL}/documents/documents/${id}/`,
     UPDATE: (id: string) => `${API_BASE_URL}/documents/documents/${id}/`,
     DELETE: (id: string) => `${API_BASE_URL}/documents/documents/${id}/`,
+    ADMIN_DELETE: (id: string) => `${API_BASE_URL}/documents/documents/${id}/admin-delete/`,
     DOWNLOAD: (id: string) => `${API_BASE_URL}/documents/documents/${id}/download/`,
     PREVIEW: (id: string) => `${API_BASE_URL}/documents/documents/${id}/preview/`,
+    PUBLIC_VIEW: (id: string) => `${API_BASE_URL}/documents/documents/${id}/public_view/`,
     SHARE: (id: string) => `${API_BASE_URL}/documents/documents/${id}/share/`,
     UNSHARE: (id: string) => `${API_BASE_URL}/documents/documents/${id}/unshare/`,
-    UPLOAD: `${API_BASE_URL}/documents/documents/upload/`,
+    FLAG: (id: string) => `${API_BASE_URL}/documents/documents/${id}/flag/`,
+    ARCHIVE: (id: string) => `${API_BASE_URL}/documents/documents/${id}/archive/`,
+  },
+
+  // Chunked upload endpoints
+  UPLOADS: {
+    START: `${API_BASE_URL}/documents/uploads/`,
+    DETAIL: (id: string) => `${API_BASE_URL}/documents/uploads/${id}/`,
+    CHUNK: (id: string, index: number) => `${API_BASE_URL}/documents/uploads/${id}/chunks/${index}/`,
+    COMPLETE: (id: string) => `${API_BASE_URL}/documents/uploads/${id}/complete/`,
+  },
+
+  // Document share endpoints
+  SHARES: {
+    LIST: `${API_BASE_URL}/documents/shares/`,
   },
 
   // Category management endpoints
@@ -60,16 +113,22 @@ export const API_ENDPOINTS = {
     DETAIL: (id: string) => `${API_BASE_URL}/documents/categories/${id}/`,
     UPDATE: (id: string) => `${API_BASE_URL}/documents/categories/${id}/`,
     DELETE: (id: string) => `${API_BASE_URL}/documents/categories/${id}/`,
+    TOGGLE_ACTIVE: (id: string) => `${API_BASE_URL}/documents/categories/${id}/toggle_active/`,
+  },
+
+  // Dashboard & reporting endpoints
+  DASHBOARD: {
+    ADMIN_STATS: `${API_BASE_URL}/accounts/admin/dashboard/stats/`,
+    TEACHER_STATS: `${API_BASE_URL}/accounts/teacher/dashboard/stats/`,
+    REPORTS: `${API_BASE_URL}/accounts/admin/reports/`,
   },
 
-  // Admin endpoints
-  ADMIN: {
-    DASHBOARD_STATS: `${API_BASE_URL}/admin/dashboard/`,
-    ACTIVITY_LOGS: `${API_BASE_URL}/admin/activity/`,
-    SYSTEM_SETTINGS: `${API_BASE_URL}/admin/settings/system/`,
-    SECURITY_SETTINGS: `${API_BASE_URL}/admin/settings/security/`,
-    EXPORT_DATA: `${API_BASE_URL}/admin/export/`,
-    SYSTEM_HEALTH: `${API_BASE_URL}/admin/health/`,
+  // Settings endpoints
+  SETTINGS: {
+    SYSTEM: `${API_BASE_URL}/settings/system/`,
+    SECURITY: `${API_BASE_URL}/settings/security/`,
+    PUBLIC: `${API_BASE_URL}/settings/public/`,
+    PUBLIC_BASIC: `${API_BASE_URL}/settings/public/basic/`,
   },
 
   // Audit endpoints
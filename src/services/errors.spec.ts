@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import {
+  AuthenticationError,
+  createApiError,
+  parseRetryAfter,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from "./errors";
+
+describe("API errors", () => {
+  it("should pick the error class from the status", () => {
+    expect(createApiError("Bad", 400, { email: ["Enter a valid email address."] })).toBeInstanceOf(ValidationError);
+    expect(createApiError("Expired", 401)).toBeInstanceOf(AuthenticationError);
+    expect(createApiError("Down", 503)).toBeInstanceOf(ServerError);
+
+    const throttled = createApiError("Slow down", 429, undefined, { retryAfter: 30 });
+    expect(throttled).toBeInstanceOf(RateLimitError);
+    expect((throttled as RateLimitError).retryAfter).toBe(30);
+  });
+
+  it("should read Retry-After as seconds or as a date", () => {
+    const now = Date.parse("2024-05-01T10:00:00Z");
+    expect(parseRetryAfter("12", now)).toBe(12);
+    expect(parseRetryAfter("Wed, 01 May 2024 10:01:00 GMT", now)).toBe(60);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+
+  it("should key field errors by the request's field names", () => {
+    const error = new ValidationError("Invalid", {
+      first_name: ["This field is required."],
+      "user.last_name": ["This field may not be blank."],
+      non_field_errors: ["Passwords do not match."],
+    });
+    expect(error.fieldErrors).toMatchObject({
+      firstName: ["This field is required."],
+      "user.lastName": ["This field may not be blank."],
+    });
+    expect(error.nonFieldErrors).toEqual(["Passwords do not match."]);
+
+    const renamed = error.withFieldNames({ first_name: "user.firstName" });
+    expect(renamed.fieldErrors["user.firstName"]).toEqual(["This field is required."]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * API error types
+ * Thrown by the request pipeline and the API client. The status decides the
+ * class, so callers can branch with instanceof instead of comparing codes.
+ */
+
+import { toCamelCaseKey } from '../lib/caseConversion';
+
+// Custom Error class
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public errors?: Record<string, string[]>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// 401: the session is missing or could not be refreshed
+export class AuthenticationError extends ApiError {
+  constructor(message: string, errors?: Record<string, string[]>) {
+    super(message, 401, errors);
+    this.name = 'AuthenticationError';
+  }
+}
+
+// 403: signed in, but not allowed to do this
+export class PermissionError extends ApiError {
+  constructor(message: string, errors?: Record<string, string[]>) {
+    super(message, 403, errors);
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * 400 with DRF field errors. `errors` keeps the backend's snake_case field
+ * names; `fieldErrors` renames them to the fields of the request the client
+ * sent, which is what forms are keyed by.
+ */
+export class ValidationError extends ApiError {
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    errors: Record<string, string[]> = {},
+    fieldNames: Record<string, string> = {}
+  ) {
+    super(message, 400, errors);
+    this.name = 'ValidationError';
+    this.fieldErrors = Object.fromEntries(Object.entries(errors).map(([field, messages]) => [
+      fieldNames[field] ?? field.split('.').map(toCamelCaseKey).join('.'),
+      messages,
+    ]));
+  }
+
+  // Errors the backend did not tie to a single field
+  get nonFieldErrors(): string[] {
+    return this.errors?.non_field_errors ?? [];
+  }
+
+  /**
+   * The same errors with backend field names mapped onto different request
+   * fields, for requests whose body is shaped differently from the backend's
+   */
+  withFieldNames(fieldNames: Record<string, string>): ValidationError {
+    return new ValidationError(this.message, this.errors, fieldNames);
+  }
+}
+
+// 409: the record changed or already exists
+export class ConflictError extends ApiError {
+  constructor(message: string, errors?: Record<string, string[]>) {
+    super(message, 409, errors);
+    this.name = 'ConflictError';
+  }
+}
+
+// 429: throttled; retryAfter is in seconds when the backend says how long to wait
+export class RateLimitError extends ApiError {
+  constructor(message: string, public retryAfter?: number) {
+    super(message, 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+// The request never got a response: offline (503) or timed out (408)
+export class NetworkError extends ApiError {
+  constructor(message: string, public reason: 'offline' | 'timeout') {
+    super(message, reason === 'timeout' ? 408 : 503);
+    this.name = 'NetworkError';
+  }
+}
+
+// 5xx: the backend failed; a 503 may say in retryAfter when to come back
+export class ServerError extends ApiError {
+  constructor(
+    message: string,
+    status = 500,
+    errors?: Record<string, string[]>,
+    public retryAfter?: number
+  ) {
+    super(message, status, errors);
+    this.name = 'ServerError';
+  }
+}
+
+// Raised when a backend payload does not match the contract the client expects
+export class ResponseContractError extends ServerError {
+  constructor(
+    public resource: string,
+    errors: Record<string, string[]>
+  ) {
+    super(`Unexpected ${resource} response from server`, 502, errors);
+    this.name = 'ResponseContractError';
+  }
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+export const parseRetryAfter = (value: string | null | undefined, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+};
+
+/**
+ * Build the error class that matches a response status
+ */
+export const createApiError = (
+  message: string,
+  status: number,
+  errors?: Record<string, string[]>,
+  { retryAfter }: { retryAfter?: number } = {}
+): ApiError => {
+  if (status === 400 && errors) return new ValidationError(message, errors);
+  if (status === 401) return new AuthenticationError(message, errors);
+  if (status === 403) return new PermissionError(message, errors);
+  if (status === 409) return new ConflictError(message, errors);
+  if (status === 429) return new RateLimitError(message, retryAfter);
+  if (status >= 500) return new ServerError(message, status, errors, retryAfter);
+  return new ApiError(message, status, errors);
+};
+
+export default ApiError;
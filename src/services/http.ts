@@ -0,0 +1,322 @@
+/**
+ * HTTP request pipeline
+ * A thin fetch wrapper with pluggable request and response interceptors,
+ * retrying idempotent requests through flaky connections
+ */
+
+import { config } from '../lib/config';
+import { createLogger } from '../lib/logger';
+import { ApiError, NetworkError, RateLimitError } from './errors';
+import { isOffline, markReconnecting, waitUntilOnline } from './connectivity';
+import { isRetryableError, retryDelay, waitForRetry } from './retry';
+import { FileUploadProgress } from './types';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export type ResponseType = 'json' | 'blob' | 'stream'; // 'stream' leaves the body unread for the caller
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface HttpRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  query?: QueryParams;
+  body?: unknown; // Plain objects are sent as JSON, FormData as multipart
+  auth: boolean; // Attach the bearer token and refresh it on 401
+  timeout: number; // Milliseconds, 0 disables the timeout
+  retries: number; // Further attempts after connection errors, 429 and 5xx; only safe for idempotent requests
+  signal?: AbortSignal;
+  responseType: ResponseType;
+  snakeCaseRequest: boolean; // Convert body keys to snake_case before sending
+  camelCaseResponse: boolean; // Convert response keys to camelCase
+  errorMessage?: string; // Fallback message when the backend does not provide one
+  onUploadProgress?: (progress: FileUploadProgress) => void; // Sends through XHR, which reports upload bytes
+  meta: Record<string, unknown>; // Scratch space for interceptors
+}
+
+export type HttpRequestOptions = Partial<Omit<HttpRequest, 'url' | 'method' | 'meta'>>;
+
+export interface HttpResponse<T = any> {
+  request: HttpRequest;
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  data: T;
+}
+
+export type RequestInterceptor = (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+export type ResponseInterceptor = (response: HttpResponse, client: HttpClient) => HttpResponse | Promise<HttpResponse>;
+
+class InterceptorChain<T> {
+  private handlers: T[] = [];
+
+  use(handler: T): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter(existing => existing !== handler);
+    };
+  }
+
+  list(): T[] {
+    return [...this.handlers];
+  }
+}
+
+const log = createLogger('http');
+
+const buildUrl = (url: string, query?: QueryParams): string => {
+  if (!query) return url;
+
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.append(key, String(value));
+    }
+  });
+
+  const queryString = params.toString();
+  if (!queryString) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+};
+
+const serializeBody = (request: HttpRequest): BodyInit | undefined => {
+  if (request.body === undefined || request.body === null) return undefined;
+  if (request.body instanceof FormData || request.body instanceof Blob) return request.body;
+  if (typeof request.body === 'string') return request.body;
+  return JSON.stringify(request.body);
+};
+
+const parseHeaders = (raw: string): Headers => {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  });
+  return headers;
+};
+
+/**
+ * fetch() cannot report upload progress, so requests that ask for it go
+ * through XHR and are adapted back into a Response for the rest of the pipeline
+ */
+const xhrFetch = (
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (progress: FileUploadProgress) => void
+): Promise<Response> => new Promise((resolve, reject) => {
+  const { signal } = init;
+  if (signal?.aborted) {
+    reject(signal.reason ?? new DOMException('The request was aborted', 'AbortError'));
+    return;
+  }
+
+  const xhr = new XMLHttpRequest();
+  xhr.open(init.method || 'GET', url);
+  xhr.responseType = 'blob';
+  Object.entries(init.headers as Record<string, string>).forEach(([name, value]) => {
+    xhr.setRequestHeader(name, value);
+  });
+
+  xhr.upload.onprogress = (event) => {
+    if (!event.lengthComputable) return;
+    onUploadProgress({
+      loaded: event.loaded,
+      total: event.total,
+      percentage: Math.round((event.loaded / event.total) * 100),
+    });
+  };
+
+  const onAbort = () => xhr.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+  xhr.onload = () => {
+    cleanup();
+    // Match fetch, which rejects status codes that cannot carry a body
+    const body = [101, 204, 205, 304].includes(xhr.status) ? null : xhr.response;
+    resolve(new Response(body, {
+      status: xhr.status,
+      statusText: xhr.statusText,
+      headers: parseHeaders(xhr.getAllResponseHeaders()),
+    }));
+  };
+  // Reject the same way fetch does so the error mapping below applies unchanged
+  xhr.onerror = () => {
+    cleanup();
+    reject(new TypeError('Network request failed'));
+  };
+  xhr.onabort = () => {
+    cleanup();
+    reject(signal?.reason ?? new DOMException('The request was aborted', 'AbortError'));
+  };
+
+  xhr.send(init.body as XMLHttpRequestBodyInit | null | undefined);
+});
+
+const parseBody = async (response: Response, responseType: ResponseType): Promise<unknown> => {
+  if (response.status === 204) return null;
+
+  if (response.ok && responseType === 'blob') {
+    return response.blob();
+  }
+
+  if (response.ok && responseType === 'stream') {
+    return response.body;
+  }
+
+  // Error bodies and empty responses are not always JSON
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return response.ok ? text : { error: text };
+  }
+};
+
+export class HttpClient {
+  readonly interceptors = {
+    request: new InterceptorChain<RequestInterceptor>(),
+    response: new InterceptorChain<ResponseInterceptor>(),
+  };
+
+  /**
+   * Run a request through the interceptors and return the full response.
+   * Requests with retries wait while the browser is offline and try again
+   * after transient failures, each attempt going through the interceptors anew.
+   */
+  async send<T = any>(request: HttpRequest): Promise<HttpResponse<T>> {
+    let reconnected: (() => void) | undefined;
+    try {
+      for (let attempt = 0; ; attempt++) {
+        if (request.retries > 0 && isOffline()) {
+          reconnected ??= markReconnecting();
+          await waitUntilOnline(request.signal);
+        }
+
+        try {
+          return await this.sendOnce<T>(request);
+        } catch (error) {
+          const delay = attempt < request.retries && isRetryableError(error) ? retryDelay(attempt, error) : undefined;
+          if (delay === undefined) throw error;
+
+          log.info(`Retrying ${request.method} ${request.url} in ${Math.round(delay)}ms`, error);
+          // Throttling is not a connection problem
+          if (!(error instanceof RateLimitError)) {
+            reconnected ??= markReconnecting();
+          }
+          await waitForRetry(delay, request.signal);
+        }
+      }
+    } finally {
+      reconnected?.();
+    }
+  }
+
+  private async sendOnce<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    let prepared: HttpRequest = { ...request, headers: { ...request.headers }, meta: { ...request.meta } };
+    for (const interceptor of this.interceptors.request.list()) {
+      prepared = await interceptor(prepared);
+    }
+
+    const isFormData = prepared.body instanceof FormData;
+    const headers: Record<string, string> = { ...prepared.headers };
+    // Let the browser set the multipart boundary for FormData
+    if (prepared.body !== undefined && !isFormData && !headers['Content-Type']) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    let raw: Response;
+    try {
+      const url = buildUrl(prepared.url, prepared.query);
+      const init: RequestInit = {
+        method: prepared.method,
+        headers,
+        body: serializeBody(prepared),
+        signal: prepared.signal,
+      };
+      raw = prepared.onUploadProgress
+        ? await xhrFetch(url, init, prepared.onUploadProgress)
+        : await fetch(url, init);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof DOMException && error.name === 'TimeoutError') {
+        throw new NetworkError('Request timeout. Please try again.', 'timeout');
+      }
+
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw error;
+      }
+
+      if (error instanceof TypeError) {
+        throw new NetworkError('Unable to connect to server. Please check your connection.', 'offline');
+      }
+
+      throw new ApiError(prepared.errorMessage || 'An unexpected error occurred', 500);
+    }
+
+    let response: HttpResponse = {
+      request: prepared,
+      status: raw.status,
+      ok: raw.ok,
+      headers: raw.headers,
+      data: await parseBody(raw, prepared.responseType),
+    };
+
+    for (const interceptor of this.interceptors.response.list()) {
+      response = await interceptor(response, this);
+    }
+
+    return response as HttpResponse<T>;
+  }
+
+  /**
+   * Run a request and return only the response body
+   */
+  async request<T = any>(method: HttpMethod, url: string, options: HttpRequestOptions = {}): Promise<T> {
+    const response = await this.send<T>(this.createRequest(method, url, options));
+    return response.data;
+  }
+
+  createRequest(method: HttpMethod, url: string, options: HttpRequestOptions = {}): HttpRequest {
+    return {
+      url,
+      method,
+      headers: {},
+      auth: true,
+      timeout: config.api.timeout,
+      retries: method === 'GET' ? config.api.retryAttempts : 0,
+      responseType: 'json',
+      snakeCaseRequest: false,
+      camelCaseResponse: false,
+      ...options,
+      meta: {},
+    };
+  }
+
+  get<T = any>(url: string, options?: HttpRequestOptions): Promise<T> {
+    return this.request<T>('GET', url, options);
+  }
+
+  post<T = any>(url: string, body?: unknown, options?: HttpRequestOptions): Promise<T> {
+    return this.request<T>('POST', url, { ...options, body });
+  }
+
+  put<T = any>(url: string, body?: unknown, options?: HttpRequestOptions): Promise<T> {
+    return this.request<T>('PUT', url, { ...options, body });
+  }
+
+  patch<T = any>(url: string, body?: unknown, options?: HttpRequestOptions): Promise<T> {
+    return this.request<T>('PATCH', url, { ...options, body });
+  }
+
+  delete<T = any>(url: string, options?: HttpRequestOptions): Promise<T> {
+    return this.request<T>('DELETE', url, options);
+  }
+}
+
+export default HttpClient;
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { config } from "../lib/config";
+import { AuthenticationError } from "./errors";
+import { HttpClient } from "./http";
+import { createAuthInterceptors, errorNormalizationInterceptor } from "./interceptors";
+
+describe("token refresh", () => {
+  let storage: Map<string, string>;
+  let sessionExpired: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    storage = new Map([[config.auth.tokenKey, "stale-access"], [config.auth.refreshTokenKey, "refresh"]]);
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    sessionExpired = vi.fn();
+    const window = Object.assign(new EventTarget(), { location: { pathname: "/teacher/documents" } });
+    window.addEventListener("session-expired", sessionExpired);
+    vi.stubGlobal("window", window);
+    vi.stubGlobal("BroadcastChannel", class {
+      postMessage() {}
+      close() {}
+    });
+    vi.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  const respond = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+
+  const createClient = () => {
+    const client = new HttpClient();
+    const auth = createAuthInterceptors();
+    client.interceptors.request.use(auth.request);
+    client.interceptors.response.use(auth.response);
+    client.interceptors.response.use(errorNormalizationInterceptor);
+    return client;
+  };
+
+  it("should keep the session when the refresh is throttled and retry after Retry-After", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(401, { detail: "Token expired" }))
+      .mockResolvedValueOnce(respond(429, { detail: "Slow down" }, { "Retry-After": "0" }))
+      .mockResolvedValueOnce(respond(401, { detail: "Token expired" }))
+      .mockResolvedValueOnce(respond(200, { access: "fresh-access" }))
+      .mockResolvedValueOnce(respond(200, { ok: true }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(createClient().get("/api/documents/")).resolves.toEqual({ ok: true });
+
+    expect(sessionExpired).not.toHaveBeenCalled();
+    expect(storage.get(config.auth.refreshTokenKey)).toBe("refresh");
+    expect(storage.get(config.auth.tokenKey)).toBe("fresh-access");
+    expect(fetchMock.mock.calls[4][1].headers.Authorization).toBe("Bearer fresh-access");
+  });
+
+  it("should end the session in every tab when the refresh token is rejected", async () => {
+    vi.stubGlobal("fetch", vi.fn()
+      .mockResolvedValueOnce(respond(401, { detail: "Token expired" }))
+      .mockResolvedValueOnce(respond(401, { detail: "Token is blacklisted" })));
+
+    await expect(createClient().get("/api/documents/")).rejects.toBeInstanceOf(AuthenticationError);
+
+    expect(sessionExpired).toHaveBeenCalledTimes(1);
+    expect(storage.has(config.auth.refreshTokenKey)).toBe(false);
+  });
+});
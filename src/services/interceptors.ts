@@ -0,0 +1,255 @@
+/**
+ * Built-in interceptors for the HTTP request pipeline
+ */
+
+import { config } from '../lib/config';
+import { camelizeKeys, snakeizeKeys } from '../lib/caseConversion';
+import { ApiError, AuthenticationError, createApiError, parseRetryAfter } from './errors';
+import type { HttpClient, HttpRequest, HttpResponse, RequestInterceptor, ResponseInterceptor } from './http';
+import API_ENDPOINTS from './endpoints';
+import { publishAuthEvent } from './authChannel';
+import { createLogger } from '../lib/logger';
+
+// Auth
+
+export const clearAuthState = (): void => {
+  localStorage.removeItem(config.auth.tokenKey);
+  localStorage.removeItem(config.auth.refreshTokenKey);
+  localStorage.removeItem(config.auth.userKey);
+};
+
+const expireSession = (message: string): void => {
+  clearAuthState();
+  window.dispatchEvent(new CustomEvent('session-expired', {
+    detail: {
+      message,
+      timeout: true
+    }
+  }));
+};
+
+// Tabs share one refresh token, and rotation makes a second refresh with it fail
+const withRefreshLock = async <T>(run: () => Promise<T>): Promise<T> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return run();
+
+  let result!: T;
+  await navigator.locks.request('dfs-token-refresh', async () => {
+    result = await run();
+  });
+  return result;
+};
+
+/**
+ * Attaches the bearer token and transparently refreshes it on 401.
+ * Concurrent 401s share one in-flight refresh, across tabs as well; the
+ * session only expires when the refresh itself is rejected.
+ */
+export const createAuthInterceptors = (): { request: RequestInterceptor; response: ResponseInterceptor } => {
+  let refreshPromise: Promise<string> | null = null;
+
+  const performTokenRefresh = async (client: HttpClient): Promise<string> => {
+    const refreshToken = localStorage.getItem(config.auth.refreshTokenKey);
+    if (!refreshToken) {
+      throw new AuthenticationError('Your session has expired');
+    }
+
+    let data: { access?: string; refresh?: string };
+    try {
+      data = await client.post(API_ENDPOINTS.AUTH.REFRESH, { refresh: refreshToken }, { auth: false });
+    } catch (error) {
+      // Only a refresh token the backend turns down ends the session; throttling, timeouts
+      // and outages keep it, and the caller's retry waits them out
+      if (error instanceof ApiError && (error.status === 400 || error.status === 401)) {
+        throw new AuthenticationError(error.message || 'Your session has expired');
+      }
+      throw error;
+    }
+
+    if (!data?.access) {
+      throw new AuthenticationError('Your session has expired');
+    }
+
+    localStorage.setItem(config.auth.tokenKey, data.access);
+    // Backends with refresh token rotation hand back a new refresh token as well
+    if (data.refresh) {
+      localStorage.setItem(config.auth.refreshTokenKey, data.refresh);
+    }
+
+    return data.access;
+  };
+
+  const refreshAccessToken = (client: HttpClient, failedToken: unknown): Promise<string> => {
+    if (!refreshPromise) {
+      refreshPromise = withRefreshLock(async () => {
+        // Another tab may have refreshed while this one waited for the lock
+        const currentToken = localStorage.getItem(config.auth.tokenKey);
+        if (currentToken && currentToken !== failedToken) {
+          return currentToken;
+        }
+
+        const accessToken = await performTokenRefresh(client);
+        publishAuthEvent({ type: 'token-refreshed' });
+        return accessToken;
+      }).finally(() => {
+        refreshPromise = null;
+      });
+    }
+    return refreshPromise;
+  };
+
+  const request: RequestInterceptor = (request) => {
+    if (!request.auth) return request;
+
+    const accessToken = localStorage.getItem(config.auth.tokenKey);
+    if (!accessToken) {
+      throw new AuthenticationError('Authentication required');
+    }
+
+    return {
+      ...request,
+      headers: { ...request.headers, Authorization: `Bearer ${accessToken}` },
+      meta: { ...request.meta, accessToken },
+    };
+  };
+
+  const response: ResponseInterceptor = async (response, client) => {
+    const { request } = response;
+    if (response.status !== 401 || !request.auth || request.meta.authRetried) {
+      return response;
+    }
+
+    const currentToken = localStorage.getItem(config.auth.tokenKey);
+    // Another request already refreshed the token while this one was in flight
+    if (!currentToken || currentToken === request.meta.accessToken) {
+      try {
+        await refreshAccessToken(client, request.meta.accessToken);
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          expireSession(error.message);
+        }
+        throw error;
+      }
+    }
+
+    // The original send is still retrying, so this attempt does not retry on its own
+    return client.send({ ...request, retries: 0, meta: { ...request.meta, authRetried: true } });
+  };
+
+  return { request, response };
+};
+
+// Timeout
+
+export const timeoutInterceptor: RequestInterceptor = (request) => {
+  // Keep the caller's signal across retries so timeouts are not stacked
+  const callerSignal = ('callerSignal' in request.meta ? request.meta.callerSignal : request.signal) as AbortSignal | undefined;
+  const signals = [callerSignal, request.timeout > 0 ? AbortSignal.timeout(request.timeout) : undefined]
+    .filter((signal): signal is AbortSignal => Boolean(signal));
+
+  return {
+    ...request,
+    signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+    meta: { ...request.meta, callerSignal },
+  };
+};
+
+// Case conversion
+
+export const snakeCaseRequestInterceptor: RequestInterceptor = (request) => {
+  if (!request.snakeCaseRequest || request.body === undefined) return request;
+  return { ...request, body: snakeizeKeys(request.body) };
+};
+
+export const camelCaseResponseInterceptor: ResponseInterceptor = (response) => {
+  if (!response.request.camelCaseResponse || !response.ok) return response;
+  return { ...response, data: camelizeKeys(response.data) };
+};
+
+// Error normalization
+
+const toMessages = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (value === undefined || value === null) return [];
+  return [String(value)];
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// Nested serializers report { user: { email: ['message'] } }, flattened to 'user.email'
+const flattenFieldErrors = (data: Record<string, unknown>, prefix = ''): [string, string[]][] =>
+  Object.entries(data).flatMap(([key, value]) => isPlainObject(value)
+    ? flattenFieldErrors(value, `${prefix}${key}.`)
+    : [[`${prefix}${key}`, toMessages(value)] as [string, string[]]]);
+
+/**
+ * Extract DRF field errors ({ field: ['message'] }) from an error body
+ */
+export const extractFieldErrors = (data: unknown): Record<string, string[]> | undefined => {
+  if (!isPlainObject(data)) return undefined;
+
+  const reserved = ['error', 'detail', 'message', 'code', 'success'];
+  const entries = flattenFieldErrors(Object.fromEntries(
+    Object.entries(data).filter(([key]) => !reserved.includes(key))
+  )).filter(([, messages]) => messages.length > 0);
+
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+export const errorNormalizationInterceptor: ResponseInterceptor = (response: HttpResponse) => {
+  if (response.ok) return response;
+
+  const data = (response.data ?? {}) as Record<string, any>;
+  const errors = extractFieldErrors(data);
+  const fieldMessage = errors
+    ? Object.entries(errors).map(([field, messages]) => field === 'non_field_errors'
+        ? messages.join(', ')
+        : `${field}: ${messages.join(', ')}`).join('; ')
+    : undefined;
+
+  const message =
+    (typeof data.error === 'string' && data.error) ||
+    (typeof data.detail === 'string' && data.detail) ||
+    (typeof data.message === 'string' && data.message) ||
+    fieldMessage ||
+    response.request.errorMessage ||
+    `HTTP error! status: ${response.status}`;
+
+  throw createApiError(message, response.status, errors, {
+    retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+  });
+};
+
+// Logging
+
+const log = createLogger('api');
+
+const describe = (request: HttpRequest) => `${request.method} ${request.url}`;
+
+// Ties the log entries of one request together; randomUUID is only available on HTTPS and localhost
+const createRequestId = (): string =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID().slice(0, 8)
+    : Math.random().toString(36).slice(2, 10);
+
+export const loggingRequestInterceptor: RequestInterceptor = (request) => {
+  // The repeat after a token refresh keeps the id of the first attempt
+  const requestId = (request.meta.requestId as string | undefined) ?? createRequestId();
+  log.debug(`→ ${describe(request)}`, undefined, { requestId });
+  return { ...request, meta: { ...request.meta, requestId, startedAt: Date.now() } };
+};
+
+export const loggingResponseInterceptor: ResponseInterceptor = (response) => {
+  const { request } = response;
+  const startedAt = request.meta.startedAt as number | undefined;
+  const duration = startedAt ? ` (${Date.now() - startedAt}ms)` : '';
+  const message = `← ${describe(request)} ${response.status}${duration}`;
+  const context = { requestId: request.meta.requestId as string | undefined };
+
+  if (response.ok) {
+    log.debug(message, undefined, context);
+  } else {
+    log.warn(message, undefined, context);
+  }
+  return response;
+};
@@ -0,0 +1,134 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import { ApiError, NetworkError, ValidationError } from "./errors";
+import { addToOutbox, findConflict, getOutboxEntry, sendPendingEntries } from "./outbox";
+import { DocumentCategory, DocumentCreateRequest } from "./types";
+
+const { database, api } = vi.hoisted(() => ({
+  database: new Map<IDBValidKey, unknown>(),
+  api: { getCategories: vi.fn(), createDocument: vi.fn() },
+}));
+
+// The outbox keeps entries in IndexedDB; a map stands in for the one store it uses
+vi.mock("../lib/idb", () => ({
+  isIndexedDbAvailable: () => true,
+  idbGet: async (_store: string, key: IDBValidKey) => database.get(key),
+  idbGetAll: async () => [...database.values()],
+  idbPut: async (_store: string, value: { id: string }) => {
+    database.set(value.id, value);
+  },
+  idbDelete: async (_store: string, key: IDBValidKey) => {
+    database.delete(key);
+  },
+}));
+
+vi.mock("./api", () => ({ apiClient: api }));
+
+const category = (changes: Partial<DocumentCategory> = {}): DocumentCategory => ({
+  id: "3",
+  name: "Schemes of Work",
+  description: "",
+  requiresClassSubject: false,
+  documentsCount: 0,
+  isActive: true,
+  createdAt: "2024-01-10T08:00:00Z",
+  updatedAt: "2024-01-10T08:00:00Z",
+  ...changes,
+});
+
+const request = (changes: Partial<DocumentCreateRequest> = {}): DocumentCreateRequest => ({
+  title: "Term 2 Mathematics",
+  categoryId: "3",
+  file: new File(["%PDF"], "scheme.pdf", { type: "application/pdf" }),
+  ...changes,
+});
+
+describe("findConflict", () => {
+  it("should accept a request whose category still takes it", () => {
+    expect(findConflict(request(), [category()])).toBeNull();
+    expect(findConflict(request({ classLevel: "Grade 4", subject: "Mathematics" }), [category({ requiresClassSubject: true })])).toBeNull();
+  });
+
+  it("should flag a category that was removed or deactivated", () => {
+    expect(findConflict(request(), [])).toMatch(/no longer available/);
+    expect(findConflict(request(), [category({ isActive: false })])).toMatch(/no longer available/);
+  });
+
+  it("should flag a category that now requires a class and subject", () => {
+    expect(findConflict(request({ classLevel: "Grade 4" }), [category({ requiresClassSubject: true })]))
+      .toBe('"Schemes of Work" now requires a class and subject.');
+  });
+});
+
+describe("sendPendingEntries", () => {
+  beforeEach(() => {
+    database.clear();
+    api.getCategories.mockReset().mockResolvedValue({ data: [category()] });
+    api.createDocument.mockReset().mockResolvedValue({ data: {} });
+  });
+
+  it("should send pending entries in order and remove them", async () => {
+    const first = await addToOutbox("12", request({ title: "First" }));
+    const second = await addToOutbox("12", request({ title: "Second" }));
+    await addToOutbox("13", request({ title: "Someone else's" }));
+
+    await expect(sendPendingEntries("12")).resolves.toEqual({ sent: 2, needsAttention: 0 });
+
+    expect(api.createDocument.mock.calls.map(([sent]) => sent.title)).toEqual(["First", "Second"]);
+    expect(await getOutboxEntry(first.id)).toBeUndefined();
+    expect(await getOutboxEntry(second.id)).toBeUndefined();
+  });
+
+  it("should mark an entry whose category changed as a conflict without sending it", async () => {
+    api.getCategories.mockResolvedValue({ data: [category({ isActive: false })] });
+    const entry = await addToOutbox("12", request());
+
+    await expect(sendPendingEntries("12")).resolves.toEqual({ sent: 0, needsAttention: 1 });
+
+    expect(api.createDocument).not.toHaveBeenCalled();
+    expect(await getOutboxEntry(entry.id)).toMatchObject({ status: "conflict", attempts: 0 });
+  });
+
+  it("should stop at a connection error and leave the rest pending", async () => {
+    api.createDocument.mockRejectedValue(new NetworkError("You are offline", "offline"));
+    const first = await addToOutbox("12", request({ title: "First" }));
+    const second = await addToOutbox("12", request({ title: "Second" }));
+
+    await expect(sendPendingEntries("12")).resolves.toEqual({ sent: 0, needsAttention: 0 });
+
+    expect(api.createDocument).toHaveBeenCalledTimes(1);
+    expect(await getOutboxEntry(first.id)).toMatchObject({ status: "pending", attempts: 0 });
+    expect(await getOutboxEntry(second.id)).toMatchObject({ status: "pending", attempts: 0 });
+  });
+
+  it("should skip entries discarded or sent elsewhere after the list was read", async () => {
+    const first = await addToOutbox("12", request({ title: "First" }));
+    const second = await addToOutbox("12", request({ title: "Second" }));
+    // Another tab takes the second entry while this one uploads the first
+    api.createDocument.mockImplementationOnce(async () => {
+      database.delete(second.id);
+      return { data: {} };
+    });
+
+    await expect(sendPendingEntries("12")).resolves.toEqual({ sent: 1, needsAttention: 0 });
+
+    expect(api.createDocument).toHaveBeenCalledTimes(1);
+    expect(await getOutboxEntry(first.id)).toBeUndefined();
+  });
+
+  it("should mark category errors from the backend as conflicts and other errors as failures", async () => {
+    api.createDocument
+      .mockRejectedValueOnce(new ValidationError("Invalid data", { category: ["This category is closed for uploads."] }))
+      .mockRejectedValueOnce(new ApiError("Request failed", 500));
+    const closed = await addToOutbox("12", request({ title: "Closed" }));
+    const broken = await addToOutbox("12", request({ title: "Broken" }));
+
+    await expect(sendPendingEntries("12")).resolves.toEqual({ sent: 0, needsAttention: 2 });
+
+    expect(await getOutboxEntry(closed.id)).toMatchObject({
+      status: "conflict",
+      error: "This category is closed for uploads.",
+      attempts: 1,
+    });
+    expect(await getOutboxEntry(broken.id)).toMatchObject({ status: "failed", attempts: 1 });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Offline upload outbox
+ * Documents prepared without a connection wait here, file included, until
+ * they can be sent
+ */
+
+import { idbDelete, idbGet, idbGetAll, idbPut, isIndexedDbAvailable } from '../lib/idb';
+import { getErrorMessage } from '../lib/queryClient';
+import { apiClient } from './api';
+import { ApiError } from './errors';
+import { isConnectionError } from './resumableUpload';
+import { DocumentCategory, DocumentCreateRequest } from './types';
+
+// 'conflict' entries need the teacher's attention before they can be sent, e.g. a deactivated category
+export type OutboxStatus = 'pending' | 'failed' | 'conflict';
+
+export interface OutboxEntry {
+  id: string;
+  ownerId: string; // Entries stay with the teacher who saved them on shared computers
+  request: DocumentCreateRequest;
+  status: OutboxStatus;
+  error?: string;
+  attempts: number;
+  createdAt: number;
+}
+
+export const isOutboxAvailable = isIndexedDbAvailable;
+
+export const listOutbox = async (ownerId: string): Promise<OutboxEntry[]> => {
+  const entries = await idbGetAll<OutboxEntry>('outbox');
+  return entries
+    .filter(entry => entry.ownerId === ownerId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getOutboxEntry = (id: string): Promise<OutboxEntry | undefined> => idbGet<OutboxEntry>('outbox', id);
+
+export const addToOutbox = async (ownerId: string, request: DocumentCreateRequest): Promise<OutboxEntry> => {
+  const entry: OutboxEntry = {
+    id: Math.random().toString(36).substr(2, 9),
+    ownerId,
+    request,
+    status: 'pending',
+    attempts: 0,
+    createdAt: Date.now(),
+  };
+  await idbPut('outbox', entry);
+  return entry;
+};
+
+export const updateOutboxEntry = async (
+  id: string,
+  changes: Partial<Pick<OutboxEntry, 'request' | 'status' | 'error' | 'attempts'>>
+): Promise<void> => {
+  const entry = await idbGet<OutboxEntry>('outbox', id);
+  if (!entry) return;
+  await idbPut('outbox', { ...entry, ...changes });
+};
+
+export const removeFromOutbox = (id: string): Promise<void> => idbDelete('outbox', id);
+
+// The category may have changed while the document waited in the outbox
+export const findConflict = (request: DocumentCreateRequest, categories: DocumentCategory[]): string | null => {
+  const category = categories.find(item => item.id === request.categoryId);
+
+  if (!category || !category.isActive) {
+    return 'The selected category is no longer available. Choose another category.';
+  }
+
+  if (category.requiresClassSubject && (!request.classLevel || !request.subject)) {
+    return `"${category.name}" now requires a class and subject.`;
+  }
+
+  return null;
+};
+
+// Tabs share the outbox, and two of them sending the same entry would upload the document twice
+const withSendLock = async <T>(run: () => Promise<T>): Promise<T> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return run();
+
+  let result!: T;
+  await navigator.locks.request('dfs-outbox-send', async () => {
+    result = await run();
+  });
+  return result;
+};
+
+const sendEntries = async (ownerId: string): Promise<{ sent: number; needsAttention: number }> => {
+  const entries = (await listOutbox(ownerId)).filter(entry => entry.status === 'pending');
+  let sent = 0;
+  let needsAttention = 0;
+
+  if (entries.length === 0) return { sent, needsAttention };
+
+  const categories = (await apiClient.getCategories()).data ?? [];
+
+  for (const listed of entries) {
+    // Discarded, edited or sent elsewhere since the list was read
+    const entry = await getOutboxEntry(listed.id);
+    if (entry?.status !== 'pending') continue;
+
+    const conflict = findConflict(entry.request, categories);
+    if (conflict) {
+      await updateOutboxEntry(entry.id, { status: 'conflict', error: conflict });
+      needsAttention++;
+      continue;
+    }
+
+    try {
+      await apiClient.createDocument(entry.request);
+      await removeFromOutbox(entry.id);
+      sent++;
+    } catch (error) {
+      // Still offline, so leave this and the rest for the next attempt
+      if (isConnectionError(error)) break;
+
+      const categoryErrors = error instanceof ApiError ? error.errors?.category : undefined;
+      await updateOutboxEntry(entry.id, {
+        status: categoryErrors ? 'conflict' : 'failed',
+        error: categoryErrors?.[0] ?? getErrorMessage(error, 'Upload failed. Please try again.'),
+        attempts: entry.attempts + 1,
+      });
+      needsAttention++;
+    }
+  }
+
+  return { sent, needsAttention };
+};
+
+/**
+ * Send a teacher's pending entries in the order they were saved, one tab at
+ * a time. Entries the backend turns down are marked for the teacher to
+ * review; a lost connection leaves the rest pending for the next attempt.
+ */
+export const sendPendingEntries = (ownerId: string): Promise<{ sent: number; needsAttention: number }> =>
+  withSendLock(() => sendEntries(ownerId));
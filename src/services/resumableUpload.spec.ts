@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from "vitest";
+import { chunkCount, chunkRange, isConnectionError, sha256Hex } from "./resumableUpload";
+import { ApiError, ResponseContractError } from "./errors";
+
+describe("chunk planning", () => {
+  it("should cover the whole file with a short last chunk", () => {
+    expect(chunkCount(2500, 1000)).toBe(3);
+    expect(chunkRange(0, 1000, 2500)).toEqual({ start: 0, end: 1000 });
+    expect(chunkRange(2, 1000, 2500)).toEqual({ start: 2000, end: 2500 });
+  });
+
+  it("should still send one chunk for an empty file", () => {
+    expect(chunkCount(0, 1000)).toBe(1);
+  });
+});
+
+describe("sha256Hex", () => {
+  it("should hash chunk bytes as lowercase hex", async () => {
+    const hash = await sha256Hex(new Blob(["abc"]));
+    expect(hash).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+  });
+
+  it("should hash the same way without crypto.subtle outside secure contexts", async () => {
+    const bytes = new Uint8Array(1000).map((_, i) => i * 7);
+    const expected = await sha256Hex(new Blob([bytes]));
+
+    vi.stubGlobal("crypto", {});
+    try {
+      expect(await sha256Hex(new Blob(["abc"]))).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+      expect(await sha256Hex(new Blob([bytes]))).toBe(expected);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("isConnectionError", () => {
+  it("should pause on dropped connections but not on rejected chunks", () => {
+    expect(isConnectionError(new ApiError("Unable to connect", 503))).toBe(true);
+    expect(isConnectionError(new ApiError("Request timeout", 408))).toBe(true);
+    expect(isConnectionError(new ApiError("Upload expired", 404))).toBe(false);
+    expect(isConnectionError(new ResponseContractError("upload session", {}))).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Resumable upload support
+ * Chunk planning, checksums and the saved state that lets a chunked upload
+ * continue after a dropped connection or a page reload
+ */
+
+import { config } from '../lib/config';
+import { idbDelete, idbGet, idbPut, isIndexedDbAvailable } from '../lib/idb';
+import { ApiError, ResponseContractError } from './errors';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('uploads');
+
+export interface SavedUpload {
+  fingerprint: string;
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  chunksUploaded: number; // Last known count, shown before the server is asked
+  updatedAt: number;
+}
+
+// The same file picked again after a reload maps to the same saved upload
+export const fileFingerprint = (file: File): string =>
+  [file.name, file.size, file.lastModified].join(':');
+
+export const chunkCount = (fileSize: number, chunkSize: number): number =>
+  Math.max(1, Math.ceil(fileSize / chunkSize));
+
+export const chunkRange = (index: number, chunkSize: number, fileSize: number): { start: number; end: number } => ({
+  start: index * chunkSize,
+  end: Math.min(fileSize, (index + 1) * chunkSize),
+});
+
+const SHA256_ROUND_CONSTANTS = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotateRight = (word: number, bits: number) => (word >>> bits) | (word << (32 - bits));
+
+// FIPS 180-4 SHA-256, for pages served over plain HTTP where crypto.subtle does not exist
+const sha256Fallback = (bytes: Uint8Array): ArrayBuffer => {
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, (bytes.length * 8) >>> 0);
+
+  const hash = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const words = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotateRight(words[i - 15], 7) ^ rotateRight(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+      const s1 = rotateRight(words[i - 2], 17) ^ rotateRight(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = h + (rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_ROUND_CONSTANTS[i] + words[i];
+      const t2 = (rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      [h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) | 0, c, b, a, (t1 + t2) | 0];
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, i) => { hash[i] += value; });
+  }
+
+  const digest = new DataView(new ArrayBuffer(32));
+  hash.forEach((value, i) => digest.setUint32(i * 4, value));
+  return digest.buffer;
+};
+
+// crypto.subtle is only available on HTTPS and localhost
+export const sha256Hex = async (blob: Blob): Promise<string> => {
+  const bytes = await blob.arrayBuffer();
+  const digest = typeof crypto !== 'undefined' && crypto.subtle
+    ? await crypto.subtle.digest('SHA-256', bytes)
+    : sha256Fallback(new Uint8Array(bytes));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Saved state is best effort: without IndexedDB uploads still work but cannot resume after a reload
+export const loadSavedUpload = async (file: File): Promise<SavedUpload | undefined> => {
+  if (!isIndexedDbAvailable()) return undefined;
+
+  try {
+    const saved = await idbGet<SavedUpload>('uploads', fileFingerprint(file));
+    if (saved && Date.now() - saved.updatedAt > config.upload.resumeStateMaxAge) {
+      await idbDelete('uploads', saved.fingerprint);
+      return undefined;
+    }
+    return saved;
+  } catch (error) {
+    log.warn('Failed to read saved upload state', error);
+    return undefined;
+  }
+};
+
+export const saveUpload = async (upload: SavedUpload): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbPut('uploads', upload);
+  } catch (error) {
+    log.warn('Failed to save upload state', error);
+  }
+};
+
+export const forgetUpload = async (file: File): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await idbDelete('uploads', fileFingerprint(file));
+  } catch (error) {
+    log.warn('Failed to clear upload state', error);
+  }
+};
+
+/**
+ * Timeouts, gateway errors and lost connections pause a chunked upload
+ * instead of failing it
+ */
+export const isConnectionError = (error: unknown): boolean =>
+  error instanceof ApiError &&
+  !(error instanceof ResponseContractError) &&
+  [408, 429, 502, 503, 504].includes(error.status);
+
+const MAX_RETRY_DELAY = 30 * 1000;
+
+/**
+ * Resolve once it is worth trying again: as soon as the browser reports it is
+ * back online, or after an exponential backoff while it believes it is online
+ */
+export const waitToResume = (attempt: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('The upload was cancelled', 'AbortError'));
+      return;
+    }
+
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', onOnline);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onOnline = () => {
+      cleanup();
+      resolve();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal?.reason ?? new DOMException('The upload was cancelled', 'AbortError'));
+    };
+
+    if (!offline) {
+      timer = setTimeout(onOnline, Math.min(MAX_RETRY_DELAY, 1000 * 2 ** attempt));
+    }
+    window.addEventListener('online', onOnline);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { config } from "../lib/config";
+import { NetworkError, RateLimitError, ResponseContractError, ServerError, ValidationError } from "./errors";
+import { HttpClient } from "./http";
+import { errorNormalizationInterceptor } from "./interceptors";
+import { isRetryableError, retryDelay } from "./retry";
+
+describe("retry policy", () => {
+  it("should retry only transient failures", () => {
+    expect(isRetryableError(new NetworkError("Offline", "offline"))).toBe(true);
+    expect(isRetryableError(new RateLimitError("Slow down"))).toBe(true);
+    expect(isRetryableError(new ServerError("Unavailable", 503))).toBe(true);
+    expect(isRetryableError(new ServerError("Crashed", 500))).toBe(false);
+    expect(isRetryableError(new ResponseContractError("document", {}))).toBe(false);
+    expect(isRetryableError(new ValidationError("Invalid", {}))).toBe(false);
+  });
+
+  it("should back off exponentially with jitter", () => {
+    const base = config.api.retryBaseDelay;
+    const error = new NetworkError("Offline", "offline");
+    expect(retryDelay(0, error, () => 0)).toBe(base / 2);
+    expect(retryDelay(2, error, () => 1)).toBe(base * 4);
+    expect(retryDelay(20, error, () => 1)).toBe(config.api.retryMaxDelay);
+  });
+
+  it("should wait as long as Retry-After asks, unless that is too long", () => {
+    expect(retryDelay(0, new RateLimitError("Slow down", 3))).toBe(3000);
+    expect(retryDelay(0, new ServerError("Unavailable", 503, undefined, 600))).toBeUndefined();
+  });
+});
+
+describe("HttpClient retries", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  const respond = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+
+  const createClient = () => {
+    const client = new HttpClient();
+    client.interceptors.response.use(errorNormalizationInterceptor);
+    return client;
+  };
+
+  it("should retry a GET after a 503 and return the later response", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(respond(503, { detail: "Down for a moment" }, { "Retry-After": "0" }))
+      .mockResolvedValueOnce(respond(200, { ok: true }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(createClient().get("/api/status/", { auth: false })).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry requests that change data", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(503, { detail: "Down" }, { "Retry-After": "0" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(createClient().post("/api/documents/", { title: "Notes" }, { auth: false })).rejects.toBeInstanceOf(ServerError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop waiting to retry once the caller aborts", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(503, { detail: "Down" }, { "Retry-After": "5" }));
+    vi.stubGlobal("fetch", fetchMock);
+    const controller = new AbortController();
+
+    const request = createClient().get("/api/status/", { auth: false, signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(request).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Retry policy for idempotent requests
+ * Dropped connections, throttling and briefly unavailable servers are worth
+ * another attempt; every other error fails straight away.
+ */
+
+import { config } from '../lib/config';
+import { NetworkError, RateLimitError, ResponseContractError, ServerError } from './errors';
+
+// Gateway errors and planned downtime, not bugs that fail the same way again
+const TRANSIENT_SERVER_STATUSES = [502, 503, 504];
+
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  error instanceof RateLimitError ||
+  (error instanceof ServerError &&
+    !(error instanceof ResponseContractError) &&
+    TRANSIENT_SERVER_STATUSES.includes(error.status));
+
+/**
+ * Milliseconds to wait before retry number `attempt` (from 0): the server's
+ * Retry-After when it sent one, otherwise exponential backoff with jitter so
+ * clients that failed together do not come back together. Undefined when the
+ * server asks for a longer wait than a request is held for.
+ */
+export const retryDelay = (attempt: number, error: unknown, random: () => number = Math.random): number | undefined => {
+  const retryAfter = error instanceof RateLimitError || error instanceof ServerError ? error.retryAfter : undefined;
+  if (retryAfter !== undefined) {
+    const delay = retryAfter * 1000;
+    return delay <= config.api.retryMaxDelay ? delay : undefined;
+  }
+
+  const backoff = Math.min(config.api.retryMaxDelay, config.api.retryBaseDelay * 2 ** attempt);
+  return backoff / 2 + random() * (backoff / 2);
+};
+
+/**
+ * Wait out a retry delay, rejecting with the abort reason if the caller cancels
+ */
+export const waitForRetry = (delay: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('The request was aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException('The request was aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import type { SessionTimerOptions } from "./sessionTimer";
+
+// Delivers to every other open channel of the same name, as browsers do between tabs
+class FakeBroadcastChannel {
+  static open = new Set<FakeBroadcastChannel>();
+  onmessage: ((message: MessageEvent) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.open.add(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.open.forEach(other => {
+      if (other !== this && other.name === this.name) other.onmessage?.({ data } as MessageEvent);
+    });
+  }
+
+  close() {
+    FakeBroadcastChannel.open.delete(this);
+  }
+}
+
+const MINUTE = 60 * 1000;
+
+// Each tab loads its own copy of the modules and times its own session; localStorage is shared
+const openTab = async (options: Partial<SessionTimerOptions> = {}) => {
+  vi.resetModules();
+  const { startSessionTimer } = await import("./sessionTimer");
+  const callbacks = { onWarning: vi.fn(), onActive: vi.fn(), onExpire: vi.fn() };
+  const timer = startSessionTimer({ timeout: 10 * MINUTE, warningTime: 5 * MINUTE, ...callbacks, ...options });
+  return { timer, ...callbacks };
+};
+
+describe("session timer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    const storage = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    vi.stubGlobal("window", new EventTarget());
+    vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    FakeBroadcastChannel.open.clear();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("should warn before the timeout and count down to the end of the session", async () => {
+    const tab = await openTab();
+
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect(tab.onWarning).toHaveBeenLastCalledWith(5 * MINUTE);
+    vi.advanceTimersByTime(1000);
+    expect(tab.onWarning).toHaveBeenLastCalledWith(5 * MINUTE - 1000);
+    expect(tab.onExpire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect(tab.onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it("should restart the countdown when another tab is used", async () => {
+    const idle = await openTab();
+    const busy = await openTab();
+
+    vi.advanceTimersByTime(6 * MINUTE);
+    expect(idle.onWarning).toHaveBeenCalled();
+    busy.timer.recordActivity();
+    expect(idle.onActive).toHaveBeenCalled();
+
+    vi.advanceTimersByTime(9 * MINUTE);
+    expect(idle.onExpire).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1 * MINUTE);
+    expect(idle.onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep the session when another tab was used but its message was missed", async () => {
+    const tab = await openTab();
+    const other = await openTab();
+    vi.advanceTimersByTime(2 * MINUTE);
+    // The message is lost, so the activity is only in shared storage
+    FakeBroadcastChannel.open.clear();
+    other.timer.recordActivity();
+
+    vi.advanceTimersByTime(9 * MINUTE);
+    expect(tab.onExpire).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1 * MINUTE);
+    expect(tab.onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it("should close the warning in every tab when one extends the session", async () => {
+    const first = await openTab();
+    const second = await openTab();
+    vi.advanceTimersByTime(6 * MINUTE);
+    first.onActive.mockClear();
+
+    second.timer.extend();
+
+    expect(first.onActive).toHaveBeenCalled();
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect(first.onExpire).not.toHaveBeenCalled();
+  });
+
+  it("should stop timing and listening once stopped", async () => {
+    const stopped = await openTab();
+    const other = await openTab();
+    stopped.timer.stop();
+    stopped.onActive.mockClear();
+
+    other.timer.extend();
+    vi.advanceTimersByTime(20 * MINUTE);
+
+    expect(stopped.onActive).not.toHaveBeenCalled();
+    expect(stopped.onExpire).not.toHaveBeenCalled();
+  });
+});
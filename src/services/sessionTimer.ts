@@ -0,0 +1,123 @@
+/**
+ * Idle session timer
+ * Counts down from the last activity in any open tab, warns before the
+ * session ends and ends it once no tab has been used for the whole timeout
+ */
+
+import { config } from '../lib/config';
+import { getLastActivity, publishAuthEvent, recordActivity, subscribeAuthEvents } from './authChannel';
+
+export interface SessionTimerOptions {
+  timeout: number; // Milliseconds without activity before the session ends
+  warningTime: number; // Milliseconds before the end that the warning shows
+  onWarning: (remaining: number) => void; // When the warning opens and every second after
+  onActive: () => void; // Activity here or in another tab closed the warning
+  onExpire: () => void;
+}
+
+export interface SessionTimer {
+  recordActivity: () => void; // Input in this tab; throttled before it resets anything
+  extend: () => void; // Closes the warning in every tab
+  stop: () => void;
+}
+
+/**
+ * Start timing from now; opening a tab counts as activity
+ */
+export const startSessionTimer = (options: SessionTimerOptions): SessionTimer => {
+  const { timeout, warningTime, onWarning, onActive, onExpire } = options;
+
+  let lastActivity = 0;
+  let lastBroadcast = 0;
+  let warningTimer: ReturnType<typeof setTimeout> | null = null;
+  let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  let countdownTimer: ReturnType<typeof setInterval> | null = null;
+
+  const clearTimers = () => {
+    if (warningTimer) clearTimeout(warningTimer);
+    if (expiryTimer) clearTimeout(expiryTimer);
+    if (countdownTimer) clearInterval(countdownTimer);
+    warningTimer = expiryTimer = countdownTimer = null;
+  };
+
+  // Another tab may have been used since this one last heard about it
+  const expire = () => {
+    const sharedActivity = getLastActivity();
+    if (sharedActivity > lastActivity) {
+      reset(sharedActivity);
+    } else {
+      clearTimers();
+      onExpire();
+    }
+  };
+
+  const startCountdown = (remaining: number) => {
+    onWarning(remaining);
+
+    countdownTimer = setInterval(() => {
+      remaining -= 1000;
+      onWarning(Math.max(remaining, 0));
+
+      if (remaining <= 0) {
+        expire();
+      }
+    }, 1000);
+  };
+
+  // Restart the countdown from the last activity, which may have happened in another tab
+  const reset = (at: number) => {
+    lastActivity = at;
+    clearTimers();
+    onActive();
+
+    const remaining = timeout - (Date.now() - at);
+    const timeToWarning = remaining - warningTime;
+
+    if (timeToWarning > 0) {
+      warningTimer = setTimeout(() => startCountdown(warningTime), timeToWarning);
+    } else {
+      // Sessions shorter than the warning show it straight away
+      startCountdown(Math.max(remaining, 0));
+    }
+
+    expiryTimer = setTimeout(expire, Math.max(remaining, 0));
+  };
+
+  const unsubscribe = subscribeAuthEvents(event => {
+    if ((event.type === 'activity' || event.type === 'session-extended') && event.at > lastActivity) {
+      reset(event.at);
+    }
+  });
+
+  const now = Date.now();
+  reset(now);
+  recordActivity(now);
+
+  return {
+    recordActivity: () => {
+      const now = Date.now();
+      // Only update if more than 1 second has passed since last activity
+      if (now - lastActivity <= 1000) return;
+
+      reset(now);
+      recordActivity(now);
+
+      // Other tabs only need an occasional heartbeat to keep their timers in step
+      if (now - lastBroadcast > config.auth.activitySyncInterval) {
+        lastBroadcast = now;
+        publishAuthEvent({ type: 'activity', at: now });
+      }
+    },
+
+    extend: () => {
+      const now = Date.now();
+      reset(now);
+      publishAuthEvent({ type: 'session-extended', at: now });
+    },
+
+    stop: () => {
+      clearTimers();
+      unsubscribe();
+    },
+  };
+};
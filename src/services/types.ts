@@ -1,30 +1,65 @@
 /**
- * TypeScript interfaces matching Django REST Framework models
+ * TypeScript interfaces matching Django REST Framework models. The domain
+ * records and request bodies are zod contracts in @shared/api; this module
+ * re-exports their types next to the client-only shapes.
  */
 
-// Base types
-export type UserRole = 'admin' | 'teacher';
-export type TeacherStatus = 'active' | 'pending' | 'suspended' | 'rejected';
-export type DocumentStatus = 'active' | 'flagged' | 'archived' | 'published';
-export type ActivityAction = 'create' | 'update' | 'delete' | 'view' | 'download' | 'share' | 'flag' | 'archive' | 'login' | 'logout' | 'approve' | 'reject' | 'preview';
+import type { ActivityAction, ActivityLog, FeatureFlag, FeatureFlagRule, TwoFactorMethod, User } from '@shared/api';
+
+export type {
+  ActiveSession,
+  ActivityAction,
+  ActivityLog,
+  BasicPublicSettings,
+  CategoryCreateRequest,
+  CategoryUpdateRequest,
+  ChangePasswordRequest,
+  DashboardStats,
+  Document,
+  DocumentCategory,
+  DocumentCategoryRef,
+  DocumentCreateRequest,
+  DocumentShare,
+  DocumentShareRequest,
+  DocumentStatus,
+  DocumentTeacherRef,
+  DocumentUpdateRequest,
+  FeatureFlag,
+  FeatureFlagRule,
+  Invitation,
+  InvitationAcceptRequest,
+  InvitationBatch,
+  InvitationCreateRequest,
+  InvitationPreview,
+  InvitationStatus,
+  LoginRequest,
+  OTPSendRequest,
+  OTPVerificationRequest,
+  Passkey,
+  PasskeyLoginRequest,
+  PasskeyRegistrationRequest,
+  PasskeyRenameRequest,
+  PasswordPolicy,
+  PasswordResetConfirmRequest,
+  PasswordResetRequest,
+  PublicSettings,
+  RegisterRequest,
+  ReportsData,
+  SecuritySettings,
+  SystemSettings,
+  Teacher,
+  TeacherApprovalRequest,
+  TeacherCreateRequest,
+  TeacherDashboardStats,
+  TeacherStatus,
+  TeacherUpdateRequest,
+  TotpConfirmRequest,
+  TwoFactorMethod,
+  User,
+  UserRole,
+} from '@shared/api';
 
 // User & Authentication types
-export interface User {
-  id: string;
-  email: string;
-  firstName: string;
-  lastName: string;
-  role: UserRole;
-  isActive: boolean;
-  dateJoined: string;
-  lastLogin?: string;
-  profilePicture?: string;
-  username?: string; // Added to match Django backend
-  phoneNumber?: string; // Added to match Django backend
-  bio?: string; // Added to match Django backend
-  teacherProfileId?: number; // Teacher profile ID for filtering shares
-}
-
 export interface UserPreferences {
   id: string;
   two_factor_enabled: boolean;
@@ -40,6 +75,9 @@ export interface UserPreferences {
   effective_2fa_setting: boolean;
   effective_session_timeout: number;
   max_allowed_session_timeout: number;
+  totp_enabled?: boolean; // An authenticator app is enrolled
+  totp_required?: boolean; // Policy makes this account sign in with an authenticator app
+  passkey_required?: boolean; // Policy makes this account sign in with a passkey once it has one
 }
 
 export interface ProfileResponse {
@@ -47,43 +85,34 @@ export interface ProfileResponse {
   preferences: UserPreferences;
 }
 
-export interface ChangePasswordRequest {
-  current_password: string;
-  new_password: string;
-}
-
 export interface AuthTokens {
   access: string;
   refresh: string;
 }
 
-export interface LoginRequest {
-  email: string;
-  password: string;
-}
-
 export interface LoginResponse {
   user: User;
   tokens: AuthTokens | null; // null during OTP flow
   requiresOtp?: boolean; // Added for OTP flow
+  methods?: TwoFactorMethod[]; // How the OTP can be confirmed, the preferred one first
 }
 
-export interface RegisterRequest {
-  email: string;
-  firstName: string;
-  lastName: string;
-  password: string;
-  confirmPassword: string;
-  phoneNumber?: string;
+// A pending authenticator app enrollment; qrCode is an image URL when the backend renders one
+export interface TotpSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode?: string;
 }
 
-export interface OTPVerificationRequest {
-  user_id: string; // Changed to match Django backend
-  otp: string;
+// The backend only keeps hashes, so the codes themselves are seen once, right after generating
+export interface RecoveryCodeStatus {
+  remaining: number;
+  generatedAt?: string; // Unset until the user first generates codes
 }
 
-export interface PasswordResetRequest {
-  email: string;
+export interface RecoveryCodes {
+  codes: string[];
+  generatedAt: string;
 }
 
 export interface PasswordResetResponse {
@@ -91,286 +120,7 @@ export interface PasswordResetResponse {
   message: string;
 }
 
-export interface PasswordResetConfirmRequest {
-  user_id: string;
-  otp: string;
-  password: string;
-}
-
-// Teacher types
-export interface Teacher {
-  id: string;
-  user: User;
-  phoneNumber?: string;
-  bio?: string;
-  status: TeacherStatus;
-  approvedBy?: string;
-  approvedAt?: string;
-  rejectedBy?: string;
-  rejectedAt?: string;
-  rejectionReason?: string;
-  documentsCount: number;
-  sharedDocumentsCount: number;
-  totalDownloads: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface TeacherCreateRequest {
-  user: {
-    email: string;
-    firstName: string;
-    lastName: string;
-    password: string;
-  };
-  phoneNumber?: string;
-  bio?: string;
-}
-
-export interface TeacherUpdateRequest {
-  phoneNumber?: string;
-  bio?: string;
-  profilePicture?: File;
-  status?: TeacherStatus;
-}
-
-export interface TeacherApprovalRequest {
-  approved: boolean;
-  rejectionReason?: string;
-}
-
-// Document types
-export interface DocumentCategory {
-  id: string;
-  name: string;
-  description: string;
-  requiresClassSubject: boolean;
-  documentsCount: number;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface Document {
-  id: string;
-  title: string;
-  description?: string;
-  category: DocumentCategory;
-  teacher: Teacher;
-  teacherName?: string; // For public shares where full teacher data may not be available
-  fileName: string;
-  fileSize: number;
-  fileType: string;
-  filePath: string;
-  classLevel?: string;
-  subject?: string;
-  isShared: boolean;
-  sharedWith: string[]; // Array of user IDs who have access
-  sharedAt?: string;
-  downloadCount: number;
-  status: DocumentStatus;
-  tags: string[];
-  createdAt: string;
-  updatedAt: string;
-  // New fields for persistent sharing
-  public_share_url?: string; // Will be null if no public share exists
-  shared_with_emails: Array<{
-    email: string;
-    name: string;
-    shared_at: string;
-  }>;
-}
-
-export interface DocumentCreateRequest {
-  title: string;
-  description?: string;
-  categoryId: string;
-  file: File;
-  classLevel?: string;
-  subject?: string;
-  tags?: string[];
-}
-
-export interface DocumentUpdateRequest {
-  title?: string;
-  description?: string;
-  categoryId?: string;
-  classLevel?: string;
-  subject?: string;
-  status?: string;
-  tags?: string[];
-}
-
-export interface DocumentShareRequest {
-  share_type: 'public' | 'private';
-  shared_with?: string; // Teacher ID for private shares
-  shared_with_emails?: string[]; // Teacher emails for multiple private shares
-  can_download?: boolean;
-  can_view?: boolean;
-  expires_at?: string; // ISO date string
-  message?: string; // Optional message to include with the share
-}
-
-export interface DocumentShare {
-  id: string;
-  document: string; // Document ID
-  shared_by: number; // Teacher ID
-  shared_with?: number; // Teacher ID for private shares
-  share_type: 'public' | 'private';
-  share_token: string;
-  can_download: boolean;
-  can_view: boolean;
-  is_active: boolean;
-  expires_at?: string;
-  shared_at: string;
-  public_url?: string;
-  // Additional fields from backend serializer
-  shared_by_name?: string;
-  shared_with_name?: string;
-  document_title?: string;
-  document_file_name?: string;
-  document_file_type?: string;
-  document_file_size?: number;
-  document_file_size_mb?: number;
-  document_download_count?: number;
-  document_category_id?: string;
-  document_category_name?: string;
-  document_description?: string;
-  document_class_level?: string;
-  document_subject?: string;
-  document_status?: string;
-  document_created_at?: string;
-  is_expired?: boolean;
-}
-
-// Category types
-export interface CategoryCreateRequest {
-  name: string;
-  description?: string;
-  requiresClassSubject: boolean;
-}
-
-export interface CategoryUpdateRequest {
-  name?: string;
-  description?: string;
-  requiresClassSubject?: boolean;
-  isActive?: boolean;
-}
-
-// Activity Log types
-export interface ActivityLog {
-  id: string;
-  user: User;
-  action: ActivityAction;
-  targetType?: string;
-  targetId?: string;
-  targetName?: string;
-  description: string;
-  ipAddress?: string;
-  userAgent?: string;
-  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  metadata?: Record<string, any>;
-  createdAt: string;
-}
-
-// Dashboard & Statistics types
-export interface DashboardStats {
-  totalTeachers: number;
-  activeTeachers: number;
-  pendingTeachers: number;
-  suspendedTeachers: number;
-  totalDocuments: number;
-  sharedDocuments: number;
-  totalCategories: number;
-  activeCategories: number;
-  totalDownloads: number;
-  recentActivity: ActivityLog[];
-  documentsUploadedToday: number;
-  documentsUploadedThisWeek: number;
-  documentsUploadedThisMonth: number;
-}
-
-export interface TeacherDashboardStats {
-  documentsUploaded: number;
-  documentsShared: number;
-  totalDownloads: number;
-  storageUsed: number; // in MB
-  maxStorage: number; // in MB  
-  storagePercentage: number; // percentage used
-  recentDocuments: Document[];
-  recentActivity: ActivityLog[];
-  categoryBreakdown: Array<{
-    category: string;
-    count: number;
-  }>;
-}
-
-export interface ReportsData {
-  totalUsers: number;
-  activeUsers: number;
-  totalDocuments: number;
-  totalDownloads: number;
-  storageUsed: number; // in GB
-  popularCategories: Array<{
-    name: string;
-    count: number;
-    percentage: number;
-  }>;
-  monthlyUploads: Array<{
-    month: string;
-    uploads: number;
-  }>;
-  topUploaders: Array<{
-    name: string;
-    uploads: number;
-    downloads: number;
-  }>;
-  // Percentage changes
-  usersChange?: number;
-  documentsChange?: number;
-  downloadsChange?: number;
-  storageChange?: number;
-  // Detailed analytics
-  storageByFileType?: Array<{
-    fileType: string;
-    usage: number;
-    percentage: number;
-  }>;
-  topDocuments?: Array<{
-    title: string;
-    downloadCount: number;
-    category: string;
-    teacher: string;
-  }>;
-  activityMetrics?: {
-    avgLoginsPerUser: number;
-    avgUploadsPerTeacher: number;
-    avgDownloadsPerTeacher: number;
-  };
-  activityPatterns?: {
-    mostActiveDay: string;
-    mostActiveHour: number;
-    hourFormat: string;
-  };
-}
-
 // Settings types
-export interface SystemSettings {
-  siteName: string;
-  siteDescription: string;
-  maxFileSize: number; // in MB
-  allowedFileTypes: string[];
-  sessionTimeout: number; // in minutes
-  maintenanceMode: boolean;
-  registrationEnabled: boolean;
-  requireAdminApproval: boolean;
-}
-
-export interface SecuritySettings {
-  twoFactorRequired: boolean;
-  enableAuditLogs: boolean;
-}
-
 export interface NotificationSettings {
   emailNotifications: boolean;
   documentShared: boolean;
@@ -378,6 +128,18 @@ export interface NotificationSettings {
   weeklyDigest: boolean;
 }
 
+// Flag rules from the public settings; flags they leave out keep their registry default
+export type FeatureFlagRules = Partial<Record<FeatureFlag, FeatureFlagRule>>;
+
+// Activity log filters, in the client's terms; the API client translates them for the backend
+export interface ActivityLogFilters {
+  query?: string;
+  action?: ActivityAction;
+  userId?: string;
+  severity?: 'low' | 'medium' | 'high'; // 'high' includes critical entries
+  days?: number; // Only entries from this many days back
+}
+
 // Search types
 export interface SearchFilters {
   query?: string;
@@ -414,16 +176,10 @@ export interface PaginatedResponse<T> {
   results: T[];
 }
 
-// Error types
-export interface ApiError {
-  message: string;
-  status: number;
-  errors?: Record<string, string[]>;
-}
-
-export interface ValidationError {
-  field: string;
-  message: string;
+export interface PaginationParams {
+  page?: number;
+  pageSize?: number;
+  cursor?: string; // A next/previous URL returned with an earlier page
 }
 
 // File Upload types
@@ -433,6 +189,41 @@ export interface FileUploadProgress {
   percentage: number;
 }
 
+// Server-side state of a chunked upload
+export interface UploadSession {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  expiresAt?: string;
+}
+
+export type UploadPhase = 'uploading' | 'paused' | 'resuming';
+
+export interface UploadTransferState {
+  phase: UploadPhase;
+  chunksUploaded: number;
+  totalChunks: number;
+  bytesRemaining: number;
+  resumed: boolean; // Some chunks were already on the server when this attempt started
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborting cancels the request; the call rejects with an AbortError
+}
+
+export interface DownloadOptions extends RequestOptions {
+  shareToken?: string;
+  onProgress?: (progress: FileUploadProgress) => void; // total is 0 when the server does not send a length
+  // Asked before the body is fetched when the file is over config.download.confirmSizeThreshold
+  confirmLargeDownload?: (size: number) => boolean | Promise<boolean>;
+}
+
+export interface UploadOptions extends RequestOptions {
+  onProgress?: (progress: FileUploadProgress) => void;
+  onStateChange?: (state: UploadTransferState) => void; // Chunked uploads only
+}
+
 export interface FileUploadResponse {
   id: string;
   fileName: string;
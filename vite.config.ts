@@ -1,25 +1,44 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-    fs: {
-      allow: ["./src", "./shared"],
-      deny: [".env", ".env.*", "*.{crt,pem}", "**/.git/**"],
+export default defineConfig(({ mode }) => {
+  // SANDBOX_API=true serves /api from the in-memory sandbox, so no backend is needed
+  const sandbox = loadEnv(mode, process.cwd(), "").SANDBOX_API === "true";
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+      fs: {
+        allow: ["./src", "./shared"],
+        deny: [".env", ".env.*", "*.{crt,pem}", "**/.git/**"],
+      },
+    },
+    build: {
+      outDir: "dist/spa",
     },
-  },
-  build: {
-    outDir: "dist/spa",
-  },
-  plugins: [react()],
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
-      "@shared": path.resolve(__dirname, "./shared"),
+    plugins: [react(), ...(sandbox ? [sandboxPlugin()] : [])],
+    // The client talks to the sandbox on the dev server's own origin
+    define: sandbox ? { "import.meta.env.VITE_API_BASE_URL": JSON.stringify("/api") } : {},
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+        "@shared": path.resolve(__dirname, "./shared"),
+      },
+    },
+  };
+});
+
+function sandboxPlugin(): Plugin {
+  return {
+    name: "sandbox-api",
+    apply: "serve",
+    // Loaded only when enabled, so builds and plain dev servers never pull in Express or the sandbox
+    async configureServer(server) {
+      const { createServer } = await import("./server");
+      server.middlewares.use(createServer({ sandbox: true }));
     },
-  },
-}));
+  };
+}